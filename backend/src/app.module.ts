@@ -3,12 +3,31 @@ import { ConfigModule } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { FlipbookModule } from './modules/flipbook/flipbook.module';
 import { CanvaModule } from './modules/canva/canva.module';
+import { ImportJobModule } from './modules/import-job/import-job.module';
+import { StorageModule } from './modules/storage/storage.module';
+import { AnalyticsModule } from './modules/analytics/analytics.module';
+import { ShareLinkModule } from './modules/share-link/share-link.module';
+import { QrCodeModule } from './modules/qr-code/qr-code.module';
+import { SharePreviewModule } from './modules/share-preview/share-preview.module';
+import { ExportModule } from './modules/export/export.module';
+import { UserModule } from './modules/user/user.module';
+import { AuthModule } from './modules/auth/auth.module';
+import { CanvaSimulatorModule } from './modules/canva-simulator/canva-simulator.module';
+import appConfig from './config/app.config';
 import databaseConfig from './config/database.config';
+import storageConfig from './config/storage.config';
+import shareLinkConfig from './config/share-link.config';
+import qrCodeConfig from './config/qr-code.config';
+import exportConfig from './config/export.config';
+import importConfig from './config/import.config';
+import authConfig from './config/auth.config';
+import canvaConfig from './config/canva.config';
+import canvaSimulatorConfig from './config/canva-simulator.config';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
-      load: [databaseConfig],
+      load: [appConfig, databaseConfig, storageConfig, shareLinkConfig, qrCodeConfig, exportConfig, importConfig, authConfig, canvaConfig, canvaSimulatorConfig],
       isGlobal: true,
       envFilePath: ['.env.local', '.env'],
     }),
@@ -17,6 +36,16 @@ import databaseConfig from './config/database.config';
     }),
     FlipbookModule,
     CanvaModule,
+    ImportJobModule,
+    StorageModule,
+    AnalyticsModule,
+    ShareLinkModule,
+    QrCodeModule,
+    SharePreviewModule,
+    ExportModule,
+    UserModule,
+    AuthModule,
+    CanvaSimulatorModule,
   ],
 })
 export class AppModule {}
\ No newline at end of file
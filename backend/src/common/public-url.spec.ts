@@ -0,0 +1,31 @@
+import { BadRequestException } from '@nestjs/common';
+import { assertPublicUrl } from './public-url';
+
+describe('assertPublicUrl', () => {
+  it.each([
+    'http://127.0.0.1/admin',
+    'http://10.0.0.5/page.png',
+    'http://169.254.169.254/latest/meta-data/',
+    'http://172.16.0.1/page.png',
+    'http://192.168.1.10/page.png',
+    'http://[::1]/page.png',
+    'http://[::ffff:192.168.1.10]/page.png',
+    'http://[fd00::1]/page.png',
+  ])('rejects the private address %s', async (url) => {
+    await expect(assertPublicUrl(url, 'imageUrl')).rejects.toThrow('imageUrl must point to a public host');
+  });
+
+  it.each(['file:///etc/passwd', 'ftp://203.0.113.7/page.png', 'example.com/page.png'])(
+    'rejects the non-http URL %s',
+    async (url) => {
+      await expect(assertPublicUrl(url, 'imageUrl')).rejects.toBeInstanceOf(BadRequestException);
+    },
+  );
+
+  it.each(['https://203.0.113.7/page.png', 'https://[::ffff:203.0.113.7]/page.png'])(
+    'accepts the public address %s',
+    async (url) => {
+      await expect(assertPublicUrl(url, 'imageUrl')).resolves.toBeInstanceOf(URL);
+    },
+  );
+});
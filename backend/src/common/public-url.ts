@@ -0,0 +1,59 @@
+import { BadRequestException } from '@nestjs/common';
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+// 사용자가 넣은 URL을 서버가 내려받기 전에 확인 (http/https만, 사설망·루프백 주소로 해석되는 호스트는 거절)
+// 리다이렉트로 우회하지 못하도록 요청은 maxRedirects: 0으로 보내야 함
+export const assertPublicUrl = async (url: string, field: string): Promise<URL> => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new BadRequestException(`${field} must be an absolute URL`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new BadRequestException(`${field} must be an http or https URL`);
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((entry) => entry.address);
+  } catch {
+    throw new BadRequestException(`${field} host could not be resolved`);
+  }
+
+  if (addresses.some(isPrivateAddress)) {
+    throw new BadRequestException(`${field} must point to a public host`);
+  }
+  return parsed;
+};
+
+// IPv4 매핑 IPv6 주소는 IPv4 주소로 바꿔서 확인 (URL은 ::ffff:a.b.c.d를 ::ffff:xxxx:xxxx로 정규화함)
+const mappedIPv4 = (address: string): string | null => {
+  const dotted = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (dotted) {
+    return dotted[1];
+  }
+
+  const hex = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+  if (!hex) {
+    return null;
+  }
+  const [high, low] = [parseInt(hex[1], 16), parseInt(hex[2], 16)];
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+};
+
+const isPrivateAddress = (address: string): boolean => {
+  const mapped = mappedIPv4(address);
+  if (isIP(address) === 6 && !mapped) {
+    return /^(::1?$|f[cd]|fe[89ab])/i.test(address);
+  }
+
+  const [a, b] = (mapped || address).split('.').map(Number);
+  return a === 0 || a === 10 || a === 127
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168);
+};
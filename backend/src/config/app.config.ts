@@ -0,0 +1,21 @@
+import { registerAs } from '@nestjs/config';
+
+export interface AppConfig {
+  name: string;
+  // 프론트엔드(리더 /view/:slug)의 공개 주소
+  baseUrl: string;
+  // 메타 태그를 주입할 프론트엔드 빌드 index.html (없으면 최소한의 HTML로 응답)
+  indexHtmlPath: string;
+  // 오프라인 HTML 패키지에 넣을 리더 빌드 (npm run build:offline 결과)
+  offlineReaderPath: string;
+  // 오프라인 HTML 패키지에 넣을 사운드 파일 폴더
+  soundsPath: string;
+}
+
+export default registerAs('app', (): AppConfig => ({
+  name: process.env.APP_NAME || 'FlipCanva',
+  baseUrl: (process.env.APP_BASE_URL || 'http://localhost:5173').replace(/\/+$/, ''),
+  indexHtmlPath: process.env.APP_INDEX_HTML_PATH || '../dist/index.html',
+  offlineReaderPath: process.env.APP_OFFLINE_READER_PATH || '../dist-offline',
+  soundsPath: process.env.APP_SOUNDS_PATH || '../public/sounds',
+}));
@@ -0,0 +1,19 @@
+import { registerAs } from '@nestjs/config';
+
+export interface AuthConfig {
+  // JWT 서명 키 (미설정 시 서버 시작마다 임의 생성되어 재시작하면 다시 로그인해야 함)
+  jwtSecret?: string;
+  // 액세스 토큰 유효 시간 (초)
+  accessTokenTtl: number;
+  // 리프레시 토큰 유효 시간 (초)
+  refreshTokenTtl: number;
+  // 세션 쿠키에 Secure 속성 부여 (HTTPS로만 전송)
+  cookieSecure: boolean;
+}
+
+export default registerAs('auth', (): AuthConfig => ({
+  jwtSecret: process.env.JWT_SECRET,
+  accessTokenTtl: parseInt(process.env.JWT_ACCESS_TOKEN_TTL || '900', 10),
+  refreshTokenTtl: parseInt(process.env.JWT_REFRESH_TOKEN_TTL || '2592000', 10),
+  cookieSecure: (process.env.AUTH_COOKIE_SECURE || String(process.env.NODE_ENV === 'production')) === 'true',
+}));
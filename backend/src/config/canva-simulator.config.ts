@@ -0,0 +1,24 @@
+import { registerAs } from '@nestjs/config';
+
+export interface CanvaSimulatorConfig {
+  // /canva-simulator 아래에 Canva Connect API 대역을 띄움 (개발/CI 전용)
+  enabled: boolean;
+  // 처음 조회되는 디자인의 페이지 수
+  pageCount: number;
+  // 내보내기 작업이 success가 되기 전까지 in_progress로 응답하는 조회 횟수
+  exportPolls: number;
+  // 발급하는 액세스 토큰의 유효 시간 (초)
+  tokenTtl: number;
+  // 생성하는 페이지 이미지 크기 (px)
+  pageWidth: number;
+  pageHeight: number;
+}
+
+export default registerAs('canvaSimulator', (): CanvaSimulatorConfig => ({
+  enabled: process.env.CANVA_SIMULATOR_ENABLED === 'true',
+  pageCount: parseInt(process.env.CANVA_SIMULATOR_PAGE_COUNT || '3', 10),
+  exportPolls: parseInt(process.env.CANVA_SIMULATOR_EXPORT_POLLS || '2', 10),
+  tokenTtl: parseInt(process.env.CANVA_SIMULATOR_TOKEN_TTL || '14400', 10),
+  pageWidth: parseInt(process.env.CANVA_SIMULATOR_PAGE_WIDTH || '800', 10),
+  pageHeight: parseInt(process.env.CANVA_SIMULATOR_PAGE_HEIGHT || '1200', 10),
+}));
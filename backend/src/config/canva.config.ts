@@ -0,0 +1,34 @@
+import { registerAs } from '@nestjs/config';
+
+export interface CanvaConfig {
+  // Canva Connect REST API 주소 (개발/CI에서는 /canva-simulator/rest/v1을 가리킬 수 있음)
+  apiBaseUrl: string;
+  // 사용자를 보내는 OAuth 인증 페이지
+  authUrl: string;
+  // 저장된 Canva 토큰을 암호화하는 키 (미설정 시 서버 시작마다 임의 생성되어 재시작하면 Canva를 다시 연결해야 함)
+  tokenEncryptionKey?: string;
+  // 만료까지 이 시간(초)보다 적게 남은 액세스 토큰은 Canva 호출 전에 미리 갱신
+  tokenRefreshMargin: number;
+  // OAuth 인증을 시작한 뒤 콜백까지 기다리는 시간 (초)
+  authSessionTtl: number;
+  // Canva API 요청 하나를 기다리는 시간 (ms)
+  requestTimeout: number;
+  // 429, 타임아웃, 5xx 응답을 다시 시도하는 횟수
+  maxRetries: number;
+  // 재시도 간격의 기준값 (ms, 시도마다 두 배로 늘리고 무작위로 분산)
+  retryBaseDelay: number;
+  // Retry-After가 이 시간(초)보다 길면 기다리지 않고 바로 CANVA_RATE_LIMITED로 실패
+  maxRetryAfter: number;
+}
+
+export default registerAs('canva', (): CanvaConfig => ({
+  apiBaseUrl: (process.env.CANVA_API_BASE_URL || 'https://api.canva.com/rest/v1').replace(/\/+$/, ''),
+  authUrl: process.env.CANVA_AUTH_URL || 'https://www.canva.com/api/oauth/authorize',
+  tokenEncryptionKey: process.env.CANVA_TOKEN_ENCRYPTION_KEY,
+  tokenRefreshMargin: parseInt(process.env.CANVA_TOKEN_REFRESH_MARGIN || '300', 10),
+  authSessionTtl: parseInt(process.env.CANVA_AUTH_SESSION_TTL || '300', 10),
+  requestTimeout: parseInt(process.env.CANVA_REQUEST_TIMEOUT || '15000', 10),
+  maxRetries: parseInt(process.env.CANVA_MAX_RETRIES || '3', 10),
+  retryBaseDelay: parseInt(process.env.CANVA_RETRY_BASE_DELAY || '500', 10),
+  maxRetryAfter: parseInt(process.env.CANVA_MAX_RETRY_AFTER || '60', 10),
+}));
@@ -2,11 +2,25 @@ import { registerAs } from '@nestjs/config';
 import { TypeOrmModuleOptions } from '@nestjs/typeorm';
 import { Flipbook } from '../entities/flipbook.entity';
 import { Page } from '../entities/page.entity';
+import { ImportJob } from '../entities/import-job.entity';
+import { ViewSession } from '../entities/view-session.entity';
+import { PageView } from '../entities/page-view.entity';
+import { ShareLink } from '../entities/share-link.entity';
+import { FlipbookSlugRedirect } from '../entities/flipbook-slug-redirect.entity';
+import { EmbedEvent } from '../entities/embed-event.entity';
+import { FlipbookVersion } from '../entities/flipbook-version.entity';
+import { User } from '../entities/user.entity';
+import { RefreshToken } from '../entities/refresh-token.entity';
+import { CanvaConnection } from '../entities/canva-connection.entity';
+import { CanvaAuthSession } from '../entities/canva-auth-session.entity';
 
 export default registerAs('database', (): TypeOrmModuleOptions => ({
   type: 'sqlite',
   database: process.env.DB_PATH || 'database.sqlite',
-  entities: [Flipbook, Page],
+  entities: [
+    Flipbook, Page, ImportJob, ViewSession, PageView, ShareLink, FlipbookSlugRedirect, EmbedEvent, FlipbookVersion,
+    User, RefreshToken, CanvaConnection, CanvaAuthSession,
+  ],
   synchronize: process.env.NODE_ENV !== 'production',
   logging: process.env.NODE_ENV === 'development',
   autoLoadEntities: true,
@@ -0,0 +1,10 @@
+import { registerAs } from '@nestjs/config';
+
+export interface ExportConfig {
+  // PDF 검색용 텍스트 레이어에 쓸 TTF/OTF 글꼴 (없으면 기본 Helvetica, 한글 등은 표현 불가)
+  pdfTextFontPath?: string;
+}
+
+export default registerAs('export', (): ExportConfig => ({
+  pdfTextFontPath: process.env.PDF_TEXT_FONT_PATH || undefined,
+}));
@@ -0,0 +1,23 @@
+import { registerAs } from '@nestjs/config';
+
+export interface ImportConfig {
+  // 업로드한 PDF/ZIP/이미지를 가져오기 작업이 끝날 때까지 보관하는 로컬 디렉터리
+  uploadPath: string;
+  maxFileSize: number;
+  maxFiles: number;
+  // 한 번에 만들 수 있는 최대 페이지 수 (CreateFlipbookDto.pages 제한과 동일)
+  maxPages: number;
+  // PDF 페이지를 래스터화할 때의 가로 픽셀 수
+  pdfRenderWidth: number;
+  // Canva 디자인이 마지막 내보내기 이후 수정되었는지 확인하는 주기 (분, 0이면 끔)
+  syncCheckIntervalMinutes: number;
+}
+
+export default registerAs('import', (): ImportConfig => ({
+  uploadPath: process.env.IMPORT_UPLOAD_PATH || `${process.env.STORAGE_PATH || 'storage'}/.uploads`,
+  maxFileSize: parseInt(process.env.IMPORT_MAX_FILE_SIZE_MB || '100', 10) * 1024 * 1024,
+  maxFiles: parseInt(process.env.IMPORT_MAX_FILES || '200', 10),
+  maxPages: parseInt(process.env.IMPORT_MAX_PAGES || '500', 10),
+  pdfRenderWidth: parseInt(process.env.PDF_RENDER_WIDTH || '2000', 10),
+  syncCheckIntervalMinutes: parseInt(process.env.CANVA_SYNC_CHECK_INTERVAL_MINUTES || '0', 10),
+}));
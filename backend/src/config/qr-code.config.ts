@@ -0,0 +1,12 @@
+import { registerAs } from '@nestjs/config';
+
+export interface QrCodeConfig {
+  // 로고 이미지 다운로드 제한
+  logoFetchTimeout: number;
+  logoMaxBytes: number;
+}
+
+export default registerAs('qrCode', (): QrCodeConfig => ({
+  logoFetchTimeout: parseInt(process.env.QR_LOGO_FETCH_TIMEOUT || '5000', 10),
+  logoMaxBytes: parseInt(process.env.QR_LOGO_MAX_BYTES || String(2 * 1024 * 1024), 10),
+}));
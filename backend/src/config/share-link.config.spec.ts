@@ -0,0 +1,36 @@
+import shareLinkConfig from './share-link.config';
+
+describe('shareLinkConfig', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env };
+    delete process.env.SHARE_LINK_SECRET;
+    delete process.env.JWT_SECRET;
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('uses SHARE_LINK_SECRET when it is set', () => {
+    process.env.SHARE_LINK_SECRET = 'share-secret';
+    process.env.JWT_SECRET = 'jwt-secret';
+
+    expect(shareLinkConfig().secret).toBe('share-secret');
+  });
+
+  it('derives a separate key from JWT_SECRET instead of reusing it', () => {
+    process.env.JWT_SECRET = 'jwt-secret';
+
+    const { secret } = shareLinkConfig();
+
+    expect(secret).toMatch(/^[0-9a-f]{64}$/);
+    expect(secret).not.toBe('jwt-secret');
+    expect(shareLinkConfig().secret).toBe(secret);
+  });
+
+  it('leaves the secret unset without either variable', () => {
+    expect(shareLinkConfig().secret).toBeUndefined();
+  });
+});
@@ -0,0 +1,20 @@
+import { registerAs } from '@nestjs/config';
+import { createHmac } from 'crypto';
+
+export interface ShareLinkConfig {
+  // 접근 토큰 서명 키 (미설정 시 서버 시작마다 임의 생성되어 재시작하면 토큰이 무효화됨)
+  secret?: string;
+  // 공유 링크로 발급한 접근 토큰의 최대 유효 시간 (초)
+  accessTokenTtl: number;
+}
+
+// SHARE_LINK_SECRET이 없으면 JWT_SECRET에서 공유 링크 전용 키를 유도 (두 토큰 형식이 같은 키를 쓰지 않도록)
+function deriveFromJwtSecret(): string | undefined {
+  const jwtSecret = process.env.JWT_SECRET;
+  return jwtSecret ? createHmac('sha256', jwtSecret).update('share-link').digest('hex') : undefined;
+}
+
+export default registerAs('shareLinks', (): ShareLinkConfig => ({
+  secret: process.env.SHARE_LINK_SECRET || deriveFromJwtSecret(),
+  accessTokenTtl: parseInt(process.env.SHARE_ACCESS_TOKEN_TTL || '86400', 10),
+}));
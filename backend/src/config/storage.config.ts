@@ -0,0 +1,28 @@
+import { registerAs } from '@nestjs/config';
+
+export interface StorageConfig {
+  driver: 'local' | 's3';
+  localPath: string;
+  // 리사이즈/재압축된 이미지 렌디션을 캐시하는 로컬 디렉터리 (S3 드라이버에서도 로컬 디스크 사용)
+  renditionCachePath: string;
+  publicBaseUrl: string;
+  s3: {
+    bucket?: string;
+    region?: string;
+    endpoint?: string;
+    forcePathStyle: boolean;
+  };
+}
+
+export default registerAs('storage', (): StorageConfig => ({
+  driver: process.env.STORAGE_DRIVER === 's3' ? 's3' : 'local',
+  localPath: process.env.STORAGE_PATH || 'storage',
+  renditionCachePath: process.env.RENDITION_CACHE_PATH || `${process.env.STORAGE_PATH || 'storage'}/.renditions`,
+  publicBaseUrl: process.env.PUBLIC_BASE_URL || `http://localhost:${process.env.PORT || 3001}`,
+  s3: {
+    bucket: process.env.AWS_S3_BUCKET,
+    region: process.env.AWS_REGION,
+    endpoint: process.env.AWS_S3_ENDPOINT,
+    forcePathStyle: process.env.AWS_S3_FORCE_PATH_STYLE === 'true',
+  },
+}));
@@ -0,0 +1,196 @@
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsInt,
+  IsIn,
+  IsNumber,
+  IsObject,
+  IsArray,
+  IsDateString,
+  Length,
+  Matches,
+  MaxLength,
+  Min,
+  ArrayMaxSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export const ANALYTICS_EVENT_TYPES = [
+  'session_start',
+  'session_end',
+  'page_view',
+  'page_end',
+  'interaction',
+] as const;
+
+export type AnalyticsEventType = typeof ANALYTICS_EVENT_TYPES[number];
+
+// 프론트엔드 useViewTracking의 queueEvent가 만드는 이벤트
+export class AnalyticsEventDto {
+  @IsIn(ANALYTICS_EVENT_TYPES)
+  type: AnalyticsEventType;
+
+  @IsNotEmpty()
+  @IsString()
+  @Length(1, 100)
+  sessionId: string;
+
+  @IsInt()
+  @Min(0)
+  timestamp: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  pageIndex?: number;
+
+  // session_end는 세션 지속 시간, page_end는 페이지 체류 시간 (ms)
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  duration?: number;
+
+  // page_end: 해당 페이지에서 발생한 상호작용 수
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  interactions?: number;
+
+  @IsOptional()
+  @IsString()
+  @Length(1, 50)
+  interactionType?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  totalPages?: number;
+
+  @IsOptional()
+  @IsNumber()
+  completionRate?: number;
+
+  // session_start: ViewMetadata, interaction: 상호작용별 부가 정보
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
+
+export class AnalyticsEventBatchDto {
+  @IsNotEmpty()
+  @IsString()
+  flipbookId: string;
+
+  @IsArray()
+  @ArrayMaxSize(500)
+  @ValidateNested({ each: true })
+  @Type(() => AnalyticsEventDto)
+  events: AnalyticsEventDto[];
+
+  @IsOptional()
+  @IsInt()
+  timestamp?: number;
+}
+
+// 임베드 추적 스크립트(EmbedGenerator.generateTrackingCode)가 보내는 본문
+const TRACKING_ID_PATTERN = /^[\w.:-]+$/;
+
+export class EmbedViewDto {
+  @IsString()
+  @Length(1, 100)
+  @Matches(TRACKING_ID_PATTERN)
+  trackingId: string;
+
+  // 임베드한 페이지의 document.referrer
+  @IsOptional()
+  @IsString()
+  @MaxLength(2048)
+  referrer?: string;
+
+  @IsOptional()
+  @IsInt()
+  timestamp?: number;
+}
+
+export class EmbedInteractionDto {
+  @IsString()
+  @Length(1, 100)
+  @Matches(TRACKING_ID_PATTERN)
+  trackingId: string;
+
+  @IsString()
+  @Length(1, 50)
+  type: string;
+
+  @IsOptional()
+  @IsInt()
+  timestamp?: number;
+}
+
+export class AnalyticsQueryDto {
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+}
+
+export interface DailyViewsDto {
+  date: string; // YYYY-MM-DD (UTC)
+  views: number;
+  uniqueViews: number;
+  embedViews: number;
+}
+
+export interface PageAttentionDto {
+  pageIndex: number;
+  views: number;
+  averageTime: number;
+}
+
+// pageIndex까지 넘겨 본 독자 수 (이탈 퍼널)
+export interface PageDropOffDto {
+  pageIndex: number;
+  readers: number;
+}
+
+// 추적 ID 또는 임베드 도메인별 임베드 통계
+export interface EmbedStatsDto {
+  key: string;
+  views: number;
+  uniqueViews: number;
+  interactions: number;
+}
+
+export interface EmbedAnalyticsDto {
+  views: number;
+  uniqueViews: number;
+  interactions: number;
+  byTrackingId: EmbedStatsDto[];
+  byDomain: EmbedStatsDto[];
+}
+
+// 프론트엔드 ViewAnalytics와 동일한 형태에 대시보드용 항목 추가 (시간 단위는 ms)
+export class FlipbookAnalyticsDto {
+  flipbookId: string;
+  from: string;
+  to: string;
+  totalViews: number;
+  uniqueViews: number;
+  averageSessionTime: number;
+  averagePageTime: number;
+  mostViewedPages: { pageIndex: number; views: number }[];
+  deviceBreakdown: Record<string, number>;
+  referrerBreakdown: Record<string, number>;
+  languageBreakdown: Record<string, number>;
+  conversionRate: number;
+  viewsOverTime: DailyViewsDto[];
+  pageAttention: PageAttentionDto[];
+  dropOff: PageDropOffDto[];
+  // 외부 사이트 임베드 조회 (직접 조회인 totalViews와 별도 집계)
+  embeds: EmbedAnalyticsDto;
+}
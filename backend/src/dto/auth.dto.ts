@@ -0,0 +1,58 @@
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsEmail,
+  Length,
+  MaxLength,
+} from 'class-validator';
+
+export class SignUpDto {
+  @IsEmail()
+  @MaxLength(254)
+  email: string;
+
+  @IsString()
+  @Length(8, 128)
+  password: string;
+
+  @IsOptional()
+  @IsString()
+  @Length(1, 100)
+  name?: string;
+}
+
+export class LoginDto {
+  @IsEmail()
+  @MaxLength(254)
+  email: string;
+
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(128)
+  password: string;
+}
+
+export class UserProfileDto {
+  id: string;
+  email: string;
+  name?: string;
+  createdAt: Date;
+}
+
+export class AuthTokensDto {
+  tokenType: 'Bearer';
+  accessToken: string;
+  // 액세스 토큰 만료 시각 (ms)
+  expiresAt: number;
+  refreshToken: string;
+  refreshTokenExpiresAt: number;
+  user: UserProfileDto;
+}
+
+// 브라우저에 돌려주는 세션 정보 (토큰은 httpOnly 쿠키로만 전달)
+export class AuthSessionDto {
+  // 액세스 토큰 만료 시각 (ms)
+  expiresAt: number;
+  user: UserProfileDto;
+}
@@ -0,0 +1,10 @@
+// 로그인한 사용자의 Canva 연결 상태 (토큰은 서버에만 보관)
+export class CanvaConnectionStatusDto {
+  // Canva API 자격 증명이 설정되어 있는지 (아니면 Mock 데이터 사용)
+  configured: boolean;
+  connected: boolean;
+  // 현재 액세스 토큰 만료 시각 (만료가 가까우면 Canva 호출 시 자동 갱신)
+  expiresAt?: Date;
+  scope?: string;
+  connectedAt?: Date;
+}
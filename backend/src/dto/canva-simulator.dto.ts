@@ -0,0 +1,82 @@
+import {
+  IsOptional,
+  IsString,
+  IsInt,
+  IsArray,
+  IsBoolean,
+  Length,
+  Min,
+  Max,
+} from 'class-validator';
+
+// Canva 시뮬레이터에 주입할 장애 (횟수는 다음 요청부터 차감)
+export class CanvaSimulatorFaultsDto {
+  // 다음 N번의 API 요청을 429 Too Many Requests로 거절
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  rateLimitedRequests?: number;
+
+  // 429 응답의 Retry-After (초)
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(3600)
+  retryAfterSeconds?: number;
+
+  // 다음 N번의 API 요청을 delayMs만큼 늦게 응답 (클라이언트 타임아웃 유도)
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  slowRequests?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(600000)
+  delayMs?: number;
+
+  // 다음 N개의 내보내기 작업을 failed로 끝냄
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  failedExports?: number;
+
+  // 지금까지 발급한 액세스 토큰을 모두 만료시킴 (리프레시 토큰은 계속 쓸 수 있음)
+  @IsOptional()
+  @IsBoolean()
+  expireTokens?: boolean;
+}
+
+// 시뮬레이터 디자인 수정 (Canva에서 디자인을 고친 것처럼 updated_at이 바뀜)
+export class UpdateSimulatedDesignDto {
+  @IsOptional()
+  @IsString()
+  @Length(1, 200)
+  title?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  pageCount?: number;
+
+  // 내용을 바꿀 페이지 번호 (1부터, 해당 페이지 이미지만 달라짐)
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  editedPages?: number[];
+}
+
+// 현재 주입된 장애 상태
+export class CanvaSimulatorStateDto {
+  rateLimitedRequests: number;
+  retryAfterSeconds: number;
+  slowRequests: number;
+  delayMs: number;
+  failedExports: number;
+  designs: number;
+  exportJobs: number;
+  activeAccessTokens: number;
+}
@@ -0,0 +1,10 @@
+// Canva 디자인과 플립북의 동기화 상태
+export class CanvaSyncStatusDto {
+  flipbookId: string;
+  canvaDesignId: string;
+  designUpdatedAt?: string;
+  sourceUpdatedAt?: Date;
+  lastSyncedAt?: Date;
+  sourceCheckedAt?: Date;
+  updateAvailable: boolean;
+}
@@ -0,0 +1,66 @@
+import { IsInt, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { FlipbookVersionReason, FlipbookSnapshot } from '../entities/flipbook-version.entity';
+
+export class FlipbookVersionDiffQueryDto {
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  from: number;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  to: number;
+}
+
+export class FlipbookVersionSummaryDto {
+  version: number;
+  reason: FlipbookVersionReason;
+  restoredFrom?: number;
+  pageCount: number;
+  // 공개 리더가 지금 보여주는 버전
+  isPublished: boolean;
+  publishedAt?: Date;
+  createdAt: Date;
+}
+
+export class FlipbookVersionDto extends FlipbookVersionSummaryDto {
+  snapshot: FlipbookSnapshot;
+}
+
+export class VersionFieldChangeDto {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+export class VersionPageRefDto {
+  pageId: string;
+  title: string;
+  // 1부터 시작하는 페이지 번호
+  pageNumber: number;
+}
+
+export class VersionPageMoveDto extends VersionPageRefDto {
+  fromPageNumber: number;
+}
+
+export class VersionPageChangeDto extends VersionPageRefDto {
+  changes: VersionFieldChangeDto[];
+}
+
+// from 버전에서 to 버전으로 바뀐 내용
+export class FlipbookVersionDiffDto {
+  from: number;
+  to: number;
+  // 제목, 설명, 설정(settings.*), 부가 정보(metadata.*) 변경
+  fields: VersionFieldChangeDto[];
+  pages: {
+    added: VersionPageRefDto[];
+    removed: VersionPageRefDto[];
+    // 나머지 페이지 순서를 유지한 채 위치가 바뀐 페이지
+    reordered: VersionPageMoveDto[];
+    changed: VersionPageChangeDto[];
+  };
+}
@@ -8,8 +8,81 @@ import {
   Length,
   Min,
   Max,
+  IsArray,
+  IsIn,
+  ArrayMaxSize,
+  ValidateNested,
+  IsUrl,
+  IsDateString,
 } from 'class-validator';
-import { FlipbookStatus, FlipbookVisibility } from '../entities/flipbook.entity';
+import { Type, Transform } from 'class-transformer';
+import { Flipbook, FlipbookSourceType, FlipbookStatus, FlipbookVisibility } from '../entities/flipbook.entity';
+import { CreatePageDto } from './page.dto';
+
+export class FlipbookSettingsDto {
+  @IsOptional()
+  @IsBoolean()
+  autoPlay?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  loopPages?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  showNavigation?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  enableSound?: boolean;
+
+  // 페이지 넘김 애니메이션 시간 (ms)
+  @IsOptional()
+  @IsInt()
+  @Min(100)
+  @Max(3000)
+  flipSpeed?: number;
+
+  @IsOptional()
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  backgroundMusic?: string;
+
+  @IsOptional()
+  @IsString()
+  @Length(1, 50)
+  theme?: string;
+}
+
+export class FlipbookMetadataDto {
+  @IsOptional()
+  @IsString()
+  originalFormat?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  processingTime?: number;
+
+  @IsOptional()
+  @IsDateString()
+  exportedAt?: string;
+
+  @IsOptional()
+  @IsString()
+  quality?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @Length(1, 50, { each: true })
+  tags?: string[];
+
+  @IsOptional()
+  @IsString()
+  @Length(1, 50)
+  category?: string;
+}
 
 export class CreateFlipbookDto {
   @IsNotEmpty()
@@ -22,13 +95,31 @@ export class CreateFlipbookDto {
   @Length(0, 1000)
   description?: string;
 
-  @IsNotEmpty()
-  @IsString()
-  canvaDesignId: string;
+  @IsOptional()
+  @IsEnum(FlipbookSourceType)
+  sourceType?: FlipbookSourceType;
 
   @IsOptional()
   @IsString()
-  userId?: string;
+  @Length(1, 100)
+  canvaDesignId?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => FlipbookSettingsDto)
+  settings?: FlipbookSettingsDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => FlipbookMetadataDto)
+  metadata?: FlipbookMetadataDto;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500)
+  @ValidateNested({ each: true })
+  @Type(() => CreatePageDto)
+  pages?: CreatePageDto[];
 }
 
 export class UpdateFlipbookDto {
@@ -49,27 +140,53 @@ export class UpdateFlipbookDto {
   @IsOptional()
   @IsEnum(FlipbookVisibility)
   visibility?: FlipbookVisibility;
+
+  @IsOptional()
+  @IsBoolean()
+  isFeatured?: boolean;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => FlipbookSettingsDto)
+  settings?: FlipbookSettingsDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => FlipbookMetadataDto)
+  metadata?: FlipbookMetadataDto;
+}
+
+export class UpdateFlipbookStatusDto {
+  @IsNotEmpty()
+  @IsEnum(FlipbookStatus)
+  status: FlipbookStatus;
 }
 
+export const FLIPBOOK_SORT_FIELDS = ['createdAt', 'updatedAt', 'viewCount', 'title'] as const;
+
+export type FlipbookSortField = typeof FLIPBOOK_SORT_FIELDS[number];
+
 export class FlipbookQueryDto {
   @IsOptional()
+  @Type(() => Number)
   @IsInt()
   @Min(1)
-  page?: number;
+  page?: number = 1;
 
   @IsOptional()
+  @Type(() => Number)
   @IsInt()
   @Min(1)
   @Max(100)
-  limit?: number;
+  limit?: number = 20;
 
   @IsOptional()
-  @IsString()
-  sortBy?: string;
+  @IsIn(FLIPBOOK_SORT_FIELDS)
+  sortBy?: FlipbookSortField = 'createdAt';
 
   @IsOptional()
   @IsEnum(['ASC', 'DESC'])
-  sortOrder?: 'ASC' | 'DESC';
+  sortOrder?: 'ASC' | 'DESC' = 'DESC';
 
   @IsOptional()
   @IsEnum(FlipbookStatus)
@@ -80,10 +197,22 @@ export class FlipbookQueryDto {
   visibility?: FlipbookVisibility;
 
   @IsOptional()
-  @IsString()
-  userId?: string;
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  isFeatured?: boolean;
 
   @IsOptional()
   @IsString()
+  @Length(1, 100)
   search?: string;
-}
\ No newline at end of file
+}
+
+export class FlipbookListResponseDto {
+  flipbooks: Flipbook[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
@@ -0,0 +1,41 @@
+import { IsOptional, IsInt, IsIn, IsString, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export const IMAGE_RENDITION_FORMATS = ['webp', 'avif', 'jpeg', 'jpg', 'png'] as const;
+
+export type ImageRenditionFormat = typeof IMAGE_RENDITION_FORMATS[number];
+
+export const MAX_RENDITION_DIMENSION = 4096;
+
+// 프론트엔드 performanceOptimizer.optimizeImage가 붙이는 w/h/q/f 파라미터
+export class ImageRenditionQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_RENDITION_DIMENSION)
+  w?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_RENDITION_DIMENSION)
+  h?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  q?: number;
+
+  @IsOptional()
+  @IsIn(IMAGE_RENDITION_FORMATS)
+  f?: ImageRenditionFormat;
+
+  // 비공개 플립북 에셋용 접근 토큰 (<img>는 헤더를 보낼 수 없으므로 쿼리로 전달)
+  @IsOptional()
+  @IsString()
+  access_token?: string;
+}
@@ -0,0 +1,64 @@
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  IsString,
+  Length,
+} from 'class-validator';
+import { FlipbookSourceType } from '../entities/flipbook.entity';
+import { CanvaSyncSummary, ImportJobType } from '../entities/import-job.entity';
+
+export class CreateImportJobDto {
+  @IsNotEmpty()
+  @IsString()
+  @Length(1, 100)
+  designId: string;
+
+  @IsOptional()
+  @IsString()
+  @Length(1, 200)
+  title?: string;
+
+  @IsOptional()
+  @IsString()
+  @Length(0, 1000)
+  description?: string;
+
+  @IsOptional()
+  @IsEnum(['PNG', 'JPG'])
+  format?: 'PNG' | 'JPG';
+}
+
+// multipart/form-data 업로드와 함께 보내는 필드 (파일은 files 필드)
+export class UploadImportJobDto {
+  @IsOptional()
+  @IsString()
+  @Length(1, 200)
+  title?: string;
+
+  @IsOptional()
+  @IsString()
+  @Length(0, 1000)
+  description?: string;
+}
+
+// 프론트엔드 ProcessingState와 동일한 형태의 작업 상태
+export class ImportJobStateDto {
+  jobId: string;
+  type: ImportJobType;
+  sourceType: FlipbookSourceType;
+  designId?: string;
+  flipbookId?: string;
+  status: 'loading' | 'success' | 'error';
+  progress: number;
+  currentStep?: string;
+  totalPages: number;
+  processedPages: number;
+  retryCount: number;
+  // 동기화 작업이 끝나면 추가/변경/유지/삭제된 페이지 수
+  syncSummary?: CanvaSyncSummary;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
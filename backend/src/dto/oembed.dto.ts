@@ -0,0 +1,22 @@
+// https://oembed.com/ 소비자 요청 파라미터
+// 소비자마다 추가 파라미터(dnt, lang 등)를 붙이므로 DTO 클래스 대신 컨트롤러에서 개별 파라미터로 받음
+export interface OEmbedRequest {
+  url: string;
+  format?: string;
+  maxwidth?: number;
+  maxheight?: number;
+}
+
+export interface OEmbedResponseDto {
+  type: 'rich';
+  version: '1.0';
+  title: string;
+  provider_name: string;
+  provider_url: string;
+  html: string;
+  width: number;
+  height: number;
+  thumbnail_url?: string;
+  thumbnail_width?: number;
+  thumbnail_height?: number;
+}
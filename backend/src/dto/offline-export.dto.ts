@@ -0,0 +1,32 @@
+import { FlipbookSettings } from '../entities/flipbook.entity';
+
+// 오프라인 HTML 패키지의 manifest.json / manifest.js (프론트엔드 OfflineManifest와 같은 구조)
+export interface OfflineManifestPageDto {
+  pageIndex: number;
+  title?: string;
+  // 페이지 이미지를 data URI로 등록하는 스크립트 경로
+  script: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  transitionType: string;
+  // 초 단위
+  transitionDuration: number;
+  backgroundColor?: string;
+  hasTransparency: boolean;
+}
+
+export interface OfflineManifestDto {
+  version: 1;
+  exportedAt: string;
+  flipbook: {
+    id: string;
+    title: string;
+    description?: string;
+    slug: string;
+    pageCount: number;
+    settings: FlipbookSettings;
+  };
+  pages: OfflineManifestPageDto[];
+  sounds: Record<string, string>;
+}
@@ -34,6 +34,11 @@ export class PageMetadataDto {
   @IsString()
   canvaPageId?: string;
 
+  @IsOptional()
+  @IsString()
+  @Length(64, 64)
+  imageHash?: string;
+
   @IsOptional()
   @IsString()
   extractedAt?: string;
@@ -77,6 +82,29 @@ export class PageAnimationsDto {
   easing?: string;
 }
 
+export class PageImageVariantDto {
+  @IsInt()
+  @IsPositive()
+  width: number;
+
+  @IsInt()
+  @IsPositive()
+  height: number;
+
+  @IsEnum(['webp', 'jpeg'])
+  format: 'webp' | 'jpeg';
+
+  @IsString()
+  key: string;
+
+  @IsString()
+  url: string;
+
+  @IsInt()
+  @Min(0)
+  size: number;
+}
+
 export class CreatePageDto {
   @IsNotEmpty()
   @IsString()
@@ -111,10 +139,27 @@ export class CreatePageDto {
   @IsPositive()
   height: number;
 
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  fileSize?: number;
+
+  @IsOptional()
+  @IsString()
+  mimeType?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  hasTransparency?: boolean;
+
   @IsOptional()
   @IsEnum(PageOrientation)
   orientation?: PageOrientation;
 
+  @IsOptional()
+  @IsHexColor()
+  backgroundColor?: string;
+
   @IsOptional()
   @IsEnum(PageTransitionType)
   transitionType?: PageTransitionType;
@@ -133,6 +178,12 @@ export class CreatePageDto {
   @IsUrl()
   cdnUrl?: string;
 
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PageImageVariantDto)
+  variants?: PageImageVariantDto[];
+
   @IsOptional()
   @ValidateNested()
   @Type(() => PageMetadataDto)
@@ -144,6 +195,7 @@ export class CreatePageDto {
   animations?: PageAnimationsDto;
 }
 
+// storageKey, cdnUrl은 가져오기/동기화 파이프라인만 설정함
 export class UpdatePageDto {
   @IsOptional()
   @IsString()
@@ -178,10 +230,19 @@ export class UpdatePageDto {
   @IsPositive()
   height?: number;
 
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  fileSize?: number;
+
   @IsOptional()
   @IsEnum(PageOrientation)
   orientation?: PageOrientation;
 
+  @IsOptional()
+  @IsHexColor()
+  backgroundColor?: string;
+
   @IsOptional()
   @IsEnum(PageTransitionType)
   transitionType?: PageTransitionType;
@@ -192,14 +253,6 @@ export class UpdatePageDto {
   @Max(5)
   transitionDuration?: number;
 
-  @IsOptional()
-  @IsString()
-  storageKey?: string;
-
-  @IsOptional()
-  @IsUrl()
-  cdnUrl?: string;
-
   @IsOptional()
   @ValidateNested()
   @Type(() => PageMetadataDto)
@@ -220,11 +273,16 @@ export class PageDto {
   thumbnailUrl?: string;
   width: number;
   height: number;
+  fileSize?: number;
+  mimeType?: string;
+  hasTransparency?: boolean;
   orientation?: PageOrientation;
+  backgroundColor?: string;
   transitionType?: PageTransitionType;
   transitionDuration?: number;
   storageKey?: string;
   cdnUrl?: string;
+  variants?: PageImageVariantDto[];
   metadata?: PageMetadataDto;
   animations?: PageAnimationsDto;
   createdAt: Date;
@@ -238,10 +296,35 @@ export class PageReorderDto {
   pageIds: string[];
 }
 
+export class PageBatchUpdateItemDto {
+  @IsNotEmpty()
+  @IsString()
+  id: string;
+
+  @IsOptional()
+  @IsEnum(PageTransitionType)
+  transitionType?: PageTransitionType;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0.1)
+  @Max(5)
+  transitionDuration?: number;
+
+  @IsOptional()
+  @IsHexColor()
+  backgroundColor?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PageAnimationsDto)
+  animations?: PageAnimationsDto;
+}
+
 export class PageBatchUpdateDto {
   @IsNotEmpty()
   @IsArray()
   @ValidateNested({ each: true })
-  @Type(() => UpdatePageDto)
-  pages: UpdatePageDto[];
-}
\ No newline at end of file
+  @Type(() => PageBatchUpdateItemDto)
+  pages: PageBatchUpdateItemDto[];
+}
@@ -0,0 +1,10 @@
+import { IsOptional, IsBoolean } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class PdfExportQueryDto {
+  // true면 페이지별 textContent를 보이지 않는 텍스트로 넣어 PDF 안에서 검색/복사할 수 있게 함
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  textLayer?: boolean;
+}
@@ -0,0 +1,84 @@
+import {
+  IsOptional,
+  IsString,
+  IsInt,
+  IsIn,
+  IsUrl,
+  IsBoolean,
+  Matches,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type, Transform } from 'class-transformer';
+
+export const QR_CODE_FORMATS = ['png', 'svg', 'pdf'] as const;
+export type QrCodeFormat = typeof QR_CODE_FORMATS[number];
+
+export const QR_ERROR_CORRECTION_LEVELS = ['L', 'M', 'Q', 'H'] as const;
+export type QrErrorCorrectionLevel = typeof QR_ERROR_CORRECTION_LEVELS[number];
+
+// #RGB 또는 #RRGGBB (쿼리스트링에서는 # 없이도 허용)
+const HEX_COLOR_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// 프론트엔드 QRCodeOptions와 같은 이름의 쿼리 파라미터
+export class QrCodeQueryDto {
+  @IsOptional()
+  @IsIn(QR_CODE_FORMATS)
+  format?: QrCodeFormat;
+
+  // PNG/SVG는 픽셀, PDF는 포인트 단위의 한 변 길이
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(64)
+  @Max(2048)
+  size?: number;
+
+  // 여백 (모듈 단위)
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  margin?: number;
+
+  // 로고가 있으면 항상 H로 생성
+  @IsOptional()
+  @IsIn(QR_ERROR_CORRECTION_LEVELS)
+  errorCorrectionLevel?: QrErrorCorrectionLevel;
+
+  @IsOptional()
+  @Matches(HEX_COLOR_PATTERN)
+  darkColor?: string;
+
+  @IsOptional()
+  @Matches(HEX_COLOR_PATTERN)
+  lightColor?: string;
+
+  @IsOptional()
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  logoUrl?: string;
+
+  // 로고 너비 (코드 영역 대비 %)
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(5)
+  @Max(30)
+  logoSize?: number;
+
+  // 공유 옵션이 붙은 리더 주소 (커스텀 도메인 포함, 경로는 이 플립북의 /view/:slug 이어야 함)
+  @IsOptional()
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+  url?: string;
+
+  // true면 첨부 파일로 내려받음
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  download?: boolean;
+
+  @IsOptional()
+  @IsString()
+  access_token?: string;
+}
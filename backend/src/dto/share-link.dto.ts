@@ -0,0 +1,81 @@
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsInt,
+  IsIn,
+  IsArray,
+  IsDateString,
+  ArrayMinSize,
+  Length,
+  Min,
+} from 'class-validator';
+import { ACCESS_ACTIONS, AccessAction } from '../entities/share-link.entity';
+
+export class CreateShareLinkDto {
+  @IsOptional()
+  @IsString()
+  @Length(1, 100)
+  label?: string;
+
+  @IsOptional()
+  @IsString()
+  @Length(4, 128)
+  password?: string;
+
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxViews?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsIn(ACCESS_ACTIONS, { each: true })
+  permissions?: AccessAction[];
+}
+
+export class RequestAccessDto {
+  @IsNotEmpty()
+  @IsString()
+  @Length(1, 100)
+  token: string;
+
+  @IsOptional()
+  @IsString()
+  @Length(1, 128)
+  password?: string;
+
+  @IsOptional()
+  @IsIn(ACCESS_ACTIONS)
+  action?: AccessAction = 'view';
+}
+
+export class ShareLinkResponseDto {
+  id: string;
+  flipbookId: string;
+  label?: string;
+  tokenPrefix: string;
+  // 생성 응답에서만 포함
+  token?: string;
+  hasPassword: boolean;
+  permissions: AccessAction[];
+  expiresAt?: Date;
+  maxViews?: number;
+  viewCount: number;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+// 프론트엔드 useAccessControl의 AccessToken과 동일한 형태
+export class AccessTokenDto {
+  token: string;
+  flipbookId: string;
+  expiresAt: number;
+  permissions: { action: AccessAction; granted: boolean }[];
+}
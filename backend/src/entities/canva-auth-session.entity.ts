@@ -0,0 +1,39 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  CreateDateColumn,
+} from 'typeorm';
+import { User } from './user.entity';
+
+// 진행 중인 Canva OAuth 인증 (state로 찾아 PKCE code_verifier를 꺼내고, 콜백에서 한 번 쓰면 지움)
+@Entity('canva_auth_sessions')
+export class CanvaAuthSession {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // 인증을 시작한 사용자 (다른 계정의 콜백으로는 쓸 수 없음)
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  // state 원문은 인증 URL에만 싣고 DB에는 SHA-256 해시만 저장
+  @Index({ unique: true })
+  @Column({ name: 'state_hash', length: 64 })
+  stateHash: string;
+
+  @Column({ name: 'code_verifier', length: 128, select: false })
+  codeVerifier: string;
+
+  @Column({ name: 'expires_at', type: 'datetime' })
+  expiresAt: Date;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
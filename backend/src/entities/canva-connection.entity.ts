@@ -0,0 +1,45 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  OneToOne,
+  JoinColumn,
+  Index,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from './user.entity';
+
+// 사용자 계정에 연결된 Canva OAuth 토큰 (사용자당 하나, 토큰은 암호화해서 저장)
+@Entity('canva_connections')
+export class CanvaConnection {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index({ unique: true })
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  @OneToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  // AES-256-GCM 암호문 (iv:tag:data, base64url)
+  @Column({ name: 'access_token', type: 'text', select: false })
+  accessToken: string;
+
+  @Column({ name: 'refresh_token', type: 'text', nullable: true, select: false })
+  refreshToken?: string;
+
+  @Column({ name: 'expires_at', type: 'datetime' })
+  expiresAt: Date;
+
+  @Column({ length: 500, nullable: true })
+  scope?: string;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
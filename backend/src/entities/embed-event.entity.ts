@@ -0,0 +1,56 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  CreateDateColumn,
+} from 'typeorm';
+import { Flipbook } from './flipbook.entity';
+
+export type EmbedEventType = 'view' | 'interaction';
+
+// EmbedGenerator.generateTrackingCode 스크립트가 외부 사이트에서 보내는 임베드 조회/상호작용
+@Entity('embed_events')
+@Index(['flipbookId', 'occurredAt'])
+export class EmbedEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'flipbook_id' })
+  flipbookId: string;
+
+  @ManyToOne(() => Flipbook, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'flipbook_id' })
+  flipbook: Flipbook;
+
+  @Column({ length: 20 })
+  type: EmbedEventType;
+
+  // 임베드 코드 생성 시 지정한 추적 ID (임베드 위치별 집계용)
+  @Column({ name: 'tracking_id', length: 100 })
+  trackingId: string;
+
+  // interaction 이벤트 종류 (click 등)
+  @Column({ name: 'interaction_type', length: 50, nullable: true })
+  interactionType?: string;
+
+  // 임베드한 페이지의 도메인 (요청의 Origin/Referer 헤더)
+  @Column({ name: 'embed_domain', length: 255, nullable: true })
+  embedDomain?: string;
+
+  // 임베드한 페이지로 들어온 유입 경로 (document.referrer 호스트)
+  @Column({ name: 'referrer_host', length: 255, nullable: true })
+  referrerHost?: string;
+
+  // 순 방문자 집계용 식별자 (IP + User-Agent 해시)
+  @Column({ name: 'visitor_id', length: 64 })
+  visitorId: string;
+
+  @Column({ name: 'occurred_at', type: 'datetime' })
+  occurredAt: Date;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,28 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  CreateDateColumn,
+} from 'typeorm';
+import { Flipbook } from './flipbook.entity';
+
+// 제목 변경 전 슬러그 → 플립북 (이미 공유된 링크가 계속 동작하도록 보관)
+@Entity('flipbook_slug_redirects')
+export class FlipbookSlugRedirect {
+  @PrimaryColumn({ length: 100 })
+  slug: string;
+
+  @Index()
+  @Column({ name: 'flipbook_id' })
+  flipbookId: string;
+
+  @ManyToOne(() => Flipbook, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'flipbook_id' })
+  flipbook: Flipbook;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,92 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  CreateDateColumn,
+} from 'typeorm';
+import { Flipbook, FlipbookSettings, FlipbookExtraMetadata } from './flipbook.entity';
+import { Page } from './page.entity';
+
+export enum FlipbookVersionReason {
+  CREATE = 'create',
+  EDIT = 'edit',
+  IMPORT = 'import',
+  SYNC = 'sync',
+  PUBLISH = 'publish',
+  RESTORE = 'restore',
+}
+
+// 버전에 보관하는 페이지 필드 (id는 버전 간 비교와 복원에 사용)
+export const SNAPSHOT_PAGE_FIELDS = [
+  'id',
+  'title',
+  'description',
+  'imageUrl',
+  'thumbnailUrl',
+  'originalWidth',
+  'originalHeight',
+  'fileSize',
+  'mimeType',
+  'hasTransparency',
+  'orientation',
+  'transitionType',
+  'transitionDuration',
+  'backgroundColor',
+  'storageKey',
+  'cdnUrl',
+  'variants',
+  'metadata',
+  'animations',
+] as const;
+
+export type FlipbookSnapshotPage = Pick<Page, typeof SNAPSHOT_PAGE_FIELDS[number]>;
+
+export interface FlipbookSnapshot {
+  title: string;
+  description?: string;
+  settings?: FlipbookSettings;
+  metadata?: FlipbookExtraMetadata;
+  pages: FlipbookSnapshotPage[];
+}
+
+// 게시 또는 내용 변경 시점의 플립북과 페이지 목록 (생성 후 변경하지 않음)
+@Entity('flipbook_versions')
+@Index(['flipbookId', 'version'], { unique: true })
+export class FlipbookVersion {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'flipbook_id' })
+  flipbookId: string;
+
+  @ManyToOne(() => Flipbook, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'flipbook_id' })
+  flipbook: Flipbook;
+
+  // 플립북마다 1부터 증가
+  @Column({ type: 'int' })
+  version: number;
+
+  @Column({ type: 'varchar' })
+  reason: FlipbookVersionReason;
+
+  // 복원으로 만든 버전이면 원본 버전 번호
+  @Column({ name: 'restored_from', type: 'int', nullable: true })
+  restoredFrom?: number;
+
+  @Column({ type: 'simple-json' })
+  snapshot: FlipbookSnapshot;
+
+  @Column({ name: 'page_count', type: 'int', default: 0 })
+  pageCount: number;
+
+  // 이 버전을 처음 게시한 시각
+  @Column({ name: 'published_at', type: 'datetime', nullable: true })
+  publishedAt?: Date;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
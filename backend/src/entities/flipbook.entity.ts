@@ -2,13 +2,18 @@ import {
   Entity,
   PrimaryGeneratedColumn,
   Column,
+  OneToMany,
+  Index,
   CreateDateColumn,
   UpdateDateColumn,
 } from 'typeorm';
+import { Page } from './page.entity';
 
 export enum FlipbookStatus {
   DRAFT = 'draft',
+  PROCESSING = 'processing',
   PUBLISHED = 'published',
+  FAILED = 'failed',
   ARCHIVED = 'archived',
 }
 
@@ -18,6 +23,32 @@ export enum FlipbookVisibility {
   PUBLIC = 'public',
 }
 
+// 플립북을 만든 원본 (Canva 디자인 또는 업로드한 PDF/이미지)
+export enum FlipbookSourceType {
+  CANVA = 'canva',
+  PDF = 'pdf',
+  IMAGES = 'images',
+}
+
+export interface FlipbookSettings {
+  autoPlay?: boolean;
+  loopPages?: boolean;
+  showNavigation?: boolean;
+  enableSound?: boolean;
+  flipSpeed?: number;
+  backgroundMusic?: string;
+  theme?: string;
+}
+
+export interface FlipbookExtraMetadata {
+  originalFormat?: string;
+  processingTime?: number;
+  exportedAt?: string;
+  quality?: string;
+  tags?: string[];
+  category?: string;
+}
+
 @Entity('flipbooks')
 export class Flipbook {
   @PrimaryGeneratedColumn('uuid')
@@ -26,11 +57,33 @@ export class Flipbook {
   @Column({ length: 200 })
   title: string;
 
+  // 공개 URL(/view/:slug)용 슬러그, 제목이 바뀌면 이전 슬러그는 flipbook_slug_redirects로 이동
+  @Index({ unique: true })
+  @Column({ length: 100, nullable: true })
+  slug?: string;
+
   @Column({ type: 'text', nullable: true })
   description?: string;
 
-  @Column({ name: 'canva_design_id', length: 100 })
-  canvaDesignId: string;
+  @Column({ name: 'source_type', type: 'varchar', default: FlipbookSourceType.CANVA })
+  sourceType: FlipbookSourceType;
+
+  @Column({ name: 'canva_design_id', length: 100, nullable: true })
+  canvaDesignId?: string;
+
+  // 마지막으로 가져오거나 동기화한 시점의 Canva 디자인 updated_at
+  @Column({ name: 'source_updated_at', type: 'datetime', nullable: true })
+  sourceUpdatedAt?: Date;
+
+  @Column({ name: 'last_synced_at', type: 'datetime', nullable: true })
+  lastSyncedAt?: Date;
+
+  // 업데이트 확인에서 Canva 디자인이 마지막 내보내기 이후 수정된 것을 발견하면 true
+  @Column({ name: 'source_outdated', type: 'boolean', default: false })
+  sourceOutdated: boolean;
+
+  @Column({ name: 'source_checked_at', type: 'datetime', nullable: true })
+  sourceCheckedAt?: Date;
 
   @Column({ name: 'user_id', length: 100 })
   userId: string;
@@ -41,12 +94,44 @@ export class Flipbook {
   @Column({ type: 'varchar', default: FlipbookVisibility.PRIVATE })
   visibility: FlipbookVisibility;
 
+  @Column({ name: 'page_count', type: 'int', default: 0 })
+  pageCount: number;
+
+  @Column({ name: 'total_size', type: 'int', default: 0 })
+  totalSize: number;
+
   @Column({ name: 'view_count', type: 'int', default: 0 })
   viewCount: number;
 
+  @Column({ name: 'is_featured', type: 'boolean', default: false })
+  isFeatured: boolean;
+
+  // 리더 표시 옵션 (자동 재생, 사운드 등)
+  @Column({ type: 'simple-json', nullable: true })
+  settings?: FlipbookSettings;
+
+  // 태그, 분류 등 부가 정보 (PDF 내보내기의 문서 키워드로도 사용)
+  @Column({ type: 'simple-json', nullable: true })
+  metadata?: FlipbookExtraMetadata;
+
+  @Column({ name: 'published_at', type: 'datetime', nullable: true })
+  publishedAt?: Date;
+
+  // 가장 최근 버전 (편집 중인 초안)
+  @Column({ name: 'current_version', type: 'int', default: 0 })
+  currentVersion: number;
+
+  // 공개 리더가 보여주는 버전, currentVersion과 다르면 게시하지 않은 변경 사항이 있음
+  @Column({ name: 'published_version', type: 'int', nullable: true })
+  publishedVersion?: number;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
   @UpdateDateColumn({ name: 'updated_at' })
   updatedAt: Date;
+
+  // Relationships
+  @OneToMany(() => Page, (page) => page.flipbook)
+  pages: Page[];
 }
\ No newline at end of file
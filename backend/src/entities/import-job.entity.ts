@@ -0,0 +1,105 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { FlipbookSourceType } from './flipbook.entity';
+
+export enum ImportJobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+}
+
+export enum ImportJobType {
+  // 새 플립북으로 가져오기
+  IMPORT = 'import',
+  // 기존 플립북을 Canva 디자인과 다시 맞추기
+  SYNC = 'sync',
+}
+
+// Canva 동기화 결과 페이지 수
+export interface CanvaSyncSummary {
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+}
+
+// 업로드 작업의 원본 파일 (작업이 끝나면 삭제)
+export interface ImportSourceFile {
+  path: string;
+  originalName: string;
+  mimeType: string;
+}
+
+@Entity('import_jobs')
+export class ImportJob {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', default: ImportJobType.IMPORT })
+  type: ImportJobType;
+
+  @Column({ name: 'source_type', type: 'varchar', default: FlipbookSourceType.CANVA })
+  sourceType: FlipbookSourceType;
+
+  @Column({ name: 'design_id', length: 100, nullable: true })
+  designId?: string;
+
+  @Column({ name: 'source_files', type: 'simple-json', nullable: true })
+  sourceFiles?: ImportSourceFile[];
+
+  @Column({ name: 'flipbook_id', nullable: true })
+  flipbookId?: string;
+
+  // 작업을 시작한 사용자 (실행 시 계정에 연결된 Canva 토큰을 찾는 데 사용)
+  @Column({ name: 'user_id', nullable: true })
+  userId?: string;
+
+  @Column({ type: 'varchar', default: ImportJobStatus.QUEUED })
+  status: ImportJobStatus;
+
+  @Column({ length: 200, nullable: true })
+  step?: string;
+
+  @Column({ type: 'int', default: 0 })
+  progress: number;
+
+  @Column({ name: 'total_pages', type: 'int', default: 0 })
+  totalPages: number;
+
+  @Column({ name: 'processed_pages', type: 'int', default: 0 })
+  processedPages: number;
+
+  @Column({ length: 10, default: 'PNG' })
+  format: string;
+
+  @Column({ name: 'sync_summary', type: 'simple-json', nullable: true })
+  syncSummary?: CanvaSyncSummary;
+
+  @Column({ name: 'error_code', length: 50, nullable: true })
+  errorCode?: string;
+
+  @Column({ name: 'error_message', type: 'text', nullable: true })
+  errorMessage?: string;
+
+  @Column({ name: 'started_at', type: 'datetime', nullable: true })
+  startedAt?: Date;
+
+  @Column({ name: 'finished_at', type: 'datetime', nullable: true })
+  finishedAt?: Date;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  get isFinished(): boolean {
+    return this.status === ImportJobStatus.SUCCEEDED || this.status === ImportJobStatus.FAILED;
+  }
+}
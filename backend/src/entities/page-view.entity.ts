@@ -0,0 +1,43 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  CreateDateColumn,
+} from 'typeorm';
+import { ViewSession } from './view-session.entity';
+
+@Entity('page_views')
+@Index(['flipbookId', 'startedAt'])
+export class PageView {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'view_session_id' })
+  viewSessionId: string;
+
+  @ManyToOne(() => ViewSession, (session) => session.pageViews, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'view_session_id' })
+  session: ViewSession;
+
+  @Column({ name: 'flipbook_id' })
+  flipbookId: string;
+
+  @Column({ name: 'page_index', type: 'int' })
+  pageIndex: number;
+
+  @Column({ name: 'started_at', type: 'datetime' })
+  startedAt: Date;
+
+  // 페이지 체류 시간 (ms), page_end 이벤트를 받기 전까지는 비어 있음
+  @Column({ type: 'int', nullable: true })
+  duration?: number;
+
+  @Column({ name: 'interaction_count', type: 'int', default: 0 })
+  interactionCount: number;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
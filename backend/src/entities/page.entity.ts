@@ -17,7 +17,7 @@ export class Page {
   @Column({ name: 'flipbook_id' })
   flipbookId: string;
 
-  @ManyToOne(() => Flipbook)
+  @ManyToOne(() => Flipbook, (flipbook) => flipbook.pages, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'flipbook_id' })
   flipbook: Flipbook;
 
@@ -27,15 +27,79 @@ export class Page {
   @Column({ length: 200 })
   title: string;
 
+  @Column({ type: 'text', nullable: true })
+  description?: string;
+
   @Column({ name: 'image_url', length: 500 })
   imageUrl: string;
 
+  @Column({ name: 'thumbnail_url', length: 500, nullable: true })
+  thumbnailUrl?: string;
+
   @Column({ name: 'original_width', type: 'int' })
   originalWidth: number;
 
   @Column({ name: 'original_height', type: 'int' })
   originalHeight: number;
 
+  @Column({ name: 'file_size', type: 'int', default: 0 })
+  fileSize: number;
+
+  @Column({ name: 'mime_type', length: 50, nullable: true })
+  mimeType?: string;
+
+  @Column({ name: 'has_transparency', type: 'boolean', default: false })
+  hasTransparency: boolean;
+
+  @Column({ type: 'varchar', nullable: true })
+  orientation?: string;
+
+  @Column({ name: 'transition_type', type: 'varchar', nullable: true })
+  transitionType?: string;
+
+  @Column({ name: 'transition_duration', type: 'float', nullable: true })
+  transitionDuration?: number;
+
+  @Column({ name: 'background_color', length: 20, nullable: true })
+  backgroundColor?: string;
+
+  @Column({ name: 'storage_key', length: 500, nullable: true })
+  storageKey?: string;
+
+  @Column({ name: 'cdn_url', length: 500, nullable: true })
+  cdnUrl?: string;
+
+  // 저장소에 생성된 폭/형식별 이미지 변형
+  @Column({ type: 'simple-json', nullable: true })
+  variants?: Array<{
+    width: number;
+    height: number;
+    format: 'webp' | 'jpeg';
+    key: string;
+    url: string;
+    size: number;
+  }>;
+
+  @Column({ type: 'simple-json', nullable: true })
+  metadata?: {
+    canvaPageId?: string;
+    // 원본 이미지의 SHA-256 (Canva 동기화 비교용)
+    imageHash?: string;
+    extractedAt?: string;
+    aiProcessed?: boolean;
+    tags?: string[];
+    textContent?: string;
+    colorPalette?: string[];
+  };
+
+  @Column({ type: 'simple-json', nullable: true })
+  animations?: {
+    inTransition?: string;
+    outTransition?: string;
+    duration?: number;
+    easing?: string;
+  };
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
@@ -0,0 +1,38 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  CreateDateColumn,
+} from 'typeorm';
+import { User } from './user.entity';
+
+@Entity('refresh_tokens')
+export class RefreshToken {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  // 토큰 원문은 발급 시 한 번만 반환하고 DB에는 SHA-256 해시만 저장
+  @Index({ unique: true })
+  @Column({ name: 'token_hash', length: 64 })
+  tokenHash: string;
+
+  @Column({ name: 'expires_at', type: 'datetime' })
+  expiresAt: Date;
+
+  // 갱신에 쓰이면 폐기되고 새 토큰으로 교체됨 (폐기된 토큰이 다시 오면 탈취로 보고 전부 폐기)
+  @Column({ name: 'revoked_at', type: 'datetime', nullable: true })
+  revokedAt?: Date;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
@@ -0,0 +1,64 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  CreateDateColumn,
+} from 'typeorm';
+import { Flipbook } from './flipbook.entity';
+
+export type AccessAction = 'view' | 'edit' | 'share' | 'delete';
+
+export const ACCESS_ACTIONS: AccessAction[] = ['view', 'edit', 'share', 'delete'];
+
+@Entity('share_links')
+export class ShareLink {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ name: 'flipbook_id' })
+  flipbookId: string;
+
+  @ManyToOne(() => Flipbook, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'flipbook_id' })
+  flipbook: Flipbook;
+
+  // 토큰 원문은 생성 시 한 번만 반환하고 DB에는 SHA-256 해시만 저장
+  @Index({ unique: true })
+  @Column({ name: 'token_hash', length: 64 })
+  tokenHash: string;
+
+  // 목록에서 링크를 구분하기 위한 토큰 앞부분
+  @Column({ name: 'token_prefix', length: 8 })
+  tokenPrefix: string;
+
+  @Column({ length: 100, nullable: true })
+  label?: string;
+
+  // scrypt 해시 (salt:hash)
+  @Column({ name: 'password_hash', length: 200, nullable: true, select: false })
+  passwordHash?: string;
+
+  @Column({ type: 'simple-json' })
+  permissions: AccessAction[];
+
+  @Column({ name: 'expires_at', type: 'datetime', nullable: true })
+  expiresAt?: Date;
+
+  @Column({ name: 'max_views', type: 'int', nullable: true })
+  maxViews?: number;
+
+  @Column({ name: 'view_count', type: 'int', default: 0 })
+  viewCount: number;
+
+  @Column({ name: 'last_used_at', type: 'datetime', nullable: true })
+  lastUsedAt?: Date;
+
+  @Column({ name: 'revoked_at', type: 'datetime', nullable: true })
+  revokedAt?: Date;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
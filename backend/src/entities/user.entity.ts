@@ -0,0 +1,35 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+@Entity('users')
+export class User {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // 소문자로 정규화해서 저장
+  @Index({ unique: true })
+  @Column({ length: 254 })
+  email: string;
+
+  // scrypt 해시 (salt:hash)
+  @Column({ name: 'password_hash', length: 200, select: false })
+  passwordHash: string;
+
+  @Column({ length: 100, nullable: true })
+  name?: string;
+
+  @Column({ name: 'last_login_at', type: 'datetime', nullable: true })
+  lastLoginAt?: Date;
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,88 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+  Index,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Flipbook } from './flipbook.entity';
+import { PageView } from './page-view.entity';
+
+export type ViewDeviceType = 'mobile' | 'tablet' | 'desktop';
+
+@Entity('view_sessions')
+@Index(['flipbookId', 'startedAt'])
+export class ViewSession {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // 클라이언트(useViewTracking)가 만든 세션 ID
+  @Index({ unique: true })
+  @Column({ name: 'session_id', length: 100 })
+  sessionId: string;
+
+  @Column({ name: 'flipbook_id' })
+  flipbookId: string;
+
+  @ManyToOne(() => Flipbook, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'flipbook_id' })
+  flipbook: Flipbook;
+
+  @Column({ name: 'user_id', nullable: true })
+  userId?: string;
+
+  // 순 방문자 집계용 식별자 (userId 또는 IP + User-Agent 해시)
+  @Column({ name: 'visitor_id', length: 64 })
+  visitorId: string;
+
+  @Column({ name: 'device_type', length: 20, default: 'desktop' })
+  deviceType: ViewDeviceType;
+
+  @Column({ name: 'referrer_host', length: 255, nullable: true })
+  referrerHost?: string;
+
+  @Column({ name: 'user_agent', length: 500, nullable: true })
+  userAgent?: string;
+
+  @Column({ name: 'screen_resolution', length: 20, nullable: true })
+  screenResolution?: string;
+
+  @Column({ length: 20, nullable: true })
+  language?: string;
+
+  @Column({ length: 50, nullable: true })
+  timezone?: string;
+
+  @Column({ name: 'network_speed', length: 20, nullable: true })
+  networkSpeed?: string;
+
+  @Column({ name: 'started_at', type: 'datetime' })
+  startedAt: Date;
+
+  @Column({ name: 'ended_at', type: 'datetime', nullable: true })
+  endedAt?: Date;
+
+  // 세션 지속 시간 (ms)
+  @Column({ type: 'int', nullable: true })
+  duration?: number;
+
+  // 완료율 계산용: 세션에서 도달한 가장 뒤 페이지
+  @Column({ name: 'max_page_index', type: 'int', default: 0 })
+  maxPageIndex: number;
+
+  @Column({ name: 'interaction_count', type: 'int', default: 0 })
+  interactionCount: number;
+
+  @OneToMany(() => PageView, (pageView) => pageView.session)
+  pageViews: PageView[];
+
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -1,5 +1,7 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe, Logger } from '@nestjs/common';
+import { CorsOptions } from '@nestjs/common/interfaces/external/cors-options.interface';
+import { Request } from 'express';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
@@ -7,15 +9,22 @@ async function bootstrap() {
   const logger = new Logger('Bootstrap');
 
   // Enable CORS for frontend integration
-  app.enableCors({
+  const corsOptions = {
     origin: [
       'http://localhost:3000',
       'http://localhost:4173',
       'http://localhost:5173',
     ],
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Access-Token'],
     credentials: true,
+  };
+  // 임베드 추적 스크립트는 플립북을 임베드한 임의의 외부 사이트에서 호출됨 (쿠키 없이)
+  const embedTrackingPath = /^\/api\/flipbooks\/[^/]+\/embed-(view|interaction)(\?|$)/;
+  app.enableCors((req: Request, callback: (error: Error | null, options: CorsOptions) => void) => {
+    callback(null, embedTrackingPath.test(req.url)
+      ? { origin: true, methods: ['POST', 'OPTIONS'], allowedHeaders: ['Content-Type'], credentials: false }
+      : corsOptions);
   });
 
   // Global validation pipe
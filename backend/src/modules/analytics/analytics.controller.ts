@@ -0,0 +1,80 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Ip,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Req,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { AnalyticsService } from './analytics.service';
+import { FlipbookAccessGuard, RequireAccess } from '../share-link/flipbook-access.guard';
+import { ShareLinkService } from '../share-link/share-link.service';
+import {
+  AnalyticsEventBatchDto,
+  AnalyticsQueryDto,
+  EmbedViewDto,
+  EmbedInteractionDto,
+} from '../../dto/analytics.dto';
+
+@Controller()
+export class AnalyticsController {
+  constructor(
+    private readonly analyticsService: AnalyticsService,
+    private readonly shareLinkService: ShareLinkService,
+  ) {}
+
+  // useViewTracking 이벤트 배치 수집 (navigator.sendBeacon의 text/plain 본문도 허용)
+  // sendBeacon은 헤더를 보낼 수 없으므로 공유 링크 접근 토큰은 ?access_token=으로도 받음
+  @Post('analytics/events')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async ingestEvents(
+    @Body() batch: AnalyticsEventBatchDto,
+    @Req() req: Request,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent: string,
+  ) {
+    await this.analyticsService.ingest(batch, { ip, userAgent }, this.shareLinkService.credentialsFrom(req));
+  }
+
+  // 외부 사이트 임베드 추적 스크립트 (EmbedGenerator.generateTrackingCode)
+  @Post('api/flipbooks/:slug/embed-view')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async recordEmbedView(
+    @Param('slug') slug: string,
+    @Body() view: EmbedViewDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent: string,
+    @Headers('origin') origin: string,
+    @Headers('referer') referer: string,
+  ) {
+    await this.analyticsService.recordEmbedView(slug, view, { ip, userAgent, origin: origin || referer });
+  }
+
+  @Post('api/flipbooks/:slug/embed-interaction')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async recordEmbedInteraction(
+    @Param('slug') slug: string,
+    @Body() interaction: EmbedInteractionDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent: string,
+    @Headers('origin') origin: string,
+    @Headers('referer') referer: string,
+  ) {
+    await this.analyticsService.recordEmbedInteraction(slug, interaction, { ip, userAgent, origin: origin || referer });
+  }
+
+  // 조회 기록(세션, 리퍼러)은 소유자나 편집 권한이 있는 공유 링크만 볼 수 있음
+  @Get('flipbooks/:id/analytics')
+  @UseGuards(FlipbookAccessGuard)
+  @RequireAccess('edit')
+  async getFlipbookAnalytics(@Param('id') id: string, @Query() query: AnalyticsQueryDto) {
+    return this.analyticsService.getFlipbookAnalytics(id, query);
+  }
+}
@@ -0,0 +1,25 @@
+import { Module, NestModule, MiddlewareConsumer, RequestMethod } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AnalyticsController } from './analytics.controller';
+import { AnalyticsService } from './analytics.service';
+import { BeaconBodyMiddleware } from './beacon-body.middleware';
+import { Flipbook } from '../../entities/flipbook.entity';
+import { ViewSession } from '../../entities/view-session.entity';
+import { PageView } from '../../entities/page-view.entity';
+import { EmbedEvent } from '../../entities/embed-event.entity';
+import { FlipbookModule } from '../flipbook/flipbook.module';
+import { ShareLinkModule } from '../share-link/share-link.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Flipbook, ViewSession, PageView, EmbedEvent]), FlipbookModule, ShareLinkModule],
+  controllers: [AnalyticsController],
+  providers: [AnalyticsService],
+  exports: [AnalyticsService],
+})
+export class AnalyticsModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer
+      .apply(BeaconBodyMiddleware)
+      .forRoutes({ path: 'analytics/events', method: RequestMethod.POST });
+  }
+}
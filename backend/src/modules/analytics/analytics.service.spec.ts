@@ -0,0 +1,112 @@
+import { ForbiddenException, HttpException, HttpStatus, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { AnalyticsService, AnalyticsClientInfo } from './analytics.service';
+import { FlipbookSlugService } from '../flipbook/flipbook-slug.service';
+import { ShareLinkService } from '../share-link/share-link.service';
+import { Flipbook } from '../../entities/flipbook.entity';
+import { ViewSession } from '../../entities/view-session.entity';
+import { PageView } from '../../entities/page-view.entity';
+import { EmbedEvent } from '../../entities/embed-event.entity';
+import { AnalyticsEventBatchDto } from '../../dto/analytics.dto';
+
+const BROWSER: AnalyticsClientInfo = {
+  ip: '203.0.113.7',
+  userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) AppleWebKit/605.1.15 Safari/605.1.15',
+};
+
+describe('AnalyticsService', () => {
+  let shareLinkService: jest.Mocked<Pick<ShareLinkService, 'resolveAccess'>>;
+  let savedSessions: ViewSession[];
+  let transaction: jest.Mock;
+  let service: AnalyticsService;
+
+  const batch = (flipbookId = 'flipbook-1'): AnalyticsEventBatchDto => ({
+    flipbookId,
+    events: [{ type: 'session_start', sessionId: 'session-1', timestamp: Date.now() }],
+  });
+
+  beforeEach(async () => {
+    shareLinkService = {
+      resolveAccess: jest.fn().mockResolvedValue({ flipbookId: 'flipbook-1', via: 'public', permissions: ['view'] }),
+    };
+    savedSessions = [];
+
+    // 세션/페이지 뷰 저장만 흉내 내는 트랜잭션용 EntityManager
+    const manager = {
+      findOne: jest.fn().mockResolvedValue(null),
+      exists: jest.fn().mockResolvedValue(false),
+      create: jest.fn((_: unknown, fields: Partial<ViewSession>) => Object.assign(new ViewSession(), fields)),
+      save: jest.fn(async (entity: ViewSession) => {
+        if (entity instanceof ViewSession && !savedSessions.includes(entity)) {
+          savedSessions.push(entity);
+        }
+        return entity;
+      }),
+    };
+    transaction = jest.fn((work: (entityManager: typeof manager) => Promise<void>) => work(manager));
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        AnalyticsService,
+        { provide: getRepositoryToken(Flipbook), useValue: {} },
+        { provide: getRepositoryToken(ViewSession), useValue: { manager: { transaction } } },
+        { provide: getRepositoryToken(PageView), useValue: {} },
+        { provide: getRepositoryToken(EmbedEvent), useValue: {} },
+        { provide: FlipbookSlugService, useValue: {} },
+        { provide: ShareLinkService, useValue: shareLinkService },
+      ],
+    }).compile();
+
+    service = moduleRef.get(AnalyticsService);
+  });
+
+  describe('ingest', () => {
+    it('records the session for the signed-in user from the credentials', async () => {
+      await service.ingest(batch(), BROWSER, { userId: 'user-1' });
+
+      expect(shareLinkService.resolveAccess).toHaveBeenCalledWith('flipbook-1', { userId: 'user-1' }, 'view');
+      expect(savedSessions).toHaveLength(1);
+      expect(savedSessions[0]).toMatchObject({ flipbookId: 'flipbook-1', sessionId: 'session-1', userId: 'user-1' });
+    });
+
+    it('drops events for flipbooks the caller cannot view', async () => {
+      shareLinkService.resolveAccess.mockRejectedValueOnce(new UnauthorizedException());
+      await service.ingest(batch(), BROWSER, {});
+
+      shareLinkService.resolveAccess.mockRejectedValueOnce(new ForbiddenException());
+      await service.ingest(batch(), BROWSER, { accessToken: 'token-for-another-flipbook' });
+
+      expect(transaction).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown flipbooks', async () => {
+      shareLinkService.resolveAccess.mockRejectedValueOnce(new NotFoundException());
+
+      await expect(service.ingest(batch('missing'), BROWSER, {})).rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it.each([undefined, 'curl/8.4.0', 'Googlebot/2.1 (+http://www.google.com/bot.html)'])(
+      'ignores bot traffic (%s)',
+      async (userAgent) => {
+        await service.ingest(batch(), { ip: BROWSER.ip, userAgent }, {});
+
+        expect(shareLinkService.resolveAccess).not.toHaveBeenCalled();
+        expect(transaction).not.toHaveBeenCalled();
+      },
+    );
+
+    it('rate limits batches per client and flipbook', async () => {
+      for (let i = 0; i < 60; i++) {
+        await service.ingest(batch(), BROWSER, {});
+      }
+
+      const rejected = service.ingest(batch(), BROWSER, {});
+      await expect(rejected).rejects.toBeInstanceOf(HttpException);
+      await expect(rejected).rejects.toMatchObject({ status: HttpStatus.TOO_MANY_REQUESTS });
+
+      // 다른 플립북은 따로 계산
+      await expect(service.ingest(batch('flipbook-2'), BROWSER, {})).resolves.toBeUndefined();
+    });
+  });
+});
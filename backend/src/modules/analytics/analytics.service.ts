@@ -0,0 +1,525 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, EntityManager, IsNull } from 'typeorm';
+import { DateUtils } from 'typeorm/util/DateUtils';
+import { createHash } from 'crypto';
+import { Flipbook } from '../../entities/flipbook.entity';
+import { ViewSession, ViewDeviceType } from '../../entities/view-session.entity';
+import { PageView } from '../../entities/page-view.entity';
+import { EmbedEvent, EmbedEventType } from '../../entities/embed-event.entity';
+import { FlipbookSlugService } from '../flipbook/flipbook-slug.service';
+import { ShareLinkService, AccessCredentials } from '../share-link/share-link.service';
+import { RateLimiter } from './rate-limiter';
+import {
+  AnalyticsEventBatchDto,
+  AnalyticsEventDto,
+  AnalyticsQueryDto,
+  EmbedViewDto,
+  EmbedInteractionDto,
+  FlipbookAnalyticsDto,
+  DailyViewsDto,
+  PageDropOffDto,
+  EmbedAnalyticsDto,
+  EmbedStatsDto,
+} from '../../dto/analytics.dto';
+
+// 기간을 지정하지 않으면 최근 30일 기준으로 집계
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const MOST_VIEWED_PAGES_LIMIT = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEVICE_TYPES: ViewDeviceType[] = ['mobile', 'tablet', 'desktop'];
+
+// 추적 요청 한도 (IP + 플립북 기준, 1분)
+const TRACKING_RATE_WINDOW_MS = 60 * 1000;
+const EVENT_BATCH_RATE_LIMIT = 60;
+const EMBED_VIEW_RATE_LIMIT = 30;
+const EMBED_INTERACTION_RATE_LIMIT = 120;
+const EMBED_STATS_LIMIT = 20;
+
+// 검색엔진, 링크 미리보기, 모니터링 도구, HTTP 라이브러리 등의 User-Agent
+const BOT_USER_AGENT_PATTERN =
+  /bot|crawl|spider|slurp|scraper|preview|facebookexternalhit|headless|phantomjs|lighthouse|pingdom|uptime|monitor|curl|wget|python|java\/|go-http-client|okhttp|node-fetch|axios|httpclient|postman/i;
+
+export interface AnalyticsClientInfo {
+  ip?: string;
+  userAgent?: string;
+  // 요청을 보낸 페이지 (Origin 또는 Referer 헤더)
+  origin?: string;
+}
+
+@Injectable()
+export class AnalyticsService {
+  private readonly eventBatchLimiter = new RateLimiter(EVENT_BATCH_RATE_LIMIT, TRACKING_RATE_WINDOW_MS);
+  private readonly embedViewLimiter = new RateLimiter(EMBED_VIEW_RATE_LIMIT, TRACKING_RATE_WINDOW_MS);
+  private readonly embedInteractionLimiter = new RateLimiter(EMBED_INTERACTION_RATE_LIMIT, TRACKING_RATE_WINDOW_MS);
+
+  constructor(
+    @InjectRepository(Flipbook)
+    private flipbookRepository: Repository<Flipbook>,
+    @InjectRepository(ViewSession)
+    private viewSessionRepository: Repository<ViewSession>,
+    @InjectRepository(PageView)
+    private pageViewRepository: Repository<PageView>,
+    @InjectRepository(EmbedEvent)
+    private embedEventRepository: Repository<EmbedEvent>,
+    private flipbookSlugService: FlipbookSlugService,
+    private shareLinkService: ShareLinkService,
+  ) {}
+
+  // useViewTracking이 보낸 이벤트 배치를 세션별로 묶어 순서대로 반영
+  // 봇 요청과 볼 수 없는 플립북의 이벤트는 오류 없이 버리고, 한도를 넘은 요청은 429로 거절
+  // 로그인 사용자는 본문이 아니라 세션(credentials.userId)으로 확인
+  async ingest(batch: AnalyticsEventBatchDto, client: AnalyticsClientInfo, credentials: AccessCredentials): Promise<void> {
+    if (this.isBot(client.userAgent)) {
+      return;
+    }
+
+    if (!this.eventBatchLimiter.consume(`${client.ip || ''}:${batch.flipbookId}`)) {
+      throw new HttpException('Too many analytics requests', HttpStatus.TOO_MANY_REQUESTS);
+    }
+
+    try {
+      await this.shareLinkService.resolveAccess(batch.flipbookId, credentials, 'view');
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+      return;
+    }
+
+    const eventsBySession = new Map<string, AnalyticsEventDto[]>();
+    for (const event of batch.events) {
+      eventsBySession.set(event.sessionId, [...(eventsBySession.get(event.sessionId) || []), event]);
+    }
+
+    await this.viewSessionRepository.manager.transaction(async (manager) => {
+      for (const [sessionId, events] of eventsBySession) {
+        events.sort((a, b) => a.timestamp - b.timestamp);
+
+        const session = await this.findOrCreateSession(manager, batch, sessionId, events[0], client, credentials.userId);
+        // 다른 플립북의 세션 ID로 들어온 이벤트는 무시
+        if (session.flipbookId !== batch.flipbookId) {
+          continue;
+        }
+
+        for (const event of events) {
+          await this.applyEvent(manager, session, event);
+        }
+        await manager.save(session);
+      }
+    });
+  }
+
+  async recordEmbedView(slug: string, view: EmbedViewDto, client: AnalyticsClientInfo): Promise<void> {
+    await this.recordEmbedEvent(slug, 'view', view.trackingId, client, {
+      referrerHost: this.referrerHostFor(view.referrer),
+    });
+  }
+
+  async recordEmbedInteraction(
+    slug: string,
+    interaction: EmbedInteractionDto,
+    client: AnalyticsClientInfo,
+  ): Promise<void> {
+    await this.recordEmbedEvent(slug, 'interaction', interaction.trackingId, client, {
+      interactionType: interaction.type,
+    });
+  }
+
+  async getFlipbookAnalytics(flipbookId: string, query: AnalyticsQueryDto): Promise<FlipbookAnalyticsDto> {
+    const flipbook = await this.flipbookRepository.findOne({ where: { id: flipbookId } });
+    if (!flipbook) {
+      throw new NotFoundException(`Flipbook with ID ${flipbookId} not found`);
+    }
+
+    const to = query.to ? new Date(query.to) : new Date();
+    const from = query.from
+      ? new Date(query.from)
+      : new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+    if (from > to) {
+      throw new BadRequestException('from must be earlier than to');
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      throw new BadRequestException(`Date range must not exceed ${MAX_RANGE_DAYS} days`);
+    }
+
+    // sqlite datetime 컬럼은 문자열로 저장되므로 같은 형식으로 비교
+    const range = {
+      flipbookId,
+      from: DateUtils.mixedDateToUtcDatetimeString(from),
+      to: DateUtils.mixedDateToUtcDatetimeString(to),
+    };
+    const sessionsInRange = () =>
+      this.viewSessionRepository
+        .createQueryBuilder('session')
+        .where('session.flipbookId = :flipbookId', range)
+        .andWhere('session.startedAt BETWEEN :from AND :to', range);
+    const embedEventsInRange = () =>
+      this.embedEventRepository
+        .createQueryBuilder('embed')
+        .where('embed.flipbookId = :flipbookId', range)
+        .andWhere('embed.occurredAt BETWEEN :from AND :to', range);
+    const pageViewsInRange = () =>
+      this.pageViewRepository
+        .createQueryBuilder('pageView')
+        .where('pageView.flipbookId = :flipbookId', range)
+        .andWhere('pageView.startedAt BETWEEN :from AND :to', range);
+
+    const totals = await sessionsInRange()
+      .select('COUNT(session.id)', 'totalViews')
+      .addSelect('COUNT(DISTINCT session.visitorId)', 'uniqueViews')
+      .addSelect('AVG(session.duration)', 'averageSessionTime')
+      .addSelect('SUM(CASE WHEN session.maxPageIndex >= :lastPageIndex THEN 1 ELSE 0 END)', 'completedViews')
+      .setParameter('lastPageIndex', Math.max(flipbook.pageCount - 1, 0))
+      .getRawOne();
+
+    const pageTime = await pageViewsInRange()
+      .select('AVG(pageView.duration)', 'averagePageTime')
+      .getRawOne();
+
+    const pageAttention = (
+      await pageViewsInRange()
+        .select('pageView.pageIndex', 'pageIndex')
+        .addSelect('COUNT(pageView.id)', 'views')
+        .addSelect('AVG(pageView.duration)', 'averageTime')
+        .groupBy('pageView.pageIndex')
+        .orderBy('pageView.pageIndex', 'ASC')
+        .getRawMany()
+    ).map((row) => ({
+      pageIndex: Number(row.pageIndex),
+      views: Number(row.views),
+      averageTime: Math.round(Number(row.averageTime) || 0),
+    }));
+
+    const mostViewedPages = [...pageAttention]
+      .sort((a, b) => b.views - a.views || a.pageIndex - b.pageIndex)
+      .slice(0, MOST_VIEWED_PAGES_LIMIT)
+      .map(({ pageIndex, views }) => ({ pageIndex, views }));
+
+    const dailyViews = await sessionsInRange()
+      .select('DATE(session.startedAt)', 'date')
+      .addSelect('COUNT(session.id)', 'views')
+      .addSelect('COUNT(DISTINCT session.visitorId)', 'uniqueViews')
+      .groupBy('date')
+      .getRawMany();
+
+    const furthestPages = await sessionsInRange()
+      .select('session.maxPageIndex', 'pageIndex')
+      .addSelect('COUNT(session.id)', 'sessions')
+      .groupBy('session.maxPageIndex')
+      .getRawMany();
+
+    const devices = await sessionsInRange()
+      .select('session.deviceType', 'key')
+      .addSelect('COUNT(session.id)', 'count')
+      .groupBy('session.deviceType')
+      .getRawMany();
+
+    const referrers = await sessionsInRange()
+      .select("COALESCE(session.referrerHost, 'direct')", 'key')
+      .addSelect('COUNT(session.id)', 'count')
+      .groupBy('key')
+      .getRawMany();
+
+    const languages = await sessionsInRange()
+      .select("COALESCE(session.language, 'unknown')", 'key')
+      .addSelect('COUNT(session.id)', 'count')
+      .groupBy('key')
+      .getRawMany();
+
+    const dailyEmbedViews = await embedEventsInRange()
+      .select('DATE(embed.occurredAt)', 'date')
+      .addSelect('COUNT(embed.id)', 'embedViews')
+      .andWhere("embed.type = 'view'")
+      .groupBy('date')
+      .getRawMany();
+
+    const embedStats = () =>
+      embedEventsInRange()
+        .select("SUM(CASE WHEN embed.type = 'view' THEN 1 ELSE 0 END)", 'views')
+        .addSelect("COUNT(DISTINCT CASE WHEN embed.type = 'view' THEN embed.visitorId END)", 'uniqueViews')
+        .addSelect("SUM(CASE WHEN embed.type = 'interaction' THEN 1 ELSE 0 END)", 'interactions');
+    const embedStatsBy = (key: string) =>
+      embedStats()
+        .addSelect(key, 'key')
+        .groupBy('key')
+        .orderBy('views', 'DESC')
+        .limit(EMBED_STATS_LIMIT)
+        .getRawMany();
+
+    const embedTotals = await embedStats().getRawOne();
+    const embedsByTrackingId = await embedStatsBy('embed.trackingId');
+    const embedsByDomain = await embedStatsBy("COALESCE(embed.embedDomain, 'unknown')");
+
+    const totalViews = Number(totals.totalViews);
+
+    return {
+      flipbookId,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      totalViews,
+      uniqueViews: Number(totals.uniqueViews),
+      averageSessionTime: Math.round(Number(totals.averageSessionTime) || 0),
+      averagePageTime: Math.round(Number(pageTime.averagePageTime) || 0),
+      mostViewedPages,
+      deviceBreakdown: this.toBreakdown(devices),
+      referrerBreakdown: this.toBreakdown(referrers),
+      languageBreakdown: this.toBreakdown(languages),
+      conversionRate: totalViews > 0 && flipbook.pageCount > 0
+        ? Number(totals.completedViews) / totalViews
+        : 0,
+      viewsOverTime: this.fillDailyViews(from, to, dailyViews, dailyEmbedViews),
+      pageAttention,
+      dropOff: this.toDropOff(flipbook.pageCount, furthestPages),
+      embeds: this.toEmbedAnalytics(embedTotals, embedsByTrackingId, embedsByDomain),
+    };
+  }
+
+  // 봇 요청은 오류 없이 버리고, 한도를 넘은 요청은 429로 거절
+  private async recordEmbedEvent(
+    slug: string,
+    type: EmbedEventType,
+    trackingId: string,
+    client: AnalyticsClientInfo,
+    details: Pick<EmbedEvent, 'referrerHost' | 'interactionType'>,
+  ): Promise<void> {
+    const { flipbookId } = await this.flipbookSlugService.resolve(slug);
+
+    if (this.isBot(client.userAgent)) {
+      return;
+    }
+
+    const limiter = type === 'view' ? this.embedViewLimiter : this.embedInteractionLimiter;
+    if (!limiter.consume(`${client.ip || ''}:${flipbookId}`)) {
+      throw new HttpException('Too many embed tracking requests', HttpStatus.TOO_MANY_REQUESTS);
+    }
+
+    // 임베드 추적은 실시간으로 보내므로 클라이언트 시각 대신 수신 시각을 사용
+    await this.embedEventRepository.save(
+      this.embedEventRepository.create({
+        flipbookId,
+        type,
+        trackingId,
+        embedDomain: this.referrerHostFor(client.origin),
+        visitorId: this.visitorIdFor(undefined, client),
+        occurredAt: new Date(),
+        ...details,
+      }),
+    );
+  }
+
+  private isBot(userAgent?: string): boolean {
+    return !userAgent || BOT_USER_AGENT_PATTERN.test(userAgent);
+  }
+
+  private async findOrCreateSession(
+    manager: EntityManager,
+    batch: AnalyticsEventBatchDto,
+    sessionId: string,
+    firstEvent: AnalyticsEventDto,
+    client: AnalyticsClientInfo,
+    userId: string | undefined,
+  ): Promise<ViewSession> {
+    const existing = await manager.findOne(ViewSession, { where: { sessionId } });
+    if (existing) {
+      return existing;
+    }
+
+    // session_start가 유실되었더라도 이후 이벤트로 세션을 만들어 집계에 포함
+    return manager.save(
+      manager.create(ViewSession, {
+        sessionId,
+        flipbookId: batch.flipbookId,
+        userId,
+        visitorId: this.visitorIdFor(userId, client),
+        userAgent: client.userAgent?.slice(0, 500),
+        startedAt: new Date(firstEvent.timestamp),
+        maxPageIndex: 0,
+        interactionCount: 0,
+      }),
+    );
+  }
+
+  private async applyEvent(manager: EntityManager, session: ViewSession, event: AnalyticsEventDto): Promise<void> {
+    const timestamp = new Date(event.timestamp);
+
+    switch (event.type) {
+      case 'session_start':
+        this.applyMetadata(session, event.metadata);
+        if (timestamp < session.startedAt) {
+          session.startedAt = timestamp;
+        }
+        break;
+
+      case 'page_view': {
+        if (event.pageIndex === undefined) {
+          return;
+        }
+        // 재전송된 배치로 같은 페이지 뷰가 중복 저장되지 않도록 확인
+        const duplicate = await manager.exists(PageView, {
+          where: { viewSessionId: session.id, pageIndex: event.pageIndex, startedAt: timestamp },
+        });
+        if (!duplicate) {
+          await manager.save(manager.create(PageView, {
+            viewSessionId: session.id,
+            flipbookId: session.flipbookId,
+            pageIndex: event.pageIndex,
+            startedAt: timestamp,
+          }));
+        }
+        session.maxPageIndex = Math.max(session.maxPageIndex, event.pageIndex);
+        break;
+      }
+
+      case 'page_end': {
+        if (event.pageIndex === undefined) {
+          return;
+        }
+        const duration = event.duration || 0;
+        const openPageView = await manager.findOne(PageView, {
+          where: { viewSessionId: session.id, pageIndex: event.pageIndex, duration: IsNull() },
+          order: { startedAt: 'DESC' },
+        });
+        const pageView = openPageView || manager.create(PageView, {
+          viewSessionId: session.id,
+          flipbookId: session.flipbookId,
+          pageIndex: event.pageIndex,
+          startedAt: new Date(event.timestamp - duration),
+        });
+        pageView.duration = duration;
+        pageView.interactionCount = event.interactions || 0;
+        await manager.save(pageView);
+        session.maxPageIndex = Math.max(session.maxPageIndex, event.pageIndex);
+        break;
+      }
+
+      case 'interaction':
+        session.interactionCount += 1;
+        break;
+
+      case 'session_end':
+        session.endedAt = timestamp;
+        session.duration = event.duration ?? Math.max(event.timestamp - session.startedAt.getTime(), 0);
+        break;
+    }
+  }
+
+  private applyMetadata(session: ViewSession, metadata?: Record<string, any>): void {
+    if (!metadata) {
+      return;
+    }
+
+    const text = (value: unknown, maxLength: number) =>
+      typeof value === 'string' && value.length > 0 ? value.slice(0, maxLength) : undefined;
+
+    if (DEVICE_TYPES.includes(metadata.deviceType)) {
+      session.deviceType = metadata.deviceType;
+    }
+    session.referrerHost = this.referrerHostFor(metadata.referrer);
+    session.userAgent = text(metadata.userAgent, 500) || session.userAgent;
+    session.screenResolution = text(metadata.screenResolution, 20);
+    session.language = text(metadata.language, 20);
+    session.timezone = text(metadata.timezone, 50);
+    session.networkSpeed = text(metadata.networkSpeed, 20);
+  }
+
+  // 리퍼러는 호스트 단위로만 저장 (쿼리스트링 등 개인정보 제외)
+  private referrerHostFor(referrer: unknown): string | undefined {
+    if (typeof referrer !== 'string' || !referrer) {
+      return undefined;
+    }
+    try {
+      return new URL(referrer).hostname.slice(0, 255) || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  // 로그인 사용자는 userId, 익명 사용자는 IP와 User-Agent 해시로 순 방문자를 구분
+  private visitorIdFor(userId: string | undefined, client: AnalyticsClientInfo): string {
+    const source = userId ? `user:${userId}` : `anon:${client.ip || ''}:${client.userAgent || ''}`;
+    return createHash('sha256').update(source).digest('hex').slice(0, 32);
+  }
+
+  // 조회가 없는 날도 0으로 채워 차트가 끊기지 않게 함
+  private fillDailyViews(
+    from: Date,
+    to: Date,
+    rows: { date: string; views: string | number; uniqueViews: string | number }[],
+    embedRows: { date: string; embedViews: string | number }[],
+  ): DailyViewsDto[] {
+    const rowsByDate = new Map(rows.map((row) => [row.date, row]));
+    const embedViewsByDate = new Map(embedRows.map((row) => [row.date, Number(row.embedViews)]));
+    const days: DailyViewsDto[] = [];
+
+    for (
+      let day = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate());
+      day <= to.getTime();
+      day += DAY_MS
+    ) {
+      const date = new Date(day).toISOString().slice(0, 10);
+      const row = rowsByDate.get(date);
+      days.push({
+        date,
+        views: Number(row?.views || 0),
+        uniqueViews: Number(row?.uniqueViews || 0),
+        embedViews: embedViewsByDate.get(date) || 0,
+      });
+    }
+
+    return days;
+  }
+
+  // 세션별로 도달한 마지막 페이지 분포를 누적해 페이지별 잔존 독자 수로 변환
+  private toDropOff(
+    pageCount: number,
+    rows: { pageIndex: string | number; sessions: string | number }[],
+  ): PageDropOffDto[] {
+    const lastPageIndex = Math.max(pageCount - 1, ...rows.map((row) => Number(row.pageIndex)));
+    const stoppedAt = new Map(rows.map((row) => [Number(row.pageIndex), Number(row.sessions)]));
+    const dropOff: PageDropOffDto[] = [];
+
+    let readers = 0;
+    for (let pageIndex = lastPageIndex; pageIndex >= 0; pageIndex--) {
+      readers += stoppedAt.get(pageIndex) || 0;
+      dropOff.unshift({ pageIndex, readers });
+    }
+
+    return dropOff;
+  }
+
+  private toEmbedAnalytics(
+    totals: Record<string, string | number | null>,
+    byTrackingId: Record<string, string | number | null>[],
+    byDomain: Record<string, string | number | null>[],
+  ): EmbedAnalyticsDto {
+    const toStats = (row: Record<string, string | number | null>): Omit<EmbedStatsDto, 'key'> => ({
+      views: Number(row.views || 0),
+      uniqueViews: Number(row.uniqueViews || 0),
+      interactions: Number(row.interactions || 0),
+    });
+    const toRows = (rows: Record<string, string | number | null>[]): EmbedStatsDto[] =>
+      rows.map((row) => ({ key: String(row.key), ...toStats(row) }));
+
+    return {
+      ...toStats(totals),
+      byTrackingId: toRows(byTrackingId),
+      byDomain: toRows(byDomain),
+    };
+  }
+
+  private toBreakdown(rows: { key: string; count: string | number }[]): Record<string, number> {
+    return rows.reduce<Record<string, number>>((breakdown, row) => {
+      breakdown[row.key] = Number(row.count);
+      return breakdown;
+    }, {});
+  }
+}
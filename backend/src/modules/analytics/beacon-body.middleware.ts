@@ -0,0 +1,12 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { Request, Response, NextFunction, json } from 'express';
+
+// navigator.sendBeacon은 CORS preflight를 피하려고 text/plain으로 보내므로 JSON으로 파싱
+const parseBeaconBody = json({ type: 'text/plain', limit: '1mb' });
+
+@Injectable()
+export class BeaconBodyMiddleware implements NestMiddleware {
+  use(req: Request, res: Response, next: NextFunction) {
+    parseBeaconBody(req, res, next);
+  }
+}
@@ -0,0 +1,35 @@
+// 키별 고정 구간(window) 요청 수 제한 (단일 서버 프로세스 메모리 기준)
+export class RateLimiter {
+  private readonly windows = new Map<string, { count: number; resetAt: number }>();
+
+  constructor(
+    private readonly limit: number,
+    private readonly windowMs: number,
+    // 만료된 구간 정리를 시작하는 키 개수
+    private readonly maxKeys = 10000,
+  ) {}
+
+  // 요청을 하나 소비하고 한도 안이면 true
+  consume(key: string, now = Date.now()): boolean {
+    const window = this.windows.get(key);
+
+    if (!window || window.resetAt <= now) {
+      if (this.windows.size >= this.maxKeys) {
+        this.prune(now);
+      }
+      this.windows.set(key, { count: 1, resetAt: now + this.windowMs });
+      return true;
+    }
+
+    window.count += 1;
+    return window.count <= this.limit;
+  }
+
+  private prune(now: number): void {
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
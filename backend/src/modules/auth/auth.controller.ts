@@ -0,0 +1,86 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Req,
+  Res,
+  HttpStatus,
+  HttpCode,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request, Response } from 'express';
+import { AuthService, AuthUser } from './auth.service';
+import { UserService } from '../user/user.service';
+import { RequireUser, SkipUserAuth, CurrentUser } from './auth.guard';
+import { REFRESH_COOKIE, readCookie, writeSessionCookies, clearSessionCookies } from './session-cookie';
+import { SignUpDto, LoginDto, AuthSessionDto } from '../../dto/auth.dto';
+import { AuthConfig } from '../../config/auth.config';
+
+@Controller('auth')
+export class AuthController {
+  private readonly config: AuthConfig;
+
+  constructor(
+    private readonly authService: AuthService,
+    private readonly userService: UserService,
+    configService: ConfigService,
+  ) {
+    this.config = configService.get<AuthConfig>('auth');
+  }
+
+  @Post('signup')
+  @SkipUserAuth()
+  async signUp(
+    @Body() signUpDto: SignUpDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<AuthSessionDto> {
+    return writeSessionCookies(res, await this.authService.signUp(signUpDto), this.config);
+  }
+
+  @Post('login')
+  @SkipUserAuth()
+  @HttpCode(HttpStatus.OK)
+  async login(
+    @Body() loginDto: LoginDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<AuthSessionDto> {
+    return writeSessionCookies(res, await this.authService.login(loginDto), this.config);
+  }
+
+  // Exchanges the refresh cookie for a new access/refresh token pair (the old refresh token stops working)
+  @Post('refresh')
+  @SkipUserAuth()
+  @HttpCode(HttpStatus.OK)
+  async refresh(@Req() req: Request, @Res({ passthrough: true }) res: Response): Promise<AuthSessionDto> {
+    const refreshToken = readCookie(req, REFRESH_COOKIE);
+    if (!refreshToken) {
+      throw new UnauthorizedException({ code: 'INVALID_REFRESH_TOKEN', message: 'Refresh token is invalid or has expired' });
+    }
+
+    try {
+      return writeSessionCookies(res, await this.authService.refresh(refreshToken), this.config);
+    } catch (error) {
+      clearSessionCookies(res, this.config);
+      throw error;
+    }
+  }
+
+  @Post('logout')
+  @SkipUserAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logout(@Req() req: Request, @Res({ passthrough: true }) res: Response) {
+    const refreshToken = readCookie(req, REFRESH_COOKIE);
+    if (refreshToken) {
+      await this.authService.logout(refreshToken);
+    }
+    clearSessionCookies(res, this.config);
+  }
+
+  @Get('me')
+  @RequireUser()
+  async me(@CurrentUser() user: AuthUser) {
+    return this.userService.toProfile(await this.userService.findOne(user.id));
+  }
+}
@@ -0,0 +1,76 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { Test } from '@nestjs/testing';
+import { AuthGuard, AuthenticatedRequest, RequireUser, SkipUserAuth } from './auth.guard';
+import { AuthService, AuthUser } from './auth.service';
+
+// 데코레이터 메타데이터를 실제 Reflector로 읽도록 라우트 핸들러를 흉내 냄
+class RoutesFixture {
+  publicRoute() {}
+
+  @RequireUser()
+  privateRoute() {}
+
+  @SkipUserAuth()
+  skippedRoute() {}
+}
+
+describe('AuthGuard', () => {
+  const expired = new UnauthorizedException({ code: 'AUTH_TOKEN_EXPIRED', message: 'Access token has expired' });
+  let authService: jest.Mocked<Pick<AuthService, 'verifyAccessToken'>>;
+  let guard: AuthGuard;
+
+  const contextFor = (handler: keyof RoutesFixture, request: Partial<AuthenticatedRequest>): ExecutionContext =>
+    new ExecutionContextHost([request], RoutesFixture, RoutesFixture.prototype[handler]);
+
+  const requestWithCookie = (cookie: string): Partial<AuthenticatedRequest> => ({
+    header: ((name: string) => (name === 'cookie' ? cookie : undefined)) as AuthenticatedRequest['header'],
+  });
+
+  beforeEach(async () => {
+    authService = {
+      verifyAccessToken: jest.fn<AuthUser, [string]>(() => {
+        throw expired;
+      }),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [AuthGuard, Reflector, { provide: AuthService, useValue: authService }],
+    }).compile();
+
+    guard = moduleRef.get(AuthGuard);
+  });
+
+  it('treats an expired session cookie as anonymous on routes that do not require a user', () => {
+    const request = requestWithCookie('flipcanva_session=expired');
+
+    expect(guard.canActivate(contextFor('publicRoute', request))).toBe(true);
+    expect(request.user).toBeUndefined();
+  });
+
+  it('rejects an expired session cookie with AUTH_TOKEN_EXPIRED on @RequireUser() routes', () => {
+    const request = requestWithCookie('flipcanva_session=expired');
+
+    expect(() => guard.canActivate(contextFor('privateRoute', request))).toThrow(expired);
+  });
+
+  it('rejects anonymous requests on @RequireUser() routes', () => {
+    expect(() => guard.canActivate(contextFor('privateRoute', requestWithCookie('')))).toThrow(UnauthorizedException);
+  });
+
+  it('does not verify the token on @SkipUserAuth() routes', () => {
+    const request = requestWithCookie('flipcanva_session=expired');
+
+    expect(guard.canActivate(contextFor('skippedRoute', request))).toBe(true);
+    expect(authService.verifyAccessToken).not.toHaveBeenCalled();
+  });
+
+  it('sets the verified user', () => {
+    authService.verifyAccessToken.mockReturnValue({ id: 'user-1', email: 'a@example.com' });
+    const request = requestWithCookie('flipcanva_session=valid');
+
+    expect(guard.canActivate(contextFor('privateRoute', request))).toBe(true);
+    expect(request.user).toEqual({ id: 'user-1', email: 'a@example.com' });
+  });
+});
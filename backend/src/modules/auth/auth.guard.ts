@@ -0,0 +1,83 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  SetMetadata,
+  UnauthorizedException,
+  createParamDecorator,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { AuthService, AuthUser } from './auth.service';
+import { SESSION_COOKIE, readCookie } from './session-cookie';
+
+const REQUIRE_USER_KEY = 'requireUser';
+const SKIP_USER_AUTH_KEY = 'skipUserAuth';
+
+export interface AuthenticatedRequest extends Request {
+  user?: AuthUser;
+}
+
+// 로그인해야 쓸 수 있는 라우트
+export const RequireUser = () => SetMetadata(REQUIRE_USER_KEY, true);
+
+// 사용자 확인을 하지 않는 라우트 (다른 서비스의 토큰이 오는 Canva 시뮬레이터, 만료된 세션으로도 불러야 하는 로그인/갱신/로그아웃)
+export const SkipUserAuth = () => SetMetadata(SKIP_USER_AUTH_KEY, true);
+
+// 액세스 토큰(Authorization 헤더 또는 세션 쿠키)으로 확인한 사용자 (로그인하지 않았으면 undefined)
+export const CurrentUser = createParamDecorator(
+  (data: unknown, context: ExecutionContext): AuthUser | undefined =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().user,
+);
+
+// 전역 가드: Bearer 토큰이나 세션 쿠키가 있으면 모든 라우트에서 사용자를 확인하고, @RequireUser() 라우트는 로그인을 요구
+// 토큰이 만료되었거나 잘못되었으면 @RequireUser() 라우트만 그 오류로 거절하고, 나머지는 로그인하지 않은 요청으로 처리
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly authService: AuthService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    if (context.getType() !== 'http') {
+      return true;
+    }
+
+    const skip = this.reflector.getAllAndOverride<boolean>(SKIP_USER_AUTH_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (skip) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const [scheme, bearer] = (request.header('authorization') || '').split(' ');
+    const token = (scheme === 'Bearer' && bearer) || readCookie(request, SESSION_COOKIE);
+
+    const required = this.reflector.getAllAndOverride<boolean>(REQUIRE_USER_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (token) {
+      try {
+        request.user = this.authService.verifyAccessToken(token);
+        return true;
+      } catch (error) {
+        // 프론트엔드는 AUTH_TOKEN_EXPIRED를 받으면 갱신한 뒤 다시 요청
+        if (required) {
+          throw error;
+        }
+        return true;
+      }
+    }
+
+    if (required) {
+      throw new UnauthorizedException({ code: 'AUTH_REQUIRED', message: 'Sign in to continue' });
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuthController } from './auth.controller';
+import { AuthService } from './auth.service';
+import { AuthGuard } from './auth.guard';
+import { UserModule } from '../user/user.module';
+import { RefreshToken } from '../../entities/refresh-token.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([RefreshToken]), UserModule],
+  controllers: [AuthController],
+  providers: [
+    AuthService,
+    // 모든 라우트보다 먼저 실행되어 FlipbookAccessGuard 등에서 request.user를 쓸 수 있음
+    { provide: APP_GUARD, useClass: AuthGuard },
+  ],
+  exports: [AuthService],
+})
+export class AuthModule {}
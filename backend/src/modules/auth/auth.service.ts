@@ -0,0 +1,154 @@
+import { Injectable, UnauthorizedException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, IsNull } from 'typeorm';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { User } from '../../entities/user.entity';
+import { RefreshToken } from '../../entities/refresh-token.entity';
+import { SignUpDto, LoginDto, AuthTokensDto } from '../../dto/auth.dto';
+import { UserService } from '../user/user.service';
+import { AuthConfig } from '../../config/auth.config';
+
+// 요청에 실리는 로그인 사용자 (액세스 토큰에서 꺼낸 값)
+export interface AuthUser {
+  id: string;
+  email: string;
+}
+
+interface AccessTokenPayload {
+  sub: string; // user id
+  email: string;
+  iat: number; // s
+  exp: number; // s
+}
+
+const JWT_HEADER = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly secret: string;
+  private readonly config: AuthConfig;
+
+  constructor(
+    @InjectRepository(RefreshToken)
+    private refreshTokenRepository: Repository<RefreshToken>,
+    private userService: UserService,
+    private configService: ConfigService,
+  ) {
+    this.config = this.configService.get<AuthConfig>('auth');
+    this.secret = this.config.jwtSecret || randomBytes(32).toString('hex');
+
+    if (!this.config.jwtSecret) {
+      this.logger.warn('JWT_SECRET is not set; sessions will not survive a restart');
+    }
+  }
+
+  async signUp(signUpDto: SignUpDto): Promise<AuthTokensDto> {
+    const user = await this.userService.create(signUpDto);
+    return this.issueTokens(user);
+  }
+
+  async login(loginDto: LoginDto): Promise<AuthTokensDto> {
+    const user = await this.userService.verifyCredentials(loginDto);
+    return this.issueTokens(user);
+  }
+
+  // 리프레시 토큰은 한 번만 쓸 수 있고 쓸 때마다 새 토큰으로 교체
+  async refresh(refreshToken: string): Promise<AuthTokensDto> {
+    const stored = await this.refreshTokenRepository.findOne({
+      where: { tokenHash: this.hashToken(refreshToken) },
+    });
+
+    if (!stored || stored.expiresAt.getTime() <= Date.now()) {
+      throw new UnauthorizedException({ code: 'INVALID_REFRESH_TOKEN', message: 'Refresh token is invalid or has expired' });
+    }
+
+    // 이미 교체된 토큰이 다시 쓰이면 유출된 것으로 보고 그 사용자의 세션을 모두 끊음
+    if (stored.revokedAt) {
+      this.logger.warn(`Refresh token reuse detected for user ${stored.userId}; revoking all sessions`);
+      await this.revokeAll(stored.userId);
+      throw new UnauthorizedException({ code: 'INVALID_REFRESH_TOKEN', message: 'Refresh token is invalid or has expired' });
+    }
+
+    // 동시에 같은 토큰으로 갱신하면 한 요청만 성공
+    const result = await this.refreshTokenRepository.update(
+      { id: stored.id, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    if (!result.affected) {
+      throw new UnauthorizedException({ code: 'INVALID_REFRESH_TOKEN', message: 'Refresh token is invalid or has expired' });
+    }
+
+    return this.issueTokens(await this.userService.findOne(stored.userId));
+  }
+
+  async logout(refreshToken: string): Promise<void> {
+    await this.refreshTokenRepository.update(
+      { tokenHash: this.hashToken(refreshToken), revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+  }
+
+  verifyAccessToken(token: string): AuthUser {
+    const [header, body, signature] = token.split('.');
+    const expected = header === JWT_HEADER && body ? this.sign(`${header}.${body}`) : '';
+
+    if (
+      !signature ||
+      signature.length !== expected.length ||
+      !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      throw new UnauthorizedException({ code: 'INVALID_AUTH_TOKEN', message: 'Invalid access token' });
+    }
+
+    const payload: AccessTokenPayload = JSON.parse(Buffer.from(body, 'base64url').toString());
+    if (payload.exp * 1000 <= Date.now()) {
+      throw new UnauthorizedException({ code: 'AUTH_TOKEN_EXPIRED', message: 'Access token has expired' });
+    }
+
+    return { id: payload.sub, email: payload.email };
+  }
+
+  private async issueTokens(user: User): Promise<AuthTokensDto> {
+    const now = Math.floor(Date.now() / 1000);
+    const payload: AccessTokenPayload = {
+      sub: user.id,
+      email: user.email,
+      iat: now,
+      exp: now + this.config.accessTokenTtl,
+    };
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+    const refreshToken = randomBytes(32).toString('base64url');
+    const refreshTokenExpiresAt = new Date(Date.now() + this.config.refreshTokenTtl * 1000);
+    await this.refreshTokenRepository.save(
+      this.refreshTokenRepository.create({
+        userId: user.id,
+        tokenHash: this.hashToken(refreshToken),
+        expiresAt: refreshTokenExpiresAt,
+      }),
+    );
+
+    return {
+      tokenType: 'Bearer',
+      accessToken: `${JWT_HEADER}.${body}.${this.sign(`${JWT_HEADER}.${body}`)}`,
+      expiresAt: payload.exp * 1000,
+      refreshToken,
+      refreshTokenExpiresAt: refreshTokenExpiresAt.getTime(),
+      user: this.userService.toProfile(user),
+    };
+  }
+
+  private async revokeAll(userId: string): Promise<void> {
+    await this.refreshTokenRepository.update({ userId, revokedAt: IsNull() }, { revokedAt: new Date() });
+  }
+
+  private sign(value: string): string {
+    return createHmac('sha256', this.secret).update(value).digest('base64url');
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,52 @@
+import { Request, Response, CookieOptions } from 'express';
+import { AuthTokensDto, AuthSessionDto } from '../../dto/auth.dto';
+import { AuthConfig } from '../../config/auth.config';
+
+// 액세스 토큰: 모든 API 요청에 실림
+export const SESSION_COOKIE = 'flipcanva_session';
+// 리프레시 토큰: 갱신/로그아웃 요청에만 실림
+export const REFRESH_COOKIE = 'flipcanva_refresh';
+const REFRESH_COOKIE_PATH = '/auth';
+
+// cookie-parser 없이 요청의 Cookie 헤더에서 값 하나를 꺼냄
+export function readCookie(request: Request, name: string): string | undefined {
+  for (const part of (request.header('cookie') || '').split(';')) {
+    const separator = part.indexOf('=');
+    if (separator > 0 && part.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(separator + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+// 발급한 토큰을 httpOnly 쿠키로 내려주고, 응답 본문에는 토큰 없이 사용자/만료 시각만 남김
+export function writeSessionCookies(response: Response, tokens: AuthTokensDto, config: AuthConfig): AuthSessionDto {
+  // 각 쿠키는 담긴 토큰과 함께 만료 (만료된 액세스 토큰은 브라우저가 더 보내지 않음)
+  const options = cookieOptions(config);
+  response.cookie(SESSION_COOKIE, tokens.accessToken, { ...options, path: '/', expires: new Date(tokens.expiresAt) });
+  response.cookie(REFRESH_COOKIE, tokens.refreshToken, {
+    ...options,
+    path: REFRESH_COOKIE_PATH,
+    expires: new Date(tokens.refreshTokenExpiresAt),
+  });
+
+  return { expiresAt: tokens.expiresAt, user: tokens.user };
+}
+
+export function clearSessionCookies(response: Response, config: AuthConfig): void {
+  const options = cookieOptions(config);
+  response.clearCookie(SESSION_COOKIE, { ...options, path: '/' });
+  response.clearCookie(REFRESH_COOKIE, { ...options, path: REFRESH_COOKIE_PATH });
+}
+
+function cookieOptions(config: AuthConfig): CookieOptions {
+  return {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: config.cookieSecure,
+  };
+}
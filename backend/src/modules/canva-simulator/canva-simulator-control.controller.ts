@@ -0,0 +1,62 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Post,
+  Delete,
+  Body,
+  Param,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { CanvaSimulatorService } from './canva-simulator.service';
+import { CanvaSimulatorGuard } from './canva-simulator.guard';
+import { SkipUserAuth } from '../auth/auth.guard';
+import {
+  CanvaSimulatorFaultsDto,
+  UpdateSimulatedDesignDto,
+  CanvaSimulatorStateDto,
+} from '../../dto/canva-simulator.dto';
+
+// 테스트에서 시뮬레이터 상태를 바꾸는 API (장애 주입, 디자인 수정)
+@Controller('canva-simulator/control')
+@SkipUserAuth()
+@UseGuards(CanvaSimulatorGuard)
+export class CanvaSimulatorControlController {
+  constructor(private readonly simulatorService: CanvaSimulatorService) {}
+
+  @Get('faults')
+  getFaults(): CanvaSimulatorStateDto {
+    return this.simulatorService.getState();
+  }
+
+  @Put('faults')
+  setFaults(@Body() faultsDto: CanvaSimulatorFaultsDto): CanvaSimulatorStateDto {
+    return this.simulatorService.setFaults(faultsDto);
+  }
+
+  @Put('designs/:designId')
+  updateDesign(@Param('designId') designId: string, @Body() updateDto: UpdateSimulatedDesignDto) {
+    const design = this.simulatorService.updateDesign(designId, updateDto);
+    return {
+      id: design.id,
+      title: design.title,
+      pageCount: design.pageRevisions.length,
+      pageRevisions: design.pageRevisions,
+      updatedAt: design.updatedAt,
+    };
+  }
+
+  @Delete('designs/:designId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  deleteDesign(@Param('designId') designId: string) {
+    this.simulatorService.deleteDesign(designId);
+  }
+
+  @Post('reset')
+  @HttpCode(HttpStatus.OK)
+  reset(): CanvaSimulatorStateDto {
+    return this.simulatorService.reset();
+  }
+}
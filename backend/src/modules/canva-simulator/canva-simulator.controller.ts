@@ -0,0 +1,105 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Headers,
+  Req,
+  Res,
+  HttpCode,
+  HttpStatus,
+  ParseIntPipe,
+  UseGuards,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { CanvaSimulatorService } from './canva-simulator.service';
+import { CanvaSimulatorGuard, SimulateFaults } from './canva-simulator.guard';
+import { SkipUserAuth } from '../auth/auth.guard';
+
+// Canva Connect API와 같은 경로/응답 형식 (CANVA_API_BASE_URL, CANVA_AUTH_URL을 여기로 지정)
+@Controller('canva-simulator')
+@SkipUserAuth()
+@UseGuards(CanvaSimulatorGuard)
+export class CanvaSimulatorController {
+  constructor(private readonly simulatorService: CanvaSimulatorService) {}
+
+  // 동의 화면 없이 바로 redirect_uri로 인증 코드를 돌려줌
+  @Get('api/oauth/authorize')
+  authorize(@Query() query: Record<string, string>, @Res() res: Response) {
+    res.redirect(this.simulatorService.authorize(query));
+  }
+
+  @Post('rest/v1/oauth/token')
+  @HttpCode(HttpStatus.OK)
+  @SimulateFaults()
+  token(@Body() body: Record<string, string>, @Headers('authorization') authorization?: string) {
+    return this.simulatorService.exchangeToken(body, authorization);
+  }
+
+  @Post('rest/v1/oauth/revoke')
+  @HttpCode(HttpStatus.OK)
+  revoke(@Body('token') token?: string) {
+    this.simulatorService.revoke(token);
+    return {};
+  }
+
+  @Get('rest/v1/designs/:designId')
+  @SimulateFaults()
+  getDesign(
+    @Param('designId') designId: string,
+    @Headers('authorization') authorization: string,
+    @Req() req: Request,
+  ) {
+    this.simulatorService.authenticate(authorization);
+    return this.simulatorService.getDesign(designId, this.originOf(req));
+  }
+
+  @Post('rest/v1/exports')
+  @SimulateFaults()
+  createExport(
+    @Body() body: { design_id?: string; format?: { type?: string; pages?: number[] } },
+    @Headers('authorization') authorization: string,
+  ) {
+    this.simulatorService.authenticate(authorization);
+    return this.simulatorService.createExport(body.design_id, body.format);
+  }
+
+  @Get('rest/v1/exports/:exportId')
+  @SimulateFaults()
+  getExport(
+    @Param('exportId') exportId: string,
+    @Headers('authorization') authorization: string,
+    @Req() req: Request,
+  ) {
+    this.simulatorService.authenticate(authorization);
+    return this.simulatorService.getExport(exportId, this.originOf(req));
+  }
+
+  // 내보내기 결과 URL (Canva의 서명된 다운로드 URL처럼 토큰 없이 받을 수 있음)
+  @Get('files/:designId/pages/:pageNumber')
+  async getPageImage(
+    @Param('designId') designId: string,
+    @Param('pageNumber', ParseIntPipe) pageNumber: number,
+    @Query('revision') revision: string,
+    @Query('format') format: string,
+    @Res() res: Response,
+  ) {
+    const imageFormat = format === 'jpg' ? 'jpg' : 'png';
+    const image = await this.simulatorService.renderPage(
+      designId,
+      pageNumber,
+      parseInt(revision, 10) || 1,
+      imageFormat,
+    );
+
+    res.setHeader('Content-Type', imageFormat === 'jpg' ? 'image/jpeg' : 'image/png');
+    res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+    res.send(image);
+  }
+
+  private originOf(req: Request): string {
+    return `${req.protocol}://${req.get('host')}`;
+  }
+}
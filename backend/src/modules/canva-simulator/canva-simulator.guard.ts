@@ -0,0 +1,40 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  SetMetadata,
+  NotFoundException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Response } from 'express';
+import { CanvaSimulatorService } from './canva-simulator.service';
+
+const SIMULATE_FAULTS_KEY = 'simulateFaults';
+
+// 주입된 장애(429/지연)를 적용할 시뮬레이터 API 라우트
+export const SimulateFaults = () => SetMetadata(SIMULATE_FAULTS_KEY, true);
+
+// 시뮬레이터를 켜지 않았으면 라우트가 없는 것처럼 404
+@Injectable()
+export class CanvaSimulatorGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly simulatorService: CanvaSimulatorService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (!this.simulatorService.enabled) {
+      throw new NotFoundException();
+    }
+
+    const simulateFaults = this.reflector.getAllAndOverride<boolean>(SIMULATE_FAULTS_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (simulateFaults) {
+      await this.simulatorService.applyFaults(context.switchToHttp().getResponse<Response>());
+    }
+
+    return true;
+  }
+}
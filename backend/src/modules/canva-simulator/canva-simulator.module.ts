@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { CanvaSimulatorController } from './canva-simulator.controller';
+import { CanvaSimulatorControlController } from './canva-simulator-control.controller';
+import { CanvaSimulatorService } from './canva-simulator.service';
+import { CanvaSimulatorGuard } from './canva-simulator.guard';
+
+// 오프라인 Canva Connect API 대역 (CANVA_SIMULATOR_ENABLED=true일 때만 응답)
+@Module({
+  controllers: [CanvaSimulatorController, CanvaSimulatorControlController],
+  providers: [CanvaSimulatorService, CanvaSimulatorGuard],
+})
+export class CanvaSimulatorModule {}
@@ -0,0 +1,451 @@
+import { Injectable, HttpException, HttpStatus, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Response } from 'express';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import * as sharp from 'sharp';
+import { CanvaSimulatorConfig } from '../../config/canva-simulator.config';
+import {
+  CanvaSimulatorFaultsDto,
+  UpdateSimulatedDesignDto,
+  CanvaSimulatorStateDto,
+} from '../../dto/canva-simulator.dto';
+
+export type SimulatedExportFormat = 'png' | 'jpg';
+
+interface SimulatedDesign {
+  id: string;
+  title: string;
+  // 페이지별 수정 횟수 (이미지 내용이 여기에 따라 바뀜)
+  pageRevisions: number[];
+  createdAt: number; // Unix s (Canva API와 같음)
+  updatedAt: number;
+  deleted?: boolean;
+}
+
+interface AuthorizationCode {
+  redirectUri: string;
+  codeChallenge: string;
+  scope: string;
+  expiresAt: number; // ms
+}
+
+interface IssuedToken {
+  scope: string;
+  expiresAt: number; // ms
+}
+
+interface SimulatedExportJob {
+  id: string;
+  designId: string;
+  format: SimulatedExportFormat;
+  // 내보내기 시작 시점의 페이지 번호와 수정 횟수
+  pages: Array<{ pageNumber: number; revision: number }>;
+  pollsRemaining: number;
+  fails: boolean;
+}
+
+const AUTHORIZATION_CODE_TTL = 10 * 60 * 1000;
+// 시뮬레이터가 새로 만드는 디자인 ID (Canva와 비슷한 형태)
+const DESIGN_ID_PATTERN = /^[A-Za-z0-9_-]{5,64}$/;
+
+const DEFAULT_FAULTS = {
+  rateLimitedRequests: 0,
+  retryAfterSeconds: 1,
+  slowRequests: 0,
+  // Canva 요청 타임아웃(CANVA_REQUEST_TIMEOUT, 기본 15초)보다 길게
+  delayMs: 35000,
+  failedExports: 0,
+};
+
+// Canva Connect API를 흉내 내는 메모리 상태 (개발/CI용, 서버를 재시작하면 초기화)
+@Injectable()
+export class CanvaSimulatorService {
+  private readonly logger = new Logger(CanvaSimulatorService.name);
+  private readonly config: CanvaSimulatorConfig;
+  private readonly clientId?: string;
+  private readonly clientSecret?: string;
+
+  private designs = new Map<string, SimulatedDesign>();
+  private codes = new Map<string, AuthorizationCode>();
+  private accessTokens = new Map<string, IssuedToken>();
+  private refreshTokens = new Map<string, string>(); // refresh token -> scope
+  private jobs = new Map<string, SimulatedExportJob>();
+  private images = new Map<string, Buffer>();
+  private faults = { ...DEFAULT_FAULTS };
+
+  constructor(private configService: ConfigService) {
+    this.config = this.configService.get<CanvaSimulatorConfig>('canvaSimulator');
+    this.clientId = this.configService.get<string>('CANVA_CLIENT_ID');
+    this.clientSecret = this.configService.get<string>('CANVA_CLIENT_SECRET');
+
+    if (this.config.enabled) {
+      this.logger.warn('Canva simulator is enabled at /canva-simulator; do not enable it in production');
+    }
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  // --- 장애 주입 ---
+
+  // API 요청마다 호출: 주입된 429/지연을 차례로 소비
+  async applyFaults(response: Response): Promise<void> {
+    if (this.faults.rateLimitedRequests > 0) {
+      this.faults.rateLimitedRequests--;
+      response.setHeader('Retry-After', String(this.faults.retryAfterSeconds));
+      throw new HttpException(
+        { code: 'too_many_requests', message: 'Rate limit exceeded (simulated)' },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    if (this.faults.slowRequests > 0) {
+      this.faults.slowRequests--;
+      await new Promise((resolve) => setTimeout(resolve, this.faults.delayMs));
+    }
+  }
+
+  setFaults(faultsDto: CanvaSimulatorFaultsDto): CanvaSimulatorStateDto {
+    const { expireTokens, ...faults } = faultsDto;
+    Object.assign(this.faults, faults);
+
+    if (expireTokens) {
+      for (const token of this.accessTokens.values()) {
+        token.expiresAt = Date.now();
+      }
+    }
+
+    return this.getState();
+  }
+
+  getState(): CanvaSimulatorStateDto {
+    const now = Date.now();
+    return {
+      ...this.faults,
+      designs: [...this.designs.values()].filter((design) => !design.deleted).length,
+      exportJobs: this.jobs.size,
+      activeAccessTokens: [...this.accessTokens.values()].filter((token) => token.expiresAt > now).length,
+    };
+  }
+
+  reset(): CanvaSimulatorStateDto {
+    this.designs.clear();
+    this.codes.clear();
+    this.accessTokens.clear();
+    this.refreshTokens.clear();
+    this.jobs.clear();
+    this.images.clear();
+    this.faults = { ...DEFAULT_FAULTS };
+    return this.getState();
+  }
+
+  // --- OAuth ---
+
+  // 사용자가 바로 허용한 것으로 보고 redirect_uri로 돌려보낼 주소
+  authorize(query: Record<string, string | undefined>): string {
+    const { client_id, redirect_uri, response_type, code_challenge, code_challenge_method, scope, state } = query;
+
+    if (!redirect_uri) {
+      throw this.oauthError('invalid_request', 'redirect_uri is required');
+    }
+    if (!this.isKnownClient(client_id)) {
+      throw this.oauthError('invalid_client', 'Unknown client_id', HttpStatus.UNAUTHORIZED);
+    }
+
+    const redirect = new URL(redirect_uri);
+    if (response_type !== 'code' || !code_challenge || code_challenge_method !== 'S256') {
+      redirect.searchParams.set('error', 'invalid_request');
+    } else {
+      const code = randomBytes(24).toString('base64url');
+      this.codes.set(code, {
+        redirectUri: redirect_uri,
+        codeChallenge: code_challenge,
+        scope: scope || '',
+        expiresAt: Date.now() + AUTHORIZATION_CODE_TTL,
+      });
+      redirect.searchParams.set('code', code);
+    }
+
+    if (state) {
+      redirect.searchParams.set('state', state);
+    }
+    return redirect.toString();
+  }
+
+  // POST /oauth/token (클라이언트 자격 증명은 Basic 헤더 또는 본문)
+  exchangeToken(body: Record<string, string | undefined>, authorization?: string) {
+    const [scheme, encoded] = (authorization || '').split(' ');
+    const [basicId, basicSecret] = scheme === 'Basic' && encoded
+      ? Buffer.from(encoded, 'base64').toString().split(':')
+      : [];
+    const clientId = basicId || body.client_id;
+    const clientSecret = basicSecret || body.client_secret;
+
+    if (!this.isKnownClient(clientId) || (this.clientSecret && clientSecret !== this.clientSecret)) {
+      throw this.oauthError('invalid_client', 'Client authentication failed', HttpStatus.UNAUTHORIZED);
+    }
+
+    if (body.grant_type === 'authorization_code') {
+      const grant = body.code ? this.codes.get(body.code) : undefined;
+      // 인증 코드는 한 번만 쓸 수 있음
+      this.codes.delete(body.code);
+
+      if (!grant || grant.expiresAt <= Date.now() || grant.redirectUri !== body.redirect_uri) {
+        throw this.oauthError('invalid_grant', 'Authorization code is invalid or has expired');
+      }
+      const challenge = createHash('sha256').update(body.code_verifier || '').digest('base64url');
+      if (challenge !== grant.codeChallenge) {
+        throw this.oauthError('invalid_grant', 'code_verifier does not match the code_challenge');
+      }
+      return this.issueToken(grant.scope);
+    }
+
+    if (body.grant_type === 'refresh_token') {
+      const scope = body.refresh_token ? this.refreshTokens.get(body.refresh_token) : undefined;
+      if (scope === undefined) {
+        throw this.oauthError('invalid_grant', 'Refresh token is invalid or has been revoked');
+      }
+      // Canva처럼 리프레시 토큰도 한 번 쓰면 교체
+      this.refreshTokens.delete(body.refresh_token);
+      return this.issueToken(scope);
+    }
+
+    throw this.oauthError('unsupported_grant_type', `Unsupported grant_type: ${body.grant_type}`);
+  }
+
+  revoke(token?: string): void {
+    if (token) {
+      this.accessTokens.delete(token);
+      this.refreshTokens.delete(token);
+    }
+  }
+
+  // Bearer 액세스 토큰 확인 (Canva와 같은 401 오류 형식)
+  authenticate(authorization?: string): void {
+    const [scheme, token] = (authorization || '').split(' ');
+    const issued = scheme === 'Bearer' && token ? this.accessTokens.get(token) : undefined;
+
+    if (!issued) {
+      throw new HttpException(
+        { code: 'invalid_access_token', message: 'Access token is invalid' },
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+    if (issued.expiresAt <= Date.now()) {
+      throw new HttpException(
+        { code: 'invalid_access_token', message: 'Access token has expired' },
+        HttpStatus.UNAUTHORIZED,
+      );
+    }
+  }
+
+  // --- Designs / Exports ---
+
+  getDesign(designId: string, origin: string) {
+    const design = this.findDesign(designId);
+
+    return {
+      design: {
+        id: design.id,
+        title: design.title,
+        page_count: design.pageRevisions.length,
+        created_at: design.createdAt,
+        updated_at: design.updatedAt,
+        thumbnail: {
+          url: this.pageUrl(origin, design.id, 1, design.pageRevisions[0], 'png'),
+          width: this.config.pageWidth,
+          height: this.config.pageHeight,
+        },
+        urls: {
+          edit_url: `${origin}/canva-simulator/designs/${design.id}/edit`,
+          view_url: `${origin}/canva-simulator/designs/${design.id}/view`,
+        },
+      },
+    };
+  }
+
+  createExport(designId: string | undefined, format: { type?: string; pages?: number[] } | undefined) {
+    const type = format?.type?.toLowerCase();
+    if (type !== 'png' && type !== 'jpg') {
+      throw new HttpException(
+        { code: 'invalid_field', message: `Unsupported export format: ${format?.type}` },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const design = this.findDesign(designId);
+    const pageNumbers = format.pages?.length
+      ? format.pages.filter((page) => page >= 1 && page <= design.pageRevisions.length)
+      : design.pageRevisions.map((_, index) => index + 1);
+
+    const fails = this.faults.failedExports > 0;
+    if (fails) {
+      this.faults.failedExports--;
+    }
+
+    const job: SimulatedExportJob = {
+      id: randomUUID(),
+      designId: design.id,
+      format: type,
+      pages: pageNumbers.map((pageNumber) => ({ pageNumber, revision: design.pageRevisions[pageNumber - 1] })),
+      pollsRemaining: this.config.exportPolls,
+      fails,
+    };
+    this.jobs.set(job.id, job);
+
+    return { job: { id: job.id, status: 'in_progress' } };
+  }
+
+  getExport(exportId: string, origin: string) {
+    const job = this.jobs.get(exportId);
+    if (!job) {
+      throw new HttpException(
+        { code: 'not_found', message: `Export job ${exportId} not found` },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+
+    if (job.pollsRemaining > 0) {
+      job.pollsRemaining--;
+      return { job: { id: job.id, status: 'in_progress' } };
+    }
+
+    if (job.fails) {
+      return {
+        job: {
+          id: job.id,
+          status: 'failed',
+          error: { code: 'internal_failure', message: 'Export failed (simulated)' },
+        },
+      };
+    }
+
+    return {
+      job: {
+        id: job.id,
+        status: 'success',
+        urls: job.pages.map((page) => this.pageUrl(origin, job.designId, page.pageNumber, page.revision, job.format)),
+      },
+    };
+  }
+
+  // 페이지 번호와 수정 횟수에 따라 색과 문구가 달라지는 이미지 (같은 입력이면 같은 바이트)
+  async renderPage(
+    designId: string,
+    pageNumber: number,
+    revision: number,
+    format: SimulatedExportFormat,
+  ): Promise<Buffer> {
+    const key = `${designId}/${pageNumber}/${revision}.${format}`;
+    const cached = this.images.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const { pageWidth: width, pageHeight: height } = this.config;
+    const seed = createHash('sha256').update(key).digest();
+    const hue = seed.readUInt16BE(0) % 360;
+    const escape = (value: string) =>
+      value.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+    const title = escape(this.designs.get(designId)?.title || designId);
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+  <rect width="100%" height="100%" fill="hsl(${hue}, 55%, 50%)"/>
+  <text x="50%" y="42%" font-family="sans-serif" font-size="${Math.round(width / 8)}" fill="#fff" text-anchor="middle">${pageNumber}</text>
+  <text x="50%" y="52%" font-family="sans-serif" font-size="${Math.round(width / 24)}" fill="#fff" text-anchor="middle">${title}</text>
+  <text x="50%" y="58%" font-family="sans-serif" font-size="${Math.round(width / 32)}" fill="#fff" text-anchor="middle">revision ${revision}</text>
+</svg>`;
+
+    const pipeline = sharp(Buffer.from(svg));
+    const image = await (format === 'jpg' ? pipeline.jpeg({ quality: 85 }) : pipeline.png()).toBuffer();
+    this.images.set(key, image);
+    return image;
+  }
+
+  // --- 디자인 조작 (Canva에서 디자인을 고친 것처럼) ---
+
+  updateDesign(designId: string, updateDto: UpdateSimulatedDesignDto) {
+    const design = this.findDesign(designId, true);
+
+    if (updateDto.title !== undefined) {
+      design.title = updateDto.title;
+    }
+    if (updateDto.pageCount !== undefined) {
+      const revisions = design.pageRevisions.slice(0, updateDto.pageCount);
+      while (revisions.length < updateDto.pageCount) {
+        revisions.push(1);
+      }
+      design.pageRevisions = revisions;
+    }
+    for (const pageNumber of updateDto.editedPages || []) {
+      if (pageNumber <= design.pageRevisions.length) {
+        design.pageRevisions[pageNumber - 1]++;
+      }
+    }
+
+    design.deleted = false;
+    // 같은 초 안에 여러 번 고쳐도 updated_at은 늘어나야 함
+    design.updatedAt = Math.max(Math.floor(Date.now() / 1000), design.updatedAt + 1);
+    return design;
+  }
+
+  // 삭제된 디자인은 404 (접근 권한을 잃은 경우와 같음)
+  deleteDesign(designId: string): void {
+    this.findDesign(designId, true).deleted = true;
+  }
+
+  private findDesign(designId?: string, includeDeleted = false): SimulatedDesign {
+    let design = designId ? this.designs.get(designId) : undefined;
+
+    // 처음 보는 디자인은 기본 페이지 수로 만들어 둠
+    if (!design && designId && DESIGN_ID_PATTERN.test(designId)) {
+      const now = Math.floor(Date.now() / 1000);
+      design = {
+        id: designId,
+        title: `Simulated design ${designId}`,
+        pageRevisions: Array.from({ length: this.config.pageCount }, () => 1),
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.designs.set(designId, design);
+    }
+
+    if (!design || (design.deleted && !includeDeleted)) {
+      throw new HttpException(
+        { code: 'design_not_found', message: `Design ${designId} not found` },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+    return design;
+  }
+
+  private issueToken(scope: string) {
+    const accessToken = randomBytes(32).toString('base64url');
+    const refreshToken = randomBytes(32).toString('base64url');
+
+    this.accessTokens.set(accessToken, { scope, expiresAt: Date.now() + this.config.tokenTtl * 1000 });
+    this.refreshTokens.set(refreshToken, scope);
+
+    return {
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      token_type: 'Bearer',
+      expires_in: this.config.tokenTtl,
+      scope,
+    };
+  }
+
+  // 백엔드에 Canva 자격 증명이 설정되어 있으면 같은 client_id만 받음
+  private isKnownClient(clientId?: string): boolean {
+    return !!clientId && (!this.clientId || clientId === this.clientId);
+  }
+
+  private pageUrl(origin: string, designId: string, pageNumber: number, revision: number, format: SimulatedExportFormat): string {
+    return `${origin}/canva-simulator/files/${encodeURIComponent(designId)}/pages/${pageNumber}?revision=${revision}&format=${format}`;
+  }
+
+  private oauthError(error: string, description: string, status = HttpStatus.BAD_REQUEST): HttpException {
+    return new HttpException({ error, error_description: description }, status);
+  }
+}
@@ -0,0 +1,77 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository, LessThan } from 'typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { CanvaAuthSession } from '../../entities/canva-auth-session.entity';
+import { CanvaConfig } from '../../config/canva.config';
+import { CanvaService } from './canva.service';
+
+export interface CanvaAuthStart {
+  authUrl: string;
+  state: string;
+  // 이 시각까지 콜백이 와야 함 (ms)
+  expiresAt: number;
+}
+
+// PKCE code_verifier를 브라우저에 넘기지 않고 state로 찾을 수 있게 서버에 잠시 보관
+@Injectable()
+export class CanvaAuthSessionService {
+  private readonly ttl: number; // ms
+
+  constructor(
+    @InjectRepository(CanvaAuthSession)
+    private sessionRepository: Repository<CanvaAuthSession>,
+    private canvaService: CanvaService,
+    private configService: ConfigService,
+  ) {
+    this.ttl = this.configService.get<CanvaConfig>('canva').authSessionTtl * 1000;
+  }
+
+  async start(userId: string): Promise<CanvaAuthStart> {
+    // 콜백까지 오지 않은 인증은 만료되면 정리
+    await this.sessionRepository.delete({ expiresAt: LessThan(new Date()) });
+
+    const state = randomBytes(24).toString('base64url');
+    const { authUrl, codeVerifier } = await this.canvaService.getAuthorizationUrl(state);
+    const expiresAt = new Date(Date.now() + this.ttl);
+
+    await this.sessionRepository.save(
+      this.sessionRepository.create({
+        userId,
+        stateHash: this.hashState(state),
+        codeVerifier,
+        expiresAt,
+      }),
+    );
+
+    return { authUrl, state, expiresAt: expiresAt.getTime() };
+  }
+
+  // 콜백의 state에 맞는 code_verifier (모르는/만료된/이미 쓴 state이거나 다른 사용자가 시작한 인증이면 undefined)
+  async consume(userId: string, state?: string): Promise<string | undefined> {
+    if (!state) {
+      return undefined;
+    }
+
+    const session = await this.sessionRepository.findOne({
+      where: { stateHash: this.hashState(state) },
+      select: ['id', 'userId', 'codeVerifier', 'expiresAt'],
+    });
+    if (!session || session.userId !== userId) {
+      return undefined;
+    }
+
+    // 한 번만 쓸 수 있음 (동시에 같은 state로 콜백하면 먼저 지운 요청만 성공)
+    const result = await this.sessionRepository.delete({ id: session.id });
+    if (!result.affected || session.expiresAt.getTime() <= Date.now()) {
+      return undefined;
+    }
+
+    return session.codeVerifier;
+  }
+
+  private hashState(state: string): string {
+    return createHash('sha256').update(state).digest('hex');
+  }
+}
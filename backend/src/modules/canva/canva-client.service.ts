@@ -0,0 +1,193 @@
+import { Injectable, HttpException, HttpStatus, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import { CanvaConfig } from '../../config/canva.config';
+
+// 프론트엔드 ErrorCode 값 (src/types/error.ts)
+export type CanvaErrorCode =
+  | 'CANVA_TIMEOUT'
+  | 'CANVA_ACCESS_DENIED'
+  | 'CANVA_DESIGN_NOT_FOUND'
+  | 'CANVA_RATE_LIMITED'
+  | 'CANVA_INVALID_TOKEN'
+  | 'NETWORK_ERROR'
+  | 'SERVER_UNAVAILABLE'
+  | 'UNKNOWN_ERROR';
+
+const ERROR_STATUS: Record<CanvaErrorCode, HttpStatus> = {
+  CANVA_TIMEOUT: HttpStatus.GATEWAY_TIMEOUT,
+  CANVA_ACCESS_DENIED: HttpStatus.FORBIDDEN,
+  CANVA_DESIGN_NOT_FOUND: HttpStatus.NOT_FOUND,
+  CANVA_RATE_LIMITED: HttpStatus.TOO_MANY_REQUESTS,
+  CANVA_INVALID_TOKEN: HttpStatus.UNAUTHORIZED,
+  NETWORK_ERROR: HttpStatus.BAD_GATEWAY,
+  SERVER_UNAVAILABLE: HttpStatus.BAD_GATEWAY,
+  UNKNOWN_ERROR: HttpStatus.BAD_GATEWAY,
+};
+
+// Canva 오류 응답의 code (REST API) / error (OAuth) 값
+const CANVA_ERROR_CODES: Record<string, CanvaErrorCode> = {
+  too_many_requests: 'CANVA_RATE_LIMITED',
+  invalid_access_token: 'CANVA_INVALID_TOKEN',
+  revoked_access_token: 'CANVA_INVALID_TOKEN',
+  invalid_grant: 'CANVA_INVALID_TOKEN',
+  invalid_token: 'CANVA_INVALID_TOKEN',
+  permission_denied: 'CANVA_ACCESS_DENIED',
+  access_denied: 'CANVA_ACCESS_DENIED',
+  license_required: 'CANVA_ACCESS_DENIED',
+  approval_required: 'CANVA_ACCESS_DENIED',
+  design_not_found: 'CANVA_DESIGN_NOT_FOUND',
+  not_found: 'CANVA_DESIGN_NOT_FOUND',
+};
+
+// 재시도 간격 상한 (ms)
+const MAX_BACKOFF = 10000;
+
+// Canva API 호출 실패 (code는 프론트엔드 errorMessages 표에 있는 값)
+export class CanvaApiError extends HttpException {
+  constructor(
+    readonly code: CanvaErrorCode,
+    message: string,
+    // 429 응답의 Retry-After (초)
+    readonly retryAfter?: number,
+  ) {
+    super({ code, message, retryAfter }, ERROR_STATUS[code]);
+  }
+
+  // Canva 오류 코드를 프론트엔드 ErrorCode로 (모르는 코드면 fallback)
+  static codeFor(canvaCode: string | undefined, fallback: CanvaErrorCode): CanvaErrorCode {
+    return (canvaCode && CANVA_ERROR_CODES[canvaCode]) || fallback;
+  }
+}
+
+export interface CanvaRequest {
+  method: 'GET' | 'POST';
+  // apiBaseUrl 기준 경로 (예: /designs/:id)
+  path: string;
+  accessToken?: string;
+  data?: unknown;
+  // 같은 요청을 다시 보내도 결과가 같은지 - 타임아웃/5xx/네트워크 오류도 재시도 (기본: GET만)
+  // 429는 Canva가 요청을 처리하지 않았다는 뜻이므로 항상 재시도
+  idempotent?: boolean;
+}
+
+// Canva API HTTP 클라이언트: 요청마다 타임아웃, Retry-After 존중, 지수 백오프(jitter) 재시도, 오류를 CanvaApiError로 변환
+@Injectable()
+export class CanvaClientService {
+  private readonly logger = new Logger(CanvaClientService.name);
+  private readonly config: CanvaConfig;
+
+  constructor(
+    private configService: ConfigService,
+    private httpService: HttpService,
+  ) {
+    this.config = this.configService.get<CanvaConfig>('canva');
+  }
+
+  async request<T = any>(request: CanvaRequest): Promise<T> {
+    const idempotent = request.idempotent ?? request.method === 'GET';
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await firstValueFrom(
+          this.httpService.request<T>({
+            method: request.method,
+            url: `${this.config.apiBaseUrl}${request.path}`,
+            data: request.data,
+            timeout: this.config.requestTimeout,
+            headers: {
+              ...(request.accessToken ? { 'Authorization': `Bearer ${request.accessToken}` } : {}),
+              'Content-Type': 'application/json',
+            },
+          })
+        );
+        return response.data;
+      } catch (error) {
+        const canvaError = this.toCanvaError(error);
+        const delay = this.retryDelay(canvaError, attempt, idempotent);
+        if (delay === undefined) {
+          throw canvaError;
+        }
+
+        this.logger.warn(
+          `${request.method} ${request.path} failed with ${canvaError.code}; retrying in ${delay}ms `
+            + `(${attempt + 1}/${this.config.maxRetries})`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  // 다시 시도하기 전에 기다릴 시간 (ms, 다시 시도하지 않으면 undefined)
+  private retryDelay(error: CanvaApiError, attempt: number, idempotent: boolean): number | undefined {
+    if (attempt >= this.config.maxRetries) {
+      return undefined;
+    }
+
+    if (error.code === 'CANVA_RATE_LIMITED') {
+      if (error.retryAfter === undefined) {
+        return this.backoff(attempt);
+      }
+      return error.retryAfter <= this.config.maxRetryAfter ? error.retryAfter * 1000 : undefined;
+    }
+
+    const transient = ['CANVA_TIMEOUT', 'NETWORK_ERROR', 'SERVER_UNAVAILABLE'].includes(error.code);
+    return transient && idempotent ? this.backoff(attempt) : undefined;
+  }
+
+  // full jitter: 0 ~ min(상한, 기준값 * 2^attempt)
+  private backoff(attempt: number): number {
+    return Math.round(Math.random() * Math.min(MAX_BACKOFF, this.config.retryBaseDelay * 2 ** attempt));
+  }
+
+  private toCanvaError(error: any): CanvaApiError {
+    if (error instanceof CanvaApiError) {
+      return error;
+    }
+
+    const response = error.response;
+    if (!response) {
+      const timedOut = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+      return new CanvaApiError(
+        timedOut ? 'CANVA_TIMEOUT' : 'NETWORK_ERROR',
+        timedOut ? `Canva did not respond within ${this.config.requestTimeout}ms` : `Cannot reach Canva: ${error.message}`,
+      );
+    }
+
+    const status: number = response.status;
+    const body = response.data || {};
+    const canvaCode: string | undefined = body.code || body.error;
+    const message: string = body.message || body.error_description || `Canva API responded with ${status}`;
+
+    return new CanvaApiError(
+      CanvaApiError.codeFor(canvaCode, this.codeForStatus(status)),
+      message,
+      status === HttpStatus.TOO_MANY_REQUESTS ? this.parseRetryAfter(response.headers?.['retry-after']) : undefined,
+    );
+  }
+
+  private codeForStatus(status: number): CanvaErrorCode {
+    if (status === HttpStatus.TOO_MANY_REQUESTS) return 'CANVA_RATE_LIMITED';
+    if (status === HttpStatus.UNAUTHORIZED) return 'CANVA_INVALID_TOKEN';
+    if (status === HttpStatus.FORBIDDEN) return 'CANVA_ACCESS_DENIED';
+    if (status === HttpStatus.NOT_FOUND) return 'CANVA_DESIGN_NOT_FOUND';
+    if (status === HttpStatus.REQUEST_TIMEOUT || status === HttpStatus.GATEWAY_TIMEOUT) return 'CANVA_TIMEOUT';
+    return status >= 500 ? 'SERVER_UNAVAILABLE' : 'UNKNOWN_ERROR';
+  }
+
+  // Retry-After: 초 또는 HTTP 날짜
+  private parseRetryAfter(value?: string): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, Math.ceil(seconds));
+    }
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+}
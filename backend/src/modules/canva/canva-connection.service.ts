@@ -0,0 +1,167 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { CanvaConnection } from '../../entities/canva-connection.entity';
+import { CanvaConnectionStatusDto } from '../../dto/canva-connection.dto';
+import { CanvaConfig } from '../../config/canva.config';
+import { CanvaService, CanvaAuthToken } from './canva.service';
+import { CanvaApiError } from './canva-client.service';
+
+const CIPHER = 'aes-256-gcm';
+
+@Injectable()
+export class CanvaConnectionService {
+  private readonly logger = new Logger(CanvaConnectionService.name);
+  private readonly key: Buffer;
+  private readonly refreshMargin: number; // ms
+  // 같은 사용자의 동시 요청이 만료를 만나도 갱신은 한 번만 (Canva 리프레시 토큰은 한 번만 쓸 수 있음)
+  private readonly refreshing = new Map<string, Promise<string | undefined>>();
+
+  constructor(
+    @InjectRepository(CanvaConnection)
+    private connectionRepository: Repository<CanvaConnection>,
+    private canvaService: CanvaService,
+    private configService: ConfigService,
+  ) {
+    const config = this.configService.get<CanvaConfig>('canva');
+    this.key = config.tokenEncryptionKey
+      ? createHash('sha256').update(config.tokenEncryptionKey).digest()
+      : randomBytes(32);
+    this.refreshMargin = config.tokenRefreshMargin * 1000;
+
+    if (!config.tokenEncryptionKey) {
+      this.logger.warn('CANVA_TOKEN_ENCRYPTION_KEY is not set; Canva connections will not survive a restart');
+    }
+  }
+
+  // OAuth로 받은 토큰을 사용자 계정에 연결 (이미 연결되어 있으면 교체)
+  async link(userId: string, token: CanvaAuthToken): Promise<CanvaConnection> {
+    const existing = await this.connectionRepository.findOne({
+      where: { userId },
+      select: ['id', 'userId', 'refreshToken'],
+    });
+
+    return this.connectionRepository.save(
+      this.connectionRepository.create({
+        id: existing?.id,
+        userId,
+        accessToken: this.encrypt(token.access_token),
+        // 갱신 응답에 리프레시 토큰이 없으면 기존 것을 계속 사용
+        refreshToken: token.refresh_token ? this.encrypt(token.refresh_token) : existing?.refreshToken,
+        expiresAt: new Date(token.expires_at),
+        scope: token.scope,
+      }),
+    );
+  }
+
+  async status(userId: string): Promise<CanvaConnectionStatusDto> {
+    const connection = await this.connectionRepository.findOne({ where: { userId } });
+
+    return {
+      configured: this.canvaService.isConfigured,
+      connected: !!connection,
+      expiresAt: connection?.expiresAt,
+      scope: connection?.scope,
+      connectedAt: connection?.createdAt,
+    };
+  }
+
+  // 사용자 계정에 연결된 Canva 액세스 토큰 (만료가 가까우면 먼저 갱신, 연결하지 않았거나 쓸 수 없으면 undefined)
+  async getAccessToken(userId?: string): Promise<string | undefined> {
+    if (!userId) {
+      return undefined;
+    }
+
+    const connection = await this.connectionRepository.findOne({
+      where: { userId },
+      select: ['id', 'userId', 'accessToken', 'refreshToken', 'expiresAt'],
+    });
+    if (!connection) {
+      return undefined;
+    }
+
+    if (connection.expiresAt.getTime() - this.refreshMargin > Date.now()) {
+      return this.readToken(connection, connection.accessToken);
+    }
+
+    if (!this.refreshing.has(userId)) {
+      this.refreshing.set(userId, this.refresh(connection).finally(() => this.refreshing.delete(userId)));
+    }
+    return this.refreshing.get(userId);
+  }
+
+  // Canva 쪽 토큰을 폐기하고 연결을 지움 (폐기에 실패해도 연결은 지움)
+  async disconnect(userId: string): Promise<void> {
+    const connection = await this.connectionRepository.findOne({
+      where: { userId },
+      select: ['id', 'userId', 'accessToken', 'refreshToken'],
+    });
+    if (!connection) {
+      return;
+    }
+
+    const token = this.tryDecrypt(connection.refreshToken) || this.tryDecrypt(connection.accessToken);
+    if (token) {
+      await this.canvaService.revokeToken(token);
+    }
+    await this.connectionRepository.delete(connection.id);
+  }
+
+  private async refresh(connection: CanvaConnection): Promise<string | undefined> {
+    const stillValid = connection.expiresAt.getTime() > Date.now();
+    const refreshToken = this.tryDecrypt(connection.refreshToken);
+
+    if (!refreshToken) {
+      return stillValid ? this.readToken(connection, connection.accessToken) : undefined;
+    }
+
+    try {
+      const token = await this.canvaService.refreshToken(refreshToken);
+      await this.link(connection.userId, token);
+      return token.access_token;
+    } catch (error) {
+      // 리프레시 토큰이 폐기되었으면 다시 연결해야 함
+      if (error instanceof CanvaApiError && error.code === 'CANVA_INVALID_TOKEN') {
+        this.logger.warn(`Canva refresh token rejected for user ${connection.userId}; removing connection`);
+        await this.connectionRepository.delete(connection.id);
+        return undefined;
+      }
+      // 일시적인 오류면 아직 만료되지 않은 토큰으로 계속 진행
+      return stillValid ? this.readToken(connection, connection.accessToken) : undefined;
+    }
+  }
+
+  // 키가 바뀌어 복호화할 수 없는 연결은 지우고 다시 연결하게 함
+  private async readToken(connection: CanvaConnection, value: string): Promise<string | undefined> {
+    const token = this.tryDecrypt(value);
+    if (!token) {
+      this.logger.warn(`Cannot decrypt Canva token for user ${connection.userId}; removing connection`);
+      await this.connectionRepository.delete(connection.id);
+    }
+    return token;
+  }
+
+  private encrypt(value: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(CIPHER, this.key, iv);
+    const data = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), data].map(part => part.toString('base64url')).join(':');
+  }
+
+  private tryDecrypt(value?: string): string | undefined {
+    const [iv, tag, data] = (value || '').split(':');
+    if (!iv || !tag || !data) {
+      return undefined;
+    }
+
+    try {
+      const decipher = createDecipheriv(CIPHER, this.key, Buffer.from(iv, 'base64url'));
+      decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+      return Buffer.concat([decipher.update(Buffer.from(data, 'base64url')), decipher.final()]).toString('utf8');
+    } catch {
+      return undefined;
+    }
+  }
+}
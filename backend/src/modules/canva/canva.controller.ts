@@ -2,16 +2,26 @@ import {
   Controller,
   Get,
   Post,
+  Delete,
   Body,
   Query,
   HttpStatus,
   HttpCode,
 } from '@nestjs/common';
 import { CanvaService } from './canva.service';
+import { CanvaApiError } from './canva-client.service';
+import { CanvaConnectionService } from './canva-connection.service';
+import { CanvaAuthSessionService } from './canva-auth-session.service';
+import { RequireUser, CurrentUser } from '../auth/auth.guard';
+import { AuthUser } from '../auth/auth.service';
 
 @Controller('api/canva')
 export class CanvaController {
-  constructor(private readonly canvaService: CanvaService) {}
+  constructor(
+    private readonly canvaService: CanvaService,
+    private readonly canvaConnectionService: CanvaConnectionService,
+    private readonly canvaAuthSessionService: CanvaAuthSessionService,
+  ) {}
 
   // Test endpoint
   @Get('test')
@@ -23,17 +33,19 @@ export class CanvaController {
     };
   }
 
-  // Get OAuth authorization URL (PKCE 포함)
+  // Get OAuth authorization URL (PKCE 포함) - state와 code_verifier는 서버에 보관하고 콜백에서 찾아 씀
   @Get('auth/url')
-  async getAuthUrl(@Query('state') state?: string) {
+  @RequireUser()
+  async getAuthUrl(@CurrentUser() user: AuthUser) {
     try {
-      const authData = await this.canvaService.getAuthorizationUrl(state);
+      const authSession = await this.canvaAuthSessionService.start(user.id);
       return {
         success: true,
         data: { 
-          authUrl: authData.authUrl,
-          codeVerifier: authData.codeVerifier, // 클라이언트에서 저장해야 함
-          message: 'Please visit this URL to authorize Canva access. Store the codeVerifier for token exchange.'
+          authUrl: authSession.authUrl,
+          state: authSession.state,
+          expiresAt: authSession.expiresAt,
+          message: 'Please visit this URL to authorize Canva access.'
         }
       };
     } catch (error) {
@@ -47,56 +59,54 @@ export class CanvaController {
     }
   }
 
-  // Handle OAuth callback (PKCE 포함)
+  // Handle OAuth callback (PKCE 포함) - 받은 토큰은 브라우저에 돌려주지 않고 로그인한 사용자 계정에 연결
   @Post('auth/callback')
+  @RequireUser()
   async handleCallback(
+    @CurrentUser() user: AuthUser,
     @Body('code') code: string,
-    @Body('codeVerifier') codeVerifier: string,
     @Body('state') state?: string
   ) {
-    try {
-      const tokenData = await this.canvaService.exchangeCodeForToken(code, codeVerifier, state);
-      return {
-        success: true,
-        data: {
-          message: 'Authorization successful',
-          accessToken: tokenData.access_token,
-          refreshToken: tokenData.refresh_token,
-          expiresAt: tokenData.expires_at,
-          scope: tokenData.scope
-        }
-      };
-    } catch (error) {
+    // 이 사용자가 시작한 인증의 state만 한 번 받아들임 (모르는/만료된/재사용된 state는 거절)
+    const codeVerifier = await this.canvaAuthSessionService.consume(user.id, state);
+    if (!codeVerifier) {
       return {
         success: false,
         error: {
-          message: error.message,
-          code: 'AUTH_CALLBACK_ERROR'
+          message: 'Unknown, expired or already used authorization state',
+          code: 'INVALID_OAUTH_STATE'
         }
       };
     }
+
+    try {
+      const tokenData = await this.canvaService.exchangeCodeForToken(code, codeVerifier);
+      await this.canvaConnectionService.link(user.id, tokenData);
+      return {
+        success: true,
+        data: await this.canvaConnectionService.status(user.id)
+      };
+    } catch (error) {
+      return this.failure(error, 'AUTH_CALLBACK_ERROR');
+    }
   }
 
   // Validate design ID
   @Post('validate-design')
   async validateDesign(
     @Body('designId') designId: string,
-    @Body('accessToken') accessToken?: string
+    @CurrentUser() user?: AuthUser
   ) {
     try {
+      // 계정에 연결된 Canva 토큰 사용 (만료가 가까우면 자동 갱신)
+      const accessToken = await this.canvaConnectionService.getAccessToken(user?.id);
       const validation = await this.canvaService.validateDesign(designId, accessToken);
       return {
         success: true,
         data: validation
       };
     } catch (error) {
-      return {
-        success: false,
-        error: {
-          message: error.message,
-          code: 'DESIGN_VALIDATION_ERROR'
-        }
-      };
+      return this.failure(error, 'DESIGN_VALIDATION_ERROR');
     }
   }
 
@@ -105,22 +115,18 @@ export class CanvaController {
   async exportDesign(
     @Body('designId') designId: string,
     @Body('format') format: 'PNG' | 'JPG' | 'PDF' = 'PNG',
-    @Body('accessToken') accessToken?: string
+    @CurrentUser() user?: AuthUser
   ) {
     try {
+      // 계정에 연결된 Canva 토큰 사용 (만료가 가까우면 자동 갱신)
+      const accessToken = await this.canvaConnectionService.getAccessToken(user?.id);
       const exportResult = await this.canvaService.exportDesign(designId, format, accessToken);
       return {
         success: true,
         data: exportResult
       };
     } catch (error) {
-      return {
-        success: false,
-        error: {
-          message: error.message,
-          code: 'DESIGN_EXPORT_ERROR'
-        }
-      };
+      return this.failure(error, 'DESIGN_EXPORT_ERROR');
     }
   }
 
@@ -128,48 +134,49 @@ export class CanvaController {
   @Post('design-info')
   async getDesignInfo(
     @Body('designId') designId: string,
-    @Body('accessToken') accessToken?: string
+    @CurrentUser() user?: AuthUser
   ) {
     try {
+      // 계정에 연결된 Canva 토큰 사용 (만료가 가까우면 자동 갱신)
+      const accessToken = await this.canvaConnectionService.getAccessToken(user?.id);
       const designInfo = await this.canvaService.getDesignInfo(designId, accessToken);
       return {
         success: true,
         data: designInfo
       };
     } catch (error) {
-      return {
-        success: false,
-        error: {
-          message: error.message,
-          code: 'DESIGN_INFO_ERROR'
-        }
-      };
+      return this.failure(error, 'DESIGN_INFO_ERROR');
     }
   }
 
-  // Refresh access token
-  @Post('auth/refresh')
-  async refreshToken(@Body('refreshToken') refreshToken: string) {
-    try {
-      const tokenData = await this.canvaService.refreshToken(refreshToken);
-      return {
-        success: true,
-        data: {
-          message: 'Token refreshed successfully',
-          accessToken: tokenData.access_token,
-          refreshToken: tokenData.refresh_token,
-          expiresAt: tokenData.expires_at,
-          scope: tokenData.scope
-        }
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: {
-          message: error.message,
-          code: 'TOKEN_REFRESH_ERROR'
-        }
-      };
-    }
+  // 로그인한 사용자의 Canva 연결 상태
+  @Get('connection')
+  @RequireUser()
+  async getConnection(@CurrentUser() user: AuthUser) {
+    return {
+      success: true,
+      data: await this.canvaConnectionService.status(user.id)
+    };
+  }
+
+  // Canva 연결 해제 (Canva 쪽 토큰도 폐기)
+  @Delete('connection')
+  @RequireUser()
+  async disconnect(@CurrentUser() user: AuthUser) {
+    await this.canvaConnectionService.disconnect(user.id);
+    return {
+      success: true,
+      data: await this.canvaConnectionService.status(user.id)
+    };
+  }
+
+  // Canva API 오류는 프론트엔드 ErrorCode(errorMessages 표의 키)로, 그 밖의 오류는 라우트별 코드로 응답
+  private failure(error: any, fallbackCode: string) {
+    return {
+      success: false,
+      error: error instanceof CanvaApiError
+        ? { message: error.message, code: error.code, retryAfter: error.retryAfter }
+        : { message: error.message, code: fallbackCode }
+    };
   }
-}
\ No newline at end of file
+}
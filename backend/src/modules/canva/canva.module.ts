@@ -1,8 +1,14 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { HttpModule } from '@nestjs/axios';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { CanvaController } from './canva.controller';
 import { CanvaService } from './canva.service';
+import { CanvaClientService } from './canva-client.service';
+import { CanvaConnectionService } from './canva-connection.service';
+import { CanvaAuthSessionService } from './canva-auth-session.service';
+import { CanvaConnection } from '../../entities/canva-connection.entity';
+import { CanvaAuthSession } from '../../entities/canva-auth-session.entity';
 
 @Module({
   imports: [
@@ -11,9 +17,10 @@ import { CanvaService } from './canva.service';
       timeout: 30000,
       maxRedirects: 5,
     }),
+    TypeOrmModule.forFeature([CanvaConnection, CanvaAuthSession]),
   ],
   controllers: [CanvaController],
-  providers: [CanvaService],
-  exports: [CanvaService],
+  providers: [CanvaService, CanvaClientService, CanvaConnectionService, CanvaAuthSessionService],
+  exports: [CanvaService, CanvaConnectionService],
 })
-export class CanvaModule {}
\ No newline at end of file
+export class CanvaModule {}
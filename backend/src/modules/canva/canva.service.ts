@@ -1,7 +1,7 @@
-import { Injectable, BadRequestException, UnauthorizedException, Logger } from '@nestjs/common';
+import { Injectable, BadRequestException, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { HttpService } from '@nestjs/axios';
-import { firstValueFrom } from 'rxjs';
+import { CanvaConfig } from '../../config/canva.config';
+import { CanvaClientService, CanvaApiError } from './canva-client.service';
 
 export interface CanvaAuthToken {
   access_token: string;
@@ -44,21 +44,27 @@ export class CanvaService {
   private readonly clientId: string;
   private readonly clientSecret: string;
   private readonly redirectUri: string;
-  private readonly baseUrl = 'https://api.canva.com/rest/v1';
+  private readonly authUrl: string;
 
   constructor(
     private configService: ConfigService,
-    private httpService: HttpService,
+    private canvaClient: CanvaClientService,
   ) {
     this.clientId = this.configService.get<string>('CANVA_CLIENT_ID');
     this.clientSecret = this.configService.get<string>('CANVA_CLIENT_SECRET');
     this.redirectUri = this.configService.get<string>('CANVA_REDIRECT_URI');
+    this.authUrl = this.configService.get<CanvaConfig>('canva').authUrl;
 
     if (!this.clientId || !this.clientSecret) {
       this.logger.warn('Canva API credentials not configured. Set CANVA_CLIENT_ID and CANVA_CLIENT_SECRET.');
     }
   }
 
+  // 자격 증명이 없으면 디자인 조회/내보내기를 할 수 없음
+  get isConfigured(): boolean {
+    return !!this.clientId;
+  }
+
   // PKCE용 코드 생성
   private generateCodeVerifier(): string {
     const array = new Uint8Array(32);
@@ -74,8 +80,8 @@ export class CanvaService {
     return Buffer.from(hash).toString('base64url');
   }
 
-  // OAuth 인증 URL 생성 (PKCE 포함)
-  async getAuthorizationUrl(state?: string): Promise<{ authUrl: string; codeVerifier: string }> {
+  // OAuth 인증 URL 생성 (PKCE 포함) - codeVerifier는 CanvaAuthSessionService가 state와 함께 서버에 보관
+  async getAuthorizationUrl(state: string): Promise<{ authUrl: string; codeVerifier: string }> {
     if (!this.clientId) {
       throw new BadRequestException('Canva Client ID not configured');
     }
@@ -90,125 +96,78 @@ export class CanvaService {
       scope: 'design:meta:read design:content:read',
       code_challenge: codeChallenge,
       code_challenge_method: 'S256',
+      state,
     });
 
-    if (state) {
-      params.append('state', state);
-    }
-
     return {
-      authUrl: `https://www.canva.com/api/oauth/authorize?${params.toString()}`,
+      authUrl: `${this.authUrl}?${params.toString()}`,
       codeVerifier
     };
   }
 
   // 인증 코드를 액세스 토큰으로 교환 (PKCE 포함)
-  async exchangeCodeForToken(code: string, codeVerifier: string, state?: string): Promise<CanvaAuthToken> {
+  async exchangeCodeForToken(code: string, codeVerifier: string): Promise<CanvaAuthToken> {
     if (!this.clientId || !this.clientSecret) {
       throw new BadRequestException('Canva API credentials not configured');
     }
 
     try {
-      const response = await firstValueFrom(
-        this.httpService.post('https://api.canva.com/rest/v1/oauth/token', {
+      // 인증 코드는 한 번만 쓸 수 있으므로 429 외에는 다시 시도하지 않음
+      const tokenData = await this.canvaClient.request({
+        method: 'POST',
+        path: '/oauth/token',
+        data: {
           grant_type: 'authorization_code',
           client_id: this.clientId,
           client_secret: this.clientSecret,
           redirect_uri: this.redirectUri,
           code,
           code_verifier: codeVerifier,
-        }, {
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        })
-      );
-
-      const tokenData = response.data;
-      
+        },
+      });
+
       return {
         ...tokenData,
         expires_at: Date.now() + (tokenData.expires_in * 1000),
       };
     } catch (error) {
-      this.logger.error('Token exchange failed:', error.response?.data || error.message);
-      throw new UnauthorizedException('Failed to exchange authorization code');
+      this.logger.error(`Token exchange failed: ${error.message}`);
+      throw error;
     }
   }
 
   // 디자인 ID 유효성 검사
   async validateDesign(designId: string, accessToken?: string): Promise<{ isValid: boolean; designInfo?: any }> {
-    // Canva API가 없을 때의 Mock 구현
-    if (!this.clientId) {
-      this.logger.warn('Canva API not configured - using mock validation');
-      
-      // 캔바 디자인 ID 형식 검증 (DAGxxxxx 형태)
-      const designIdPattern = /^DAG[a-zA-Z0-9_-]{8,}$/;
-      const isValid = designIdPattern.test(designId);
-      
-      return {
-        isValid,
-        designInfo: isValid ? {
-          id: designId,
-          title: `Mock Design ${designId}`,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          thumbnail: {
-            url: `https://via.placeholder.com/800x600?text=Design+${designId}`,
-            width: 800,
-            height: 600,
-          }
-        } : undefined
-      };
-    }
-
-    // 실제 Canva API 구현
+    // 디자인이 없을 때만 isValid: false, 나머지(토큰, 429, 타임아웃 등)는 CanvaApiError
     try {
-      if (!accessToken) {
-        throw new BadRequestException('Access token required for design validation');
-      }
-      
       const designInfo = await this.getDesignInfo(designId, accessToken);
       return {
         isValid: true,
         designInfo
       };
     } catch (error) {
-      this.logger.error('Design validation failed:', error.message);
-      return {
-        isValid: false
-      };
+      if (error instanceof CanvaApiError && error.code === 'CANVA_DESIGN_NOT_FOUND') {
+        return {
+          isValid: false
+        };
+      }
+      throw error;
     }
   }
 
   // 디자인 정보 조회
   async getDesignInfo(designId: string, accessToken: string): Promise<CanvaDesignInfo> {
-    if (!this.clientId) {
-      // Mock 데이터 반환
-      return {
-        id: designId,
-        title: `Mock Design ${designId}`,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        thumbnail: {
-          url: `https://via.placeholder.com/800x600?text=Design+${designId}`,
-          width: 800,
-          height: 600,
-        }
-      };
-    }
+    this.requireConfigured();
+    this.requireAccessToken(accessToken);
 
     try {
-      const response = await firstValueFrom(
-        this.httpService.get(`${this.baseUrl}/designs/${designId}`, {
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Content-Type': 'application/json',
-          },
-        })
-      );
-
-      const data = response.data;
+      const response = await this.canvaClient.request({
+        method: 'GET',
+        path: `/designs/${encodeURIComponent(designId)}`,
+        accessToken,
+      });
+
+      const data = response.design;
       return {
         id: data.id,
         title: data.title || `Design ${designId}`,
@@ -221,69 +180,31 @@ export class CanvaService {
         } : undefined
       };
     } catch (error) {
-      this.logger.error(`Failed to get design info for ${designId}:`, error.response?.data || error.message);
-      throw new BadRequestException('Failed to retrieve design information');
+      this.logger.error(`Failed to get design info for ${designId}: ${error.message}`);
+      throw error;
     }
   }
 
   // 디자인을 이미지로 내보내기 (Async Job 방식)
   async exportDesign(designId: string, format: 'PNG' | 'JPG' | 'PDF' = 'PNG', accessToken?: string): Promise<CanvaExportResult> {
-    if (!this.clientId) {
-      // Mock 데이터 반환
-      const mockPages = [
-        {
-          id: `${designId}_page_1`,
-          url: `https://via.placeholder.com/800x1200/4A90E2/FFFFFF?text=Page+1`,
-          width: 800,
-          height: 1200,
-          thumbnail_url: `https://via.placeholder.com/200x300/4A90E2/FFFFFF?text=Page+1+Thumb`
-        },
-        {
-          id: `${designId}_page_2`,
-          url: `https://via.placeholder.com/800x1200/50C878/FFFFFF?text=Page+2`,
-          width: 800,
-          height: 1200,
-          thumbnail_url: `https://via.placeholder.com/200x300/50C878/FFFFFF?text=Page+2+Thumb`
-        },
-        {
-          id: `${designId}_page_3`,
-          url: `https://via.placeholder.com/800x1200/FF6B6B/FFFFFF?text=Page+3`,
-          width: 800,
-          height: 1200,
-          thumbnail_url: `https://via.placeholder.com/200x300/FF6B6B/FFFFFF?text=Page+3+Thumb`
-        }
-      ];
-
-      return {
-        designId,
-        format,
-        pages: mockPages,
-        totalPages: mockPages.length,
-        exportedAt: new Date().toISOString()
-      };
-    }
-
-    if (!accessToken) {
-      throw new BadRequestException('Access token required for design export');
-    }
+    this.requireConfigured();
+    this.requireAccessToken(accessToken);
 
     try {
-      // Step 1: Create export job
-      const exportJobResponse = await firstValueFrom(
-        this.httpService.post(`${this.baseUrl}/exports`, {
+      // Step 1: Create export job (작업을 새로 만드는 요청이므로 429 외에는 다시 시도하지 않음)
+      const exportJobResponse = await this.canvaClient.request({
+        method: 'POST',
+        path: '/exports',
+        accessToken,
+        data: {
           design_id: designId,
           format: {
             type: format.toLowerCase()
           }
-        }, {
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Content-Type': 'application/json',
-          },
-        })
-      );
-
-      const jobId = exportJobResponse.data.job.id;
+        },
+      });
+
+      const jobId = exportJobResponse.job.id;
       this.logger.log(`Created export job ${jobId} for design ${designId}`);
 
       // Step 2: Poll job status with exponential backoff
@@ -302,8 +223,8 @@ export class CanvaService {
         exportedAt: new Date().toISOString()
       };
     } catch (error) {
-      this.logger.error(`Export failed for design ${designId}:`, error.response?.data || error.message);
-      throw new BadRequestException('Design export failed');
+      this.logger.error(`Export failed for design ${designId}: ${error.message}`);
+      throw error;
     }
   }
 
@@ -313,38 +234,30 @@ export class CanvaService {
     let delay = 1000; // 시작 딜레이 1초
 
     while (attempt < maxAttempts) {
-      try {
-        const response = await firstValueFrom(
-          this.httpService.get(`${this.baseUrl}/exports/${jobId}`, {
-            headers: {
-              'Authorization': `Bearer ${accessToken}`,
-              'Content-Type': 'application/json',
-            },
-          })
+      const response = await this.canvaClient.request({
+        method: 'GET',
+        path: `/exports/${encodeURIComponent(jobId)}`,
+        accessToken,
+      });
+
+      const job = response.job;
+
+      if (job.status === 'success') {
+        return job;
+      } else if (job.status === 'failed') {
+        throw new CanvaApiError(
+          CanvaApiError.codeFor(job.error?.code, 'UNKNOWN_ERROR'),
+          `Export job failed: ${job.error?.message || 'Unknown error'}`,
         );
-
-        const job = response.data.job;
-        
-        if (job.status === 'success') {
-          return job.result;
-        } else if (job.status === 'failed') {
-          throw new BadRequestException(`Export job failed: ${job.error?.message || 'Unknown error'}`);
-        }
-
-        // 아직 진행 중이면 대기
-        await new Promise(resolve => setTimeout(resolve, delay));
-        delay = Math.min(delay * 1.5, 10000); // 최대 10초까지 증가
-        attempt++;
-        
-      } catch (error) {
-        if (error.response?.status === 404) {
-          throw new BadRequestException('Export job not found');
-        }
-        throw error;
       }
+
+      // 아직 진행 중이면 대기
+      await new Promise(resolve => setTimeout(resolve, delay));
+      delay = Math.min(delay * 1.5, 10000); // 최대 10초까지 증가
+      attempt++;
     }
 
-    throw new BadRequestException('Export job timed out');
+    throw new CanvaApiError('CANVA_TIMEOUT', 'Export job timed out');
   }
 
   // 토큰 갱신
@@ -354,28 +267,62 @@ export class CanvaService {
     }
 
     try {
-      const response = await firstValueFrom(
-        this.httpService.post('https://api.canva.com/rest/v1/oauth/token', {
+      // 리프레시 토큰도 한 번만 쓸 수 있으므로 429 외에는 다시 시도하지 않음
+      const tokenData = await this.canvaClient.request({
+        method: 'POST',
+        path: '/oauth/token',
+        data: {
           grant_type: 'refresh_token',
           client_id: this.clientId,
           client_secret: this.clientSecret,
           refresh_token: refreshToken,
-        }, {
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        })
-      );
-
-      const tokenData = response.data;
-      
+        },
+      });
+
       return {
         ...tokenData,
         expires_at: Date.now() + (tokenData.expires_in * 1000),
       };
     } catch (error) {
-      this.logger.error('Token refresh failed:', error.response?.data || error.message);
-      throw new UnauthorizedException('Failed to refresh access token');
+      // 리프레시 토큰이 거절되면 CANVA_INVALID_TOKEN (네트워크 오류 등은 다시 시도할 수 있음)
+      this.logger.error(`Token refresh failed: ${error.message}`);
+      throw error;
+    }
+  }
+
+  // 토큰 폐기 (연결 해제 시) - 실패해도 로컬 연결은 지울 수 있도록 예외를 던지지 않음
+  async revokeToken(token: string): Promise<void> {
+    if (!this.clientId || !this.clientSecret) {
+      return;
+    }
+
+    try {
+      await this.canvaClient.request({
+        method: 'POST',
+        path: '/oauth/revoke',
+        idempotent: true,
+        data: {
+          client_id: this.clientId,
+          client_secret: this.clientSecret,
+          token,
+        },
+      });
+    } catch (error) {
+      this.logger.warn(`Token revocation failed: ${error.message}`);
+    }
+  }
+
+  // 오프라인/CI에서는 Canva 시뮬레이터를 가리키고 아무 CANVA_CLIENT_ID나 설정 (가짜 디자인 데이터를 따로 만들지 않음)
+  private requireConfigured(): void {
+    if (!this.clientId) {
+      throw new BadRequestException('Canva Client ID not configured');
+    }
+  }
+
+  // Canva가 설정되어 있는데 계정을 연결하지 않았으면 다시 연결하라는 오류
+  private requireAccessToken(accessToken?: string): void {
+    if (!accessToken) {
+      throw new CanvaApiError('CANVA_INVALID_TOKEN', 'Connect a Canva account to access Canva designs');
     }
   }
 }
\ No newline at end of file
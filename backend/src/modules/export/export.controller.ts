@@ -0,0 +1,70 @@
+import { Controller, Get, Param, Query, Res, UseGuards } from '@nestjs/common';
+import { Response } from 'express';
+import { OfflineExportService } from './offline-export.service';
+import { PdfExportService } from './pdf-export.service';
+import { CurrentAccess, FlipbookAccessGuard, RequireAccess } from '../share-link/flipbook-access.guard';
+import { FlipbookAccess } from '../share-link/share-link.service';
+import { PdfExportQueryDto } from '../../dto/pdf-export.dto';
+
+@Controller('flipbooks/:flipbookId/export')
+@UseGuards(FlipbookAccessGuard)
+export class ExportController {
+  constructor(
+    private readonly offlineExportService: OfflineExportService,
+    private readonly pdfExportService: PdfExportService,
+  ) {}
+
+  // 인터넷 없이 file://로 여는 오프라인 HTML 패키지
+  @Get('html.zip')
+  @RequireAccess('share')
+  async exportHtml(
+    @Param('flipbookId') flipbookId: string,
+    @CurrentAccess() access: FlipbookAccess,
+    @Res() res: Response,
+  ) {
+    const { filename, archive } = await this.offlineExportService.createOfflinePackage(flipbookId, access);
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="flipbook-offline.zip"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+    );
+    res.setHeader('Cache-Control', 'private, no-store');
+
+    // 응답 헤더를 보낸 뒤의 실패는 연결을 끊어 불완전한 파일임을 알림
+    archive.on('error', () => res.destroy());
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        archive.destroy();
+      }
+    });
+    archive.pipe(res);
+  }
+
+  // 인쇄/보관용 PDF (페이지 순서, 페이지 제목 책갈피, 문서 정보 포함)
+  @Get('pdf')
+  @RequireAccess('share')
+  async exportPdf(
+    @Param('flipbookId') flipbookId: string,
+    @Query() query: PdfExportQueryDto,
+    @CurrentAccess() access: FlipbookAccess,
+    @Res() res: Response,
+  ) {
+    const { filename, document } = await this.pdfExportService.createPdf(flipbookId, query, access);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="flipbook.pdf"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+    );
+    res.setHeader('Cache-Control', 'private, no-store');
+
+    document.on('error', () => res.destroy());
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        document.destroy();
+      }
+    });
+    document.pipe(res);
+  }
+}
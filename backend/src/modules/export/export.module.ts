@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
+import { ExportController } from './export.controller';
+import { OfflineExportService } from './offline-export.service';
+import { PdfExportService } from './pdf-export.service';
+import { PageImageService } from './page-image.service';
+import { FlipbookModule } from '../flipbook/flipbook.module';
+import { StorageModule } from '../storage/storage.module';
+import { ShareLinkModule } from '../share-link/share-link.module';
+
+@Module({
+  imports: [FlipbookModule, StorageModule, HttpModule, ShareLinkModule],
+  controllers: [ExportController],
+  providers: [OfflineExportService, PdfExportService, PageImageService],
+})
+export class ExportModule {}
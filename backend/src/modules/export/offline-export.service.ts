@@ -0,0 +1,180 @@
+import { Injectable, BadRequestException, ServiceUnavailableException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { access, readdir } from 'fs/promises';
+import { extname, join, resolve } from 'path';
+import * as archiver from 'archiver';
+import { Flipbook } from '../../entities/flipbook.entity';
+import { FlipbookService } from '../flipbook/flipbook.service';
+import { FlipbookAccess } from '../share-link/share-link.service';
+import { PageImageService } from './page-image.service';
+import { OfflineManifestDto, OfflineManifestPageDto } from '../../dto/offline-export.dto';
+import { AppConfig } from '../../config/app.config';
+
+const READER_SCRIPT = 'offline-reader.js';
+const READER_STYLESHEET = 'offline-reader.css';
+const SOUND_EXTENSIONS = ['.mp3', '.ogg', '.wav', '.m4a'];
+
+// 키오스크 화면 기준으로 충분한 해상도로 줄여 패키지 크기를 제한
+const MAX_PAGE_WIDTH = 2048;
+const PAGE_QUALITY = 85;
+const DEFAULT_TRANSITION_TYPE = 'flip';
+const DEFAULT_TRANSITION_DURATION = 0.8;
+
+export interface OfflinePackage {
+  filename: string;
+  archive: archiver.Archiver;
+}
+
+interface PackageSources {
+  readerPath: string;
+  hasStylesheet: boolean;
+  sounds: string[];
+}
+
+@Injectable()
+export class OfflineExportService {
+  private readonly logger = new Logger(OfflineExportService.name);
+  private readonly config: AppConfig;
+
+  constructor(
+    private flipbookService: FlipbookService,
+    private pageImageService: PageImageService,
+    private configService: ConfigService,
+  ) {
+    this.config = this.configService.get<AppConfig>('app');
+  }
+
+  // file://에서 바로 여는 정적 리더 패키지 (index.html + manifest + 페이지 이미지 + 사운드)
+  // 페이지 이미지는 내려받는 대로 압축 스트림에 추가하므로 중간 실패 시 스트림을 오류로 종료
+  async createOfflinePackage(flipbookId: string, access: FlipbookAccess): Promise<OfflinePackage> {
+    // 편집 권한이 있으면 초안, 공유 권한만 있으면 게시한 버전을 내보냄
+    const flipbook = access.permissions.includes('edit')
+      ? await this.flipbookService.findOne(flipbookId)
+      : await this.flipbookService.findPublished(flipbookId);
+    if (!flipbook.pages?.length) {
+      throw new BadRequestException('Flipbook has no pages to export');
+    }
+
+    const sources = await this.loadSources();
+    const archive = archiver('zip', { zlib: { level: 6 } });
+
+    this.writePackage(archive, flipbook, sources).catch((error) => {
+      this.logger.error(`Failed to export flipbook ${flipbook.id} as offline HTML: ${error.message}`);
+      archive.destroy(error);
+    });
+
+    return { filename: `${flipbook.slug || flipbook.id}-offline.zip`, archive };
+  }
+
+  private async writePackage(archive: archiver.Archiver, flipbook: Flipbook, sources: PackageSources): Promise<void> {
+    const manifest = this.buildManifest(flipbook, sources.sounds);
+
+    archive.append(this.indexHtml(flipbook, sources.hasStylesheet), { name: 'index.html' });
+    archive.append(JSON.stringify(manifest, null, 2), { name: 'manifest.json' });
+    archive.append(`window.FLIPBOOK_OFFLINE_MANIFEST = ${JSON.stringify(manifest)};\n`, { name: 'manifest.js' });
+    archive.directory(sources.readerPath, 'reader');
+    for (const sound of sources.sounds) {
+      archive.file(join(resolve(this.config.soundsPath), sound), { name: `sounds/${sound}` });
+    }
+
+    for (const [index, page] of flipbook.pages.entries()) {
+      // 클라이언트가 다운로드를 중단하면 남은 페이지는 내려받지 않음
+      if (archive.destroyed) return;
+
+      const image = await this.pageImageService.load(page, { maxWidth: MAX_PAGE_WIDTH, quality: PAGE_QUALITY });
+      const dataUri = `data:${image.mimeType};base64,${image.body.toString('base64')}`;
+      archive.append(
+        'window.FLIPBOOK_OFFLINE_PAGES = window.FLIPBOOK_OFFLINE_PAGES || {};\n'
+          + `window.FLIPBOOK_OFFLINE_PAGES[${index}] = ${JSON.stringify(dataUri)};\n`,
+        { name: manifest.pages[index].script },
+      );
+    }
+
+    await archive.finalize();
+  }
+
+  private buildManifest(flipbook: Flipbook, sounds: string[]): OfflineManifestDto {
+    const settings = flipbook.settings || {};
+    const defaultDuration = settings.flipSpeed ? settings.flipSpeed / 1000 : DEFAULT_TRANSITION_DURATION;
+
+    const pages = flipbook.pages.map((page, index): OfflineManifestPageDto => ({
+      pageIndex: index,
+      title: page.title,
+      script: `pages/page-${String(index + 1).padStart(3, '0')}.js`,
+      mimeType: page.hasTransparency ? 'image/png' : 'image/jpeg',
+      width: page.originalWidth,
+      height: page.originalHeight,
+      transitionType: page.transitionType || DEFAULT_TRANSITION_TYPE,
+      transitionDuration: page.transitionDuration || defaultDuration,
+      backgroundColor: page.backgroundColor,
+      hasTransparency: page.hasTransparency,
+    }));
+
+    return {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      flipbook: {
+        id: flipbook.id,
+        title: flipbook.title,
+        description: flipbook.description,
+        slug: flipbook.slug,
+        pageCount: pages.length,
+        settings,
+      },
+      pages,
+      sounds: Object.fromEntries(sounds.map((sound) => [sound, `sounds/${sound}`])),
+    };
+  }
+
+  private async loadSources(): Promise<PackageSources> {
+    const readerPath = resolve(this.config.offlineReaderPath);
+    const readerFiles = await readdir(readerPath).catch((): string[] => []);
+    if (!readerFiles.includes(READER_SCRIPT)) {
+      this.logger.error(`Offline reader build not found at ${readerPath}`);
+      throw new ServiceUnavailableException('Offline reader build is not available, run `npm run build:offline`');
+    }
+
+    const soundsPath = resolve(this.config.soundsPath);
+    const sounds = await access(soundsPath)
+      .then(() => readdir(soundsPath))
+      .catch((): string[] => {
+        this.logger.warn(`Sounds folder not found at ${soundsPath}, exporting without sounds`);
+        return [];
+      });
+
+    return {
+      readerPath,
+      hasStylesheet: readerFiles.includes(READER_STYLESHEET),
+      sounds: sounds.filter((file) => SOUND_EXTENSIONS.includes(extname(file).toLowerCase())),
+    };
+  }
+
+  // 클래식 스크립트만 사용 (file://에서는 type="module" 스크립트가 로드되지 않음)
+  private indexHtml(flipbook: Flipbook, hasStylesheet: boolean): string {
+    const stylesheet = hasStylesheet ? `\n    <link rel="stylesheet" href="reader/${READER_STYLESHEET}" />` : '';
+
+    return `<!DOCTYPE html>
+<html lang="ko">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${this.escape(flipbook.title)}</title>${stylesheet}
+  </head>
+  <body>
+    <div id="root"></div>
+    <noscript>이 플립북을 보려면 JavaScript를 켜 주세요.</noscript>
+    <script src="manifest.js"></script>
+    <script src="reader/${READER_SCRIPT}"></script>
+  </body>
+</html>
+`;
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
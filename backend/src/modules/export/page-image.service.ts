@@ -0,0 +1,58 @@
+import { Injectable } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import * as sharp from 'sharp';
+import { Page } from '../../entities/page.entity';
+import { StorageService } from '../storage/storage.service';
+import { assertPublicUrl } from '../../common/public-url';
+
+const DOWNLOAD_TIMEOUT = 30000;
+const DOWNLOAD_MAX_BYTES = 50 * 1024 * 1024;
+
+export interface PageImageOptions {
+  maxWidth: number;
+  quality: number;
+}
+
+export interface EncodedPageImage {
+  body: Buffer;
+  mimeType: 'image/jpeg' | 'image/png';
+}
+
+// 내보내기용 페이지 이미지 (투명 배경이면 PNG, 아니면 JPEG)
+@Injectable()
+export class PageImageService {
+  constructor(
+    private storageService: StorageService,
+    private httpService: HttpService,
+  ) {}
+
+  // 저장소 이미지는 렌디션 캐시를 거치고, 외부 URL은 내려받아 같은 형식으로 변환
+  async load(page: Page, { maxWidth, quality }: PageImageOptions): Promise<EncodedPageImage> {
+    const format = page.hasTransparency ? 'png' : 'jpeg';
+    const mimeType = `image/${format}` as const;
+
+    if (page.storageKey) {
+      const rendition = await this.storageService.getRendition(page.storageKey, { width: maxWidth, quality, format });
+      return { body: rendition.body, mimeType };
+    }
+
+    // 페이지 이미지 URL은 사용자가 정하므로 사설망 주소로의 요청은 차단
+    await assertPublicUrl(page.imageUrl, 'Page image URL');
+    const response = await firstValueFrom(
+      this.httpService.get<ArrayBuffer>(page.imageUrl, {
+        responseType: 'arraybuffer',
+        timeout: DOWNLOAD_TIMEOUT,
+        maxContentLength: DOWNLOAD_MAX_BYTES,
+        maxRedirects: 0,
+      }),
+    );
+
+    const pipeline = sharp(Buffer.from(response.data)).resize({ width: maxWidth, withoutEnlargement: true });
+    const body = format === 'png'
+      ? await pipeline.png().toBuffer()
+      : await pipeline.flatten({ background: '#ffffff' }).jpeg({ quality, mozjpeg: true }).toBuffer();
+
+    return { body, mimeType };
+  }
+}
@@ -0,0 +1,137 @@
+import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Readable } from 'stream';
+import * as PDFDocument from 'pdfkit';
+import { Flipbook } from '../../entities/flipbook.entity';
+import { Page } from '../../entities/page.entity';
+import { FlipbookService } from '../flipbook/flipbook.service';
+import { FlipbookAccess } from '../share-link/share-link.service';
+import { PageImageService } from './page-image.service';
+import { PdfExportQueryDto } from '../../dto/pdf-export.dto';
+import { ExportConfig } from '../../config/export.config';
+import { AppConfig } from '../../config/app.config';
+
+// 이미지 픽셀을 CSS 기준(96dpi)으로 포인트(72dpi)로 환산해 원본 비율을 그대로 유지
+const PX_TO_PT = 72 / 96;
+// 인쇄용이므로 오프라인 패키지보다 큰 해상도와 품질 사용
+const MAX_PAGE_WIDTH = 3200;
+const PAGE_QUALITY = 90;
+const TEXT_LAYER_FONT_SIZE = 10;
+const TEXT_LAYER_FONT = 'text-layer';
+// PDF 기본 글꼴(Helvetica)이 표현할 수 있는 문자 범위
+const STANDARD_FONT_CHARACTERS = /^[\u0000-\u00ff]*$/;
+
+// PDFDocument는 실행 시 stream.Readable이지만 타입 정의에는 destroy가 없음
+export type PdfStream = PDFKit.PDFDocument & Readable;
+
+export interface PdfExport {
+  filename: string;
+  document: PdfStream;
+}
+
+@Injectable()
+export class PdfExportService {
+  private readonly logger = new Logger(PdfExportService.name);
+  private readonly config: ExportConfig;
+  private readonly appName: string;
+
+  constructor(
+    private flipbookService: FlipbookService,
+    private pageImageService: PageImageService,
+    private configService: ConfigService,
+  ) {
+    this.config = this.configService.get<ExportConfig>('export');
+    this.appName = this.configService.get<AppConfig>('app').name;
+  }
+
+  // pageIndex 순서대로 페이지 이미지를 한 장씩 넣은 PDF (페이지 제목은 책갈피로)
+  // 이미지를 내려받는 대로 스트림에 쓰므로 중간 실패 시 스트림을 오류로 종료
+  async createPdf(flipbookId: string, query: PdfExportQueryDto, access: FlipbookAccess): Promise<PdfExport> {
+    // 편집 권한이 있으면 초안, 공유 권한만 있으면 게시한 버전을 내보냄
+    const flipbook = access.permissions.includes('edit')
+      ? await this.flipbookService.findOne(flipbookId)
+      : await this.flipbookService.findPublished(flipbookId);
+    if (!flipbook.pages?.length) {
+      throw new BadRequestException('Flipbook has no pages to export');
+    }
+
+    const tags = flipbook.metadata?.tags || [];
+    const document = new PDFDocument({
+      autoFirstPage: false,
+      displayTitle: true,
+      // pdfkit은 info 값이 undefined이면 파일 ID 생성 중 실패하므로 빈 항목은 아예 넣지 않음
+      info: {
+        Title: flipbook.title,
+        ...(flipbook.description ? { Subject: flipbook.description } : {}),
+        ...(tags.length > 0 ? { Keywords: tags.join(', ') } : {}),
+        Creator: this.appName,
+        CreationDate: new Date(),
+      },
+    }) as PdfStream;
+
+    this.writePages(document, flipbook, !!query.textLayer).catch((error) => {
+      this.logger.error(`Failed to export flipbook ${flipbook.id} as PDF: ${error.message}`);
+      document.destroy(error);
+    });
+
+    return { filename: `${flipbook.slug || flipbook.id}.pdf`, document };
+  }
+
+  private async writePages(document: PdfStream, flipbook: Flipbook, textLayer: boolean): Promise<void> {
+    const hasTextFont = textLayer && this.registerTextFont(document);
+
+    for (const [index, page] of flipbook.pages.entries()) {
+      // 클라이언트가 다운로드를 중단하면 남은 페이지는 내려받지 않음
+      if (document.destroyed) return;
+
+      const image = await this.pageImageService.load(page, { maxWidth: MAX_PAGE_WIDTH, quality: PAGE_QUALITY });
+      const width = page.originalWidth * PX_TO_PT;
+      const height = page.originalHeight * PX_TO_PT;
+
+      document.addPage({ size: [width, height], margin: 0 });
+      document.image(image.body, 0, 0, { width, height });
+
+      const text = page.metadata?.textContent?.trim();
+      if (textLayer && text) {
+        this.addTextLayer(document, page, text, hasTextFont);
+      }
+
+      document.outline.addItem(page.title || `${index + 1}페이지`);
+    }
+
+    document.end();
+  }
+
+  private registerTextFont(document: PDFKit.PDFDocument): boolean {
+    if (!this.config.pdfTextFontPath) {
+      return false;
+    }
+
+    try {
+      // 글꼴 파일은 font()를 호출할 때 읽히므로 여기서 한 번 불러 오류를 미리 확인
+      document.registerFont(TEXT_LAYER_FONT, this.config.pdfTextFontPath);
+      document.font(TEXT_LAYER_FONT);
+      return true;
+    } catch (error) {
+      this.logger.warn(`Failed to load PDF text layer font ${this.config.pdfTextFontPath}: ${error.message}`);
+      return false;
+    }
+  }
+
+  // 렌더링 모드 3(보이지 않음)으로 페이지 전체 영역에 텍스트를 배치 (OCR PDF와 같은 방식)
+  private addTextLayer(document: PDFKit.PDFDocument, page: Page, text: string, hasTextFont: boolean): void {
+    if (!hasTextFont && !STANDARD_FONT_CHARACTERS.test(text)) {
+      this.logger.warn(`Skipping text layer of page ${page.id}: set PDF_TEXT_FONT_PATH to embed non-Latin text`);
+      return;
+    }
+
+    const { width, height } = document.page;
+    document.save();
+    document.addContent('3 Tr');
+    document
+      .font(hasTextFont ? TEXT_LAYER_FONT : 'Helvetica')
+      .fontSize(TEXT_LAYER_FONT_SIZE)
+      .text(text, 0, 0, { width, height, lineBreak: true });
+    document.restore();
+  }
+}
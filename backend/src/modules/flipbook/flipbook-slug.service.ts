@@ -0,0 +1,110 @@
+import { Injectable, NotFoundException, Logger, OnModuleInit } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, EntityManager, IsNull } from 'typeorm';
+import { Flipbook } from '../../entities/flipbook.entity';
+import { FlipbookSlugRedirect } from '../../entities/flipbook-slug-redirect.entity';
+
+// 충돌 시 붙는 접미사(-2, -3 ...)까지 컬럼 길이(100) 안에 들어가도록 제한
+const MAX_BASE_LENGTH = 90;
+
+// 제목 → 슬러그 (한글 등 유니코드 문자는 유지하고 라틴 문자의 악센트만 제거)
+export function slugify(title: string): string {
+  const slug = title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_BASE_LENGTH)
+    .replace(/-+$/, '');
+
+  return slug || 'flipbook';
+}
+
+@Injectable()
+export class FlipbookSlugService implements OnModuleInit {
+  private readonly logger = new Logger(FlipbookSlugService.name);
+
+  constructor(
+    @InjectRepository(Flipbook)
+    private flipbookRepository: Repository<Flipbook>,
+    @InjectRepository(FlipbookSlugRedirect)
+    private redirectRepository: Repository<FlipbookSlugRedirect>,
+  ) {}
+
+  // 슬러그 컬럼 추가 이전에 만들어진 플립북에 슬러그 부여
+  async onModuleInit(): Promise<void> {
+    const flipbooks = await this.flipbookRepository.find({ where: { slug: IsNull() } });
+
+    for (const flipbook of flipbooks) {
+      flipbook.slug = await this.generate(this.flipbookRepository.manager, flipbook.title, flipbook.id);
+      await this.flipbookRepository.save(flipbook);
+    }
+
+    if (flipbooks.length > 0) {
+      this.logger.log(`Assigned slugs to ${flipbooks.length} flipbooks`);
+    }
+  }
+
+  // 현재 슬러그와 이전 슬러그 모두 플립북 ID로 해석 (redirected: 이전 슬러그로 찾은 경우)
+  async resolve(slug: string): Promise<{ flipbookId: string; redirected: boolean }> {
+    const flipbook = await this.flipbookRepository.findOne({ where: { slug }, select: { id: true } });
+    if (flipbook) {
+      return { flipbookId: flipbook.id, redirected: false };
+    }
+
+    const redirect = await this.redirectRepository.findOne({ where: { slug } });
+    if (redirect) {
+      return { flipbookId: redirect.flipbookId, redirected: true };
+    }
+
+    throw new NotFoundException(`Flipbook with slug ${slug} not found`);
+  }
+
+  // 제목이 바뀌면 새 슬러그를 부여하고 기존 슬러그는 리다이렉트로 보관
+  async rename(manager: EntityManager, flipbook: Flipbook, title: string): Promise<void> {
+    const slug = await this.generate(manager, title, flipbook.id);
+    if (slug === flipbook.slug) {
+      return;
+    }
+
+    // 예전에 쓰던 슬러그로 되돌아가는 경우 리다이렉트에서 제거
+    await manager.delete(FlipbookSlugRedirect, { slug, flipbookId: flipbook.id });
+    if (flipbook.slug) {
+      await manager.save(manager.create(FlipbookSlugRedirect, { slug: flipbook.slug, flipbookId: flipbook.id }));
+    }
+
+    flipbook.slug = slug;
+  }
+
+  // 다른 플립북의 현재/이전 슬러그와 겹치지 않는 슬러그 생성 (base, base-2, base-3 ...)
+  async generate(manager: EntityManager, title: string, flipbookId?: string): Promise<string> {
+    const base = slugify(title);
+    const params = { base, pattern: `${base}-%`, flipbookId: flipbookId || '' };
+
+    const current = await manager
+      .createQueryBuilder(Flipbook, 'flipbook')
+      .select('flipbook.slug', 'slug')
+      .where('(flipbook.slug = :base OR flipbook.slug LIKE :pattern)', params)
+      .andWhere('flipbook.id != :flipbookId', params)
+      .getRawMany<{ slug: string }>();
+    const redirected = await manager
+      .createQueryBuilder(FlipbookSlugRedirect, 'redirect')
+      .select('redirect.slug', 'slug')
+      .where('(redirect.slug = :base OR redirect.slug LIKE :pattern)', params)
+      .andWhere('redirect.flipbookId != :flipbookId', params)
+      .getRawMany<{ slug: string }>();
+
+    const taken = new Set([...current, ...redirected].map((row) => row.slug));
+    if (!taken.has(base)) {
+      return base;
+    }
+
+    let suffix = 2;
+    while (taken.has(`${base}-${suffix}`)) {
+      suffix++;
+    }
+    return `${base}-${suffix}`;
+  }
+}
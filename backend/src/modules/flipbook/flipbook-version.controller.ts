@@ -0,0 +1,67 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  HttpStatus,
+  HttpCode,
+  ParseIntPipe,
+  UseGuards,
+} from '@nestjs/common';
+import { FlipbookService } from './flipbook.service';
+import { FlipbookVersionService } from './flipbook-version.service';
+import { ShareLinkService, FlipbookAccess } from '../share-link/share-link.service';
+import {
+  FlipbookAccessGuard,
+  RequireAccess,
+  CurrentAccess,
+} from '../share-link/flipbook-access.guard';
+import { FlipbookVersionDiffQueryDto } from '../../dto/flipbook-version.dto';
+
+// 버전에는 게시하지 않은 초안도 포함되므로 편집 권한이 필요
+@Controller('flipbooks/:flipbookId/versions')
+@UseGuards(FlipbookAccessGuard)
+@RequireAccess('edit')
+export class FlipbookVersionController {
+  constructor(
+    private readonly flipbookService: FlipbookService,
+    private readonly flipbookVersionService: FlipbookVersionService,
+    private readonly shareLinkService: ShareLinkService,
+  ) {}
+
+  @Get()
+  async findAll(@Param('flipbookId') flipbookId: string) {
+    return this.flipbookVersionService.findAll(flipbookId);
+  }
+
+  // Declared before :version so "diff" is not parsed as a version number
+  @Get('diff')
+  async diff(
+    @Param('flipbookId') flipbookId: string,
+    @Query() query: FlipbookVersionDiffQueryDto,
+  ) {
+    return this.flipbookVersionService.diff(flipbookId, query.from, query.to);
+  }
+
+  @Get(':version')
+  async findOne(
+    @Param('flipbookId') flipbookId: string,
+    @Param('version', ParseIntPipe) version: number,
+  ) {
+    return this.flipbookVersionService.findOne(flipbookId, version);
+  }
+
+  // Restores the version into the draft as a new version; publish to show it in the public reader
+  @Post(':version/restore')
+  @HttpCode(HttpStatus.OK)
+  async restore(
+    @Param('flipbookId') flipbookId: string,
+    @Param('version', ParseIntPipe) version: number,
+    @CurrentAccess() access: FlipbookAccess,
+  ) {
+    const flipbook = await this.flipbookService.restoreVersion(flipbookId, version);
+    this.shareLinkService.attachAccessToken(flipbook.pages, access);
+    return flipbook;
+  }
+}
@@ -0,0 +1,111 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindOneOptions, Repository } from 'typeorm';
+import { FlipbookVersionService } from './flipbook-version.service';
+import { Flipbook } from '../../entities/flipbook.entity';
+import {
+  FlipbookVersion,
+  FlipbookVersionReason,
+  FlipbookSnapshot,
+  FlipbookSnapshotPage,
+} from '../../entities/flipbook-version.entity';
+
+const FLIPBOOK_ID = 'flipbook-1';
+
+const page = (id: string, fields: Partial<FlipbookSnapshotPage> = {}): FlipbookSnapshotPage =>
+  ({ id, title: `Page ${id}`, imageUrl: `/files/${id}.png`, ...fields }) as FlipbookSnapshotPage;
+
+describe('FlipbookVersionService', () => {
+  let flipbook: Flipbook;
+  let versions: FlipbookVersion[];
+  let service: FlipbookVersionService;
+
+  const addVersion = (version: number, snapshot: FlipbookSnapshot) => {
+    versions.push(Object.assign(new FlipbookVersion(), {
+      id: `version-${version}`,
+      flipbookId: FLIPBOOK_ID,
+      version,
+      reason: FlipbookVersionReason.EDIT,
+      snapshot,
+      pageCount: snapshot.pages.length,
+    }));
+  };
+
+  beforeEach(async () => {
+    flipbook = Object.assign(new Flipbook(), { id: FLIPBOOK_ID, title: 'Draft', currentVersion: 2, publishedVersion: 1, pages: [] });
+    versions = [];
+
+    const flipbookRepository: jest.Mocked<Pick<Repository<Flipbook>, 'findOne'>> = {
+      findOne: jest.fn().mockImplementation(async () => flipbook),
+    };
+    const versionRepository: jest.Mocked<Pick<Repository<FlipbookVersion>, 'findOne'>> = {
+      findOne: jest.fn().mockImplementation(async ({ where }: FindOneOptions<FlipbookVersion>) =>
+        versions.find((candidate) => candidate.version === (where as Partial<FlipbookVersion>).version) || null,
+      ),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        FlipbookVersionService,
+        { provide: getRepositoryToken(Flipbook), useValue: flipbookRepository },
+        { provide: getRepositoryToken(FlipbookVersion), useValue: versionRepository },
+      ],
+    }).compile();
+
+    service = moduleRef.get(FlipbookVersionService);
+  });
+
+  describe('diff', () => {
+    it('reports field and settings changes', async () => {
+      addVersion(1, { title: 'Spring', settings: { autoPlay: false }, pages: [] });
+      addVersion(2, { title: 'Summer', settings: { autoPlay: true }, pages: [] });
+
+      const diff = await service.diff(FLIPBOOK_ID, 1, 2);
+
+      expect(diff.fields).toEqual([
+        { field: 'title', from: 'Spring', to: 'Summer' },
+        { field: 'settings.autoPlay', from: false, to: true },
+      ]);
+    });
+
+    it('reports added, removed, reordered and changed pages by page ID', async () => {
+      addVersion(1, { title: 'Book', pages: [page('a'), page('b'), page('c'), page('d')] });
+      addVersion(2, { title: 'Book', pages: [page('b'), page('a'), page('c', { title: 'Renamed' }), page('e')] });
+
+      const { pages } = await service.diff(FLIPBOOK_ID, 1, 2);
+
+      expect(pages.added).toEqual([{ pageId: 'e', title: 'Page e', pageNumber: 4 }]);
+      expect(pages.removed).toEqual([{ pageId: 'd', title: 'Page d', pageNumber: 4 }]);
+      // a와 b 중 하나만 자리를 옮긴 것으로 봄
+      expect(pages.reordered).toHaveLength(1);
+      expect(pages.changed).toEqual([
+        { pageId: 'c', title: 'Renamed', pageNumber: 3, changes: [{ field: 'title', from: 'Page c', to: 'Renamed' }] },
+      ]);
+    });
+
+    it('rejects unknown versions', async () => {
+      addVersion(1, { title: 'Book', pages: [] });
+
+      await expect(service.diff(FLIPBOOK_ID, 1, 3)).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+
+  describe('published', () => {
+    it('returns the published snapshot instead of the draft', async () => {
+      addVersion(1, { title: 'Published', pages: [page('a'), page('b')] });
+
+      const published = await service.published(flipbook);
+
+      expect(published.title).toBe('Published');
+      expect(published.pages.map((candidate) => [candidate.id, candidate.pageIndex])).toEqual([['a', 0], ['b', 1]]);
+      expect(published.pageCount).toBe(2);
+    });
+
+    it('returns the draft when it is the published version', async () => {
+      flipbook.publishedVersion = flipbook.currentVersion;
+
+      await expect(service.published(flipbook)).resolves.toBe(flipbook);
+    });
+  });
+});
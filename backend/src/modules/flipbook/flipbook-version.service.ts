@@ -0,0 +1,258 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, EntityManager } from 'typeorm';
+import { Flipbook, FlipbookStatus } from '../../entities/flipbook.entity';
+import { Page } from '../../entities/page.entity';
+import {
+  FlipbookVersion,
+  FlipbookVersionReason,
+  FlipbookSnapshot,
+  FlipbookSnapshotPage,
+  SNAPSHOT_PAGE_FIELDS,
+} from '../../entities/flipbook-version.entity';
+import {
+  FlipbookVersionDto,
+  FlipbookVersionSummaryDto,
+  FlipbookVersionDiffDto,
+  VersionFieldChangeDto,
+  VersionPageRefDto,
+} from '../../dto/flipbook-version.dto';
+
+// 버전 비교에 쓰는 플립북 필드 (settings, metadata는 키 단위로 비교)
+const SNAPSHOT_FIELDS = ['title', 'description'] as const;
+const SNAPSHOT_GROUPS = ['settings', 'metadata'] as const;
+
+const sameJson = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const toSnapshot = (flipbook: Flipbook, pages: Page[]): FlipbookSnapshot => ({
+  title: flipbook.title,
+  description: flipbook.description,
+  settings: flipbook.settings,
+  metadata: flipbook.metadata,
+  pages: pages.map((page) =>
+    SNAPSHOT_PAGE_FIELDS.reduce((snapshot, field) => ({ ...snapshot, [field]: page[field] }), {} as FlipbookSnapshotPage),
+  ),
+});
+
+// 가장 긴 증가 부분 수열에 속하는 위치 (나머지는 순서가 바뀐 것으로 봄)
+const stablePositions = (values: number[]): Set<number> => {
+  const tails: number[] = [];
+  const previous: number[] = [];
+
+  values.forEach((value, position) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (values[tails[middle]] < value) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    previous[position] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = position;
+  });
+
+  const stable = new Set<number>();
+  for (let position = tails.length > 0 ? tails[tails.length - 1] : -1; position >= 0; position = previous[position]) {
+    stable.add(position);
+  }
+  return stable;
+};
+
+@Injectable()
+export class FlipbookVersionService {
+  constructor(
+    @InjectRepository(Flipbook)
+    private flipbookRepository: Repository<Flipbook>,
+    @InjectRepository(FlipbookVersion)
+    private versionRepository: Repository<FlipbookVersion>,
+  ) {}
+
+  // 현재 플립북과 페이지 목록을 새 버전으로 저장 (가장 최근 버전과 내용이 같으면 그 버전을 사용)
+  // 가져오기 작업이 페이지를 채우는 동안(processing)은 기록하지 않고 게시할 때 한 번에 남김
+  async record(
+    manager: EntityManager,
+    flipbookId: string,
+    reason: FlipbookVersionReason,
+    restoredFrom?: number,
+  ): Promise<FlipbookVersion | null> {
+    const flipbook = await manager.findOne(Flipbook, { where: { id: flipbookId } });
+    if (!flipbook || flipbook.status === FlipbookStatus.PROCESSING) {
+      return null;
+    }
+
+    const pages = await manager.find(Page, { where: { flipbookId }, order: { pageIndex: 'ASC' } });
+    const snapshot = toSnapshot(flipbook, pages);
+    let version = flipbook.currentVersion > 0
+      ? await manager.findOne(FlipbookVersion, { where: { flipbookId, version: flipbook.currentVersion } })
+      : null;
+
+    if (!version || !sameJson(version.snapshot, snapshot)) {
+      version = await manager.save(manager.create(FlipbookVersion, {
+        flipbookId,
+        version: flipbook.currentVersion + 1,
+        reason,
+        restoredFrom,
+        snapshot,
+        pageCount: pages.length,
+      }));
+      await manager.update(Flipbook, { id: flipbookId }, { currentVersion: version.version });
+    }
+
+    if (reason === FlipbookVersionReason.PUBLISH) {
+      if (!version.publishedAt) {
+        version.publishedAt = new Date();
+        await manager.update(FlipbookVersion, { id: version.id }, { publishedAt: version.publishedAt });
+      }
+      await manager.update(Flipbook, { id: flipbookId }, { publishedVersion: version.version });
+    }
+
+    return version;
+  }
+
+  async findAll(flipbookId: string): Promise<FlipbookVersionSummaryDto[]> {
+    const flipbook = await this.findFlipbook(flipbookId);
+    const versions = await this.versionRepository.find({
+      where: { flipbookId },
+      select: ['id', 'version', 'reason', 'restoredFrom', 'pageCount', 'publishedAt', 'createdAt'],
+      order: { version: 'DESC' },
+    });
+
+    return versions.map((version) => this.toSummary(version, flipbook));
+  }
+
+  async findOne(flipbookId: string, version: number): Promise<FlipbookVersionDto> {
+    const flipbook = await this.findFlipbook(flipbookId);
+    const found = await this.findVersion(flipbookId, version);
+
+    return { ...this.toSummary(found, flipbook), snapshot: found.snapshot };
+  }
+
+  async findVersion(flipbookId: string, version: number): Promise<FlipbookVersion> {
+    const found = await this.versionRepository.findOne({ where: { flipbookId, version } });
+
+    if (!found) {
+      throw new NotFoundException(`Version ${version} of flipbook ${flipbookId} not found`);
+    }
+
+    return found;
+  }
+
+  async diff(flipbookId: string, from: number, to: number): Promise<FlipbookVersionDiffDto> {
+    await this.findFlipbook(flipbookId);
+    const [source, target] = await Promise.all([
+      this.findVersion(flipbookId, from),
+      this.findVersion(flipbookId, to),
+    ]);
+
+    return {
+      from,
+      to,
+      fields: this.diffFields(source.snapshot, target.snapshot),
+      pages: this.diffPages(source.snapshot.pages, target.snapshot.pages),
+    };
+  }
+
+  // 게시한 버전이 초안과 다르면 게시한 버전의 제목·설정·페이지로 바꿔서 반환 (공개 리더용)
+  async published(flipbook: Flipbook): Promise<Flipbook> {
+    if (!flipbook.publishedVersion || flipbook.publishedVersion === flipbook.currentVersion) {
+      return flipbook;
+    }
+
+    const version = await this.versionRepository.findOne({
+      where: { flipbookId: flipbook.id, version: flipbook.publishedVersion },
+    });
+    if (!version) {
+      return flipbook;
+    }
+
+    const { pages, ...fields } = version.snapshot;
+    const publishedPages = pages.map((page, index) =>
+      Object.assign(new Page(), page, { flipbookId: flipbook.id, pageIndex: index }),
+    );
+
+    return Object.assign(new Flipbook(), flipbook, fields, {
+      pages: publishedPages,
+      pageCount: publishedPages.length,
+      totalSize: publishedPages.reduce((total, page) => total + (page.fileSize || 0), 0),
+    });
+  }
+
+  private diffFields(source: FlipbookSnapshot, target: FlipbookSnapshot): VersionFieldChangeDto[] {
+    const changes: VersionFieldChangeDto[] = SNAPSHOT_FIELDS
+      .filter((field) => !sameJson(source[field], target[field]))
+      .map((field) => ({ field, from: source[field], to: target[field] }));
+
+    for (const group of SNAPSHOT_GROUPS) {
+      const before = (source[group] || {}) as Record<string, unknown>;
+      const after = (target[group] || {}) as Record<string, unknown>;
+
+      for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+        if (!sameJson(before[key], after[key])) {
+          changes.push({ field: `${group}.${key}`, from: before[key], to: after[key] });
+        }
+      }
+    }
+
+    return changes;
+  }
+
+  private diffPages(source: FlipbookSnapshotPage[], target: FlipbookSnapshotPage[]): FlipbookVersionDiffDto['pages'] {
+    const ref = (page: FlipbookSnapshotPage, index: number): VersionPageRefDto => ({
+      pageId: page.id,
+      title: page.title,
+      pageNumber: index + 1,
+    });
+    const sourceIndex = new Map(source.map((page, index) => [page.id, index]));
+    const targetIds = new Set(target.map((page) => page.id));
+
+    const kept = target
+      .map((page, index) => ({ page, index, sourceIndex: sourceIndex.get(page.id) }))
+      .filter((entry) => entry.sourceIndex !== undefined);
+    const stable = stablePositions(kept.map((entry) => entry.sourceIndex));
+
+    return {
+      added: target.map(ref).filter((page) => !sourceIndex.has(page.pageId)),
+      removed: source.map(ref).filter((page) => !targetIds.has(page.pageId)),
+      reordered: kept
+        .filter((entry, position) => !stable.has(position))
+        .map((entry) => ({ ...ref(entry.page, entry.index), fromPageNumber: entry.sourceIndex + 1 })),
+      changed: kept
+        .map((entry) => {
+          const before = source[entry.sourceIndex];
+          const changes = SNAPSHOT_PAGE_FIELDS
+            .filter((field) => field !== 'id' && !sameJson(before[field], entry.page[field]))
+            .map((field) => ({ field, from: before[field], to: entry.page[field] }));
+          return { ...ref(entry.page, entry.index), changes };
+        })
+        .filter((page) => page.changes.length > 0),
+    };
+  }
+
+  private toSummary(version: FlipbookVersion, flipbook: Flipbook): FlipbookVersionSummaryDto {
+    return {
+      version: version.version,
+      reason: version.reason,
+      restoredFrom: version.restoredFrom,
+      pageCount: version.pageCount,
+      isPublished: version.version === flipbook.publishedVersion,
+      publishedAt: version.publishedAt,
+      createdAt: version.createdAt,
+    };
+  }
+
+  private async findFlipbook(flipbookId: string): Promise<Flipbook> {
+    const flipbook = await this.flipbookRepository.findOne({
+      where: { id: flipbookId },
+      select: { id: true, currentVersion: true, publishedVersion: true },
+    });
+
+    if (!flipbook) {
+      throw new NotFoundException(`Flipbook with ID ${flipbookId} not found`);
+    }
+
+    return flipbook;
+  }
+}
@@ -9,17 +9,36 @@ import {
   Query,
   HttpStatus,
   HttpCode,
+  UseGuards,
+  Req,
 } from '@nestjs/common';
+import { Request } from 'express';
 import { FlipbookService } from './flipbook.service';
+import { FlipbookSlugService } from './flipbook-slug.service';
+import { ShareLinkService, FlipbookAccess } from '../share-link/share-link.service';
+import {
+  FlipbookAccessGuard,
+  RequireAccess,
+  CurrentAccess,
+} from '../share-link/flipbook-access.guard';
 import {
   CreateFlipbookDto,
   UpdateFlipbookDto,
+  UpdateFlipbookStatusDto,
   FlipbookQueryDto,
 } from '../../dto/flipbook.dto';
+import { RequestAccessDto } from '../../dto/share-link.dto';
+import { RequireUser, CurrentUser } from '../auth/auth.guard';
+import { AuthUser } from '../auth/auth.service';
 
 @Controller('flipbooks')
+@UseGuards(FlipbookAccessGuard)
 export class FlipbookController {
-  constructor(private readonly flipbookService: FlipbookService) {}
+  constructor(
+    private readonly flipbookService: FlipbookService,
+    private readonly flipbookSlugService: FlipbookSlugService,
+    private readonly shareLinkService: ShareLinkService,
+  ) {}
 
   // Test endpoint
   @Get('test')
@@ -29,18 +48,98 @@ export class FlipbookController {
 
   // Basic CRUD operations
   @Post()
-  async create(@Body() createFlipbookDto: CreateFlipbookDto) {
-    return this.flipbookService.create(createFlipbookDto);
+  @RequireUser()
+  async create(@Body() createFlipbookDto: CreateFlipbookDto, @CurrentUser() user: AuthUser) {
+    return this.flipbookService.create(createFlipbookDto, user.id);
   }
 
+  // Public flipbooks only; the signed-in user's own flipbooks are listed by /mine
   @Get()
-  async findAll() {
-    return this.flipbookService.findAll();
+  async findAll(@Query() query: FlipbookQueryDto) {
+    return this.flipbookService.findAll(query);
+  }
+
+  @Get('mine')
+  @RequireUser()
+  async findMine(@Query() query: FlipbookQueryDto, @CurrentUser() user: AuthUser) {
+    return this.flipbookService.findAll(query, user.id);
+  }
+
+  @Get('canva/:designId')
+  @RequireUser()
+  async findByCanvaDesignId(@Param('designId') designId: string, @CurrentUser() user: AuthUser) {
+    return this.flipbookService.findByCanvaDesignId(designId, user.id);
+  }
+
+  // Public URLs resolve by slug; previous slugs still resolve (the response carries the current slug)
+  @Get('slug/:slug')
+  async findBySlug(@Param('slug') slug: string, @Req() req: Request) {
+    const { flipbookId } = await this.flipbookSlugService.resolve(slug);
+    const access = await this.shareLinkService.resolveAccess(
+      flipbookId,
+      this.shareLinkService.credentialsFrom(req),
+      'view',
+    );
+
+    // 공개 리더는 편집 중인 초안 대신 게시한 버전을 보여줌
+    const flipbook = await this.flipbookService.findPublished(flipbookId);
+    this.shareLinkService.attachAccessToken(flipbook.pages, access);
+    return flipbook;
+  }
+
+  @Post('slug/:slug/access')
+  @HttpCode(HttpStatus.OK)
+  async requestAccessBySlug(
+    @Param('slug') slug: string,
+    @Body() requestAccessDto: RequestAccessDto,
+  ) {
+    const { flipbookId } = await this.flipbookSlugService.resolve(slug);
+    return this.shareLinkService.requestAccess(flipbookId, requestAccessDto);
   }
 
   @Get(':id')
-  async findOne(@Param('id') id: string) {
-    return this.flipbookService.findOne(id);
+  @RequireAccess('view')
+  async findOne(@Param('id') id: string, @CurrentAccess() access: FlipbookAccess) {
+    // 편집 권한이 있으면 초안, 조회만 가능하면 게시한 버전
+    const flipbook = access.permissions.includes('edit')
+      ? await this.flipbookService.findOne(id)
+      : await this.flipbookService.findPublished(id);
+    this.shareLinkService.attachAccessToken(flipbook.pages, access);
+    return flipbook;
+  }
+
+  @Patch(':id')
+  @RequireAccess('edit')
+  async update(
+    @Param('id') id: string,
+    @Body() updateFlipbookDto: UpdateFlipbookDto,
+  ) {
+    return this.flipbookService.update(id, updateFlipbookDto);
+  }
+
+  @Delete(':id')
+  @RequireAccess('delete')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@Param('id') id: string) {
+    await this.flipbookService.remove(id);
+  }
+
+  // Status lifecycle
+  @Patch(':id/status')
+  @RequireAccess('edit')
+  async updateStatus(
+    @Param('id') id: string,
+    @Body() updateStatusDto: UpdateFlipbookStatusDto,
+  ) {
+    return this.flipbookService.updateStatus(id, updateStatusDto);
+  }
+
+  // Publish the current draft (re-publishes draft changes of an already published flipbook)
+  @Post(':id/publish')
+  @RequireAccess('edit')
+  @HttpCode(HttpStatus.OK)
+  async publish(@Param('id') id: string) {
+    return this.flipbookService.publish(id);
   }
 
   @Post(':id/view')
@@ -2,13 +2,22 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { FlipbookController } from './flipbook.controller';
 import { FlipbookService } from './flipbook.service';
+import { PageController } from './page.controller';
+import { PageService } from './page.service';
+import { FlipbookSlugService } from './flipbook-slug.service';
+import { FlipbookVersionService } from './flipbook-version.service';
+import { FlipbookVersionController } from './flipbook-version.controller';
 import { Flipbook } from '../../entities/flipbook.entity';
+import { FlipbookSlugRedirect } from '../../entities/flipbook-slug-redirect.entity';
 import { Page } from '../../entities/page.entity';
+import { FlipbookVersion } from '../../entities/flipbook-version.entity';
+import { StorageModule } from '../storage/storage.module';
+import { ShareLinkModule } from '../share-link/share-link.module';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Flipbook, Page])],
-  controllers: [FlipbookController],
-  providers: [FlipbookService],
-  exports: [FlipbookService],
+  imports: [TypeOrmModule.forFeature([Flipbook, Page, FlipbookSlugRedirect, FlipbookVersion]), StorageModule, ShareLinkModule],
+  controllers: [FlipbookController, PageController, FlipbookVersionController],
+  providers: [FlipbookService, PageService, FlipbookSlugService, FlipbookVersionService],
+  exports: [FlipbookService, PageService, FlipbookSlugService, FlipbookVersionService],
 })
 export class FlipbookModule {}
\ No newline at end of file
@@ -0,0 +1,198 @@
+import { ConflictException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Brackets, Repository } from 'typeorm';
+import { FlipbookService } from './flipbook.service';
+import { PageService } from './page.service';
+import { FlipbookSlugService } from './flipbook-slug.service';
+import { FlipbookVersionService } from './flipbook-version.service';
+import { StorageService } from '../storage/storage.service';
+import { Flipbook, FlipbookStatus, FlipbookVisibility } from '../../entities/flipbook.entity';
+import { Page } from '../../entities/page.entity';
+import { FlipbookVersion, FlipbookVersionReason } from '../../entities/flipbook-version.entity';
+
+describe('FlipbookService', () => {
+  let flipbook: Flipbook;
+  let manager: {
+    save: jest.Mock<Promise<unknown>, [unknown]>;
+    create: jest.Mock<Page, [typeof Page, Partial<Page>]>;
+    update: jest.Mock;
+    delete: jest.Mock;
+  };
+  let flipbookVersionService: jest.Mocked<Pick<FlipbookVersionService, 'record' | 'findVersion'>>;
+  let flipbookSlugService: jest.Mocked<Pick<FlipbookSlugService, 'rename'>>;
+  let pageService: jest.Mocked<Pick<PageService, 'syncFlipbookStats'>>;
+  // 목록 조회에서 쿼리 빌더에 넘긴 WHERE 조건과 파라미터
+  let conditions: { condition: string | Brackets; parameters?: Record<string, unknown> }[];
+  let service: FlipbookService;
+
+  beforeEach(async () => {
+    flipbook = Object.assign(new Flipbook(), { id: 'flipbook-1', status: FlipbookStatus.DRAFT, pages: [] });
+    manager = {
+      save: jest.fn(async (entity: unknown) => entity),
+      create: jest.fn((_: typeof Page, fields: Partial<Page>) => Object.assign(new Page(), fields)),
+      update: jest.fn().mockResolvedValue(undefined),
+      delete: jest.fn().mockResolvedValue(undefined),
+    };
+    flipbookVersionService = { record: jest.fn().mockResolvedValue(null), findVersion: jest.fn() };
+    flipbookSlugService = { rename: jest.fn().mockResolvedValue(undefined) };
+    pageService = { syncFlipbookStats: jest.fn().mockResolvedValue(undefined) };
+
+    // 트랜잭션은 콜백에 가짜 EntityManager를 넘겨 그대로 실행
+    conditions = [];
+    const queryBuilder = {
+      andWhere: (condition: string | Brackets, parameters?: Record<string, unknown>) => {
+        conditions.push({ condition, parameters });
+        return queryBuilder;
+      },
+      orderBy: () => queryBuilder,
+      skip: () => queryBuilder,
+      take: () => queryBuilder,
+      getManyAndCount: async (): Promise<[Flipbook[], number]> => [[], 0],
+    };
+
+    const flipbookRepository: jest.Mocked<Pick<Repository<Flipbook>, 'findOne'>> & {
+      createQueryBuilder: jest.Mock<typeof queryBuilder, [string]>;
+      manager: { transaction: jest.Mock<Promise<unknown>, [(entityManager: typeof manager) => Promise<unknown>]> };
+    } = {
+      findOne: jest.fn().mockImplementation(async () => flipbook),
+      createQueryBuilder: jest.fn<typeof queryBuilder, [string]>(() => queryBuilder),
+      manager: { transaction: jest.fn((work) => work(manager)) },
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        FlipbookService,
+        { provide: getRepositoryToken(Flipbook), useValue: flipbookRepository },
+        { provide: getRepositoryToken(Page), useValue: {} },
+        { provide: PageService, useValue: pageService },
+        { provide: FlipbookSlugService, useValue: flipbookSlugService },
+        { provide: FlipbookVersionService, useValue: flipbookVersionService },
+        { provide: StorageService, useValue: {} },
+      ],
+    }).compile();
+
+    service = moduleRef.get(FlipbookService);
+  });
+
+  describe('findAll', () => {
+    const parameters = () => Object.assign({}, ...conditions.map((entry) => entry.parameters));
+
+    it('lists only published public flipbooks without an owner, whatever the requested status', async () => {
+      await service.findAll({ status: FlipbookStatus.DRAFT });
+
+      expect(conditions.map((entry) => entry.condition)).toEqual([
+        'flipbook.visibility = :visibility',
+        'flipbook.status = :status',
+      ]);
+      expect(parameters()).toEqual({ visibility: FlipbookVisibility.PUBLIC, status: FlipbookStatus.PUBLISHED });
+    });
+
+    it('lets the owner filter their own flipbooks by status', async () => {
+      await service.findAll({ status: FlipbookStatus.DRAFT }, 'owner-1');
+
+      expect(parameters()).toEqual({ ownerId: 'owner-1', status: FlipbookStatus.DRAFT });
+    });
+
+    it('searches for % and _ literally', async () => {
+      await service.findAll({ search: ' 100%_Off\\ ' });
+
+      // Brackets 안의 조건은 콜백에 넘긴 빌더로 모음
+      const search: { condition: string; parameters: Record<string, unknown> }[] = [];
+      const where = {
+        where: (condition: string, parameters: Record<string, unknown>) => {
+          search.push({ condition, parameters });
+          return where;
+        },
+        orWhere: (condition: string, parameters: Record<string, unknown>) => where.where(condition, parameters),
+      };
+      const brackets = conditions.find((entry) => entry.condition instanceof Brackets).condition as Brackets;
+      brackets.whereFactory(where as never);
+
+      expect(search).toEqual([
+        { condition: "LOWER(flipbook.title) LIKE :search ESCAPE '\\'", parameters: { search: '%100\\%\\_off\\\\%' } },
+        { condition: "LOWER(flipbook.description) LIKE :search ESCAPE '\\'", parameters: { search: '%100\\%\\_off\\\\%' } },
+      ]);
+    });
+  });
+
+  describe('publish', () => {
+    it('publishes a draft and records a publish version', async () => {
+      const published = await service.publish(flipbook.id);
+
+      expect(published.status).toBe(FlipbookStatus.PUBLISHED);
+      expect(published.publishedAt).toBeInstanceOf(Date);
+      expect(manager.save).toHaveBeenCalledWith(flipbook);
+      expect(flipbookVersionService.record).toHaveBeenCalledWith(manager, flipbook.id, FlipbookVersionReason.PUBLISH);
+    });
+
+    // 게시 → 초안으로 되돌린 뒤 다시 게시
+    it('publishes again after reverting a published flipbook to draft', async () => {
+      flipbook.status = FlipbookStatus.PUBLISHED;
+      await service.updateStatus(flipbook.id, { status: FlipbookStatus.DRAFT });
+
+      const published = await service.publish(flipbook.id);
+
+      expect(published.status).toBe(FlipbookStatus.PUBLISHED);
+    });
+
+    it('records a new version without changing status when already published', async () => {
+      flipbook.status = FlipbookStatus.PUBLISHED;
+
+      await service.publish(flipbook.id);
+
+      expect(manager.save).not.toHaveBeenCalled();
+      expect(flipbookVersionService.record).toHaveBeenCalledWith(manager, flipbook.id, FlipbookVersionReason.PUBLISH);
+    });
+
+    it('rejects publishing while an import is running', async () => {
+      flipbook.status = FlipbookStatus.PROCESSING;
+
+      await expect(service.publish(flipbook.id)).rejects.toBeInstanceOf(ConflictException);
+      expect(flipbookVersionService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreVersion', () => {
+    beforeEach(() => {
+      Object.assign(flipbook, { title: 'Summer', slug: 'summer', currentVersion: 3 });
+      flipbookVersionService.findVersion.mockResolvedValue(Object.assign(new FlipbookVersion(), {
+        version: 1,
+        snapshot: {
+          title: 'Spring',
+          settings: { autoPlay: true },
+          pages: [
+            { id: 'page-2', title: 'Back', imageUrl: '/files/2.png' },
+            { id: 'page-1', title: 'Cover', imageUrl: '/files/1.png' },
+          ],
+        },
+      }));
+    });
+
+    it('restores the fields and pages of the version into the draft and records a restore version', async () => {
+      await service.restoreVersion(flipbook.id, 1);
+
+      expect(flipbookSlugService.rename).toHaveBeenCalledWith(manager, flipbook, 'Spring');
+      expect(manager.update).toHaveBeenCalledWith(Flipbook, { id: flipbook.id }, expect.objectContaining({
+        title: 'Spring',
+        description: null,
+        settings: { autoPlay: true },
+      }));
+      expect(manager.delete).toHaveBeenCalledWith(Page, { flipbookId: flipbook.id });
+      // 페이지 ID를 유지해 이후 버전 비교에서 같은 페이지로 인식
+      expect(manager.save).toHaveBeenCalledWith([
+        expect.objectContaining({ id: 'page-2', flipbookId: flipbook.id, pageIndex: 0 }),
+        expect.objectContaining({ id: 'page-1', flipbookId: flipbook.id, pageIndex: 1 }),
+      ]);
+      expect(pageService.syncFlipbookStats).toHaveBeenCalledWith(manager, flipbook.id);
+      expect(flipbookVersionService.record).toHaveBeenCalledWith(manager, flipbook.id, FlipbookVersionReason.RESTORE, 1);
+    });
+
+    it('rejects restoring while an import is running', async () => {
+      flipbook.status = FlipbookStatus.PROCESSING;
+
+      await expect(service.restoreVersion(flipbook.id, 1)).rejects.toBeInstanceOf(ConflictException);
+      expect(manager.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,17 +1,33 @@
-import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { Flipbook, FlipbookStatus, FlipbookVisibility } from '../../entities/flipbook.entity';
+import { Repository, Brackets } from 'typeorm';
+import { Flipbook, FlipbookSourceType, FlipbookStatus, FlipbookVisibility } from '../../entities/flipbook.entity';
 import { Page } from '../../entities/page.entity';
+import { FlipbookVersionReason } from '../../entities/flipbook-version.entity';
 import {
   CreateFlipbookDto,
   UpdateFlipbookDto,
+  UpdateFlipbookStatusDto,
   FlipbookQueryDto,
+  FlipbookListResponseDto,
 } from '../../dto/flipbook.dto';
-import {
-  CreatePageDto,
-  UpdatePageDto,
-} from '../../dto/page.dto';
+import { PageService } from './page.service';
+import { FlipbookSlugService } from './flipbook-slug.service';
+import { FlipbookVersionService } from './flipbook-version.service';
+import { StorageService } from '../storage/storage.service';
+
+// 허용되는 상태 전이 (draft → processing → published → archived, 실패 시 failed)
+// 초안은 바로 게시할 수 있음 (게시 후 초안으로 되돌린 경우 포함)
+const STATUS_TRANSITIONS: Record<FlipbookStatus, FlipbookStatus[]> = {
+  [FlipbookStatus.DRAFT]: [FlipbookStatus.PROCESSING, FlipbookStatus.PUBLISHED, FlipbookStatus.ARCHIVED],
+  [FlipbookStatus.PROCESSING]: [FlipbookStatus.PUBLISHED, FlipbookStatus.FAILED],
+  [FlipbookStatus.PUBLISHED]: [FlipbookStatus.ARCHIVED, FlipbookStatus.DRAFT],
+  [FlipbookStatus.FAILED]: [FlipbookStatus.PROCESSING, FlipbookStatus.DRAFT, FlipbookStatus.ARCHIVED],
+  [FlipbookStatus.ARCHIVED]: [FlipbookStatus.DRAFT, FlipbookStatus.PUBLISHED],
+};
+
+// 검색어의 %, _ 를 LIKE 와일드카드가 아닌 글자로 찾도록 이스케이프 (ESCAPE '\'와 함께 사용)
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, (character) => `\\${character}`);
 
 @Injectable()
 export class FlipbookService {
@@ -20,6 +36,10 @@ export class FlipbookService {
     private flipbookRepository: Repository<Flipbook>,
     @InjectRepository(Page)
     private pageRepository: Repository<Page>,
+    private pageService: PageService,
+    private flipbookSlugService: FlipbookSlugService,
+    private flipbookVersionService: FlipbookVersionService,
+    private storageService: StorageService,
   ) {}
 
   // Simple test endpoint
@@ -33,35 +53,102 @@ export class FlipbookService {
   }
 
   // Basic flipbook operations
-  async create(createFlipbookDto: CreateFlipbookDto): Promise<Flipbook> {
+  async create(createFlipbookDto: CreateFlipbookDto, userId: string): Promise<Flipbook> {
+    const pages = [...(createFlipbookDto.pages || [])].sort(
+      (a, b) => a.pageNumber - b.pageNumber,
+    );
+
+    let flipbookId: string;
     try {
-      const flipbook = this.flipbookRepository.create({
-        title: createFlipbookDto.title,
-        description: createFlipbookDto.description,
-        canvaDesignId: createFlipbookDto.canvaDesignId,
-        userId: createFlipbookDto.userId || 'test-user',
-        status: FlipbookStatus.DRAFT,
-        visibility: FlipbookVisibility.PRIVATE,
-        viewCount: 0,
-      });
+      flipbookId = await this.flipbookRepository.manager.transaction(async (manager) => {
+        const flipbook = manager.create(Flipbook, {
+          title: createFlipbookDto.title,
+          slug: await this.flipbookSlugService.generate(manager, createFlipbookDto.title),
+          description: createFlipbookDto.description,
+          sourceType: createFlipbookDto.sourceType || FlipbookSourceType.CANVA,
+          canvaDesignId: createFlipbookDto.canvaDesignId,
+          userId,
+          settings: createFlipbookDto.settings,
+          metadata: createFlipbookDto.metadata,
+          status: FlipbookStatus.DRAFT,
+          visibility: FlipbookVisibility.PRIVATE,
+          viewCount: 0,
+        });
+        const saved = await manager.save(flipbook);
+
+        if (pages.length > 0) {
+          await manager.save(
+            pages.map((pageDto, index) => manager.create(Page, this.pageService.buildPageFields(saved.id, pageDto, index))),
+          );
+          await this.pageService.syncFlipbookStats(manager, saved.id);
+        }
 
-      return await this.flipbookRepository.save(flipbook);
+        await this.flipbookVersionService.record(manager, saved.id, FlipbookVersionReason.CREATE);
+        return saved.id;
+      });
     } catch (error) {
       throw new BadRequestException('Failed to create flipbook');
     }
+
+    return this.findOne(flipbookId);
   }
 
-  async findAll(): Promise<Flipbook[]> {
-    return this.flipbookRepository.find({
-      take: 10,
-      order: { createdAt: 'DESC' }
-    });
+  // ownerId가 있으면 그 사용자의 플립북, 없으면 게시된 공개 플립북만 조회
+  async findAll(query: FlipbookQueryDto, ownerId?: string): Promise<FlipbookListResponseDto> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const qb = this.flipbookRepository.createQueryBuilder('flipbook');
+
+    if (ownerId) {
+      qb.andWhere('flipbook.userId = :ownerId', { ownerId });
+      if (query.status) {
+        qb.andWhere('flipbook.status = :status', { status: query.status });
+      }
+      if (query.visibility) {
+        qb.andWhere('flipbook.visibility = :visibility', { visibility: query.visibility });
+      }
+    } else {
+      // 다른 사람의 초안·가져오는 중·실패한 플립북은 status 조건과 관계없이 숨김
+      qb.andWhere('flipbook.visibility = :visibility', { visibility: FlipbookVisibility.PUBLIC })
+        .andWhere('flipbook.status = :status', { status: FlipbookStatus.PUBLISHED });
+    }
+    if (query.isFeatured !== undefined) {
+      qb.andWhere('flipbook.isFeatured = :isFeatured', { isFeatured: query.isFeatured });
+    }
+    if (query.search) {
+      const search = `%${escapeLike(query.search.trim().toLowerCase())}%`;
+      qb.andWhere(new Brackets((where) => {
+        where
+          .where("LOWER(flipbook.title) LIKE :search ESCAPE '\\'", { search })
+          .orWhere("LOWER(flipbook.description) LIKE :search ESCAPE '\\'", { search });
+      }));
+    }
+
+    // sortBy는 DTO에서 FLIPBOOK_SORT_FIELDS로 제한됨
+    qb.orderBy(`flipbook.${query.sortBy || 'createdAt'}`, query.sortOrder || 'DESC')
+      .skip((page - 1) * limit)
+      .take(limit);
+
+    const [flipbooks, total] = await qb.getManyAndCount();
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      flipbooks,
+      total,
+      page,
+      limit,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrev: page > 1,
+    };
   }
 
   async findOne(id: string): Promise<Flipbook> {
     const flipbook = await this.flipbookRepository.findOne({
       where: { id },
       relations: ['pages'],
+      order: { pages: { pageIndex: 'ASC' } },
     });
 
     if (!flipbook) {
@@ -71,7 +158,134 @@ export class FlipbookService {
     return flipbook;
   }
 
+  // 공개 리더용: 게시한 버전이 있으면 편집 중인 초안 대신 그 내용을 반환
+  async findPublished(id: string): Promise<Flipbook> {
+    return this.flipbookVersionService.published(await this.findOne(id));
+  }
+
+  async findByCanvaDesignId(canvaDesignId: string, userId: string): Promise<Flipbook | null> {
+    return this.flipbookRepository.findOne({
+      where: { canvaDesignId, userId },
+      relations: ['pages'],
+      order: { createdAt: 'DESC', pages: { pageIndex: 'ASC' } },
+    });
+  }
+
+  async update(id: string, updateFlipbookDto: UpdateFlipbookDto): Promise<Flipbook> {
+    const flipbook = await this.findOne(id);
+    const { status, ...fields } = updateFlipbookDto;
+
+    const publishing = status && status !== flipbook.status && status === FlipbookStatus.PUBLISHED;
+    if (status && status !== flipbook.status) {
+      this.applyStatusTransition(flipbook, status);
+    }
+
+    await this.flipbookRepository.manager.transaction(async (manager) => {
+      if (fields.title && fields.title !== flipbook.title) {
+        await this.flipbookSlugService.rename(manager, flipbook, fields.title);
+      }
+      Object.assign(flipbook, fields);
+      await manager.save(flipbook);
+      await this.flipbookVersionService.record(
+        manager,
+        flipbook.id,
+        publishing ? FlipbookVersionReason.PUBLISH : FlipbookVersionReason.EDIT,
+      );
+    });
+    return this.findOne(id);
+  }
+
+  async updateStatus(id: string, updateStatusDto: UpdateFlipbookStatusDto): Promise<Flipbook> {
+    const flipbook = await this.findOne(id);
+
+    this.applyStatusTransition(flipbook, updateStatusDto.status);
+
+    await this.flipbookRepository.manager.transaction(async (manager) => {
+      await manager.save(flipbook);
+      if (flipbook.status === FlipbookStatus.PUBLISHED) {
+        await this.flipbookVersionService.record(manager, flipbook.id, FlipbookVersionReason.PUBLISH);
+      }
+    });
+    return this.findOne(id);
+  }
+
+  // 초안을 공개 리더에 반영 (이미 게시한 플립북이면 변경 사항만 다시 게시)
+  async publish(id: string): Promise<Flipbook> {
+    const flipbook = await this.findOne(id);
+
+    if (flipbook.status === FlipbookStatus.PROCESSING) {
+      throw new ConflictException('Cannot publish a flipbook while it is being imported');
+    }
+
+    if (flipbook.status !== FlipbookStatus.PUBLISHED) {
+      return this.updateStatus(id, { status: FlipbookStatus.PUBLISHED });
+    }
+
+    await this.flipbookRepository.manager.transaction(async (manager) => {
+      await this.flipbookVersionService.record(manager, flipbook.id, FlipbookVersionReason.PUBLISH);
+    });
+    return this.findOne(id);
+  }
+
+  // 버전의 제목·설명·설정·페이지로 초안을 되돌리고 새 버전으로 기록 (공개 리더에는 게시해야 반영)
+  async restoreVersion(id: string, version: number): Promise<Flipbook> {
+    const flipbook = await this.findOne(id);
+    const { snapshot } = await this.flipbookVersionService.findVersion(id, version);
+
+    if (flipbook.status === FlipbookStatus.PROCESSING) {
+      throw new ConflictException('Cannot restore a version while the flipbook is being imported');
+    }
+
+    await this.flipbookRepository.manager.transaction(async (manager) => {
+      if (snapshot.title !== flipbook.title) {
+        await this.flipbookSlugService.rename(manager, flipbook, snapshot.title);
+      }
+      await manager.update(Flipbook, { id: flipbook.id }, {
+        title: snapshot.title,
+        slug: flipbook.slug,
+        description: snapshot.description ?? null,
+        settings: snapshot.settings ?? null,
+        metadata: snapshot.metadata ?? null,
+      });
+
+      // 페이지 ID를 그대로 되살려 이후 버전 비교에서 같은 페이지로 인식되게 함
+      await manager.delete(Page, { flipbookId: flipbook.id });
+      await manager.save(
+        snapshot.pages.map((page, index) => manager.create(Page, { ...page, flipbookId: flipbook.id, pageIndex: index })),
+      );
+      await this.pageService.syncFlipbookStats(manager, flipbook.id);
+      await this.flipbookVersionService.record(manager, flipbook.id, FlipbookVersionReason.RESTORE, version);
+    });
+    return this.findOne(id);
+  }
+
+  async remove(id: string): Promise<void> {
+    const flipbook = await this.findOne(id);
+
+    await this.flipbookRepository.manager.transaction(async (manager) => {
+      await manager.delete(Page, { flipbookId: flipbook.id });
+      await manager.delete(Flipbook, { id: flipbook.id });
+    });
+
+    await this.storageService.deleteFlipbookAssets(flipbook.id);
+  }
+
   async incrementViewCount(id: string): Promise<void> {
     await this.flipbookRepository.increment({ id }, 'viewCount', 1);
   }
-}
\ No newline at end of file
+
+  private applyStatusTransition(flipbook: Flipbook, nextStatus: FlipbookStatus): void {
+    const allowed = STATUS_TRANSITIONS[flipbook.status] || [];
+
+    if (!allowed.includes(nextStatus)) {
+      throw new ConflictException(
+        `Cannot change flipbook status from '${flipbook.status}' to '${nextStatus}'`,
+      );
+    }
+
+    flipbook.status = nextStatus;
+    if (nextStatus === FlipbookStatus.PUBLISHED) {
+      flipbook.publishedAt = new Date();
+    }
+  }
+}
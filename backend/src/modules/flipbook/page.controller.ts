@@ -0,0 +1,94 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Put,
+  Param,
+  Delete,
+  HttpStatus,
+  HttpCode,
+  UseGuards,
+} from '@nestjs/common';
+import { PageService } from './page.service';
+import { FlipbookService } from './flipbook.service';
+import { ShareLinkService, FlipbookAccess } from '../share-link/share-link.service';
+import {
+  FlipbookAccessGuard,
+  RequireAccess,
+  CurrentAccess,
+} from '../share-link/flipbook-access.guard';
+import {
+  CreatePageDto,
+  UpdatePageDto,
+  PageReorderDto,
+  PageBatchUpdateDto,
+} from '../../dto/page.dto';
+
+@Controller('flipbooks/:flipbookId/pages')
+@UseGuards(FlipbookAccessGuard)
+@RequireAccess('edit')
+export class PageController {
+  constructor(
+    private readonly pageService: PageService,
+    private readonly flipbookService: FlipbookService,
+    private readonly shareLinkService: ShareLinkService,
+  ) {}
+
+  @Get()
+  @RequireAccess('view')
+  async findAll(
+    @Param('flipbookId') flipbookId: string,
+    @CurrentAccess() access: FlipbookAccess,
+  ) {
+    // 조회만 가능하면 게시한 버전의 페이지
+    const pages = access.permissions.includes('edit')
+      ? await this.pageService.findAll(flipbookId)
+      : (await this.flipbookService.findPublished(flipbookId)).pages;
+    return this.shareLinkService.attachAccessToken(pages, access);
+  }
+
+  @Post()
+  async create(
+    @Param('flipbookId') flipbookId: string,
+    @Body() createPageDto: CreatePageDto,
+  ) {
+    return this.pageService.create(flipbookId, createPageDto);
+  }
+
+  // Bulk operations (declared before :pageId routes)
+  @Put('reorder')
+  async reorder(
+    @Param('flipbookId') flipbookId: string,
+    @Body() reorderDto: PageReorderDto,
+  ) {
+    return this.pageService.reorder(flipbookId, reorderDto);
+  }
+
+  @Patch('batch')
+  async batchUpdate(
+    @Param('flipbookId') flipbookId: string,
+    @Body() batchUpdateDto: PageBatchUpdateDto,
+  ) {
+    return this.pageService.batchUpdate(flipbookId, batchUpdateDto);
+  }
+
+  @Patch(':pageId')
+  async update(
+    @Param('flipbookId') flipbookId: string,
+    @Param('pageId') pageId: string,
+    @Body() updatePageDto: UpdatePageDto,
+  ) {
+    return this.pageService.update(flipbookId, pageId, updatePageDto);
+  }
+
+  @Delete(':pageId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @Param('flipbookId') flipbookId: string,
+    @Param('pageId') pageId: string,
+  ) {
+    await this.pageService.remove(flipbookId, pageId);
+  }
+}
@@ -0,0 +1,271 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, EntityManager, In } from 'typeorm';
+import { Flipbook } from '../../entities/flipbook.entity';
+import { Page } from '../../entities/page.entity';
+import { FlipbookVersionReason } from '../../entities/flipbook-version.entity';
+import {
+  CreatePageDto,
+  UpdatePageDto,
+  PageReorderDto,
+  PageBatchUpdateDto,
+} from '../../dto/page.dto';
+import { FlipbookVersionService } from './flipbook-version.service';
+
+// Canva 동기화로 정해진 페이지 (pageId가 있으면 기존 페이지의 이미지만 교체)
+export interface PageSyncEntry {
+  pageId?: string;
+  pageDto: CreatePageDto;
+}
+
+@Injectable()
+export class PageService {
+  constructor(
+    @InjectRepository(Flipbook)
+    private flipbookRepository: Repository<Flipbook>,
+    @InjectRepository(Page)
+    private pageRepository: Repository<Page>,
+    private flipbookVersionService: FlipbookVersionService,
+  ) {}
+
+  async findAll(flipbookId: string): Promise<Page[]> {
+    await this.ensureFlipbook(this.flipbookRepository.manager, flipbookId);
+    return this.pageRepository.find({
+      where: { flipbookId },
+      order: { pageIndex: 'ASC' },
+    });
+  }
+
+  // pageNumber 위치에 페이지 삽입 (없으면 마지막에 추가)
+  async create(flipbookId: string, createPageDto: CreatePageDto): Promise<Page> {
+    return this.pageRepository.manager.transaction(async (manager) => {
+      await this.ensureFlipbook(manager, flipbookId);
+      const pages = await this.loadOrderedPages(manager, flipbookId);
+
+      const insertAt = this.clampIndex(createPageDto.pageNumber - 1, pages.length);
+      const page = manager.create(Page, this.buildPageFields(flipbookId, createPageDto, insertAt));
+      pages.splice(insertAt, 0, page);
+
+      await this.renumber(manager, pages);
+      await this.syncFlipbookStats(manager, flipbookId);
+      await this.flipbookVersionService.record(manager, flipbookId, FlipbookVersionReason.EDIT);
+      return page;
+    });
+  }
+
+  async update(flipbookId: string, pageId: string, updatePageDto: UpdatePageDto): Promise<Page> {
+    return this.pageRepository.manager.transaction(async (manager) => {
+      const pages = await this.loadOrderedPages(manager, flipbookId);
+      const page = this.findPage(pages, flipbookId, pageId);
+      const { pageNumber, width, height, ...fields } = updatePageDto;
+
+      // 다른 이미지로 바꾸면 저장소에 보관한 이전 이미지는 더 이상 이 페이지의 이미지가 아님
+      if (fields.imageUrl !== undefined && fields.imageUrl !== page.imageUrl) {
+        Object.assign(page, { storageKey: null, cdnUrl: null, variants: null });
+      }
+      Object.assign(page, fields);
+      if (width !== undefined) {
+        page.originalWidth = width;
+      }
+      if (height !== undefined) {
+        page.originalHeight = height;
+      }
+
+      if (pageNumber !== undefined) {
+        pages.splice(pages.indexOf(page), 1);
+        pages.splice(this.clampIndex(pageNumber - 1, pages.length), 0, page);
+      }
+
+      await this.renumber(manager, pages);
+      await this.syncFlipbookStats(manager, flipbookId);
+      await this.flipbookVersionService.record(manager, flipbookId, FlipbookVersionReason.EDIT);
+      return page;
+    });
+  }
+
+  async remove(flipbookId: string, pageId: string): Promise<void> {
+    await this.pageRepository.manager.transaction(async (manager) => {
+      const pages = await this.loadOrderedPages(manager, flipbookId);
+      const page = this.findPage(pages, flipbookId, pageId);
+
+      await manager.delete(Page, { id: page.id });
+      await this.renumber(manager, pages.filter((p) => p.id !== page.id));
+      await this.syncFlipbookStats(manager, flipbookId);
+      await this.flipbookVersionService.record(manager, flipbookId, FlipbookVersionReason.EDIT);
+    });
+  }
+
+  async reorder(flipbookId: string, reorderDto: PageReorderDto): Promise<Page[]> {
+    return this.pageRepository.manager.transaction(async (manager) => {
+      await this.ensureFlipbook(manager, flipbookId);
+      const pages = await this.loadOrderedPages(manager, flipbookId);
+      const pagesById = new Map(pages.map((page) => [page.id, page]));
+
+      const uniqueIds = new Set(reorderDto.pageIds);
+      if (
+        uniqueIds.size !== reorderDto.pageIds.length ||
+        reorderDto.pageIds.length !== pages.length ||
+        reorderDto.pageIds.some((id) => !pagesById.has(id))
+      ) {
+        throw new BadRequestException('pageIds must list every page of the flipbook exactly once');
+      }
+
+      const reordered = reorderDto.pageIds.map((id) => pagesById.get(id));
+      await this.renumber(manager, reordered);
+      await this.flipbookVersionService.record(manager, flipbookId, FlipbookVersionReason.EDIT);
+      return reordered;
+    });
+  }
+
+  async batchUpdate(flipbookId: string, batchUpdateDto: PageBatchUpdateDto): Promise<Page[]> {
+    return this.pageRepository.manager.transaction(async (manager) => {
+      await this.ensureFlipbook(manager, flipbookId);
+      const pages = await this.loadOrderedPages(manager, flipbookId);
+      const pagesById = new Map(pages.map((page) => [page.id, page]));
+
+      for (const { id, ...fields } of batchUpdateDto.pages) {
+        const page = pagesById.get(id);
+        if (!page) {
+          throw new NotFoundException(`Page with ID ${id} not found in flipbook ${flipbookId}`);
+        }
+        Object.assign(page, fields);
+      }
+
+      await manager.save(pages);
+      await this.flipbookVersionService.record(manager, flipbookId, FlipbookVersionReason.EDIT);
+      return pages;
+    });
+  }
+
+  // 플립북의 페이지를 모두 교체 (Canva 가져오기 작업 등에서 사용)
+  async replaceAll(flipbookId: string, pageDtos: CreatePageDto[]): Promise<Page[]> {
+    return this.pageRepository.manager.transaction(async (manager) => {
+      await this.ensureFlipbook(manager, flipbookId);
+      await manager.delete(Page, { flipbookId });
+
+      const sorted = [...pageDtos].sort((a, b) => a.pageNumber - b.pageNumber);
+      const pages = await manager.save(
+        sorted.map((pageDto, index) => manager.create(Page, this.buildPageFields(flipbookId, pageDto, index))),
+      );
+
+      await this.syncFlipbookStats(manager, flipbookId);
+      await this.flipbookVersionService.record(manager, flipbookId, FlipbookVersionReason.IMPORT);
+      return pages;
+    });
+  }
+
+  // entries 순서로 페이지를 배치하고 목록에 없는 페이지는 삭제
+  // 기존 페이지는 제목, 전환 효과, 애니메이션 등 페이지별 설정을 유지한 채 이미지 관련 필드만 바꿈
+  async applySync(flipbookId: string, entries: PageSyncEntry[]): Promise<Page[]> {
+    return this.pageRepository.manager.transaction(async (manager) => {
+      await this.ensureFlipbook(manager, flipbookId);
+      const existing = await this.loadOrderedPages(manager, flipbookId);
+
+      const pages = entries.map(({ pageId, pageDto }) => {
+        if (!pageId) {
+          return manager.create(Page, this.buildPageFields(flipbookId, pageDto, 0));
+        }
+
+        const page = this.findPage(existing, flipbookId, pageId);
+        return Object.assign(page, {
+          imageUrl: pageDto.imageUrl,
+          thumbnailUrl: pageDto.thumbnailUrl,
+          originalWidth: pageDto.width,
+          originalHeight: pageDto.height,
+          fileSize: pageDto.fileSize || 0,
+          mimeType: pageDto.mimeType,
+          hasTransparency: pageDto.hasTransparency || false,
+          storageKey: pageDto.storageKey,
+          cdnUrl: pageDto.cdnUrl,
+          variants: pageDto.variants,
+          metadata: { ...page.metadata, ...pageDto.metadata },
+        });
+      });
+
+      const kept = new Set(entries.map((entry) => entry.pageId));
+      const removed = existing.filter((page) => !kept.has(page.id)).map((page) => page.id);
+      if (removed.length > 0) {
+        await manager.delete(Page, { id: In(removed) });
+      }
+
+      await this.renumber(manager, pages);
+      await this.syncFlipbookStats(manager, flipbookId);
+      await this.flipbookVersionService.record(manager, flipbookId, FlipbookVersionReason.SYNC);
+      return pages;
+    });
+  }
+
+  // CreatePageDto는 1부터 시작하는 pageNumber를 사용하므로 0부터 시작하는 pageIndex로 변환
+  buildPageFields(flipbookId: string, pageDto: CreatePageDto, pageIndex: number): Partial<Page> {
+    return {
+      flipbookId,
+      pageIndex,
+      title: pageDto.title,
+      description: pageDto.description,
+      imageUrl: pageDto.imageUrl,
+      thumbnailUrl: pageDto.thumbnailUrl,
+      originalWidth: pageDto.width,
+      originalHeight: pageDto.height,
+      fileSize: pageDto.fileSize || 0,
+      mimeType: pageDto.mimeType,
+      hasTransparency: pageDto.hasTransparency || false,
+      orientation: pageDto.orientation,
+      backgroundColor: pageDto.backgroundColor,
+      transitionType: pageDto.transitionType,
+      transitionDuration: pageDto.transitionDuration,
+      storageKey: pageDto.storageKey,
+      cdnUrl: pageDto.cdnUrl,
+      variants: pageDto.variants,
+      metadata: pageDto.metadata,
+      animations: pageDto.animations,
+    };
+  }
+
+  // 플립북의 pageCount와 totalSize를 실제 페이지 기준으로 다시 계산
+  async syncFlipbookStats(manager: EntityManager, flipbookId: string): Promise<void> {
+    const stats = await manager
+      .createQueryBuilder(Page, 'page')
+      .select('COUNT(page.id)', 'pageCount')
+      .addSelect('COALESCE(SUM(page.fileSize), 0)', 'totalSize')
+      .where('page.flipbookId = :flipbookId', { flipbookId })
+      .getRawOne();
+
+    await manager.update(Flipbook, { id: flipbookId }, {
+      pageCount: Number(stats.pageCount),
+      totalSize: Number(stats.totalSize),
+    });
+  }
+
+  private async ensureFlipbook(manager: EntityManager, flipbookId: string): Promise<void> {
+    const exists = await manager.exists(Flipbook, { where: { id: flipbookId } });
+    if (!exists) {
+      throw new NotFoundException(`Flipbook with ID ${flipbookId} not found`);
+    }
+  }
+
+  private loadOrderedPages(manager: EntityManager, flipbookId: string): Promise<Page[]> {
+    return manager.find(Page, {
+      where: { flipbookId },
+      order: { pageIndex: 'ASC' },
+    });
+  }
+
+  private findPage(pages: Page[], flipbookId: string, pageId: string): Page {
+    const page = pages.find((p) => p.id === pageId);
+    if (!page) {
+      throw new NotFoundException(`Page with ID ${pageId} not found in flipbook ${flipbookId}`);
+    }
+    return page;
+  }
+
+  private clampIndex(index: number, length: number): number {
+    return Math.max(0, Math.min(index, length));
+  }
+
+  private async renumber(manager: EntityManager, pages: Page[]): Promise<void> {
+    pages.forEach((page, index) => {
+      page.pageIndex = index;
+    });
+    await manager.save(pages);
+  }
+}
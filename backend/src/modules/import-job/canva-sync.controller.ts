@@ -0,0 +1,38 @@
+import { Controller, Post, Param, UseGuards } from '@nestjs/common';
+import { ImportJobService } from './import-job.service';
+import { CanvaSyncService } from './canva-sync.service';
+import { FlipbookAccessGuard, RequireAccess } from '../share-link/flipbook-access.guard';
+import { CanvaConnectionService } from '../canva/canva-connection.service';
+import { CurrentUser } from '../auth/auth.guard';
+import { AuthUser } from '../auth/auth.service';
+
+@Controller('flipbooks/:flipbookId/sync')
+@UseGuards(FlipbookAccessGuard)
+export class CanvaSyncController {
+  constructor(
+    private readonly importJobService: ImportJobService,
+    private readonly canvaSyncService: CanvaSyncService,
+    private readonly canvaConnectionService: CanvaConnectionService,
+  ) {}
+
+  // Canva 디자인을 다시 내보내 바뀐 페이지만 반영하는 작업 시작 (진행 상황은 /import-jobs/:id)
+  @Post()
+  @RequireAccess('edit')
+  async sync(
+    @Param('flipbookId') flipbookId: string,
+    @CurrentUser() user?: AuthUser,
+  ) {
+    return this.importJobService.createSync(flipbookId, user?.id);
+  }
+
+  // 마지막 내보내기 이후 Canva 디자인이 수정되었는지 확인
+  @Post('check')
+  @RequireAccess('edit')
+  async check(
+    @Param('flipbookId') flipbookId: string,
+    @CurrentUser() user?: AuthUser,
+  ) {
+    const accessToken = await this.canvaConnectionService.getAccessToken(user?.id);
+    return this.canvaSyncService.checkForUpdate(flipbookId, accessToken);
+  }
+}
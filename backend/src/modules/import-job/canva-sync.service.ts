@@ -0,0 +1,325 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { Repository, In, IsNull, Not } from 'typeorm';
+import { firstValueFrom } from 'rxjs';
+import { Flipbook, FlipbookSourceType, FlipbookStatus } from '../../entities/flipbook.entity';
+import { Page } from '../../entities/page.entity';
+import { CanvaSyncSummary } from '../../entities/import-job.entity';
+import { CreatePageDto, PageMetadataDto } from '../../dto/page.dto';
+import { CanvaSyncStatusDto } from '../../dto/canva-sync.dto';
+import { PageService, PageSyncEntry } from '../flipbook/page.service';
+import { CanvaService, CanvaDesignInfo, CanvaExportResult } from '../canva/canva.service';
+import { CanvaConnectionService } from '../canva/canva-connection.service';
+import { StorageService, StoredPageImage, contentHash } from '../storage/storage.service';
+import { storedPageDto } from './stored-page';
+import { ImportConfig } from '../../config/import.config';
+
+// 예약 확인 한 번에 조회하는 플립북 수 (오래 전에 확인한 것부터)
+const CHECK_BATCH_SIZE = 50;
+
+// Canva API는 updated_at을 Unix 초 단위로 돌려줌 (ISO 문자열도 받음)
+const designTimestamp = (value: string | number): Date =>
+  typeof value === 'number' ? new Date(value * 1000) : new Date(value);
+
+// 가져오기 작업 진행 상황으로 전달
+export interface SyncProgress {
+  step(step: string, progress: number): Promise<void>;
+  pages(processed: number, total: number): Promise<void>;
+}
+
+interface ExportedPage {
+  canvaPageId: string;
+  hash: string;
+  // 처음 보는 이미지만 저장소에 올림
+  stored?: StoredPageImage;
+}
+
+@Injectable()
+export class CanvaSyncService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(CanvaSyncService.name);
+  private readonly config: ImportConfig;
+  private checkTimer?: NodeJS.Timeout;
+  private checking = false;
+
+  constructor(
+    @InjectRepository(Flipbook)
+    private flipbookRepository: Repository<Flipbook>,
+    private pageService: PageService,
+    private canvaService: CanvaService,
+    private canvaConnectionService: CanvaConnectionService,
+    private storageService: StorageService,
+    private httpService: HttpService,
+    private configService: ConfigService,
+  ) {
+    this.config = this.configService.get<ImportConfig>('import');
+  }
+
+  onModuleInit(): void {
+    const minutes = this.config.syncCheckIntervalMinutes;
+    if (minutes > 0) {
+      this.checkTimer = setInterval(() => this.checkAll(), minutes * 60 * 1000);
+      this.checkTimer.unref();
+    }
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.checkTimer);
+  }
+
+  // Canva에서 가져온 플립북만 동기화할 수 있음
+  async findSyncable(flipbookId: string): Promise<Flipbook> {
+    const flipbook = await this.flipbookRepository.findOne({ where: { id: flipbookId } });
+
+    if (!flipbook) {
+      throw new NotFoundException(`Flipbook with ID ${flipbookId} not found`);
+    }
+    if (flipbook.sourceType !== FlipbookSourceType.CANVA || !flipbook.canvaDesignId) {
+      throw new BadRequestException('Only flipbooks imported from Canva can be synced');
+    }
+
+    return flipbook;
+  }
+
+  // 디자인을 다시 내보내 canvaPageId와 이미지 해시로 비교하고 바뀐 페이지만 반영
+  async sync(flipbookId: string, accessToken: string | undefined, progress: SyncProgress): Promise<CanvaSyncSummary> {
+    const flipbook = await this.findSyncable(flipbookId);
+
+    const validation = await this.canvaService.validateDesign(flipbook.canvaDesignId, accessToken);
+    if (!validation.isValid) {
+      throw Object.assign(new Error(`Canva design ${flipbook.canvaDesignId} is not accessible`), {
+        code: 'CANVA_DESIGN_NOT_FOUND',
+      });
+    }
+
+    await progress.step('페이지 이미지 내보내는 중...', 10);
+    const exportResult = await this.canvaService.exportDesign(flipbook.canvaDesignId, 'PNG', accessToken);
+
+    await progress.step('바뀐 페이지 확인 중...', 40);
+    const existing = await this.pageService.findAll(flipbook.id);
+    const knownHashes = new Set(existing.map((page) => page.metadata?.imageHash).filter(Boolean));
+    const exported = await this.downloadPages(flipbook.id, exportResult, knownHashes, progress);
+
+    await progress.step('페이지 저장 중...', 85);
+    const { entries, summary } = this.plan(existing, exported, exportResult.exportedAt);
+    await this.pageService.applySync(flipbook.id, entries);
+    await this.recordExport(flipbook.id, validation.designInfo?.updated_at);
+
+    this.logger.log(
+      `Synced flipbook ${flipbook.id} from design ${flipbook.canvaDesignId}: `
+        + `${summary.added} added, ${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.removed} removed`,
+    );
+    return summary;
+  }
+
+  // 가져오기/동기화에 사용한 디자인 버전을 기록하고 업데이트 표시를 지움
+  async recordExport(flipbookId: string, designUpdatedAt?: string | number): Promise<void> {
+    const now = new Date();
+    await this.flipbookRepository.update({ id: flipbookId }, {
+      sourceUpdatedAt: designUpdatedAt ? designTimestamp(designUpdatedAt) : null,
+      lastSyncedAt: now,
+      sourceCheckedAt: now,
+      sourceOutdated: false,
+    });
+  }
+
+  async checkForUpdate(flipbookId: string, accessToken?: string): Promise<CanvaSyncStatusDto> {
+    const flipbook = await this.findSyncable(flipbookId);
+    if (this.canvaService.isConfigured && !accessToken) {
+      throw new BadRequestException('Connect a Canva account to check the Canva design');
+    }
+
+    const design = await this.canvaService.getDesignInfo(flipbook.canvaDesignId, accessToken);
+    await this.applyCheck(flipbook, design);
+
+    return {
+      flipbookId: flipbook.id,
+      canvaDesignId: flipbook.canvaDesignId,
+      designUpdatedAt: designTimestamp(design.updated_at).toISOString(),
+      sourceUpdatedAt: flipbook.sourceUpdatedAt,
+      lastSyncedAt: flipbook.lastSyncedAt,
+      sourceCheckedAt: flipbook.sourceCheckedAt,
+      updateAvailable: flipbook.sourceOutdated,
+    };
+  }
+
+  // 디자인의 updated_at이 마지막 내보내기보다 새로우면 sourceOutdated 표시
+  private async applyCheck(flipbook: Flipbook, design: CanvaDesignInfo): Promise<boolean> {
+    const designUpdatedAt = designTimestamp(design.updated_at);
+    flipbook.sourceOutdated = !flipbook.sourceUpdatedAt || designUpdatedAt > new Date(flipbook.sourceUpdatedAt);
+    flipbook.sourceCheckedAt = new Date();
+
+    await this.flipbookRepository.update({ id: flipbook.id }, {
+      sourceOutdated: flipbook.sourceOutdated,
+      sourceCheckedAt: flipbook.sourceCheckedAt,
+    });
+    return flipbook.sourceOutdated;
+  }
+
+  // 예약 확인 (CANVA_SYNC_CHECK_INTERVAL_MINUTES), 이미 표시된 플립북은 동기화할 때까지 건너뜀
+  private async checkAll(): Promise<void> {
+    if (this.checking) return;
+
+    this.checking = true;
+    try {
+      const flipbooks = await this.flipbookRepository.find({
+        where: {
+          sourceType: FlipbookSourceType.CANVA,
+          canvaDesignId: Not(IsNull()),
+          sourceOutdated: false,
+          status: In([FlipbookStatus.DRAFT, FlipbookStatus.PUBLISHED]),
+        },
+        order: { sourceCheckedAt: 'ASC' },
+        take: CHECK_BATCH_SIZE,
+      });
+
+      let outdated = 0;
+      for (const flipbook of flipbooks) {
+        try {
+          // 플립북 주인의 계정에 연결된 Canva 토큰으로 확인 (연결하지 않았으면 건너뜀)
+          const accessToken = await this.canvaConnectionService.getAccessToken(flipbook.userId);
+          if (!accessToken) {
+            continue;
+          }
+
+          const design = await this.canvaService.getDesignInfo(flipbook.canvaDesignId, accessToken);
+          if (await this.applyCheck(flipbook, design)) {
+            outdated++;
+          }
+        } catch (error) {
+          this.logger.warn(`Failed to check Canva design ${flipbook.canvaDesignId} of flipbook ${flipbook.id}: ${error.message}`);
+        }
+      }
+
+      if (outdated > 0) {
+        this.logger.log(`${outdated} of ${flipbooks.length} checked flipbooks have a newer Canva design`);
+      }
+    } catch (error) {
+      this.logger.error(`Scheduled Canva update check failed: ${error.message}`);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private async downloadPages(
+    flipbookId: string,
+    exportResult: CanvaExportResult,
+    knownHashes: Set<string>,
+    progress: SyncProgress,
+  ): Promise<ExportedPage[]> {
+    const pages: ExportedPage[] = [];
+
+    for (const [index, exportedPage] of exportResult.pages.entries()) {
+      const response = await firstValueFrom(
+        this.httpService.get<ArrayBuffer>(exportedPage.url, { responseType: 'arraybuffer' }),
+      );
+      const image = Buffer.from(response.data);
+      const hash = contentHash(image);
+
+      pages.push({
+        canvaPageId: exportedPage.id,
+        hash,
+        stored: knownHashes.has(hash) ? undefined : await this.storageService.storePageImage(flipbookId, image),
+      });
+      await progress.pages(index + 1, exportResult.pages.length);
+    }
+
+    return pages;
+  }
+
+  // 내보낸 페이지를 기존 페이지와 짝지어 최종 페이지 순서를 정함
+  private plan(
+    existing: Page[],
+    exported: ExportedPage[],
+    extractedAt: string,
+  ): { entries: PageSyncEntry[]; summary: CanvaSyncSummary } {
+    const unmatched = new Set(existing.filter((page) => page.metadata?.canvaPageId));
+    const matches: Page[] = [];
+    const match = (isMatch: (page: Page, exportedPage: ExportedPage) => boolean) => {
+      exported.forEach((exportedPage, index) => {
+        if (matches[index]) return;
+        const page = [...unmatched].find((candidate) => isMatch(candidate, exportedPage));
+        if (page) {
+          matches[index] = page;
+          unmatched.delete(page);
+        }
+      });
+    };
+
+    // 같은 페이지·같은 이미지 → 위치만 바뀐 같은 이미지(페이지 설정도 함께 이동) → 같은 페이지·바뀐 이미지 순으로 짝지음
+    match((page, exportedPage) =>
+      page.metadata.canvaPageId === exportedPage.canvaPageId && page.metadata.imageHash === exportedPage.hash);
+    match((page, exportedPage) => page.metadata.imageHash === exportedPage.hash);
+    match((page, exportedPage) => page.metadata.canvaPageId === exportedPage.canvaPageId);
+
+    const summary: CanvaSyncSummary = { added: 0, updated: 0, unchanged: 0, removed: unmatched.size };
+    const pagesByHash = new Map(existing.map((page) => [page.metadata?.imageHash, page]));
+
+    const synced = exported.map((exportedPage, index): PageSyncEntry => {
+      const page = matches[index];
+      const metadata = { canvaPageId: exportedPage.canvaPageId, extractedAt };
+
+      if (!page) {
+        summary.added++;
+      } else if (page.metadata.imageHash === exportedPage.hash) {
+        summary.unchanged++;
+      } else {
+        summary.updated++;
+      }
+
+      return {
+        pageId: page?.id,
+        pageDto: exportedPage.stored
+          ? storedPageDto(exportedPage.stored, index + 1, `페이지 ${index + 1}`, metadata)
+          : this.existingImageDto(pagesByHash.get(exportedPage.hash), index + 1, metadata),
+      };
+    });
+
+    // 직접 추가한 페이지(canvaPageId 없음)는 앞에 있던 Canva 페이지를 따라가고, 그 페이지가 없어졌으면 더 앞의 페이지를 따라감
+    const kept = new Set(matches.filter(Boolean).map((page) => page.id));
+    const manualPages = new Map<string | undefined, Page[]>();
+    let anchor: string | undefined;
+    for (const page of existing) {
+      if (page.metadata?.canvaPageId) {
+        anchor = kept.has(page.id) ? page.id : anchor;
+      } else {
+        manualPages.set(anchor, [...(manualPages.get(anchor) || []), page]);
+      }
+    }
+
+    const keepManual = (pageId?: string): PageSyncEntry[] =>
+      (manualPages.get(pageId) || []).map((page) => ({ pageId: page.id, pageDto: this.existingImageDto(page, 0, {}) }));
+
+    return {
+      entries: [...keepManual(undefined), ...synced.flatMap((entry) => [entry, ...(entry.pageId ? keepManual(entry.pageId) : [])])],
+      summary,
+    };
+  }
+
+  // 이미 저장된 이미지를 그대로 쓰는 페이지 요청
+  private existingImageDto(page: Page, pageNumber: number, metadata: PageMetadataDto): CreatePageDto {
+    return {
+      title: `페이지 ${pageNumber}`,
+      pageNumber,
+      imageUrl: page.imageUrl,
+      thumbnailUrl: page.thumbnailUrl,
+      width: page.originalWidth,
+      height: page.originalHeight,
+      fileSize: page.fileSize,
+      mimeType: page.mimeType,
+      hasTransparency: page.hasTransparency,
+      storageKey: page.storageKey,
+      cdnUrl: page.cdnUrl,
+      variants: page.variants,
+      metadata: { ...metadata, imageHash: page.metadata?.imageHash },
+    };
+  }
+}
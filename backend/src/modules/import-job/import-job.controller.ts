@@ -0,0 +1,55 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Sse,
+  MessageEvent,
+  UseInterceptors,
+  UploadedFiles,
+} from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { ImportJobService } from './import-job.service';
+import { CreateImportJobDto, UploadImportJobDto } from '../../dto/import-job.dto';
+import { RequireUser, CurrentUser } from '../auth/auth.guard';
+import { AuthUser } from '../auth/auth.service';
+
+@Controller('import-jobs')
+export class ImportJobController {
+  constructor(private readonly importJobService: ImportJobService) {}
+
+  // Start a background Canva import; returns immediately with the job id
+  @Post()
+  @RequireUser()
+  async create(@Body() createImportJobDto: CreateImportJobDto, @CurrentUser() user: AuthUser) {
+    return this.importJobService.create(createImportJobDto, user.id);
+  }
+
+  // Start a background import from a PDF, a ZIP of images or image files (multipart field "files")
+  @Post('upload')
+  @RequireUser()
+  @UseInterceptors(FilesInterceptor('files'))
+  async upload(
+    @UploadedFiles() files: Express.Multer.File[],
+    @Body() uploadImportJobDto: UploadImportJobDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.importJobService.createFromUpload(files || [], uploadImportJobDto, user.id);
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string) {
+    return this.importJobService.getState(id);
+  }
+
+  // Server-Sent Events stream of progress updates until the job finishes
+  @Sse(':id/events')
+  events(@Param('id') id: string): Observable<MessageEvent> {
+    return this.importJobService.watch(id).pipe(
+      map((state) => ({ data: state })),
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { HttpModule } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
+import { ImportJobController } from './import-job.controller';
+import { CanvaSyncController } from './canva-sync.controller';
+import { ImportJobService } from './import-job.service';
+import { PdfRasterizerService } from './pdf-rasterizer.service';
+import { CanvaSyncService } from './canva-sync.service';
+import { ImportJob } from '../../entities/import-job.entity';
+import { Flipbook } from '../../entities/flipbook.entity';
+import { FlipbookModule } from '../flipbook/flipbook.module';
+import { CanvaModule } from '../canva/canva.module';
+import { StorageModule } from '../storage/storage.module';
+import { ShareLinkModule } from '../share-link/share-link.module';
+import { ImportConfig } from '../../config/import.config';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ImportJob, Flipbook]),
+    HttpModule.register({
+      timeout: 30000,
+      maxRedirects: 5,
+    }),
+    // 업로드 파일은 작업이 실행될 때까지 디스크에 보관
+    MulterModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
+        const config = configService.get<ImportConfig>('import');
+        return {
+          dest: config.uploadPath,
+          limits: { fileSize: config.maxFileSize, files: config.maxFiles },
+        };
+      },
+    }),
+    FlipbookModule,
+    CanvaModule,
+    StorageModule,
+    ShareLinkModule,
+  ],
+  controllers: [ImportJobController, CanvaSyncController],
+  providers: [ImportJobService, PdfRasterizerService, CanvaSyncService],
+})
+export class ImportJobModule {}
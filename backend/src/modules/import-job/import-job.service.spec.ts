@@ -0,0 +1,171 @@
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { existsSync } from 'fs';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { lastValueFrom } from 'rxjs';
+import { FindOneOptions, Repository } from 'typeorm';
+import { ImportJobService } from './import-job.service';
+import { PdfRasterizerService } from './pdf-rasterizer.service';
+import { CanvaSyncService } from './canva-sync.service';
+import { FlipbookService } from '../flipbook/flipbook.service';
+import { PageService } from '../flipbook/page.service';
+import { CanvaService } from '../canva/canva.service';
+import { CanvaConnectionService } from '../canva/canva-connection.service';
+import { StorageService, StoredPageImage } from '../storage/storage.service';
+import { ImportJob, ImportJobStatus } from '../../entities/import-job.entity';
+import { Flipbook, FlipbookStatus } from '../../entities/flipbook.entity';
+import { ImportConfig } from '../../config/import.config';
+
+const USER_ID = 'user-1';
+
+describe('ImportJobService', () => {
+  let uploadPath: string;
+  let jobs: ImportJob[];
+  let flipbookService: jest.Mocked<Pick<FlipbookService, 'create' | 'updateStatus'>>;
+  let pageService: jest.Mocked<Pick<PageService, 'replaceAll'>>;
+  let canvaConnectionService: jest.Mocked<Pick<CanvaConnectionService, 'getAccessToken'>>;
+  let storageService: jest.Mocked<Pick<StorageService, 'storePageImage'>>;
+  let canvaSyncService: jest.Mocked<Pick<CanvaSyncService, 'findSyncable' | 'sync'>>;
+  let service: ImportJobService;
+
+  // 업로드 디렉터리에 multer가 받은 것처럼 파일을 만들어 둠
+  const upload = async (originalname: string): Promise<Express.Multer.File> => {
+    const path = join(uploadPath, `upload-${originalname}`);
+    await writeFile(path, 'image bytes');
+    return { path, originalname, mimetype: 'image/png' } as Express.Multer.File;
+  };
+
+  // 작업이 끝날 때까지 기다린 뒤 저장소의 작업을 돌려줌
+  const finished = async (jobId: string): Promise<ImportJob> => {
+    await lastValueFrom(service.watch(jobId));
+    return jobs.find((job) => job.id === jobId);
+  };
+
+  // 업로드 파일은 작업 결과를 알린 뒤 지워지므로 잠시 기다림
+  const removed = async (path: string): Promise<boolean> => {
+    for (let attempt = 0; attempt < 50 && existsSync(path); attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    return !existsSync(path);
+  };
+
+  beforeEach(async () => {
+    uploadPath = await mkdtemp(join(tmpdir(), 'import-job-'));
+    jobs = [];
+
+    const importJobRepository: jest.Mocked<Pick<Repository<ImportJob>, 'create' | 'save' | 'findOne'>> = {
+      create: jest.fn().mockImplementation((fields: Partial<ImportJob>) => Object.assign(new ImportJob(), fields)),
+      save: jest.fn().mockImplementation(async (job: ImportJob) => {
+        if (!job.id) {
+          job.id = `job-${jobs.length + 1}`;
+          jobs.push(job);
+        }
+        return job;
+      }),
+      findOne: jest.fn().mockImplementation(async ({ where }: FindOneOptions<ImportJob>) =>
+        jobs.find((job) => job.id === (where as Partial<ImportJob>).id) || null,
+      ),
+    };
+
+    flipbookService = {
+      create: jest.fn().mockResolvedValue(Object.assign(new Flipbook(), { id: 'flipbook-1' })),
+      updateStatus: jest.fn().mockResolvedValue(new Flipbook()),
+    };
+    pageService = { replaceAll: jest.fn().mockResolvedValue([]) };
+    canvaConnectionService = {
+      getAccessToken: jest.fn().mockRejectedValue(new Error('Canva refresh token was revoked')),
+    };
+    storageService = { storePageImage: jest.fn() };
+    canvaSyncService = {
+      findSyncable: jest.fn().mockResolvedValue(Object.assign(new Flipbook(), { id: 'flipbook-1', canvaDesignId: 'design-1' })),
+      sync: jest.fn(),
+    };
+
+    const config: Pick<ImportConfig, 'uploadPath'> = { uploadPath };
+    const configService: Pick<ConfigService, 'get'> = { get: jest.fn().mockReturnValue(config) };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        ImportJobService,
+        { provide: getRepositoryToken(ImportJob), useValue: importJobRepository },
+        { provide: FlipbookService, useValue: flipbookService },
+        { provide: PageService, useValue: pageService },
+        { provide: CanvaService, useValue: {} },
+        { provide: CanvaConnectionService, useValue: canvaConnectionService },
+        { provide: StorageService, useValue: storageService },
+        { provide: HttpService, useValue: {} },
+        { provide: PdfRasterizerService, useValue: {} },
+        { provide: CanvaSyncService, useValue: canvaSyncService },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+
+    service = moduleRef.get(ImportJobService);
+  });
+
+  afterEach(async () => {
+    await rm(uploadPath, { recursive: true, force: true });
+  });
+
+  describe('Canva imports', () => {
+    it('fails the job and the flipbook when the Canva token lookup throws', async () => {
+      const { jobId } = await service.create({ designId: 'design-1' }, USER_ID);
+
+      const job = await finished(jobId);
+
+      expect(canvaConnectionService.getAccessToken).toHaveBeenCalledWith(USER_ID);
+      expect(job.status).toBe(ImportJobStatus.FAILED);
+      expect(job.errorMessage).toBe('Canva refresh token was revoked');
+      expect(flipbookService.updateStatus).toHaveBeenLastCalledWith('flipbook-1', { status: FlipbookStatus.FAILED });
+      expect(pageService.replaceAll).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('uploads', () => {
+    it('imports uploaded images without a Canva token and removes the files', async () => {
+      const stored = { storageKey: 'flipbooks/flipbook-1/pages/1.png', cdnUrl: '/files/1.png', contentHash: 'hash' };
+      storageService.storePageImage.mockResolvedValue(stored as StoredPageImage);
+      const file = await upload('cover.png');
+
+      const { jobId } = await service.createFromUpload([file], {}, USER_ID);
+      const job = await finished(jobId);
+
+      expect(job.status).toBe(ImportJobStatus.SUCCEEDED);
+      expect(canvaConnectionService.getAccessToken).not.toHaveBeenCalled();
+      expect(pageService.replaceAll).toHaveBeenCalledWith('flipbook-1', [
+        expect.objectContaining({ pageNumber: 1, title: 'cover', storageKey: stored.storageKey }),
+      ]);
+      expect(await removed(file.path)).toBe(true);
+    });
+
+    it('fails the job and the flipbook and removes the files when an upload cannot be imported', async () => {
+      storageService.storePageImage.mockRejectedValue(new Error('Input buffer contains unsupported image format'));
+      const file = await upload('broken.png');
+
+      const { jobId } = await service.createFromUpload([file], {}, USER_ID);
+      const job = await finished(jobId);
+
+      expect(job.status).toBe(ImportJobStatus.FAILED);
+      expect(job.errorCode).toBe('INVALID_DESIGN_FORMAT');
+      expect(canvaConnectionService.getAccessToken).not.toHaveBeenCalled();
+      expect(flipbookService.updateStatus).toHaveBeenLastCalledWith('flipbook-1', { status: FlipbookStatus.FAILED });
+      expect(await removed(file.path)).toBe(true);
+    });
+  });
+
+  describe('Canva syncs', () => {
+    it('fails the sync job without touching the flipbook when the Canva token lookup throws', async () => {
+      const { jobId } = await service.createSync('flipbook-1', USER_ID);
+
+      const job = await finished(jobId);
+
+      expect(job.status).toBe(ImportJobStatus.FAILED);
+      expect(canvaSyncService.sync).not.toHaveBeenCalled();
+      expect(flipbookService.updateStatus).not.toHaveBeenCalled();
+    });
+  });
+});
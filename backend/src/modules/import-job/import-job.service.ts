@@ -0,0 +1,572 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { Repository, In } from 'typeorm';
+import { Observable, Subject, concat, defer, from, firstValueFrom } from 'rxjs';
+import { filter, map, takeWhile } from 'rxjs/operators';
+import { readFile, readdir, rm } from 'fs/promises';
+import { basename, extname, join, resolve } from 'path';
+import * as AdmZip from 'adm-zip';
+import { ImportJob, ImportJobStatus, ImportJobType, ImportSourceFile } from '../../entities/import-job.entity';
+import { FlipbookSourceType, FlipbookStatus } from '../../entities/flipbook.entity';
+import { CreateImportJobDto, ImportJobStateDto, UploadImportJobDto } from '../../dto/import-job.dto';
+import { CreatePageDto } from '../../dto/page.dto';
+import { FlipbookService } from '../flipbook/flipbook.service';
+import { PageService } from '../flipbook/page.service';
+import { CanvaService, CanvaExportResult } from '../canva/canva.service';
+import { CanvaConnectionService } from '../canva/canva-connection.service';
+import { CanvaApiError } from '../canva/canva-client.service';
+import { StorageService } from '../storage/storage.service';
+import { PdfRasterizerService } from './pdf-rasterizer.service';
+import { CanvaSyncService } from './canva-sync.service';
+import { storedPageDto } from './stored-page';
+import { ImportConfig } from '../../config/import.config';
+
+// 동시에 실행되는 가져오기 작업 수
+const MAX_CONCURRENT_IMPORTS = 2;
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.gif'];
+// 작업 실패 시 그대로 전달하는 프론트엔드 ErrorCode 값
+const IMPORT_ERROR_CODES = [
+  'CANVA_DESIGN_NOT_FOUND',
+  'INVALID_DESIGN_FORMAT',
+  'INSUFFICIENT_PAGES',
+  'DESIGN_TOO_LARGE',
+  'UNSUPPORTED_CONTENT',
+];
+// 파일 이름 순서를 사람이 읽는 순서로 정렬 (page2 < page10)
+const fileNameCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+type UploadKind = 'pdf' | 'zip' | 'image';
+
+interface UploadedImage {
+  name: string;
+  read: () => Promise<Buffer>;
+}
+
+const importError = (code: string, message: string) => Object.assign(new Error(message), { code });
+
+const uploadKind = (file: ImportSourceFile): UploadKind | null => {
+  const extension = extname(file.originalName).toLowerCase();
+  if (extension === '.pdf' || file.mimeType === 'application/pdf') return 'pdf';
+  if (extension === '.zip' || file.mimeType === 'application/zip' || file.mimeType === 'application/x-zip-compressed') return 'zip';
+  return IMAGE_EXTENSIONS.includes(extension) ? 'image' : null;
+};
+
+// macOS 압축 파일의 __MACOSX/, .DS_Store 등은 건너뜀
+const isImageEntry = (entryName: string): boolean =>
+  !entryName.split('/').some((segment) => segment.startsWith('.') || segment === '__MACOSX')
+  && IMAGE_EXTENSIONS.includes(extname(entryName).toLowerCase());
+
+const titleFromFileName = (name: string): string => basename(name, extname(name)).slice(0, 200);
+
+@Injectable()
+export class ImportJobService implements OnModuleInit {
+  private readonly logger = new Logger(ImportJobService.name);
+  private readonly updates = new Subject<ImportJob>();
+  private readonly queue: string[] = [];
+  private running = 0;
+  private readonly config: ImportConfig;
+
+  constructor(
+    @InjectRepository(ImportJob)
+    private importJobRepository: Repository<ImportJob>,
+    private flipbookService: FlipbookService,
+    private pageService: PageService,
+    private canvaService: CanvaService,
+    private canvaConnectionService: CanvaConnectionService,
+    private storageService: StorageService,
+    private httpService: HttpService,
+    private pdfRasterizerService: PdfRasterizerService,
+    private canvaSyncService: CanvaSyncService,
+    private configService: ConfigService,
+  ) {
+    this.config = this.configService.get<ImportConfig>('import');
+  }
+
+  // 서버 재시작 시 중단된 작업 정리: 대기 중인 작업은 다시 큐에 넣고 실행 중이던 작업은 실패 처리
+  async onModuleInit(): Promise<void> {
+    const interrupted = await this.importJobRepository.find({
+      where: { status: In([ImportJobStatus.QUEUED, ImportJobStatus.RUNNING]) },
+      order: { createdAt: 'ASC' },
+    });
+
+    for (const job of interrupted) {
+      if (job.status === ImportJobStatus.RUNNING) {
+        await this.failJob(job, 'SERVER_UNAVAILABLE', 'Import was interrupted by a server restart');
+      } else {
+        this.enqueue(job.id);
+      }
+    }
+
+    await this.removeOrphanedUploads(interrupted.filter((job) => job.status === ImportJobStatus.QUEUED));
+  }
+
+  async create(createImportJobDto: CreateImportJobDto, userId: string): Promise<ImportJobStateDto> {
+    const flipbook = await this.flipbookService.create({
+      title: createImportJobDto.title || `Canva Flipbook ${createImportJobDto.designId}`,
+      description: createImportJobDto.description,
+      sourceType: FlipbookSourceType.CANVA,
+      canvaDesignId: createImportJobDto.designId,
+    }, userId);
+
+    const job = await this.importJobRepository.save(
+      this.importJobRepository.create({
+        sourceType: FlipbookSourceType.CANVA,
+        designId: createImportJobDto.designId,
+        flipbookId: flipbook.id,
+        userId,
+        format: createImportJobDto.format || 'PNG',
+        status: ImportJobStatus.QUEUED,
+        step: '대기 중...',
+        progress: 0,
+      }),
+    );
+
+    this.enqueue(job.id);
+
+    return this.toState(job);
+  }
+
+  // 업로드한 PDF 1개, 이미지 ZIP 또는 이미지 파일들로 가져오기 작업 생성 (파일은 작업이 끝나면 삭제)
+  async createFromUpload(
+    files: Express.Multer.File[],
+    uploadImportJobDto: UploadImportJobDto,
+    userId: string,
+  ): Promise<ImportJobStateDto> {
+    const sourceFiles = files.map((file): ImportSourceFile => ({
+      path: file.path,
+      // multer는 파일 이름을 latin1로 해석하므로 브라우저가 보낸 UTF-8로 다시 디코딩
+      originalName: Buffer.from(file.originalname, 'latin1').toString('utf8'),
+      mimeType: file.mimetype,
+    }));
+
+    try {
+      const sourceType = this.detectSourceType(sourceFiles);
+      const flipbook = await this.flipbookService.create({
+        title: uploadImportJobDto.title
+          || (sourceFiles.length === 1 ? titleFromFileName(sourceFiles[0].originalName) : 'Uploaded Flipbook'),
+        description: uploadImportJobDto.description,
+        sourceType,
+      }, userId);
+
+      const job = await this.importJobRepository.save(
+        this.importJobRepository.create({
+          sourceType,
+          sourceFiles,
+          flipbookId: flipbook.id,
+          userId,
+          status: ImportJobStatus.QUEUED,
+          step: '대기 중...',
+          progress: 0,
+        }),
+      );
+      this.enqueue(job.id);
+
+      return this.toState(job);
+    } catch (error) {
+      await this.removeFiles(sourceFiles.map((file) => file.path));
+      throw error;
+    }
+  }
+
+  // 기존 플립북을 Canva 디자인의 현재 상태로 다시 맞추는 작업 생성 (플립북당 하나씩)
+  async createSync(flipbookId: string, userId?: string): Promise<ImportJobStateDto> {
+    const flipbook = await this.canvaSyncService.findSyncable(flipbookId);
+
+    const pending = await this.importJobRepository.findOne({
+      where: {
+        flipbookId,
+        type: ImportJobType.SYNC,
+        status: In([ImportJobStatus.QUEUED, ImportJobStatus.RUNNING]),
+      },
+    });
+    if (pending) {
+      throw new ConflictException(`Flipbook ${flipbookId} is already being synced (job ${pending.id})`);
+    }
+
+    const job = await this.importJobRepository.save(
+      this.importJobRepository.create({
+        type: ImportJobType.SYNC,
+        sourceType: FlipbookSourceType.CANVA,
+        designId: flipbook.canvaDesignId,
+        flipbookId,
+        userId,
+        status: ImportJobStatus.QUEUED,
+        step: '대기 중...',
+        progress: 0,
+      }),
+    );
+
+    this.enqueue(job.id);
+
+    return this.toState(job);
+  }
+
+  async findOne(id: string): Promise<ImportJob> {
+    const job = await this.importJobRepository.findOne({ where: { id } });
+
+    if (!job) {
+      throw new NotFoundException(`Import job with ID ${id} not found`);
+    }
+
+    return job;
+  }
+
+  async getState(id: string): Promise<ImportJobStateDto> {
+    return this.toState(await this.findOne(id));
+  }
+
+  // 현재 상태를 먼저 보내고, 작업이 끝날 때까지 변경 사항을 스트리밍
+  watch(id: string): Observable<ImportJobStateDto> {
+    const current$ = defer(() => from(this.findOne(id)));
+    const changes$ = this.updates.pipe(filter((job) => job.id === id));
+
+    return concat(current$, changes$).pipe(
+      takeWhile((job) => !job.isFinished, true),
+      map((job) => this.toState(job)),
+    );
+  }
+
+  toState(job: ImportJob): ImportJobStateDto {
+    const status = job.status === ImportJobStatus.SUCCEEDED
+      ? 'success'
+      : job.status === ImportJobStatus.FAILED ? 'error' : 'loading';
+
+    return {
+      jobId: job.id,
+      type: job.type,
+      sourceType: job.sourceType,
+      designId: job.designId,
+      flipbookId: job.flipbookId,
+      status,
+      progress: job.progress,
+      currentStep: job.step,
+      totalPages: job.totalPages,
+      processedPages: job.processedPages,
+      retryCount: 0,
+      syncSummary: job.syncSummary,
+      error: job.errorCode ? { code: job.errorCode, message: job.errorMessage } : undefined,
+    };
+  }
+
+  private enqueue(jobId: string): void {
+    this.queue.push(jobId);
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.running < MAX_CONCURRENT_IMPORTS && this.queue.length > 0) {
+      const jobId = this.queue.shift();
+      this.running++;
+
+      this.run(jobId)
+        .catch((error) => this.logger.error(`Import job ${jobId} crashed: ${error.message}`))
+        .finally(() => {
+          this.running--;
+          this.drain();
+        });
+    }
+  }
+
+  // 작업을 불러온 뒤의 모든 실패(Canva 토큰 조회/갱신 포함)는 작업과 플립북을 실패로 기록하고 업로드 파일을 지움
+  private async run(jobId: string): Promise<void> {
+    let job: ImportJob | undefined;
+
+    try {
+      job = await this.findOne(jobId);
+
+      if (job.type === ImportJobType.SYNC) {
+        return await this.runSync(job);
+      }
+
+      job.status = ImportJobStatus.RUNNING;
+      job.startedAt = new Date();
+      await this.updateProgress(
+        job,
+        job.sourceType === FlipbookSourceType.CANVA ? 'Canva 디자인 검증 중...' : '업로드한 파일 확인 중...',
+        5,
+      );
+
+      await this.flipbookService.updateStatus(job.flipbookId, { status: FlipbookStatus.PROCESSING });
+
+      const pages = job.sourceType === FlipbookSourceType.CANVA
+        ? await this.importCanvaDesign(job, await this.canvaConnectionService.getAccessToken(job.userId))
+        : await this.importUploadedFiles(job);
+
+      await this.updateProgress(job, '페이지 저장 중...', 85);
+      await this.pageService.replaceAll(job.flipbookId, pages);
+
+      await this.updateProgress(job, '플립북 게시 중...', 95);
+      await this.flipbookService.updateStatus(job.flipbookId, { status: FlipbookStatus.PUBLISHED });
+
+      job.status = ImportJobStatus.SUCCEEDED;
+      job.finishedAt = new Date();
+      await this.updateProgress(job, '완료!', 100);
+      this.logger.log(`Import job ${job.id} finished: ${pages.length} pages from ${this.describeSource(job)}`);
+    } catch (error) {
+      // 작업을 불러오지 못했으면 실패로 기록할 대상이 없음 (남은 업로드는 서버 시작 시 정리)
+      if (!job) {
+        this.logger.error(`Import job ${jobId} could not be loaded: ${error.message}`);
+        return;
+      }
+
+      // 성공할 때처럼 플립북 상태를 먼저 바꾼 뒤 작업 결과를 알림
+      this.logger.error(`Import job ${job.id} failed: ${error.message}`);
+      await this.flipbookService
+        .updateStatus(job.flipbookId, { status: FlipbookStatus.FAILED })
+        .catch(() => undefined);
+      await this.failJob(job, this.errorCodeFor(error), error.message);
+    } finally {
+      if (job) {
+        await this.removeFiles((job.sourceFiles || []).map((file) => file.path));
+      }
+    }
+  }
+
+  // 동기화 실패는 작업에만 기록하고 플립북 상태와 기존 페이지는 그대로 둠
+  private async runSync(job: ImportJob): Promise<void> {
+    try {
+      job.status = ImportJobStatus.RUNNING;
+      job.startedAt = new Date();
+      await this.updateProgress(job, 'Canva 디자인 검증 중...', 5);
+
+      // 작업을 시작한 사용자 계정에 연결된 Canva 토큰 사용 (만료가 가까우면 자동 갱신)
+      const accessToken = await this.canvaConnectionService.getAccessToken(job.userId);
+      job.syncSummary = await this.canvaSyncService.sync(job.flipbookId, accessToken, {
+        step: (step, progress) => this.updateProgress(job, step, progress),
+        pages: (processed, total) => {
+          job.totalPages = total;
+          return this.updatePageProgress(job, processed, '바뀐 페이지 확인 중...', 40);
+        },
+      });
+
+      job.status = ImportJobStatus.SUCCEEDED;
+      job.finishedAt = new Date();
+      await this.updateProgress(job, '완료!', 100);
+    } catch (error) {
+      this.logger.error(`Sync job ${job.id} failed: ${error.message}`);
+      await this.failJob(job, this.errorCodeFor(error), error.message);
+    }
+  }
+
+  private async importCanvaDesign(job: ImportJob, accessToken?: string): Promise<CreatePageDto[]> {
+    const validation = await this.canvaService.validateDesign(job.designId, accessToken);
+    if (!validation.isValid) {
+      throw importError('CANVA_DESIGN_NOT_FOUND', `Canva design ${job.designId} is not accessible`);
+    }
+
+    await this.updateProgress(job, '페이지 이미지 내보내는 중...', 10);
+    const exportResult = await this.canvaService.exportDesign(job.designId, job.format as 'PNG' | 'JPG', accessToken);
+
+    job.totalPages = exportResult.pages.length;
+    await this.updateProgress(job, '페이지 이미지 저장 중...', 40);
+    const pages = await this.downloadPages(job, exportResult);
+
+    // 이후 동기화/업데이트 확인의 기준이 되는 디자인 버전
+    await this.canvaSyncService.recordExport(job.flipbookId, validation.designInfo?.updated_at);
+    return pages;
+  }
+
+  // Canva 내보내기 URL은 만료되므로 각 페이지 이미지를 내려받아 저장소에 보관
+  private async downloadPages(job: ImportJob, exportResult: CanvaExportResult): Promise<CreatePageDto[]> {
+    const pages: CreatePageDto[] = [];
+
+    for (const [index, exportedPage] of exportResult.pages.entries()) {
+      const response = await firstValueFrom(
+        this.httpService.get<ArrayBuffer>(exportedPage.url, { responseType: 'arraybuffer' }),
+      );
+      const stored = await this.storageService.storePageImage(job.flipbookId, Buffer.from(response.data));
+
+      pages.push(storedPageDto(stored, index + 1, `페이지 ${index + 1}`, {
+        canvaPageId: exportedPage.id,
+        extractedAt: exportResult.exportedAt,
+      }));
+      await this.updatePageProgress(job, index + 1, '페이지 이미지 저장 중...', 40);
+    }
+
+    return pages;
+  }
+
+  private async importUploadedFiles(job: ImportJob): Promise<CreatePageDto[]> {
+    if (job.sourceType === FlipbookSourceType.PDF) {
+      return this.rasterizePdf(job, job.sourceFiles[0]);
+    }
+
+    const images = this.collectImages(job.sourceFiles);
+    job.totalPages = images.length;
+    await this.updateProgress(job, '페이지 이미지 저장 중...', 10);
+
+    const extractedAt = new Date().toISOString();
+    const pages: CreatePageDto[] = [];
+    for (const [index, image] of images.entries()) {
+      const stored = await this.storageService
+        .storePageImage(job.flipbookId, await image.read())
+        .catch((error) => {
+          throw importError('INVALID_DESIGN_FORMAT', `Failed to read image ${image.name}: ${error.message}`);
+        });
+
+      pages.push(storedPageDto(stored, index + 1, titleFromFileName(image.name), { extractedAt }));
+      await this.updatePageProgress(job, index + 1, '페이지 이미지 저장 중...', 10);
+    }
+
+    return pages;
+  }
+
+  // PDF 페이지를 래스터화하고, 페이지 텍스트는 metadata.textContent로 보관 (PDF 내보내기 텍스트 레이어에 사용)
+  private async rasterizePdf(job: ImportJob, file: ImportSourceFile): Promise<CreatePageDto[]> {
+    const document = await this.pdfRasterizerService.open(await readFile(file.path)).catch((error) => {
+      throw error.name === 'PasswordException'
+        ? importError('UNSUPPORTED_CONTENT', `${file.originalName} is password protected`)
+        : importError('INVALID_DESIGN_FORMAT', `${file.originalName} is not a readable PDF: ${error.message}`);
+    });
+
+    try {
+      this.checkPageCount(document.numPages);
+      job.totalPages = document.numPages;
+      await this.updateProgress(job, 'PDF 페이지 변환 중...', 10);
+
+      const extractedAt = new Date().toISOString();
+      const pages: CreatePageDto[] = [];
+      for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+        const rendered = await this.pdfRasterizerService.renderPage(document, pageNumber, this.config.pdfRenderWidth);
+        const stored = await this.storageService.storePageImage(job.flipbookId, rendered.image);
+
+        pages.push(storedPageDto(stored, pageNumber, `페이지 ${pageNumber}`, {
+          extractedAt,
+          textContent: rendered.textContent || undefined,
+        }));
+        await this.updatePageProgress(job, pageNumber, 'PDF 페이지 변환 중...', 10);
+      }
+
+      return pages;
+    } finally {
+      await document.destroy();
+    }
+  }
+
+  // 이미지 파일은 업로드 순서대로, ZIP 안의 이미지는 파일 이름 순서대로 페이지로 사용
+  private collectImages(files: ImportSourceFile[]): UploadedImage[] {
+    const images: UploadedImage[] = [];
+
+    for (const file of files) {
+      if (uploadKind(file) === 'image') {
+        images.push({ name: file.originalName, read: () => readFile(file.path) });
+        continue;
+      }
+
+      let entries: AdmZip.IZipEntry[];
+      try {
+        entries = new AdmZip(file.path).getEntries();
+      } catch (error) {
+        throw importError('INVALID_DESIGN_FORMAT', `${file.originalName} is not a readable ZIP file: ${error.message}`);
+      }
+
+      const imageEntries = entries
+        .filter((entry) => !entry.isDirectory && isImageEntry(entry.entryName))
+        .sort((a, b) => fileNameCollator.compare(a.entryName, b.entryName));
+
+      for (const entry of imageEntries) {
+        // 압축 해제 크기를 업로드 파일 크기 제한과 같게 제한
+        if (entry.header.size > this.config.maxFileSize) {
+          throw importError('DESIGN_TOO_LARGE', `${entry.entryName} in ${file.originalName} is too large`);
+        }
+        images.push({ name: basename(entry.entryName), read: async () => entry.getData() });
+      }
+    }
+
+    if (images.length === 0) {
+      throw importError('INSUFFICIENT_PAGES', 'No images found in the upload');
+    }
+    this.checkPageCount(images.length);
+
+    return images;
+  }
+
+  private checkPageCount(count: number): void {
+    if (count > this.config.maxPages) {
+      throw importError('DESIGN_TOO_LARGE', `Uploads are limited to ${this.config.maxPages} pages (got ${count})`);
+    }
+  }
+
+  private detectSourceType(files: ImportSourceFile[]): FlipbookSourceType {
+    if (files.length === 0) {
+      throw new BadRequestException('Upload a PDF, a ZIP of images or image files in the "files" field');
+    }
+
+    const unsupported = files.find((file) => !uploadKind(file));
+    if (unsupported) {
+      throw new BadRequestException(
+        `Unsupported file type: ${unsupported.originalName} (expected PDF, ZIP or ${IMAGE_EXTENSIONS.join(', ')})`,
+      );
+    }
+
+    if (files.some((file) => uploadKind(file) === 'pdf')) {
+      if (files.length > 1) {
+        throw new BadRequestException('Upload a single PDF per flipbook');
+      }
+      return FlipbookSourceType.PDF;
+    }
+
+    return FlipbookSourceType.IMAGES;
+  }
+
+  // from% ~ 80% 구간을 처리한 페이지 비율만큼 채움
+  private async updatePageProgress(job: ImportJob, processed: number, step: string, from: number): Promise<void> {
+    job.processedPages = processed;
+    await this.updateProgress(
+      job,
+      `${step} (${processed}/${job.totalPages})`,
+      from + Math.round(((80 - from) * processed) / job.totalPages),
+    );
+  }
+
+  private async updateProgress(job: ImportJob, step: string, progress: number): Promise<void> {
+    job.step = step;
+    job.progress = progress;
+    await this.importJobRepository.save(job);
+    this.updates.next(job);
+  }
+
+  // 프론트엔드 ErrorCode 값으로 변환 (Canva API 오류는 CanvaClientService가 이미 변환함)
+  private errorCodeFor(error: any): string {
+    if (error instanceof CanvaApiError || IMPORT_ERROR_CODES.includes(error.code)) {
+      return error.code;
+    }
+    return error.isAxiosError ? 'NETWORK_ERROR' : 'UNKNOWN_ERROR';
+  }
+
+  private async failJob(job: ImportJob, code: string, message: string): Promise<void> {
+    job.status = ImportJobStatus.FAILED;
+    job.errorCode = code;
+    job.errorMessage = message;
+    job.finishedAt = new Date();
+    await this.updateProgress(job, '실패', job.progress);
+  }
+
+  private describeSource(job: ImportJob): string {
+    return job.sourceType === FlipbookSourceType.CANVA
+      ? `design ${job.designId}`
+      : job.sourceFiles.map((file) => file.originalName).join(', ');
+  }
+
+  private async removeFiles(paths: string[]): Promise<void> {
+    await Promise.all(paths.map((path) => rm(path, { force: true }).catch(() => undefined)));
+  }
+
+  // 요청 검증에서 거절되어 남은 파일 등 대기 중인 작업이 쓰지 않는 업로드를 서버 시작 시 정리
+  private async removeOrphanedUploads(queued: ImportJob[]): Promise<void> {
+    const uploadPath = resolve(this.config.uploadPath);
+    const inUse = new Set(queued.flatMap((job) => (job.sourceFiles || []).map((file) => resolve(file.path))));
+    const files = await readdir(uploadPath).catch((): string[] => []);
+
+    await this.removeFiles(files.map((file) => join(uploadPath, file)).filter((path) => !inUse.has(path)));
+  }
+}
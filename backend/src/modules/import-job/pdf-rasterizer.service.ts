@@ -0,0 +1,109 @@
+import { Injectable } from '@nestjs/common';
+import { join, dirname } from 'path';
+import { Canvas, DOMMatrix, ImageData, Path2D, createCanvas } from '@napi-rs/canvas';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+type Pdfjs = typeof import('pdfjs-dist/legacy/build/pdf');
+
+// 아주 긴 페이지가 메모리를 다 쓰지 않도록 한 페이지의 최대 픽셀 수를 제한
+const MAX_RENDER_PIXELS = 40_000_000;
+const PDFJS_ROOT = dirname(require.resolve('pdfjs-dist/package.json'));
+
+export interface RasterizedPdfPage {
+  image: Buffer;
+  width: number;
+  height: number;
+  // 검색/텍스트 레이어용 페이지 텍스트 (스캔 PDF는 빈 문자열)
+  textContent: string;
+}
+
+interface CanvasAndContext {
+  canvas: Canvas;
+  context: ReturnType<Canvas['getContext']>;
+}
+
+// pdf.js 기본 NodeCanvasFactory는 node-canvas 패키지를 요구하므로 @napi-rs/canvas로 대체
+class NapiCanvasFactory {
+  create(width: number, height: number): CanvasAndContext {
+    const canvas = createCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(canvasAndContext: CanvasAndContext, width: number, height: number): void {
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: CanvasAndContext): void {
+    canvasAndContext.canvas.width = 0;
+    canvasAndContext.canvas.height = 0;
+  }
+}
+
+@Injectable()
+export class PdfRasterizerService {
+  private pdfjs?: Promise<Pdfjs>;
+
+  async open(data: Buffer): Promise<PDFDocumentProxy> {
+    const pdfjs = await this.loadPdfjs();
+
+    return pdfjs.getDocument({
+      data: new Uint8Array(data.buffer, data.byteOffset, data.byteLength),
+      canvasFactory: new NapiCanvasFactory(),
+      cMapUrl: join(PDFJS_ROOT, 'cmaps/'),
+      cMapPacked: true,
+      standardFontDataUrl: join(PDFJS_ROOT, 'standard_fonts/'),
+      disableFontFace: true,
+      useSystemFonts: false,
+      isEvalSupported: false,
+    }).promise;
+  }
+
+  // 가로 width 픽셀로 렌더링한 흰 배경 PNG와 페이지 텍스트
+  async renderPage(document: PDFDocumentProxy, pageNumber: number, width: number): Promise<RasterizedPdfPage> {
+    const page = await document.getPage(pageNumber);
+
+    try {
+      const baseViewport = page.getViewport({ scale: 1 });
+      const scale = Math.min(
+        width / baseViewport.width,
+        Math.sqrt(MAX_RENDER_PIXELS / (baseViewport.width * baseViewport.height)),
+      );
+      const viewport = page.getViewport({ scale });
+
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      const context = canvas.getContext('2d');
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+
+      // @napi-rs/canvas 컨텍스트는 pdf.js가 쓰는 2D API를 구현하지만 DOM 타입과는 일부 다름
+      await page.render({ canvasContext: context as unknown as CanvasRenderingContext2D, viewport }).promise;
+
+      const textContent = await page.getTextContent();
+      const text = textContent.items
+        .map((item) => ('str' in item ? `${item.str}${item.hasEOL ? '\n' : ' '}` : ''))
+        .join('')
+        .replace(/[ \t]+/g, ' ')
+        .replace(/ ?\n ?/g, '\n')
+        .trim();
+
+      return {
+        image: await canvas.encode('png'),
+        width: canvas.width,
+        height: canvas.height,
+        textContent: text,
+      };
+    } finally {
+      page.cleanup();
+    }
+  }
+
+  // pdf.js는 불러오는 시점에 Path2D 등을 찾으므로 전역에 먼저 등록한 뒤 지연 로드
+  private loadPdfjs(): Promise<Pdfjs> {
+    if (!this.pdfjs) {
+      Object.assign(globalThis, { DOMMatrix, ImageData, Path2D });
+      this.pdfjs = import('pdfjs-dist/legacy/build/pdf');
+    }
+    return this.pdfjs;
+  }
+}
@@ -0,0 +1,24 @@
+import { CreatePageDto, PageMetadataDto } from '../../dto/page.dto';
+import { StoredPageImage } from '../storage/storage.service';
+
+// 저장소에 올린 페이지 이미지로 페이지 생성 요청을 만듦 (가져오기와 Canva 동기화에서 공통 사용)
+export const storedPageDto = (
+  stored: StoredPageImage,
+  pageNumber: number,
+  title: string,
+  metadata: PageMetadataDto,
+): CreatePageDto => ({
+  title,
+  pageNumber,
+  imageUrl: stored.cdnUrl,
+  thumbnailUrl: stored.thumbnailUrl,
+  width: stored.width,
+  height: stored.height,
+  fileSize: stored.fileSize,
+  mimeType: stored.mimeType,
+  hasTransparency: stored.hasTransparency,
+  storageKey: stored.storageKey,
+  cdnUrl: stored.cdnUrl,
+  variants: stored.variants,
+  metadata: { ...metadata, imageHash: stored.contentHash },
+});
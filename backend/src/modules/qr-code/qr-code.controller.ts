@@ -0,0 +1,32 @@
+import { Controller, Get, Param, Query, Res, UseGuards } from '@nestjs/common';
+import { Response } from 'express';
+import { QrCodeService } from './qr-code.service';
+import { FlipbookAccessGuard, RequireAccess } from '../share-link/flipbook-access.guard';
+import { QrCodeQueryDto } from '../../dto/qr-code.dto';
+
+@Controller('flipbooks/:flipbookId')
+@UseGuards(FlipbookAccessGuard)
+export class QrCodeController {
+  constructor(private readonly qrCodeService: QrCodeService) {}
+
+  // 인쇄용 QR 코드 (PNG/SVG/PDF, 로고 합성)
+  @Get('qr')
+  @RequireAccess('share')
+  async getQrCode(
+    @Param('flipbookId') flipbookId: string,
+    @Query() query: QrCodeQueryDto,
+    @Res() res: Response,
+  ) {
+    const qrCode = await this.qrCodeService.render(flipbookId, query);
+    const disposition = query.download ? 'attachment' : 'inline';
+
+    res.setHeader('Content-Type', qrCode.contentType);
+    res.setHeader('Content-Length', qrCode.body.length);
+    res.setHeader(
+      'Content-Disposition',
+      `${disposition}; filename="qr-code.${query.format || 'png'}"; filename*=UTF-8''${encodeURIComponent(qrCode.filename)}`,
+    );
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.send(qrCode.body);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { HttpModule } from '@nestjs/axios';
+import { QrCodeController } from './qr-code.controller';
+import { QrCodeService } from './qr-code.service';
+import { Flipbook } from '../../entities/flipbook.entity';
+import { ShareLinkModule } from '../share-link/share-link.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Flipbook]), HttpModule, ShareLinkModule],
+  controllers: [QrCodeController],
+  providers: [QrCodeService],
+})
+export class QrCodeModule {}
@@ -0,0 +1,247 @@
+import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { Repository } from 'typeorm';
+import { firstValueFrom } from 'rxjs';
+import * as QRCode from 'qrcode';
+import * as PDFDocument from 'pdfkit';
+import * as sharp from 'sharp';
+import { Flipbook } from '../../entities/flipbook.entity';
+import { QrCodeQueryDto, QrCodeFormat, QrErrorCorrectionLevel } from '../../dto/qr-code.dto';
+import { QrCodeConfig } from '../../config/qr-code.config';
+import { AppConfig } from '../../config/app.config';
+import { assertPublicUrl } from '../../common/public-url';
+
+const DEFAULT_SIZE = 512;
+const DEFAULT_MARGIN = 2;
+const DEFAULT_LOGO_SIZE = 20;
+const DEFAULT_DARK_COLOR = '#000000';
+const DEFAULT_LIGHT_COLOR = '#ffffff';
+// 인쇄물에서도 인식되도록 요구하는 최소 명암비 (WCAG AA 본문 기준)
+const MIN_CONTRAST_RATIO = 4.5;
+// 로고는 이 크기(px)의 정사각형 PNG로 정규화해서 합성
+const LOGO_RESOLUTION = 512;
+
+const CONTENT_TYPES: Record<QrCodeFormat, string> = {
+  png: 'image/png',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+};
+
+export interface QrCodeResult {
+  body: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+// 렌더링에 필요한 값 (좌표는 여백을 포함한 모듈 단위)
+interface QrLayout {
+  modules: QRCode.BitMatrix;
+  margin: number;
+  size: number;
+  darkColor: string;
+  lightColor: string;
+  logo?: { image: Buffer; x: number; y: number; width: number; padding: number };
+}
+
+@Injectable()
+export class QrCodeService {
+  private readonly logger = new Logger(QrCodeService.name);
+  private readonly config: QrCodeConfig;
+  private readonly appBaseUrl: string;
+
+  constructor(
+    @InjectRepository(Flipbook)
+    private flipbookRepository: Repository<Flipbook>,
+    private configService: ConfigService,
+    private httpService: HttpService,
+  ) {
+    this.config = this.configService.get<QrCodeConfig>('qrCode');
+    this.appBaseUrl = this.configService.get<AppConfig>('app').baseUrl;
+  }
+
+  async render(flipbookId: string, query: QrCodeQueryDto): Promise<QrCodeResult> {
+    const flipbook = await this.flipbookRepository.findOne({
+      where: { id: flipbookId },
+      select: { id: true, slug: true },
+    });
+    if (!flipbook) {
+      throw new NotFoundException(`Flipbook with ID ${flipbookId} not found`);
+    }
+
+    const darkColor = this.normalizeColor(query.darkColor || DEFAULT_DARK_COLOR);
+    const lightColor = this.normalizeColor(query.lightColor || DEFAULT_LIGHT_COLOR);
+    this.assertScannableColors(darkColor, lightColor);
+
+    const logo = query.logoUrl ? await this.loadLogo(query.logoUrl) : undefined;
+    // 로고가 가리는 모듈을 복원할 수 있도록 오류 복원 수준을 최대(H, 약 30%)로 고정
+    const errorCorrectionLevel: QrErrorCorrectionLevel = logo ? 'H' : query.errorCorrectionLevel || 'M';
+
+    const qr = QRCode.create(this.targetUrl(flipbook, query.url), { errorCorrectionLevel });
+    const margin = query.margin ?? DEFAULT_MARGIN;
+    const layout: QrLayout = {
+      modules: qr.modules,
+      margin,
+      size: query.size || DEFAULT_SIZE,
+      darkColor,
+      lightColor,
+    };
+
+    if (logo) {
+      const width = (qr.modules.size * (query.logoSize || DEFAULT_LOGO_SIZE)) / 100;
+      const offset = margin + (qr.modules.size - width) / 2;
+      layout.logo = { image: logo, x: offset, y: offset, width, padding: 1 };
+    }
+
+    const format = query.format || 'png';
+    const body = format === 'svg'
+      ? Buffer.from(this.toSvg(layout))
+      : format === 'pdf'
+        ? await this.toPdf(layout)
+        : await sharp(Buffer.from(this.toSvg(layout))).png().toBuffer();
+
+    return {
+      body,
+      contentType: CONTENT_TYPES[format],
+      filename: `${flipbook.slug || flipbook.id}-qr.${format}`,
+    };
+  }
+
+  // 기본값은 앱의 /view/:slug, 공유 옵션이 붙은 주소는 같은 플립북의 리더 경로만 허용
+  private targetUrl(flipbook: Flipbook, url?: string): string {
+    const readerPath = `/view/${flipbook.slug}`;
+    if (!url) {
+      return `${this.appBaseUrl}/view/${encodeURIComponent(flipbook.slug)}`;
+    }
+
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(url).pathname).replace(/\/+$/, '');
+    } catch {
+      throw new BadRequestException('url must be a valid URL');
+    }
+    if (pathname !== readerPath) {
+      throw new BadRequestException(`url must point to this flipbook's reader (${readerPath})`);
+    }
+    return url;
+  }
+
+  private normalizeColor(color: string): string {
+    const hex = color.replace(/^#/, '').toLowerCase();
+    return `#${hex.length === 3 ? hex.replace(/./g, '$&$&') : hex}`;
+  }
+
+  // 스캐너는 밝은 바탕의 어두운 모듈을 전제로 하므로 반전된 색과 낮은 명암비를 거절
+  private assertScannableColors(darkColor: string, lightColor: string): void {
+    const dark = this.relativeLuminance(darkColor);
+    const light = this.relativeLuminance(lightColor);
+    if (dark >= light) {
+      throw new BadRequestException('darkColor must be darker than lightColor');
+    }
+
+    const ratio = (light + 0.05) / (dark + 0.05);
+    if (ratio < MIN_CONTRAST_RATIO) {
+      throw new BadRequestException(
+        `Contrast ratio between darkColor and lightColor is ${ratio.toFixed(2)}:1, at least ${MIN_CONTRAST_RATIO}:1 is required`,
+      );
+    }
+  }
+
+  // WCAG 상대 휘도
+  private relativeLuminance(color: string): number {
+    const [r, g, b] = [1, 3, 5].map((index) => {
+      const channel = parseInt(color.slice(index, index + 2), 16) / 255;
+      return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+    });
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  }
+
+  // 외부 이미지를 내려받아 정사각형 PNG로 정규화 (사설망 주소로의 요청은 차단)
+  private async loadLogo(logoUrl: string): Promise<Buffer> {
+    await assertPublicUrl(logoUrl, 'logoUrl');
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.get<ArrayBuffer>(logoUrl, {
+          responseType: 'arraybuffer',
+          timeout: this.config.logoFetchTimeout,
+          maxContentLength: this.config.logoMaxBytes,
+          maxRedirects: 0,
+        }),
+      );
+
+      return await sharp(Buffer.from(response.data))
+        .resize(LOGO_RESOLUTION, LOGO_RESOLUTION, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
+        .png()
+        .toBuffer();
+    } catch (error) {
+      this.logger.warn(`Failed to load QR logo ${logoUrl}: ${error.message}`);
+      throw new BadRequestException('logoUrl could not be loaded as an image');
+    }
+  }
+
+  // 같은 행의 연속된 모듈을 하나의 사각형으로 묶은 경로 (모듈 단위 좌표)
+  private toSvg(layout: QrLayout): string {
+    const { modules, margin, size, darkColor, lightColor, logo } = layout;
+    const total = modules.size + margin * 2;
+    let path = '';
+
+    for (const [x, y, run] of this.moduleRuns(modules)) {
+      path += `M${x + margin} ${y + margin}h${run}v1h-${run}z`;
+    }
+
+    const logoMarkup = logo
+      ? `<rect x="${logo.x - logo.padding}" y="${logo.y - logo.padding}" width="${logo.width + logo.padding * 2}" height="${logo.width + logo.padding * 2}" rx="${logo.padding}" fill="${lightColor}"/>`
+        + `<image x="${logo.x}" y="${logo.y}" width="${logo.width}" height="${logo.width}" href="data:image/png;base64,${logo.image.toString('base64')}"/>`
+      : '';
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${total} ${total}" shape-rendering="crispEdges">`
+      + `<rect width="${total}" height="${total}" fill="${lightColor}"/>`
+      + `<path d="${path}" fill="${darkColor}"/>`
+      + logoMarkup
+      + '</svg>';
+  }
+
+  private toPdf(layout: QrLayout): Promise<Buffer> {
+    const { modules, margin, size, darkColor, lightColor, logo } = layout;
+    const scale = size / (modules.size + margin * 2);
+
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: [size, size], margin: 0, info: { Title: 'QR Code' } });
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      doc.rect(0, 0, size, size).fill(lightColor);
+      for (const [x, y, run] of this.moduleRuns(modules)) {
+        doc.rect((x + margin) * scale, (y + margin) * scale, run * scale, scale);
+      }
+      doc.fill(darkColor);
+
+      if (logo) {
+        const padded = logo.width + logo.padding * 2;
+        doc
+          .roundedRect((logo.x - logo.padding) * scale, (logo.y - logo.padding) * scale, padded * scale, padded * scale, logo.padding * scale)
+          .fill(lightColor);
+        doc.image(logo.image, logo.x * scale, logo.y * scale, { width: logo.width * scale, height: logo.width * scale });
+      }
+
+      doc.end();
+    });
+  }
+
+  private *moduleRuns(modules: QRCode.BitMatrix): Generator<[number, number, number]> {
+    for (let y = 0; y < modules.size; y++) {
+      for (let x = 0; x < modules.size; x++) {
+        if (!modules.get(y, x)) continue;
+
+        const start = x;
+        while (x + 1 < modules.size && modules.get(y, x + 1)) x++;
+        yield [start, y, x - start + 1];
+      }
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  SetMetadata,
+  createParamDecorator,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { AccessAction } from '../../entities/share-link.entity';
+import { ShareLinkService, FlipbookAccess } from './share-link.service';
+
+const REQUIRED_ACCESS_KEY = 'requiredAccess';
+
+export interface FlipbookAccessRequest extends Request {
+  flipbookAccess?: FlipbookAccess;
+}
+
+// 라우트가 요구하는 플립북 권한 (경로의 :id 또는 :flipbookId 기준)
+export const RequireAccess = (action: AccessAction) => SetMetadata(REQUIRED_ACCESS_KEY, action);
+
+// 가드가 확인한 접근 정보 (공개/소유자/공유 링크)
+export const CurrentAccess = createParamDecorator(
+  (data: unknown, context: ExecutionContext): FlipbookAccess | undefined =>
+    context.switchToHttp().getRequest<FlipbookAccessRequest>().flipbookAccess,
+);
+
+@Injectable()
+export class FlipbookAccessGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly shareLinkService: ShareLinkService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const action = this.reflector.getAllAndOverride<AccessAction>(REQUIRED_ACCESS_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!action) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<FlipbookAccessRequest>();
+    const flipbookId = request.params.flipbookId || request.params.id;
+
+    request.flipbookAccess = await this.shareLinkService.resolveAccess(
+      flipbookId,
+      this.shareLinkService.credentialsFrom(request),
+      action,
+    );
+    return true;
+  }
+}
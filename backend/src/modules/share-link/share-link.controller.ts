@@ -0,0 +1,62 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ShareLinkService } from './share-link.service';
+import { FlipbookAccessGuard, RequireAccess, CurrentAccess } from './flipbook-access.guard';
+import { FlipbookAccess } from './share-link.service';
+import { CreateShareLinkDto, RequestAccessDto } from '../../dto/share-link.dto';
+
+@Controller('flipbooks/:flipbookId')
+@UseGuards(FlipbookAccessGuard)
+export class ShareLinkController {
+  constructor(private readonly shareLinkService: ShareLinkService) {}
+
+  // Creating links: owner or links with 'share' permission (a link can only pass on permissions it holds)
+  @Post('share-links')
+  @RequireAccess('share')
+  async create(
+    @Param('flipbookId') flipbookId: string,
+    @Body() createShareLinkDto: CreateShareLinkDto,
+    @CurrentAccess() access: FlipbookAccess,
+  ) {
+    return this.shareLinkService.create(flipbookId, createShareLinkDto, access);
+  }
+
+  // Listing and revoking links: owner only
+  @Get('share-links')
+  @RequireAccess('share')
+  async findAll(@Param('flipbookId') flipbookId: string, @CurrentAccess() access: FlipbookAccess) {
+    this.shareLinkService.assertOwner(access);
+    return this.shareLinkService.findAll(flipbookId);
+  }
+
+  @Delete('share-links/:linkId')
+  @RequireAccess('share')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revoke(
+    @Param('flipbookId') flipbookId: string,
+    @Param('linkId') linkId: string,
+    @CurrentAccess() access: FlipbookAccess,
+  ) {
+    this.shareLinkService.assertOwner(access);
+    await this.shareLinkService.revoke(flipbookId, linkId);
+  }
+
+  // Exchange a share link token (and password) for a short-lived access token
+  @Post('access')
+  @HttpCode(HttpStatus.OK)
+  async requestAccess(
+    @Param('flipbookId') flipbookId: string,
+    @Body() requestAccessDto: RequestAccessDto,
+  ) {
+    return this.shareLinkService.requestAccess(flipbookId, requestAccessDto);
+  }
+}
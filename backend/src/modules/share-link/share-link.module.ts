@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ShareLinkController } from './share-link.controller';
+import { ShareLinkService } from './share-link.service';
+import { FlipbookAccessGuard } from './flipbook-access.guard';
+import { Flipbook } from '../../entities/flipbook.entity';
+import { ShareLink } from '../../entities/share-link.entity';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Flipbook, ShareLink])],
+  controllers: [ShareLinkController],
+  providers: [ShareLinkService, FlipbookAccessGuard],
+  exports: [ShareLinkService, FlipbookAccessGuard],
+})
+export class ShareLinkModule {}
@@ -0,0 +1,262 @@
+import { BadRequestException, ForbiddenException, NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindOneOptions, Repository } from 'typeorm';
+import { FlipbookAccess, ShareLinkService } from './share-link.service';
+import { ShareLink, AccessAction } from '../../entities/share-link.entity';
+import { Flipbook, FlipbookVisibility } from '../../entities/flipbook.entity';
+import { ShareLinkConfig } from '../../config/share-link.config';
+
+const FLIPBOOK_ID = 'flipbook-1';
+const OWNER_ID = 'owner-1';
+
+describe('ShareLinkService', () => {
+  let flipbook: Flipbook;
+  const otherFlipbook = Object.assign(new Flipbook(), { id: 'flipbook-2', userId: OWNER_ID, visibility: FlipbookVisibility.PRIVATE });
+  let links: ShareLink[];
+  let service: ShareLinkService;
+
+  const owner: FlipbookAccess = { flipbookId: FLIPBOOK_ID, via: 'owner', permissions: ['view', 'edit', 'share', 'delete'] };
+  const linkAccess = (permissions: AccessAction[]): FlipbookAccess => ({ flipbookId: FLIPBOOK_ID, via: 'token', permissions });
+
+  // 소유자로 링크를 만들고 접근 토큰을 발급받아 공유 링크 사용자의 자격 증명으로 돌려줌
+  const shareLinkHolder = async (permissions: AccessAction[]) => {
+    const { token } = await service.create(FLIPBOOK_ID, { permissions }, owner);
+    const access = await service.requestAccess(FLIPBOOK_ID, { token, action: permissions[0] });
+    return { accessToken: access.token };
+  };
+
+  beforeEach(async () => {
+    flipbook = Object.assign(new Flipbook(), { id: FLIPBOOK_ID, userId: OWNER_ID, visibility: FlipbookVisibility.PRIVATE });
+    links = [];
+
+    // where 조건의 필드가 모두 같은 링크를 찾는 메모리 저장소
+    const matches = (link: ShareLink, where: Partial<ShareLink>) =>
+      Object.entries(where).every(([key, value]) => link[key as keyof ShareLink] === value);
+
+    const shareLinkRepository: jest.Mocked<Pick<Repository<ShareLink>, 'create' | 'save' | 'findOne' | 'find'>> & {
+      createQueryBuilder: jest.Mock;
+    } = {
+      create: jest.fn().mockImplementation((fields: Partial<ShareLink>) => Object.assign(new ShareLink(), fields)),
+      save: jest.fn().mockImplementation(async (link: ShareLink) => {
+        if (!link.id) {
+          Object.assign(link, { id: `link-${links.length + 1}`, createdAt: new Date() });
+          links.push(link);
+        }
+        return link;
+      }),
+      findOne: jest.fn().mockImplementation(async ({ where }: FindOneOptions<ShareLink>) =>
+        links.find((link) => matches(link, where as Partial<ShareLink>)) || null,
+      ),
+      find: jest.fn().mockImplementation(async () => links),
+      // 조회 수 차감 (UPDATE ... WHERE max_views IS NULL OR view_count < max_views)
+      createQueryBuilder: jest.fn(() => {
+        let id: string;
+        const builder = {
+          update: () => builder,
+          set: () => builder,
+          where: (_: string, params: { id: string }) => {
+            id = params.id;
+            return builder;
+          },
+          andWhere: () => builder,
+          execute: async () => {
+            const link = links.find((candidate) => candidate.id === id);
+            if (link.maxViews && link.viewCount >= link.maxViews) {
+              return { affected: 0 };
+            }
+            link.viewCount++;
+            return { affected: 1 };
+          },
+        };
+        return builder;
+      }),
+    };
+
+    const flipbookRepository: jest.Mocked<Pick<Repository<Flipbook>, 'findOne'>> = {
+      findOne: jest.fn().mockImplementation(async ({ where }: FindOneOptions<Flipbook>) =>
+        [flipbook, otherFlipbook].find((candidate) => candidate.id === (where as Partial<Flipbook>).id) || null,
+      ),
+    };
+
+    const config: ShareLinkConfig = { secret: 'test-secret', accessTokenTtl: 3600 };
+    const configService: Pick<ConfigService, 'get'> = { get: jest.fn().mockReturnValue(config) };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        ShareLinkService,
+        { provide: getRepositoryToken(ShareLink), useValue: shareLinkRepository },
+        { provide: getRepositoryToken(Flipbook), useValue: flipbookRepository },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+
+    service = moduleRef.get(ShareLinkService);
+  });
+
+  describe('create', () => {
+    it('lets the owner grant any permission', async () => {
+      const link = await service.create(FLIPBOOK_ID, { permissions: ['view', 'edit', 'delete'] }, owner);
+
+      expect(link.permissions).toEqual(['view', 'edit', 'delete']);
+      expect(link.token).toBeDefined();
+    });
+
+    it('defaults to a view-only link', async () => {
+      const link = await service.create(FLIPBOOK_ID, {}, owner);
+
+      expect(link.permissions).toEqual(['view']);
+    });
+
+    it('rejects edit and delete from a share link holder even if the link has them', async () => {
+      const holder = linkAccess(['view', 'edit', 'share', 'delete']);
+
+      await expect(service.create(FLIPBOOK_ID, { permissions: ['edit'] }, holder)).rejects.toBeInstanceOf(ForbiddenException);
+      await expect(service.create(FLIPBOOK_ID, { permissions: ['delete'] }, holder)).rejects.toBeInstanceOf(ForbiddenException);
+      expect(links).toHaveLength(0);
+    });
+
+    it('rejects permissions the share link holder does not have', async () => {
+      await expect(
+        service.create(FLIPBOOK_ID, { permissions: ['view', 'share'] }, linkAccess(['share'])),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+
+    it('lets a share link holder pass on the permissions it holds', async () => {
+      const link = await service.create(FLIPBOOK_ID, { permissions: ['view', 'share'] }, linkAccess(['view', 'share']));
+
+      expect(link.permissions).toEqual(['view', 'share']);
+    });
+  });
+
+  describe('assertOwner', () => {
+    it('allows the owner and rejects share link holders', () => {
+      expect(() => service.assertOwner(owner)).not.toThrow();
+      expect(() => service.assertOwner(linkAccess(['view', 'share']))).toThrow(ForbiddenException);
+    });
+  });
+
+  describe('requestAccess', () => {
+    it('requires the password of a protected link', async () => {
+      const { token } = await service.create(FLIPBOOK_ID, { password: 'letmein' }, owner);
+
+      await expect(service.requestAccess(FLIPBOOK_ID, { token })).rejects.toMatchObject({
+        response: { code: 'PASSWORD_REQUIRED' },
+      });
+      await expect(service.requestAccess(FLIPBOOK_ID, { token, password: 'wrong-password' })).rejects.toMatchObject({
+        response: { code: 'INVALID_PASSWORD' },
+      });
+      await expect(service.requestAccess(FLIPBOOK_ID, { token, password: 'letmein' })).resolves.toMatchObject({
+        flipbookId: FLIPBOOK_ID,
+      });
+    });
+
+    it('rejects expired and revoked links', async () => {
+      const expired = await service.create(FLIPBOOK_ID, { expiresAt: new Date(Date.now() - 1000).toISOString() }, owner);
+      const revoked = await service.create(FLIPBOOK_ID, {}, owner);
+      await service.revoke(FLIPBOOK_ID, revoked.id);
+
+      await expect(service.requestAccess(FLIPBOOK_ID, { token: expired.token })).rejects.toMatchObject({
+        response: { code: 'SHARE_LINK_EXPIRED' },
+      });
+      await expect(service.requestAccess(FLIPBOOK_ID, { token: revoked.token })).rejects.toMatchObject({
+        response: { code: 'SHARE_LINK_INVALID' },
+      });
+    });
+
+    it('caps the access token at the link expiry', async () => {
+      const expiresAt = new Date(Date.now() + 60 * 1000);
+      const { token } = await service.create(FLIPBOOK_ID, { expiresAt: expiresAt.toISOString() }, owner);
+
+      const access = await service.requestAccess(FLIPBOOK_ID, { token });
+
+      expect(access.expiresAt).toBe(expiresAt.getTime());
+    });
+
+    it('stops issuing view tokens once the view limit is reached', async () => {
+      const { token } = await service.create(FLIPBOOK_ID, { maxViews: 1 }, owner);
+
+      await service.requestAccess(FLIPBOOK_ID, { token });
+
+      await expect(service.requestAccess(FLIPBOOK_ID, { token })).rejects.toMatchObject({
+        response: { code: 'SHARE_LINK_VIEW_LIMIT' },
+      });
+    });
+
+    it('rejects actions the link does not allow', async () => {
+      const { token } = await service.create(FLIPBOOK_ID, { permissions: ['view'] }, owner);
+
+      await expect(service.requestAccess(FLIPBOOK_ID, { token, action: 'edit' })).rejects.toBeInstanceOf(ForbiddenException);
+    });
+  });
+
+  describe('resolveAccess', () => {
+    it('lets anyone view a public flipbook but nothing else', async () => {
+      flipbook.visibility = FlipbookVisibility.PUBLIC;
+
+      await expect(service.resolveAccess(FLIPBOOK_ID, {}, 'view')).resolves.toMatchObject({ via: 'public' });
+      await expect(service.resolveAccess(FLIPBOOK_ID, {}, 'edit')).rejects.toBeInstanceOf(UnauthorizedException);
+    });
+
+    it('gives the owner every permission', async () => {
+      await expect(service.resolveAccess(FLIPBOOK_ID, { userId: OWNER_ID }, 'delete')).resolves.toMatchObject({
+        via: 'owner',
+        permissions: ['view', 'edit', 'share', 'delete'],
+      });
+    });
+
+    it('limits a share link holder to the link permissions', async () => {
+      const credentials = await shareLinkHolder(['view']);
+
+      await expect(service.resolveAccess(FLIPBOOK_ID, credentials, 'view')).resolves.toMatchObject({ via: 'token' });
+      await expect(service.resolveAccess(FLIPBOOK_ID, credentials, 'edit')).rejects.toBeInstanceOf(ForbiddenException);
+    });
+
+    it('applies a revoked link to access tokens already issued from it', async () => {
+      const credentials = await shareLinkHolder(['view']);
+      await service.revoke(FLIPBOOK_ID, links[0].id);
+
+      await expect(service.resolveAccess(FLIPBOOK_ID, credentials, 'view')).rejects.toMatchObject({
+        response: { code: 'SHARE_LINK_INVALID' },
+      });
+    });
+
+    it('rejects tampered and foreign access tokens', async () => {
+      const { accessToken } = await shareLinkHolder(['view']);
+      const [body] = accessToken.split('.');
+
+      await expect(
+        service.resolveAccess(FLIPBOOK_ID, { accessToken: `${body}.forged` }, 'view'),
+      ).rejects.toMatchObject({ response: { code: 'INVALID_ACCESS_TOKEN' } });
+      await expect(service.resolveAccess(otherFlipbook.id, { accessToken }, 'view')).rejects.toMatchObject({
+        response: { code: 'ACCESS_FORBIDDEN' },
+      });
+    });
+  });
+
+  describe('resolveAssetAccess', () => {
+    it.each([
+      'flipbooks/../users/secret.png',
+      'flipbooks/flipbook-1/../../etc/passwd',
+      'flipbooks/flipbook-1/./pages/1.png',
+      'flipbooks//pages/1.png',
+      'flipbooks/flipbook-1/pages\\..\\1.png',
+    ])('rejects the dot-segment or malformed key %s', async (key) => {
+      await expect(service.resolveAssetAccess(key, { userId: OWNER_ID })).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it.each(['uploads/flipbook-1/file.pdf', 'flipbooks/flipbook-1'])('does not serve the key %s', async (key) => {
+      await expect(service.resolveAssetAccess(key, { userId: OWNER_ID })).rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it('checks view access on the flipbook the key belongs to', async () => {
+      await expect(service.resolveAssetAccess('flipbooks/flipbook-1/pages/1.png', {})).rejects.toBeInstanceOf(
+        UnauthorizedException,
+      );
+      await expect(
+        service.resolveAssetAccess('flipbooks/flipbook-1/pages/1.png', { userId: OWNER_ID }),
+      ).resolves.toMatchObject({ via: 'owner' });
+    });
+  });
+});
@@ -0,0 +1,400 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  UnauthorizedException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { createHash, createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { Request } from 'express';
+import { Flipbook, FlipbookVisibility } from '../../entities/flipbook.entity';
+import { Page } from '../../entities/page.entity';
+import { ShareLink, AccessAction, ACCESS_ACTIONS } from '../../entities/share-link.entity';
+import {
+  CreateShareLinkDto,
+  RequestAccessDto,
+  ShareLinkResponseDto,
+  AccessTokenDto,
+} from '../../dto/share-link.dto';
+import { ShareLinkConfig } from '../../config/share-link.config';
+import { AuthenticatedRequest } from '../auth/auth.guard';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+export const ACCESS_TOKEN_HEADER = 'x-access-token';
+// <img> 태그 등 헤더를 보낼 수 없는 요청은 쿼리 파라미터로 전달
+export const ACCESS_TOKEN_QUERY = 'access_token';
+// 소유자만 공유 링크에 줄 수 있는 권한
+const OWNER_GRANTED_ACTIONS: AccessAction[] = ['edit', 'delete'];
+
+export interface AccessCredentials {
+  userId?: string;
+  accessToken?: string;
+}
+
+export interface FlipbookAccess {
+  flipbookId: string;
+  via: 'public' | 'owner' | 'token';
+  permissions: AccessAction[];
+  accessToken?: string;
+}
+
+interface AccessTokenPayload {
+  lid?: string; // share link id (없으면 소유자에게 발급한 조회 전용 에셋 토큰)
+  fid: string; // flipbook id
+  exp: number; // ms
+}
+
+@Injectable()
+export class ShareLinkService {
+  private readonly logger = new Logger(ShareLinkService.name);
+  private readonly secret: string;
+  private readonly accessTokenTtl: number;
+
+  constructor(
+    @InjectRepository(ShareLink)
+    private shareLinkRepository: Repository<ShareLink>,
+    @InjectRepository(Flipbook)
+    private flipbookRepository: Repository<Flipbook>,
+    private configService: ConfigService,
+  ) {
+    const config = this.configService.get<ShareLinkConfig>('shareLinks');
+    this.accessTokenTtl = config.accessTokenTtl;
+    this.secret = config.secret || randomBytes(32).toString('hex');
+
+    if (!config.secret) {
+      this.logger.warn('SHARE_LINK_SECRET is not set; share access tokens will not survive a restart');
+    }
+  }
+
+  async create(flipbookId: string, createShareLinkDto: CreateShareLinkDto, access: FlipbookAccess): Promise<ShareLinkResponseDto> {
+    await this.findFlipbook(flipbookId);
+
+    const permissions = createShareLinkDto.permissions || ['view'];
+    this.assertGrantable(access, permissions);
+
+    const token = randomBytes(24).toString('base64url');
+    const shareLink = await this.shareLinkRepository.save(
+      this.shareLinkRepository.create({
+        flipbookId,
+        tokenHash: this.hashToken(token),
+        tokenPrefix: token.slice(0, 8),
+        label: createShareLinkDto.label,
+        passwordHash: createShareLinkDto.password
+          ? await this.hashPassword(createShareLinkDto.password)
+          : undefined,
+        permissions,
+        expiresAt: createShareLinkDto.expiresAt ? new Date(createShareLinkDto.expiresAt) : undefined,
+        maxViews: createShareLinkDto.maxViews,
+        viewCount: 0,
+      }),
+    );
+
+    return { ...this.toResponse(shareLink), token };
+  }
+
+  async findAll(flipbookId: string): Promise<ShareLinkResponseDto[]> {
+    await this.findFlipbook(flipbookId);
+
+    const shareLinks = await this.shareLinkRepository.find({
+      where: { flipbookId },
+      select: this.selectWithPassword(),
+      order: { createdAt: 'DESC' },
+    });
+
+    return shareLinks.map((shareLink) => this.toResponse(shareLink));
+  }
+
+  async revoke(flipbookId: string, linkId: string): Promise<void> {
+    const shareLink = await this.shareLinkRepository.findOne({ where: { id: linkId, flipbookId } });
+    if (!shareLink) {
+      throw new NotFoundException(`Share link with ID ${linkId} not found`);
+    }
+
+    if (!shareLink.revokedAt) {
+      shareLink.revokedAt = new Date();
+      await this.shareLinkRepository.save(shareLink);
+    }
+  }
+
+  // 공유 링크 토큰(+비밀번호)을 확인하고 서명된 단기 접근 토큰을 발급
+  async requestAccess(flipbookId: string, requestAccessDto: RequestAccessDto): Promise<AccessTokenDto> {
+    await this.findFlipbook(flipbookId);
+
+    const shareLink = await this.shareLinkRepository.findOne({
+      where: { tokenHash: this.hashToken(requestAccessDto.token), flipbookId },
+      select: this.selectWithPassword(),
+    });
+    this.assertUsable(shareLink);
+
+    if (shareLink.passwordHash) {
+      if (!requestAccessDto.password) {
+        throw new UnauthorizedException({ code: 'PASSWORD_REQUIRED', message: 'This share link requires a password' });
+      }
+      if (!(await this.verifyPassword(requestAccessDto.password, shareLink.passwordHash))) {
+        throw new UnauthorizedException({ code: 'INVALID_PASSWORD', message: 'Incorrect share link password' });
+      }
+    }
+
+    const action = requestAccessDto.action || 'view';
+    this.assertPermission(shareLink.permissions, action);
+
+    // 조회 제한은 동시 요청에서도 넘지 않도록 조건부 UPDATE로 차감
+    if (action === 'view') {
+      const result = await this.shareLinkRepository
+        .createQueryBuilder()
+        .update(ShareLink)
+        .set({ viewCount: () => 'view_count + 1', lastUsedAt: new Date() })
+        .where('id = :id', { id: shareLink.id })
+        .andWhere('(max_views IS NULL OR view_count < max_views)')
+        .execute();
+
+      if (!result.affected) {
+        throw new ForbiddenException({ code: 'SHARE_LINK_VIEW_LIMIT', message: 'This share link has reached its view limit' });
+      }
+    }
+
+    const expiresAt = Math.min(
+      Date.now() + this.accessTokenTtl * 1000,
+      shareLink.expiresAt ? shareLink.expiresAt.getTime() : Infinity,
+    );
+
+    return {
+      token: this.signAccessToken({ lid: shareLink.id, fid: flipbookId, exp: expiresAt }),
+      flipbookId,
+      expiresAt,
+      permissions: ACCESS_ACTIONS.map((permission) => ({
+        action: permission,
+        granted: shareLink.permissions.includes(permission),
+      })),
+    };
+  }
+
+  // 공개 플립북의 조회, 소유자, 유효한 접근 토큰 순으로 권한 확인
+  async resolveAccess(flipbookId: string, credentials: AccessCredentials, action: AccessAction): Promise<FlipbookAccess> {
+    const flipbook = await this.findFlipbook(flipbookId);
+
+    if (action === 'view' && flipbook.visibility === FlipbookVisibility.PUBLIC) {
+      return { flipbookId, via: 'public', permissions: ['view'] };
+    }
+
+    // 소유자도 <img>로 비공개 에셋을 불러올 수 있도록 조회 전용 토큰을 함께 발급
+    if (credentials.userId && credentials.userId === flipbook.userId) {
+      return {
+        flipbookId,
+        via: 'owner',
+        permissions: ACCESS_ACTIONS,
+        accessToken: this.signAccessToken({ fid: flipbookId, exp: this.assetTokenExpiry() }),
+      };
+    }
+
+    if (!credentials.accessToken) {
+      throw new UnauthorizedException({ code: 'ACCESS_TOKEN_REQUIRED', message: 'A share link is required to access this flipbook' });
+    }
+
+    const payload = this.verifyAccessToken(credentials.accessToken);
+    if (payload.fid !== flipbookId) {
+      throw new ForbiddenException({ code: 'ACCESS_FORBIDDEN', message: 'Access token was issued for another flipbook' });
+    }
+
+    if (!payload.lid) {
+      this.assertPermission(['view'], action);
+      return { flipbookId, via: 'token', permissions: ['view'], accessToken: credentials.accessToken };
+    }
+
+    // 링크 폐기/만료는 이미 발급된 접근 토큰에도 즉시 반영
+    const shareLink = await this.shareLinkRepository.findOne({ where: { id: payload.lid, flipbookId } });
+    this.assertUsable(shareLink);
+    this.assertPermission(shareLink.permissions, action);
+
+    return {
+      flipbookId,
+      via: 'token',
+      permissions: shareLink.permissions,
+      accessToken: credentials.accessToken,
+    };
+  }
+
+  // 저장소 키(flipbooks/{id}/...)로 플립북을 찾아 조회 권한 확인
+  // 저장소 드라이버가 경로를 정규화하기 전에 검사하므로 ./.. 세그먼트는 거절하고, 플립북 밖의 키는 제공하지 않음
+  async resolveAssetAccess(key: string, credentials: AccessCredentials): Promise<FlipbookAccess> {
+    const segments = key.split('/');
+    if (segments.some((segment) => !segment || segment === '.' || segment === '..' || segment.includes('\\'))) {
+      throw new BadRequestException({ code: 'INVALID_ASSET_KEY', message: 'Invalid asset key' });
+    }
+
+    const [prefix, flipbookId] = segments;
+    if (prefix !== 'flipbooks' || !flipbookId || segments.length < 3) {
+      throw new NotFoundException(`Asset ${key} not found`);
+    }
+
+    return this.resolveAccess(flipbookId, credentials, 'view');
+  }
+
+  // 소유자는 AuthGuard가 액세스 토큰으로 확인한 로그인 사용자
+  credentialsFrom(request: Request): AccessCredentials {
+    const queryToken = request.query[ACCESS_TOKEN_QUERY];
+
+    return {
+      userId: (request as AuthenticatedRequest).user?.id,
+      accessToken: request.header(ACCESS_TOKEN_HEADER) || (typeof queryToken === 'string' ? queryToken : undefined),
+    };
+  }
+
+  // 비공개 플립북은 페이지 이미지 URL에 접근 토큰을 붙여 <img>에서 바로 쓸 수 있게 함
+  attachAccessToken(pages: Page[], access?: FlipbookAccess): Page[] {
+    if (!access?.accessToken || !pages) {
+      return pages;
+    }
+
+    const withToken = (url?: string) => {
+      if (!url || !url.includes('/assets/')) {
+        return url;
+      }
+      const parsed = new URL(url);
+      parsed.searchParams.set(ACCESS_TOKEN_QUERY, access.accessToken);
+      return parsed.toString();
+    };
+
+    for (const page of pages) {
+      page.imageUrl = withToken(page.imageUrl);
+      page.thumbnailUrl = withToken(page.thumbnailUrl);
+      page.cdnUrl = withToken(page.cdnUrl);
+      page.variants = page.variants?.map((variant) => ({ ...variant, url: withToken(variant.url) }));
+    }
+
+    return pages;
+  }
+
+  // 공유 링크 목록 조회/폐기는 소유자만 (공유 권한 링크로는 다른 링크를 건드릴 수 없음)
+  assertOwner(access: FlipbookAccess): void {
+    if (access.via !== 'owner') {
+      throw new ForbiddenException({ code: 'ACCESS_FORBIDDEN', message: 'Only the owner can manage share links' });
+    }
+  }
+
+  private async findFlipbook(flipbookId: string): Promise<Flipbook> {
+    const flipbook = await this.flipbookRepository.findOne({
+      where: { id: flipbookId },
+      select: { id: true, userId: true, visibility: true },
+    });
+
+    if (!flipbook) {
+      throw new NotFoundException(`Flipbook with ID ${flipbookId} not found`);
+    }
+
+    return flipbook;
+  }
+
+  private assertUsable(shareLink: ShareLink | null): void {
+    if (!shareLink || shareLink.revokedAt) {
+      throw new ForbiddenException({ code: 'SHARE_LINK_INVALID', message: 'This share link is invalid or has been revoked' });
+    }
+    if (shareLink.expiresAt && shareLink.expiresAt.getTime() <= Date.now()) {
+      throw new ForbiddenException({ code: 'SHARE_LINK_EXPIRED', message: 'This share link has expired' });
+    }
+  }
+
+  private assertPermission(permissions: AccessAction[], action: AccessAction): void {
+    if (!permissions.includes(action)) {
+      throw new ForbiddenException({ code: 'ACCESS_FORBIDDEN', message: `This share link does not allow '${action}'` });
+    }
+  }
+
+  // 새 링크에는 요청한 쪽이 가진 권한만 줄 수 있고, 수정/삭제 권한은 소유자만 줄 수 있음
+  private assertGrantable(access: FlipbookAccess, permissions: AccessAction[]): void {
+    const denied = permissions.filter(
+      (permission) =>
+        !access.permissions.includes(permission) ||
+        (access.via !== 'owner' && OWNER_GRANTED_ACTIONS.includes(permission)),
+    );
+
+    if (denied.length > 0) {
+      throw new ForbiddenException({
+        code: 'ACCESS_FORBIDDEN',
+        message: `Cannot grant '${denied.join("', '")}' with this share link`,
+      });
+    }
+  }
+
+  // 만료 시각을 시간 단위로 올림해 같은 시간대에는 에셋 URL이 바뀌지 않도록 함 (브라우저 캐시 유지)
+  private assetTokenExpiry(): number {
+    const hour = 60 * 60 * 1000;
+    return Math.ceil((Date.now() + this.accessTokenTtl * 1000) / hour) * hour;
+  }
+
+  private signAccessToken(payload: AccessTokenPayload): string {
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${body}.${this.sign(body)}`;
+  }
+
+  private verifyAccessToken(token: string): AccessTokenPayload {
+    const [body, signature] = token.split('.');
+    const expected = body ? this.sign(body) : '';
+
+    if (
+      !signature ||
+      signature.length !== expected.length ||
+      !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+    ) {
+      throw new UnauthorizedException({ code: 'INVALID_ACCESS_TOKEN', message: 'Invalid access token' });
+    }
+
+    const payload: AccessTokenPayload = JSON.parse(Buffer.from(body, 'base64url').toString());
+    if (payload.exp <= Date.now()) {
+      throw new UnauthorizedException({ code: 'ACCESS_TOKEN_EXPIRED', message: 'Access token has expired' });
+    }
+
+    return payload;
+  }
+
+  private sign(value: string): string {
+    return createHmac('sha256', this.secret).update(value).digest('base64url');
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16).toString('hex');
+    const hash = await scryptAsync(password, salt, 64);
+    return `${salt}:${hash.toString('hex')}`;
+  }
+
+  private async verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [salt, hash] = stored.split(':');
+    const candidate = await scryptAsync(password, salt, 64);
+    return timingSafeEqual(candidate, Buffer.from(hash, 'hex'));
+  }
+
+  // passwordHash는 select: false이므로 비밀번호 설정 여부 확인이 필요할 때만 함께 조회
+  private selectWithPassword(): (keyof ShareLink)[] {
+    return [
+      'id', 'flipbookId', 'tokenHash', 'tokenPrefix', 'label', 'passwordHash', 'permissions',
+      'expiresAt', 'maxViews', 'viewCount', 'lastUsedAt', 'revokedAt', 'createdAt',
+    ];
+  }
+
+  private toResponse(shareLink: ShareLink): ShareLinkResponseDto {
+    return {
+      id: shareLink.id,
+      flipbookId: shareLink.flipbookId,
+      label: shareLink.label,
+      tokenPrefix: shareLink.tokenPrefix,
+      hasPassword: !!shareLink.passwordHash,
+      permissions: shareLink.permissions,
+      expiresAt: shareLink.expiresAt,
+      maxViews: shareLink.maxViews,
+      viewCount: shareLink.viewCount,
+      lastUsedAt: shareLink.lastUsedAt,
+      revokedAt: shareLink.revokedAt,
+      createdAt: shareLink.createdAt,
+    };
+  }
+}
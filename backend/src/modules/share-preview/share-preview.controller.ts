@@ -0,0 +1,52 @@
+import { Controller, Get, Param, Query, Req, Res } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { SharePreviewService } from './share-preview.service';
+
+@Controller()
+export class SharePreviewController {
+  constructor(private readonly sharePreviewService: SharePreviewService) {}
+
+  // 공유 링크 미리보기용 리더 HTML (프론트엔드 호스트에서 /view/*를 이 경로로 프록시)
+  // 쿼리(share, theme 등)는 SPA가 그대로 해석하므로 DTO로 검증하지 않음
+  @Get('view/:slug')
+  async getReaderPage(@Param('slug') slug: string, @Req() req: Request, @Res() res: Response) {
+    const queryIndex = req.originalUrl.indexOf('?');
+    const search = queryIndex >= 0 ? req.originalUrl.slice(queryIndex) : '';
+    const page = await this.sharePreviewService.renderReaderPage(slug, search);
+
+    if ('redirect' in page) {
+      res.redirect(301, page.redirect);
+      return;
+    }
+
+    res.status(page.status);
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    res.setHeader('Cache-Control', page.cacheable ? 'public, max-age=300' : 'no-store');
+    res.send(page.html);
+  }
+
+  // https://oembed.com/ (Notion, WordPress, Slack 등의 자동 임베드)
+  @Get('oembed')
+  async getOEmbed(
+    @Query('url') url: string,
+    @Query('format') format: string,
+    @Query('maxwidth') maxwidth: string,
+    @Query('maxheight') maxheight: string,
+    @Res() res: Response,
+  ) {
+    const oembed = await this.sharePreviewService.getOEmbed({
+      url,
+      format,
+      maxwidth: parseInt(maxwidth, 10) || undefined,
+      maxheight: parseInt(maxheight, 10) || undefined,
+    });
+
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    if (format === 'xml') {
+      res.type('text/xml; charset=utf-8').send(this.sharePreviewService.toOEmbedXml(oembed));
+    } else {
+      res.json(oembed);
+    }
+  }
+}
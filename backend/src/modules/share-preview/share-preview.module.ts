@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { SharePreviewController } from './share-preview.controller';
+import { SharePreviewService } from './share-preview.service';
+import { Flipbook } from '../../entities/flipbook.entity';
+import { Page } from '../../entities/page.entity';
+import { FlipbookModule } from '../flipbook/flipbook.module';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Flipbook, Page]), FlipbookModule],
+  controllers: [SharePreviewController],
+  providers: [SharePreviewService],
+})
+export class SharePreviewModule {}
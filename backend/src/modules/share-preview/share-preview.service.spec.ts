@@ -0,0 +1,65 @@
+import { HttpStatus, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { SharePreviewService } from './share-preview.service';
+import { FlipbookSlugService } from '../flipbook/flipbook-slug.service';
+import { FlipbookVersionService } from '../flipbook/flipbook-version.service';
+import { Flipbook } from '../../entities/flipbook.entity';
+import { Page } from '../../entities/page.entity';
+import { AppConfig } from '../../config/app.config';
+
+describe('SharePreviewService', () => {
+  let flipbookSlugService: jest.Mocked<Pick<FlipbookSlugService, 'resolve'>>;
+  let service: SharePreviewService;
+
+  beforeEach(async () => {
+    // 슬러그(또는 예전 슬러그)는 남아 있지만 플립북은 지워진 상태
+    flipbookSlugService = { resolve: jest.fn().mockResolvedValue({ flipbookId: 'deleted-flipbook', redirected: false }) };
+    const flipbookRepository: jest.Mocked<Pick<Repository<Flipbook>, 'findOne'>> = {
+      findOne: jest.fn().mockResolvedValue(null),
+    };
+
+    const config: AppConfig = {
+      name: 'FlipCanva',
+      baseUrl: 'https://flipcanva.example',
+      indexHtmlPath: '/nonexistent/index.html',
+      offlineReaderPath: '/nonexistent/offline',
+      soundsPath: '/nonexistent/sounds',
+    };
+    const configService: Pick<ConfigService, 'get'> = { get: jest.fn().mockReturnValue(config) };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        SharePreviewService,
+        { provide: getRepositoryToken(Flipbook), useValue: flipbookRepository },
+        { provide: getRepositoryToken(Page), useValue: {} },
+        { provide: FlipbookSlugService, useValue: flipbookSlugService },
+        { provide: FlipbookVersionService, useValue: {} },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+
+    service = moduleRef.get(SharePreviewService);
+  });
+
+  describe('renderReaderPage', () => {
+    it.each([false, true])('answers a missing flipbook like an unknown slug (redirected: %s)', async (redirected) => {
+      flipbookSlugService.resolve.mockResolvedValue({ flipbookId: 'deleted-flipbook', redirected });
+
+      const page = await service.renderReaderPage('spring-catalog', '');
+
+      expect(page).toMatchObject({ status: HttpStatus.NOT_FOUND, cacheable: false });
+      expect(page).toHaveProperty('html', expect.stringContaining('<title>FlipCanva</title>'));
+    });
+  });
+
+  describe('getOEmbed', () => {
+    it('rejects a missing flipbook with 404', async () => {
+      await expect(
+        service.getOEmbed({ url: 'https://flipcanva.example/view/spring-catalog' }),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,291 @@
+import {
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { readFile } from 'fs/promises';
+import { resolve } from 'path';
+import { Flipbook, FlipbookVisibility } from '../../entities/flipbook.entity';
+import { Page } from '../../entities/page.entity';
+import { FlipbookSlugService } from '../flipbook/flipbook-slug.service';
+import { FlipbookVersionService } from '../flipbook/flipbook-version.service';
+import { OEmbedRequest, OEmbedResponseDto } from '../../dto/oembed.dto';
+import { AppConfig } from '../../config/app.config';
+
+// 링크 미리보기 이미지는 1200px 안팎이 권장되므로 가장 가까운 JPEG 변형을 사용
+const PREVIEW_IMAGE_MIN_WIDTH = 960;
+const DEFAULT_EMBED_WIDTH = 800;
+const DEFAULT_EMBED_HEIGHT = 600;
+const DESCRIPTION_MAX_LENGTH = 200;
+
+// index.html을 읽을 수 없을 때 쓰는 최소 문서
+const FALLBACK_INDEX_HTML = `<!DOCTYPE html>
+<html lang="ko">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title></title>
+  </head>
+  <body></body>
+</html>`;
+
+export interface PreviewImage {
+  url: string;
+  width?: number;
+  height?: number;
+}
+
+export type ReaderPage =
+  | { status: number; html: string; cacheable: boolean }
+  | { redirect: string };
+
+@Injectable()
+export class SharePreviewService {
+  private readonly logger = new Logger(SharePreviewService.name);
+  private readonly config: AppConfig;
+  private indexHtml?: Promise<string>;
+
+  constructor(
+    @InjectRepository(Flipbook)
+    private flipbookRepository: Repository<Flipbook>,
+    @InjectRepository(Page)
+    private pageRepository: Repository<Page>,
+    private flipbookSlugService: FlipbookSlugService,
+    private flipbookVersionService: FlipbookVersionService,
+    private configService: ConfigService,
+  ) {
+    this.config = this.configService.get<AppConfig>('app');
+  }
+
+  // 크롤러가 읽을 수 있도록 리더 HTML에 Open Graph/Twitter Card 태그를 넣어 응답
+  // 비공개/일부 공개 플립북은 제목 등을 노출하지 않고 검색 색인도 막음
+  async renderReaderPage(slug: string, search: string): Promise<ReaderPage> {
+    const resolved = await this.flipbookSlugService.resolve(slug).catch((error) => {
+      if (error instanceof NotFoundException) return null;
+      throw error;
+    });
+
+    // 슬러그는 남아 있지만 플립북이 지워진 경우도 찾을 수 없는 슬러그와 똑같이 응답
+    const flipbook = resolved && await this.flipbookRepository.findOne({ where: { id: resolved.flipbookId } });
+    if (!flipbook) {
+      return { status: HttpStatus.NOT_FOUND, html: await this.injectTags(this.genericTags()), cacheable: false };
+    }
+
+    if (resolved.redirected) {
+      return { redirect: `/view/${encodeURIComponent(flipbook.slug)}${search}` };
+    }
+
+    if (flipbook.visibility !== FlipbookVisibility.PUBLIC) {
+      return { status: HttpStatus.OK, html: await this.injectTags(this.genericTags()), cacheable: false };
+    }
+
+    const published = await this.flipbookVersionService.published(flipbook);
+    const image = await this.previewImage(published);
+    return { status: HttpStatus.OK, html: await this.injectTags(this.flipbookTags(published, image)), cacheable: true };
+  }
+
+  async getOEmbed(query: OEmbedRequest): Promise<OEmbedResponseDto> {
+    const format = query.format || 'json';
+    if (format !== 'json' && format !== 'xml') {
+      throw new HttpException(`Unsupported oEmbed format: ${format}`, HttpStatus.NOT_IMPLEMENTED);
+    }
+
+    let target: URL;
+    try {
+      target = new URL(query.url);
+    } catch {
+      throw new BadRequestException('url must be a valid URL');
+    }
+    const match = target.pathname.match(/^\/view\/([^/]+)\/?$/);
+    if (!match) {
+      throw new NotFoundException(`No flipbook found for ${query.url}`);
+    }
+
+    const { flipbookId } = await this.flipbookSlugService.resolve(decodeURIComponent(match[1]));
+    const found = await this.flipbookRepository.findOne({ where: { id: flipbookId } });
+    if (!found) {
+      throw new NotFoundException(`No flipbook found for ${query.url}`);
+    }
+    if (found.visibility !== FlipbookVisibility.PUBLIC) {
+      throw new UnauthorizedException('Flipbook is not public');
+    }
+
+    const flipbook = await this.flipbookVersionService.published(found);
+    const image = await this.previewImage(flipbook);
+    const { width, height } = this.embedSize(image, query.maxwidth, query.maxheight);
+    // 공유 옵션(controls, theme 등)은 유지하고 공유 링크 토큰은 제외
+    target.searchParams.delete('share');
+    const search = target.searchParams.toString();
+    const src = `${this.readerUrl(flipbook)}${search ? `?${search}` : ''}`;
+
+    return {
+      type: 'rich',
+      version: '1.0',
+      title: flipbook.title,
+      provider_name: this.config.name,
+      provider_url: this.config.baseUrl,
+      html: `<iframe src="${this.escape(src)}" width="${width}" height="${height}" style="border:none;" title="${this.escape(flipbook.title)}" loading="lazy" allowfullscreen></iframe>`,
+      width,
+      height,
+      ...(image && {
+        thumbnail_url: image.url,
+        thumbnail_width: image.width,
+        thumbnail_height: image.height,
+      }),
+    };
+  }
+
+  toOEmbedXml(response: OEmbedResponseDto): string {
+    const fields = Object.entries(response)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `  <${key}>${this.escape(String(value))}</${key}>`)
+      .join('\n');
+
+    return `<?xml version="1.0" encoding="utf-8" standalone="yes"?>\n<oembed>\n${fields}\n</oembed>`;
+  }
+
+  private flipbookTags(flipbook: Flipbook, image?: PreviewImage): string[] {
+    const url = this.readerUrl(flipbook);
+    const description = this.describe(flipbook);
+    const oembedUrl = (format: string) =>
+      `${this.config.baseUrl}/oembed?url=${encodeURIComponent(url)}&format=${format}`;
+
+    const tags = [
+      `<title>${this.escape(flipbook.title)} | ${this.escape(this.config.name)}</title>`,
+      this.meta('name', 'description', description),
+      `<link rel="canonical" href="${this.escape(url)}" />`,
+      this.meta('property', 'og:type', 'website'),
+      this.meta('property', 'og:site_name', this.config.name),
+      this.meta('property', 'og:title', flipbook.title),
+      this.meta('property', 'og:description', description),
+      this.meta('property', 'og:url', url),
+      this.meta('name', 'twitter:card', image ? 'summary_large_image' : 'summary'),
+      this.meta('name', 'twitter:title', flipbook.title),
+      this.meta('name', 'twitter:description', description),
+      `<link rel="alternate" type="application/json+oembed" href="${this.escape(oembedUrl('json'))}" title="${this.escape(flipbook.title)}" />`,
+      `<link rel="alternate" type="text/xml+oembed" href="${this.escape(oembedUrl('xml'))}" title="${this.escape(flipbook.title)}" />`,
+    ];
+
+    if (image) {
+      tags.push(
+        this.meta('property', 'og:image', image.url),
+        this.meta('property', 'og:image:alt', flipbook.title),
+        this.meta('name', 'twitter:image', image.url),
+      );
+      if (image.width && image.height) {
+        tags.push(
+          this.meta('property', 'og:image:width', String(image.width)),
+          this.meta('property', 'og:image:height', String(image.height)),
+        );
+      }
+    }
+
+    return tags;
+  }
+
+  private genericTags(): string[] {
+    return [
+      `<title>${this.escape(this.config.name)}</title>`,
+      this.meta('property', 'og:site_name', this.config.name),
+      this.meta('property', 'og:title', this.config.name),
+      this.meta('name', 'robots', 'noindex'),
+    ];
+  }
+
+  // 첫 페이지의 JPEG 변형 → 원본 → 썸네일 순으로 미리보기 이미지 선택
+  // 게시한 버전으로 바꾼 플립북은 그 버전의 페이지를 사용
+  private async previewImage(flipbook: Flipbook): Promise<PreviewImage | undefined> {
+    const page = flipbook.pages
+      ? flipbook.pages[0]
+      : await this.pageRepository.findOne({
+        where: { flipbookId: flipbook.id },
+        order: { pageIndex: 'ASC' },
+      });
+    if (!page) {
+      return undefined;
+    }
+
+    const jpegVariants = (page.variants || [])
+      .filter((variant) => variant.format === 'jpeg')
+      .sort((a, b) => a.width - b.width);
+    const variant = jpegVariants.find((candidate) => candidate.width >= PREVIEW_IMAGE_MIN_WIDTH);
+    if (variant) {
+      return { url: variant.url, width: variant.width, height: variant.height };
+    }
+
+    if (page.imageUrl) {
+      return { url: page.imageUrl, width: page.originalWidth, height: page.originalHeight };
+    }
+    return page.thumbnailUrl ? { url: page.thumbnailUrl } : undefined;
+  }
+
+  // 첫 페이지 비율을 유지하면서 maxwidth/maxheight 안에 맞춤
+  private embedSize(image: PreviewImage | undefined, maxWidth?: number, maxHeight?: number) {
+    const aspectRatio = image?.width && image?.height
+      ? image.width / image.height
+      : DEFAULT_EMBED_WIDTH / DEFAULT_EMBED_HEIGHT;
+
+    let width = maxWidth > 0 ? Math.min(DEFAULT_EMBED_WIDTH, maxWidth) : DEFAULT_EMBED_WIDTH;
+    let height = Math.round(width / aspectRatio);
+    if (maxHeight > 0 && height > maxHeight) {
+      height = maxHeight;
+      width = Math.round(height * aspectRatio);
+    }
+
+    return { width, height };
+  }
+
+  private describe(flipbook: Flipbook): string {
+    const description = flipbook.description?.replace(/\s+/g, ' ').trim()
+      || `${flipbook.title} - ${flipbook.pageCount}페이지 플립북`;
+
+    return description.length > DESCRIPTION_MAX_LENGTH
+      ? `${description.slice(0, DESCRIPTION_MAX_LENGTH - 1)}…`
+      : description;
+  }
+
+  private readerUrl(flipbook: Flipbook): string {
+    return `${this.config.baseUrl}/view/${encodeURIComponent(flipbook.slug)}`;
+  }
+
+  // 프론트엔드 index.html의 <title>을 바꾸고 </head> 앞에 태그 삽입
+  private async injectTags(tags: string[]): Promise<string> {
+    const template = await this.loadIndexHtml();
+    const [title, ...rest] = tags;
+
+    return template
+      .replace(/<title>[\s\S]*?<\/title>/i, title)
+      .replace(/\s*<\/head>/i, `\n    ${rest.join('\n    ')}\n  </head>`);
+  }
+
+  private loadIndexHtml(): Promise<string> {
+    if (!this.indexHtml) {
+      const path = resolve(this.config.indexHtmlPath);
+      this.indexHtml = readFile(path, 'utf8').catch(() => {
+        this.logger.warn(`Frontend index.html not found at ${path}, serving minimal reader HTML`);
+        return FALLBACK_INDEX_HTML;
+      });
+    }
+    return this.indexHtml;
+  }
+
+  private meta(attribute: 'name' | 'property', key: string, content: string): string {
+    return `<meta ${attribute}="${key}" content="${this.escape(content)}" />`;
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
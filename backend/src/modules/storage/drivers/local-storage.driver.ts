@@ -0,0 +1,60 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { BadRequestException } from '@nestjs/common';
+import { StorageDriver, StoredObject } from './storage-driver.interface';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.avif': 'image/avif',
+};
+
+export class LocalStorageDriver implements StorageDriver {
+  private readonly root: string;
+
+  constructor(rootPath: string) {
+    this.root = path.resolve(rootPath);
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    try {
+      const body = await fs.readFile(this.resolve(key));
+      return {
+        body,
+        contentType: CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream',
+        size: body.length,
+      };
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  async deletePrefix(prefix: string): Promise<void> {
+    await fs.rm(this.resolve(prefix), { recursive: true, force: true });
+  }
+
+  // 저장소 루트 밖으로 벗어나는 키(../ 등) 차단
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new BadRequestException(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,15 @@
+export const STORAGE_DRIVER = 'STORAGE_DRIVER';
+
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+  size: number;
+}
+
+// 파일 시스템, S3 호환 스토리지 등 저장소 구현이 따라야 하는 인터페이스
+export interface StorageDriver {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+  deletePrefix(prefix: string): Promise<void>;
+}
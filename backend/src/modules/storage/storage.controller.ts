@@ -0,0 +1,70 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  Headers,
+  Req,
+  Res,
+  HttpStatus,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { createHash } from 'crypto';
+import { StorageService } from './storage.service';
+import { ShareLinkService } from '../share-link/share-link.service';
+import { ImageRenditionQueryDto } from '../../dto/image-rendition.dto';
+
+@Controller('assets')
+export class StorageController {
+  constructor(
+    private readonly storageService: StorageService,
+    private readonly shareLinkService: ShareLinkService,
+  ) {}
+
+  // 저장 키에 내용 해시가 포함되어 있으므로 장기 캐시(immutable) 허용
+  // w/h/q/f 쿼리가 있으면 원본 대신 리사이즈/재압축된 렌디션을 반환
+  // 비공개/일부 공개 플립북의 에셋은 304 응답 전에 접근 토큰부터 확인
+  @Get('*')
+  async getAsset(
+    @Param('0') key: string,
+    @Query() query: ImageRenditionQueryDto,
+    @Headers('if-none-match') ifNoneMatch: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const access = await this.shareLinkService.resolveAssetAccess(
+      key,
+      this.shareLinkService.credentialsFrom(req),
+    );
+    const cacheControl = access.via === 'public'
+      ? 'public, max-age=31536000, immutable'
+      : 'private, max-age=3600';
+
+    const { w, h, q, f } = query;
+    const isRendition = [w, h, q, f].some((value) => value !== undefined);
+    const etagSource = isRendition ? `${key}?w=${w ?? ''}&h=${h ?? ''}&q=${q ?? ''}&f=${f ?? ''}` : key;
+    const etag = `"${createHash('sha1').update(etagSource).digest('hex')}"`;
+
+    if (ifNoneMatch === etag) {
+      res.setHeader('Cache-Control', cacheControl);
+      res.setHeader('ETag', etag);
+      res.status(HttpStatus.NOT_MODIFIED).end();
+      return;
+    }
+
+    const asset = isRendition
+      ? await this.storageService.getRendition(key, {
+          width: w,
+          height: h,
+          quality: q,
+          format: f === 'jpg' ? 'jpeg' : f,
+        })
+      : await this.storageService.getObject(key);
+
+    res.setHeader('Cache-Control', cacheControl);
+    res.setHeader('ETag', etag);
+    res.setHeader('Content-Type', asset.contentType);
+    res.setHeader('Content-Length', asset.size);
+    res.send(asset.body);
+  }
+}
@@ -0,0 +1,37 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { StorageController } from './storage.controller';
+import { StorageService } from './storage.service';
+import { STORAGE_DRIVER, StorageDriver } from './drivers/storage-driver.interface';
+import { LocalStorageDriver } from './drivers/local-storage.driver';
+import { S3StorageDriver } from './drivers/s3-storage.driver';
+import { StorageConfig } from '../../config/storage.config';
+import { ShareLinkModule } from '../share-link/share-link.module';
+
+@Module({
+  imports: [ConfigModule, ShareLinkModule],
+  controllers: [StorageController],
+  providers: [
+    {
+      provide: STORAGE_DRIVER,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService): StorageDriver => {
+        const config = configService.get<StorageConfig>('storage');
+
+        if (config.driver === 's3') {
+          return new S3StorageDriver({
+            bucket: config.s3.bucket,
+            region: config.s3.region,
+            endpoint: config.s3.endpoint,
+            forcePathStyle: config.s3.forcePathStyle,
+          });
+        }
+
+        return new LocalStorageDriver(config.localPath);
+      },
+    },
+    StorageService,
+  ],
+  exports: [StorageService],
+})
+export class StorageModule {}
@@ -0,0 +1,261 @@
+import { Injectable, Inject, NotFoundException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import * as sharp from 'sharp';
+import { extname } from 'path';
+import { STORAGE_DRIVER, StorageDriver, StoredObject } from './drivers/storage-driver.interface';
+import { LocalStorageDriver } from './drivers/local-storage.driver';
+import { StorageConfig } from '../../config/storage.config';
+import { MAX_RENDITION_DIMENSION } from '../../dto/image-rendition.dto';
+
+// 반응형 이미지용 가로 폭 (원본보다 큰 폭은 생성하지 않음)
+export const IMAGE_VARIANT_WIDTHS = [480, 960, 1600];
+export const THUMBNAIL_WIDTH = 240;
+
+export type ImageVariantFormat = 'webp' | 'jpeg';
+
+export interface StoredImageVariant {
+  width: number;
+  height: number;
+  format: ImageVariantFormat;
+  key: string;
+  url: string;
+  size: number;
+}
+
+export interface StoredPageImage {
+  storageKey: string;
+  // 원본 바이트의 SHA-256 (Canva 동기화에서 바뀐 페이지를 찾는 데 사용)
+  contentHash: string;
+  cdnUrl: string;
+  thumbnailUrl: string;
+  fileSize: number;
+  mimeType: string;
+  width: number;
+  height: number;
+  hasTransparency: boolean;
+  variants: StoredImageVariant[];
+}
+
+export type RenditionFormat = 'webp' | 'avif' | 'jpeg' | 'png';
+
+export interface ImageRenditionOptions {
+  width?: number;
+  height?: number;
+  quality?: number;
+  format?: RenditionFormat;
+}
+
+type NormalizedRendition = ImageRenditionOptions & Pick<Required<ImageRenditionOptions>, 'quality' | 'format'>;
+
+// 요청 폭/높이와 품질을 단계별로 맞춰 캐시되는 렌디션 수를 제한
+const RENDITION_SIZE_STEP = 64;
+const RENDITION_QUALITY_STEP = 5;
+const DEFAULT_RENDITION_QUALITY = 80;
+
+const RENDITION_SOURCE_FORMATS: Record<string, RenditionFormat> = {
+  '.png': 'png',
+  '.jpg': 'jpeg',
+  '.jpeg': 'jpeg',
+  '.webp': 'webp',
+  '.avif': 'avif',
+};
+
+const VARIANT_FORMATS: ImageVariantFormat[] = ['webp', 'jpeg'];
+
+export const contentHash = (source: Buffer): string => createHash('sha256').update(source).digest('hex');
+
+const EXTENSIONS: Record<string, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  webp: 'webp',
+  gif: 'gif',
+};
+
+@Injectable()
+export class StorageService {
+  private readonly logger = new Logger(StorageService.name);
+  private readonly publicBaseUrl: string;
+  private readonly renditionCache: LocalStorageDriver;
+  private readonly pendingRenditions = new Map<string, Promise<StoredObject>>();
+
+  constructor(
+    @Inject(STORAGE_DRIVER)
+    private readonly driver: StorageDriver,
+    private readonly configService: ConfigService,
+  ) {
+    const config = this.configService.get<StorageConfig>('storage');
+    this.publicBaseUrl = config.publicBaseUrl.replace(/\/$/, '');
+    this.renditionCache = new LocalStorageDriver(config.renditionCachePath);
+  }
+
+  // 페이지 원본 이미지를 저장하고 썸네일과 폭별 WebP/JPEG 변형을 생성
+  async storePageImage(flipbookId: string, source: Buffer): Promise<StoredPageImage> {
+    const image = sharp(source);
+    const metadata = await image.metadata();
+    const { isOpaque } = await image.stats();
+
+    const extension = EXTENSIONS[metadata.format];
+    if (!extension) {
+      throw new Error(`Unsupported image format: ${metadata.format || 'unknown'}`);
+    }
+
+    // 내용 해시를 키에 포함해 같은 이미지는 같은 경로를 쓰고 캐시를 영구적으로 둘 수 있게 함
+    const hash = contentHash(source);
+    const prefix = `${this.flipbookPrefix(flipbookId)}/${hash.slice(0, 16)}`;
+    const storageKey = `${prefix}/original.${extension}`;
+    const mimeType = `image/${metadata.format}`;
+
+    await this.driver.put(storageKey, source, mimeType);
+
+    const widths = IMAGE_VARIANT_WIDTHS.filter((width) => width < metadata.width);
+    const variants: StoredImageVariant[] = [];
+    for (const width of widths) {
+      for (const format of VARIANT_FORMATS) {
+        variants.push(await this.storeVariant(source, prefix, `w${width}`, width, format));
+      }
+    }
+
+    const thumbnail = await this.storeVariant(source, prefix, 'thumbnail', THUMBNAIL_WIDTH, 'webp');
+
+    return {
+      storageKey,
+      contentHash: hash,
+      cdnUrl: this.getPublicUrl(storageKey),
+      thumbnailUrl: thumbnail.url,
+      fileSize: source.length,
+      mimeType,
+      width: metadata.width,
+      height: metadata.height,
+      hasTransparency: !isOpaque,
+      variants,
+    };
+  }
+
+  async getObject(key: string): Promise<StoredObject> {
+    const object = await this.driver.get(key);
+
+    if (!object) {
+      throw new NotFoundException(`Asset ${key} not found`);
+    }
+
+    return object;
+  }
+
+  // 저장된 이미지를 요청한 크기/품질/포맷으로 변환해 반환 (결과는 로컬 디스크에 캐시)
+  async getRendition(key: string, options: ImageRenditionOptions): Promise<StoredObject> {
+    const rendition = this.normalizeRendition(key, options);
+    const extension = rendition.format === 'jpeg' ? 'jpg' : rendition.format;
+    const cacheKey = `${key}/${rendition.width || 'auto'}x${rendition.height || 'auto'}-q${rendition.quality}.${extension}`;
+
+    const cached = await this.renditionCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    // 같은 렌디션에 대한 동시 요청은 한 번만 변환
+    let pending = this.pendingRenditions.get(cacheKey);
+    if (!pending) {
+      pending = this.renderRendition(key, cacheKey, rendition).finally(() => {
+        this.pendingRenditions.delete(cacheKey);
+      });
+      this.pendingRenditions.set(cacheKey, pending);
+    }
+
+    return pending;
+  }
+
+  async deleteFlipbookAssets(flipbookId: string): Promise<void> {
+    try {
+      await this.driver.deletePrefix(this.flipbookPrefix(flipbookId));
+      await this.renditionCache.deletePrefix(this.flipbookPrefix(flipbookId));
+    } catch (error) {
+      this.logger.warn(`Failed to delete assets for flipbook ${flipbookId}: ${error.message}`);
+    }
+  }
+
+  getPublicUrl(key: string): string {
+    return `${this.publicBaseUrl}/assets/${key}`;
+  }
+
+  private flipbookPrefix(flipbookId: string): string {
+    return `flipbooks/${flipbookId}`;
+  }
+
+  private normalizeRendition(key: string, options: ImageRenditionOptions): NormalizedRendition {
+    const roundUp = (size?: number) =>
+      size ? Math.min(Math.ceil(size / RENDITION_SIZE_STEP) * RENDITION_SIZE_STEP, MAX_RENDITION_DIMENSION) : undefined;
+    const quality = options.quality
+      ? Math.round(options.quality / RENDITION_QUALITY_STEP) * RENDITION_QUALITY_STEP
+      : DEFAULT_RENDITION_QUALITY;
+
+    return {
+      width: roundUp(options.width),
+      height: roundUp(options.height),
+      quality: Math.max(RENDITION_QUALITY_STEP, Math.min(quality, 100)),
+      format: options.format || RENDITION_SOURCE_FORMATS[extname(key).toLowerCase()] || 'jpeg',
+    };
+  }
+
+  private async renderRendition(
+    key: string,
+    cacheKey: string,
+    { width, height, quality, format }: NormalizedRendition,
+  ): Promise<StoredObject> {
+    const original = await this.getObject(key);
+
+    let pipeline = sharp(original.body);
+    if (width || height) {
+      pipeline = pipeline.resize({ width, height, fit: 'inside', withoutEnlargement: true });
+    }
+
+    switch (format) {
+      case 'webp':
+        pipeline = pipeline.webp({ quality });
+        break;
+      case 'avif':
+        pipeline = pipeline.avif({ quality });
+        break;
+      case 'png':
+        pipeline = pipeline.png({ quality, palette: quality < 100 });
+        break;
+      default:
+        pipeline = pipeline.flatten({ background: '#ffffff' }).jpeg({ quality, mozjpeg: true });
+    }
+
+    const body = await pipeline.toBuffer();
+
+    // 캐시 저장 실패는 응답에 영향을 주지 않음 (다음 요청에서 다시 변환)
+    await this.renditionCache.put(cacheKey, body).catch((error) => {
+      this.logger.warn(`Failed to cache rendition ${cacheKey}: ${error.message}`);
+    });
+
+    return { body, contentType: `image/${format}`, size: body.length };
+  }
+
+  private async storeVariant(
+    source: Buffer,
+    prefix: string,
+    name: string,
+    width: number,
+    format: ImageVariantFormat,
+  ): Promise<StoredImageVariant> {
+    let pipeline = sharp(source).resize({ width, withoutEnlargement: true });
+    pipeline = format === 'webp'
+      ? pipeline.webp({ quality: 80 })
+      : pipeline.flatten({ background: '#ffffff' }).jpeg({ quality: 82, mozjpeg: true });
+
+    const { data, info } = await pipeline.toBuffer({ resolveWithObject: true });
+    const key = `${prefix}/${name}.${format === 'jpeg' ? 'jpg' : 'webp'}`;
+    await this.driver.put(key, data, `image/${format}`);
+
+    return {
+      width: info.width,
+      height: info.height,
+      format,
+      key,
+      url: this.getPublicUrl(key),
+      size: data.length,
+    };
+  }
+}
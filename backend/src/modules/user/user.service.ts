@@ -0,0 +1,94 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { User } from '../../entities/user.entity';
+import { SignUpDto, LoginDto, UserProfileDto } from '../../dto/auth.dto';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+// 없는 이메일로 로그인해도 비밀번호 확인과 같은 시간이 걸리도록 비교할 해시
+const DUMMY_PASSWORD_HASH = `${'0'.repeat(32)}:${'0'.repeat(128)}`;
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+@Injectable()
+export class UserService {
+  constructor(
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+  ) {}
+
+  async create(signUpDto: SignUpDto): Promise<User> {
+    const email = normalizeEmail(signUpDto.email);
+
+    if (await this.userRepository.exists({ where: { email } })) {
+      throw new ConflictException({ code: 'EMAIL_TAKEN', message: 'An account with this email already exists' });
+    }
+
+    const user = await this.userRepository.save(
+      this.userRepository.create({
+        email,
+        passwordHash: await this.hashPassword(signUpDto.password),
+        name: signUpDto.name,
+      }),
+    );
+    delete user.passwordHash;
+    return user;
+  }
+
+  // 이메일과 비밀번호가 맞으면 사용자를 반환 (어느 쪽이 틀렸는지는 알려주지 않음)
+  async verifyCredentials(loginDto: LoginDto): Promise<User> {
+    const user = await this.userRepository.findOne({
+      where: { email: normalizeEmail(loginDto.email) },
+      select: ['id', 'email', 'passwordHash', 'name', 'lastLoginAt', 'createdAt', 'updatedAt'],
+    });
+
+    const valid = await this.verifyPassword(loginDto.password, user?.passwordHash || DUMMY_PASSWORD_HASH);
+    if (!user || !valid) {
+      throw new UnauthorizedException({ code: 'INVALID_CREDENTIALS', message: 'Incorrect email or password' });
+    }
+
+    user.lastLoginAt = new Date();
+    await this.userRepository.update({ id: user.id }, { lastLoginAt: user.lastLoginAt });
+    delete user.passwordHash;
+    return user;
+  }
+
+  async findOne(id: string): Promise<User> {
+    const user = await this.userRepository.findOne({ where: { id } });
+
+    if (!user) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+
+    return user;
+  }
+
+  toProfile(user: User): UserProfileDto {
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      createdAt: user.createdAt,
+    };
+  }
+
+  private async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16).toString('hex');
+    const hash = await scryptAsync(password, salt, 64);
+    return `${salt}:${hash.toString('hex')}`;
+  }
+
+  private async verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [salt, hash] = stored.split(':');
+    const candidate = await scryptAsync(password, salt, 64);
+    return timingSafeEqual(candidate, Buffer.from(hash, 'hex'));
+  }
+}
@@ -1,4 +1,6 @@
 // 통합 API 핸들러 - 모든 API 요청을 처리
+const crypto = require('crypto');
+
 const uuidv4 = () => {
   return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
     var r = Math.random() * 16 | 0, v = c == 'x' ? r : (r & 0x3 | 0x8);
@@ -9,47 +11,59 @@ const uuidv4 = () => {
 // 메모리 기반 임시 저장소
 let flipbooks = [];
 
-// Mock 디자인 데이터
-const mockDesignData = {
-  'DAGh8bZ9l9E': {
-    id: 'DAGh8bZ9l9E',
-    title: 'Mock Design DAGh8bZ9l9E',
-    created_at: new Date().toISOString(),
-    updated_at: new Date().toISOString(),
-    thumbnail: {
-      url: 'https://via.placeholder.com/800x600?text=Design+DAGh8bZ9l9E',
-      width: 800,
-      height: 600,
-    }
+// 백엔드 Canva 시뮬레이터(CanvaSimulatorService)와 같은 디자인/페이지 데이터
+// 페이지 이미지는 외부 placeholder 서비스 대신 이 함수가 시뮬레이터와 같은 SVG로 직접 응답
+const SIMULATED_PAGE_COUNT = 3;
+const SIMULATED_PAGE_WIDTH = 800;
+const SIMULATED_PAGE_HEIGHT = 1200;
+const SIMULATED_DESIGN_ID_PATTERN = /^[A-Za-z0-9_-]{5,64}$/;
+
+const simulatedPageUrl = (designId, pageNumber) =>
+  `/api/canva/files/${encodeURIComponent(designId)}/pages/${pageNumber}`;
+
+const simulatedDesign = (designId) => ({
+  id: designId,
+  title: `Simulated design ${designId}`,
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString(),
+  thumbnail: {
+    url: simulatedPageUrl(designId, 1),
+    width: SIMULATED_PAGE_WIDTH,
+    height: SIMULATED_PAGE_HEIGHT,
   }
+});
+
+const simulatedExport = (designId, format) => {
+  const pages = Array.from({ length: SIMULATED_PAGE_COUNT }, (_, index) => ({
+    id: `${designId}_page_${index + 1}`,
+    url: simulatedPageUrl(designId, index + 1),
+    width: SIMULATED_PAGE_WIDTH,
+    height: SIMULATED_PAGE_HEIGHT,
+  }));
+
+  return {
+    designId,
+    format,
+    pages,
+    totalPages: pages.length,
+    exportedAt: new Date().toISOString()
+  };
 };
 
-const mockExportData = (designId) => ({
-  designId,
-  format: 'PNG',
-  pages: [
-    {
-      id: `${designId}_page_1`,
-      url: `https://placehold.co/800x1200/667eea/ffffff/png?text=Page+1`,
-      width: 800,
-      height: 1200,
-    },
-    {
-      id: `${designId}_page_2`,
-      url: `https://placehold.co/800x1200/764ba2/ffffff/png?text=Page+2`,
-      width: 800,
-      height: 1200,
-    },
-    {
-      id: `${designId}_page_3`,
-      url: `https://placehold.co/800x1200/a8e6cf/ffffff/png?text=Page+3`,
-      width: 800,
-      height: 1200,
-    }
-  ],
-  totalPages: 3,
-  exportedAt: new Date().toISOString()
-});
+// 시뮬레이터의 renderPage와 같은 색(디자인 ID/페이지 번호로 정함)과 문구
+const renderSimulatedPage = (designId, pageNumber) => {
+  const seed = crypto.createHash('sha256').update(`${designId}/${pageNumber}/1.png`).digest();
+  const hue = seed.readUInt16BE(0) % 360;
+  const escape = (value) => value.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+  const width = SIMULATED_PAGE_WIDTH;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${SIMULATED_PAGE_HEIGHT}">
+  <rect width="100%" height="100%" fill="hsl(${hue}, 55%, 50%)"/>
+  <text x="50%" y="42%" font-family="sans-serif" font-size="${Math.round(width / 8)}" fill="#fff" text-anchor="middle">${pageNumber}</text>
+  <text x="50%" y="52%" font-family="sans-serif" font-size="${Math.round(width / 24)}" fill="#fff" text-anchor="middle">${escape(`Simulated design ${designId}`)}</text>
+  <text x="50%" y="58%" font-family="sans-serif" font-size="${Math.round(width / 32)}" fill="#fff" text-anchor="middle">revision 1</text>
+</svg>`;
+};
 
 exports.handler = async (event, context) => {
   console.log('🔥 API Request:', event.httpMethod, event.path, event.body);
@@ -125,8 +139,7 @@ exports.handler = async (event, context) => {
 
         case canvaPath === 'validate-design' && method === 'POST':
           const { designId } = body;
-          const designIdPattern = /^DAG[a-zA-Z0-9_-]{8,}$/;
-          const isValid = designIdPattern.test(designId);
+          const isValid = SIMULATED_DESIGN_ID_PATTERN.test(designId || '');
           
           return {
             statusCode: 200,
@@ -135,17 +148,7 @@ exports.handler = async (event, context) => {
               success: true,
               data: {
                 isValid,
-                designInfo: isValid ? mockDesignData[designId] || {
-                  id: designId,
-                  title: `Mock Design ${designId}`,
-                  created_at: new Date().toISOString(),
-                  updated_at: new Date().toISOString(),
-                  thumbnail: {
-                    url: `https://via.placeholder.com/800x600?text=Design+${designId}`,
-                    width: 800,
-                    height: 600,
-                  }
-                } : undefined
+                designInfo: isValid ? simulatedDesign(designId) : undefined
               }
             }),
           };
@@ -157,10 +160,38 @@ exports.handler = async (event, context) => {
             headers,
             body: JSON.stringify({
               success: true,
-              data: mockExportData(exportDesignId)
+              data: simulatedExport(exportDesignId, format)
             }),
           };
 
+        case canvaPath.startsWith('files/') && method === 'GET': {
+          // files/:designId/pages/:pageNumber
+          const [, fileDesignId, , pageNumber] = canvaPath.split('?')[0].split('/');
+          const page = parseInt(pageNumber, 10);
+          const designIdValue = decodeURIComponent(fileDesignId || '');
+
+          if (!SIMULATED_DESIGN_ID_PATTERN.test(designIdValue) || !(page >= 1 && page <= SIMULATED_PAGE_COUNT)) {
+            return {
+              statusCode: 404,
+              headers,
+              body: JSON.stringify({
+                success: false,
+                error: { message: `Page not found: ${canvaPath}`, code: 'NOT_FOUND' }
+              }),
+            };
+          }
+
+          return {
+            statusCode: 200,
+            headers: {
+              ...headers,
+              'Content-Type': 'image/svg+xml',
+              'Cache-Control': 'public, max-age=31536000, immutable',
+            },
+            body: renderSimulatedPage(designIdValue, page),
+          };
+        }
+
         default:
           return {
             statusCode: 404,
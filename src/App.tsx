@@ -1,41 +1,54 @@
 import { useState, useEffect } from 'react';
+import { BrowserRouter, Routes, Route, useNavigate } from 'react-router-dom';
 import { CanvaLinkInput } from './components/CanvaLinkInput';
+import { FileUploadInput } from './components/FileUploadInput';
 import { FlipbookProcessor } from './components/FlipbookProcessor';
 import { CanvaAuth } from './components/CanvaAuth';
-import { canvaApiService } from './services/canvaApi';
+import { FlipbookReader } from './components/FlipbookReader';
+import { LoginForm } from './components/LoginForm';
+import { canvaApiService, CanvaConnection } from './services/canvaApi';
+import { authApiService } from './services/authApi';
+import { flipbookApiService } from './services/flipbookApi';
+import { AuthUser } from './types/auth';
+import { ImportJobState } from './types/flipbook';
 import './components/CanvaLinkInput.css';
+import './components/FileUploadInput.css';
 import './components/FlipbookProcessor.css';
 import './components/CanvaAuth.css';
 import './App.css';
 
-function App() {
+// 플립북 생성 화면 (Canva 링크 입력 또는 PDF/이미지 업로드 → 변환)
+function Home() {
   const [validatedDesignId, setValidatedDesignId] = useState<string | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [authError, setAuthError] = useState<string | null>(null);
-  const [showAuth, setShowAuth] = useState(false);
+  // Canva 인증 후 ?code=...로 돌아왔으면 인증 패널을 열어 코드 교환을 마무리
+  const [showAuth, setShowAuth] = useState(() => new URLSearchParams(window.location.search).has('code'));
   const [currentDesignId, setCurrentDesignId] = useState<string>(''); // 기본 테스트 ID
+  const [user, setUser] = useState<AuthUser | null>(authApiService.currentUser);
+  const [sessionChecked, setSessionChecked] = useState(false);
+  const navigate = useNavigate();
+
+  // 세션 만료나 다른 곳에서의 로그아웃을 반영
+  useEffect(() => authApiService.subscribe(setUser), []);
 
-  // 페이지 로드 시 저장된 토큰 확인
+  // 페이지 로드 시 세션 쿠키로 로그인 상태 복원
   useEffect(() => {
-    const savedToken = localStorage.getItem('canva_access_token');
-    const tokenExpires = localStorage.getItem('canva_token_expires');
-    
-    if (savedToken && tokenExpires) {
-      const expiresAt = parseInt(tokenExpires);
-      if (Date.now() < expiresAt) {
-        // 토큰이 유효함
-        canvaApiService.setAccessToken(savedToken);
-        setIsAuthenticated(true);
-        console.log('✅ 저장된 Canva 토큰으로 자동 로그인됨');
-      } else {
-        // 토큰 만료
-        localStorage.removeItem('canva_access_token');
-        localStorage.removeItem('canva_token_expires');
-        console.log('⚠️ Canva 토큰이 만료되어 제거됨');
-      }
-    }
+    authApiService.restore().finally(() => setSessionChecked(true));
   }, []);
 
+  // Canva 연결 상태는 서버가 계정별로 보관 (토큰은 브라우저에 없음)
+  useEffect(() => {
+    if (!user) {
+      setIsAuthenticated(false);
+      return;
+    }
+
+    canvaApiService.getConnection().then(result => {
+      setIsAuthenticated(!!result.data?.connected);
+    });
+  }, [user]);
+
   const handleValidDesignId = (designId: string) => {
     setValidatedDesignId(designId);
     setCurrentDesignId(designId);
@@ -52,9 +65,18 @@ function App() {
     setValidatedDesignId(designId);
   };
 
-  const handleAuthSuccess = (accessToken: string) => {
-    canvaApiService.setAccessToken(accessToken);
-    setIsAuthenticated(true);
+  // 업로드로 만든 플립북을 리더(/view/:slug)로 열기
+  const handleUploadComplete = async (state: ImportJobState) => {
+    if (!state.flipbookId) return;
+
+    const result = await flipbookApiService.getFlipbook(state.flipbookId, false);
+    if (result.success && result.data) {
+      navigate(`/view/${encodeURIComponent(result.data.slug)}`);
+    }
+  };
+
+  const handleAuthSuccess = (connection: CanvaConnection) => {
+    setIsAuthenticated(connection.connected);
     setShowAuth(false);
     setAuthError(null);
     console.log('✅ Canva 인증 성공! 실제 API 사용 가능');
@@ -83,20 +105,27 @@ function App() {
     }
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('canva_access_token');
-    localStorage.removeItem('canva_token_expires');
-    canvaApiService.setAccessToken('');
+  const handleLogout = async () => {
+    await canvaApiService.disconnect();
     setIsAuthenticated(false);
     setAuthError(null);
-    console.log('🚪 Canva 로그아웃 완료');
+    console.log('🚪 Canva 연결 해제 완료');
   };
 
   return (
     <div className="app">
       <header className="app-header">
         <h1>FlipCanva</h1>
-        <p>캔바 디자인을 플립북으로 변환하세요</p>
+        <p>캔바 디자인이나 PDF·이미지를 플립북으로 변환하세요</p>
+
+        {user && (
+          <div className="account-status">
+            <span>👤 {user.name || user.email}</span>
+            <button className="account-logout-btn" onClick={() => authApiService.logout()}>
+              로그아웃
+            </button>
+          </div>
+        )}
         
         {/* Canva 인증 상태 표시 */}
         <div className="auth-status">
@@ -151,27 +180,38 @@ function App() {
           </section>
         )}
 
-        <section className="input-section">
-          <CanvaLinkInput
-            onValidDesignId={handleValidDesignId}
-            onValidationError={handleValidationError}
-          />
-        </section>
-
-        <section className="result-section">
-          <FlipbookProcessor
-            designId={currentDesignId || validatedDesignId}
-            onDesignIdChange={handleDesignIdChange}
-            onSuccess={(result) => {
-              console.log('Flipbook created successfully:', result);
-              // TODO: Navigate to flipbook viewer
-            }}
-            onCancel={() => {
-              setValidatedDesignId(null);
-              setCurrentDesignId('');
-            }}
-          />
-        </section>
+        {user ? (
+          <>
+            <section className="input-section">
+              <CanvaLinkInput
+                onValidDesignId={handleValidDesignId}
+                onValidationError={handleValidationError}
+              />
+              <div className="input-divider">또는</div>
+              <FileUploadInput onUploadComplete={handleUploadComplete} />
+            </section>
+
+            <section className="result-section">
+              <FlipbookProcessor
+                designId={currentDesignId || validatedDesignId}
+                onDesignIdChange={handleDesignIdChange}
+                onSuccess={(result) => {
+                  console.log('Flipbook created successfully:', result);
+                  // TODO: Navigate to flipbook viewer
+                }}
+                onCancel={() => {
+                  setValidatedDesignId(null);
+                  setCurrentDesignId('');
+                }}
+              />
+            </section>
+          </>
+        ) : sessionChecked && (
+          // 플립북을 만들고 관리하려면 계정 로그인 필요
+          <section className="input-section">
+            <LoginForm />
+          </section>
+        )}
       </main>
 
       <footer className="app-footer">
@@ -181,4 +221,16 @@ function App() {
   );
 }
 
-export default App;
\ No newline at end of file
+function App() {
+  return (
+    <BrowserRouter>
+      <Routes>
+        {/* 공유 링크용 리더 (앱 헤더 없이 전체 화면) */}
+        <Route path="/view/:slug" element={<FlipbookReader />} />
+        <Route path="*" element={<Home />} />
+      </Routes>
+    </BrowserRouter>
+  );
+}
+
+export default App;
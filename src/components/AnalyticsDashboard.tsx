@@ -0,0 +1,318 @@
+import React from 'react';
+import { flipbookApiService } from '../services/flipbookApi';
+import { FlipbookAnalytics, EmbedStats } from '../types/flipbook';
+import { downloadAnalyticsCsv } from '../utils/analyticsExport';
+import { LoadingSpinner } from './LoadingSpinner';
+import './AnalyticsDashboard.css';
+
+interface AnalyticsDashboardProps {
+  flipbookId: string;
+  title?: string;
+  pageCount?: number;
+  onClose?: () => void;
+}
+
+const RANGE_OPTIONS = [
+  { days: 7, label: '최근 7일' },
+  { days: 30, label: '최근 30일' },
+  { days: 90, label: '최근 90일' }
+];
+
+const DEVICE_LABELS: Record<string, string> = {
+  mobile: '모바일',
+  tablet: '태블릿',
+  desktop: '데스크톱'
+};
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}초`;
+  return `${Math.floor(seconds / 60)}분 ${seconds % 60}초`;
+};
+
+const formatPercent = (ratio: number): string => `${Math.round(ratio * 100)}%`;
+
+// 디바이스/리퍼러/언어 분포를 막대 목록으로 표시
+const BreakdownList: React.FC<{
+  title: string;
+  breakdown: Record<string, number>;
+  labels?: Record<string, string>;
+}> = ({ title, breakdown, labels = {} }) => {
+  const entries = Object.entries(breakdown).sort(([, a], [, b]) => b - a);
+  const total = entries.reduce((sum, [, count]) => sum + count, 0);
+
+  return (
+    <div className="analytics-card">
+      <h4>{title}</h4>
+      {entries.length === 0 ? (
+        <p className="analytics-empty">데이터가 없습니다</p>
+      ) : (
+        <ul className="breakdown-list">
+          {entries.map(([key, count]) => (
+            <li key={key}>
+              <div className="breakdown-label">
+                <span>{labels[key] || key}</span>
+                <span>{count} ({formatPercent(count / total)})</span>
+              </div>
+              <div className="breakdown-bar">
+                <div style={{ width: `${(count / total) * 100}%` }} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// 임베드 위치(추적 ID)/도메인별 조회와 상호작용 표
+const EmbedStatsTable: React.FC<{
+  title: string;
+  keyLabel: string;
+  rows: EmbedStats[];
+}> = ({ title, keyLabel, rows }) => (
+  <div className="analytics-card">
+    <h4>{title}</h4>
+    {rows.length === 0 ? (
+      <p className="analytics-empty">데이터가 없습니다</p>
+    ) : (
+      <table className="embed-stats-table">
+        <thead>
+          <tr>
+            <th>{keyLabel}</th>
+            <th>조회</th>
+            <th>순 방문자</th>
+            <th>클릭</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.key}>
+              <td>{row.key === 'unknown' ? '알 수 없음' : row.key}</td>
+              <td>{row.views}</td>
+              <td>{row.uniqueViews}</td>
+              <td>{row.interactions}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+export const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({
+  flipbookId,
+  title,
+  pageCount,
+  onClose
+}) => {
+  const [rangeDays, setRangeDays] = React.useState(30);
+  const [analytics, setAnalytics] = React.useState<FlipbookAnalytics | null>(null);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const loadAnalytics = React.useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const to = new Date();
+    const from = new Date(to.getTime() - rangeDays * 24 * 60 * 60 * 1000);
+    const response = await flipbookApiService.getAnalytics(flipbookId, {
+      from: from.toISOString(),
+      to: to.toISOString()
+    });
+
+    if (response.success && response.data) {
+      setAnalytics(response.data);
+    } else {
+      setError(response.error?.message || '분석 데이터를 불러오지 못했습니다.');
+    }
+    setIsLoading(false);
+  }, [flipbookId, rangeDays]);
+
+  React.useEffect(() => {
+    loadAnalytics();
+  }, [loadAnalytics]);
+
+  const handleExportCsv = () => {
+    if (!analytics) return;
+    const date = new Date().toISOString().slice(0, 10);
+    downloadAnalyticsCsv(analytics, `${title || flipbookId}-analytics-${date}.csv`);
+  };
+
+  // 페이지 수는 플립북 정보가 있으면 우선 사용하고, 없으면 퍼널 길이로 추정
+  const totalPages = pageCount ?? analytics?.dropOff.length ?? 0;
+  const attentionByPage = new Map(analytics?.pageAttention.map(page => [page.pageIndex, page]) || []);
+  const maxAttention = Math.max(1, ...(analytics?.pageAttention.map(page => page.averageTime) || []));
+  const maxDailyViews = Math.max(1, ...(analytics?.viewsOverTime.map(day => day.views + day.embedViews) || []));
+  const funnelBase = analytics?.dropOff[0]?.readers || 0;
+
+  return (
+    <div className="analytics-dashboard">
+      <div className="analytics-header">
+        <div>
+          <h3>📊 플립북 분석</h3>
+          {title && <p>{title}</p>}
+        </div>
+        <div className="analytics-controls">
+          <select
+            value={rangeDays}
+            onChange={(e) => setRangeDays(parseInt(e.target.value, 10))}
+          >
+            {RANGE_OPTIONS.map(option => (
+              <option key={option.days} value={option.days}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            className="analytics-export-button"
+            onClick={handleExportCsv}
+            disabled={!analytics}
+          >
+            CSV 내보내기
+          </button>
+          {onClose && (
+            <button className="back-button" onClick={onClose}>
+              닫기
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isLoading && !analytics && (
+        <LoadingSpinner status="loading" message="분석 데이터를 불러오는 중..." />
+      )}
+
+      {error && (
+        <div className="analytics-error">
+          <p>{error}</p>
+          <button onClick={loadAnalytics}>다시 시도</button>
+        </div>
+      )}
+
+      {analytics && (
+        <>
+          {/* 요약 */}
+          <div className="analytics-summary">
+            <div className="analytics-stat">
+              <strong>{analytics.totalViews}</strong>
+              <span>총 조회수</span>
+            </div>
+            <div className="analytics-stat">
+              <strong>{analytics.uniqueViews}</strong>
+              <span>순 방문자</span>
+            </div>
+            <div className="analytics-stat">
+              <strong>{formatDuration(analytics.averageSessionTime)}</strong>
+              <span>평균 세션 시간</span>
+            </div>
+            <div className="analytics-stat">
+              <strong>{formatDuration(analytics.averagePageTime)}</strong>
+              <span>평균 페이지 체류</span>
+            </div>
+            <div className="analytics-stat">
+              <strong>{formatPercent(analytics.conversionRate)}</strong>
+              <span>완독률</span>
+            </div>
+            <div className="analytics-stat">
+              <strong>{analytics.embeds.views}</strong>
+              <span>임베드 조회수</span>
+            </div>
+          </div>
+
+          {/* 기간별 조회수 */}
+          <div className="analytics-card">
+            <h4>일별 조회수</h4>
+            <div className="views-chart">
+              {analytics.viewsOverTime.map(day => (
+                <div
+                  key={day.date}
+                  className="views-chart-column"
+                  title={`${day.date}: 조회 ${day.views} / 순 방문자 ${day.uniqueViews} / 임베드 조회 ${day.embedViews}`}
+                >
+                  {day.embedViews > 0 && (
+                    <div
+                      className="views-chart-bar views-chart-bar-embed"
+                      style={{ height: `${(day.embedViews / maxDailyViews) * 100}%` }}
+                    />
+                  )}
+                  <div
+                    className="views-chart-bar"
+                    style={{ height: `${(day.views / maxDailyViews) * 100}%` }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="views-chart-axis">
+              <span>{analytics.viewsOverTime[0]?.date}</span>
+              <span>{analytics.viewsOverTime[analytics.viewsOverTime.length - 1]?.date}</span>
+            </div>
+          </div>
+
+          {/* 페이지별 체류 시간 히트맵 */}
+          <div className="analytics-card">
+            <h4>페이지별 관심도 (평균 체류 시간)</h4>
+            {totalPages === 0 ? (
+              <p className="analytics-empty">페이지가 없습니다</p>
+            ) : (
+              <div className="attention-heatmap">
+                {Array.from({ length: totalPages }, (_, pageIndex) => {
+                  const attention = attentionByPage.get(pageIndex);
+                  const intensity = attention ? attention.averageTime / maxAttention : 0;
+                  return (
+                    <div
+                      key={pageIndex}
+                      className="attention-cell"
+                      style={{ backgroundColor: `rgba(124, 58, 237, ${0.08 + intensity * 0.92})` }}
+                      title={attention
+                        ? `${pageIndex + 1}페이지: 평균 ${formatDuration(attention.averageTime)}, 조회 ${attention.views}`
+                        : `${pageIndex + 1}페이지: 데이터 없음`}
+                    >
+                      <span className={intensity > 0.5 ? 'attention-label-light' : ''}>{pageIndex + 1}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* 이탈 퍼널 */}
+          <div className="analytics-card">
+            <h4>이탈 퍼널 (페이지별 남은 독자)</h4>
+            {funnelBase === 0 ? (
+              <p className="analytics-empty">데이터가 없습니다</p>
+            ) : (
+              <ul className="dropoff-funnel">
+                {analytics.dropOff.map(step => (
+                  <li key={step.pageIndex}>
+                    <span className="dropoff-page">{step.pageIndex + 1}p</span>
+                    <div className="dropoff-bar">
+                      <div style={{ width: `${(step.readers / funnelBase) * 100}%` }} />
+                    </div>
+                    <span className="dropoff-value">
+                      {step.readers} ({formatPercent(step.readers / funnelBase)})
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* 분포 */}
+          <div className="analytics-breakdowns">
+            <BreakdownList title="디바이스" breakdown={analytics.deviceBreakdown} labels={DEVICE_LABELS} />
+            <BreakdownList title="유입 경로" breakdown={analytics.referrerBreakdown} labels={{ direct: '직접 방문' }} />
+            <BreakdownList title="언어" breakdown={analytics.languageBreakdown} labels={{ unknown: '알 수 없음' }} />
+          </div>
+
+          {/* 외부 사이트 임베드 */}
+          <div className="analytics-breakdowns">
+            <EmbedStatsTable title="임베드 위치별 조회" keyLabel="추적 ID" rows={analytics.embeds.byTrackingId} />
+            <EmbedStatsTable title="임베드 사이트별 조회" keyLabel="도메인" rows={analytics.embeds.byDomain} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
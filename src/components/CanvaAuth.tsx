@@ -1,8 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { canvaApiService } from '../services/canvaApi';
+import { canvaApiService, CanvaConnection } from '../services/canvaApi';
 
 interface CanvaAuthProps {
-  onAuthSuccess: (accessToken: string) => void;
+  onAuthSuccess: (connection: CanvaConnection) => void;
   onAuthError: (error: string) => void;
 }
 
@@ -17,6 +17,7 @@ export const CanvaAuth: React.FC<CanvaAuthProps> = ({
     // URL에서 인증 코드 확인 (callback에서)
     const urlParams = new URLSearchParams(window.location.search);
     const code = urlParams.get('code');
+    const state = urlParams.get('state');
     const error = urlParams.get('error');
 
     if (error) {
@@ -25,34 +26,19 @@ export const CanvaAuth: React.FC<CanvaAuthProps> = ({
     }
 
     if (code) {
-      handleAuthCallback(code);
+      handleAuthCallback(code, state || '');
     }
   }, []);
 
-  const handleAuthCallback = async (code: string) => {
+  const handleAuthCallback = async (code: string, state: string) => {
     setIsAuthenticating(true);
     
     try {
-      // Netlify Functions를 통한 토큰 교환
-      const response = await fetch('/.netlify/functions/canva-auth', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          code,
-          code_verifier: sessionStorage.getItem('canva_code_verifier')
-        }),
-      });
+      // 서버가 state로 인증 세션을 확인해 토큰으로 교환하고 로그인한 계정에 연결 (브라우저에는 토큰을 돌려주지 않음)
+      const result = await canvaApiService.handleAuthCallback(code, state);
 
-      const data = await response.json();
-
-      if (data.success && data.access_token) {
-        // 토큰을 localStorage에 저장
-        localStorage.setItem('canva_access_token', data.access_token);
-        localStorage.setItem('canva_token_expires', Date.now() + (data.expires_in * 1000));
-        
-        onAuthSuccess(data.access_token);
+      if (result.success && result.data?.connected) {
+        onAuthSuccess(result.data);
         
         // URL 정리
         window.history.replaceState({}, document.title, window.location.pathname);
@@ -62,7 +48,7 @@ export const CanvaAuth: React.FC<CanvaAuthProps> = ({
           alert('🎉 Canva 인증 완료!\n\n✅ 실제 Canva 디자인을 사용할 수 있습니다.\n✅ 상단에 "Canva 연동됨" 표시를 확인하세요.\n\n이제 Canva 링크를 입력하여 플립북을 만들어보세요!');
         }, 500);
       } else {
-        throw new Error(data.error?.message || '토큰 교환 실패');
+        throw new Error(result.error?.message || '토큰 교환 실패');
       }
     } catch (error) {
       console.error('Auth callback error:', error);
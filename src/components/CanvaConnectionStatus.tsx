@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { canvaApiService } from '../services/canvaApi';
+import { canvaApiService, CanvaConnection } from '../services/canvaApi';
 
 interface CanvaConnectionStatusProps {
   onConnectionChange?: (isConnected: boolean) => void;
@@ -9,8 +9,7 @@ export const CanvaConnectionStatus: React.FC<CanvaConnectionStatusProps> = ({
   onConnectionChange
 }) => {
   const [connectionStatus, setConnectionStatus] = useState<'checking' | 'connected' | 'disconnected' | 'error'>('checking');
-  const [accessToken, setAccessToken] = useState<string | null>(null);
-  const [userInfo, setUserInfo] = useState<any>(null);
+  const [connection, setConnection] = useState<CanvaConnection | null>(null);
   const [lastChecked, setLastChecked] = useState<Date | null>(null);
   const [error, setError] = useState<string | null>(null);
 
@@ -19,28 +18,16 @@ export const CanvaConnectionStatus: React.FC<CanvaConnectionStatusProps> = ({
       setConnectionStatus('checking');
       setError(null);
       
-      // Check if access token exists
-      const token = canvaApiService.getAccessToken();
-      setAccessToken(token);
+      // 토큰은 서버가 계정별로 보관하고 만료 전에 자동 갱신하므로 연결 상태만 물어봄
+      const response = await canvaApiService.getConnection();
       
-      if (!token) {
-        setConnectionStatus('disconnected');
-        onConnectionChange?.(false);
-        return;
+      if (!response.success || !response.data) {
+        throw new Error(response.error?.message || '연결 상태를 확인하지 못했습니다.');
       }
 
-      // Test API connection with user info
-      const userResponse = await canvaApiService.getCurrentUser();
-      
-      if (userResponse.success && userResponse.data) {
-        setConnectionStatus('connected');
-        setUserInfo(userResponse.data);
-        onConnectionChange?.(true);
-      } else {
-        setConnectionStatus('disconnected');
-        setError('토큰이 만료되었거나 유효하지 않습니다.');
-        onConnectionChange?.(false);
-      }
+      setConnection(response.data);
+      setConnectionStatus(response.data.connected ? 'connected' : 'disconnected');
+      onConnectionChange?.(response.data.connected);
     } catch (err) {
       setConnectionStatus('error');
       setError(err instanceof Error ? err.message : '연결 확인 중 오류가 발생했습니다.');
@@ -50,14 +37,22 @@ export const CanvaConnectionStatus: React.FC<CanvaConnectionStatusProps> = ({
     }
   };
 
-  const handleConnect = () => {
-    window.location.href = canvaApiService.generateAuthUrl();
+  const handleConnect = async () => {
+    try {
+      window.location.href = await canvaApiService.generateAuthUrl();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Canva 인증 URL 생성 실패');
+    }
   };
 
-  const handleDisconnect = () => {
-    canvaApiService.clearTokens();
-    setAccessToken(null);
-    setUserInfo(null);
+  const handleDisconnect = async () => {
+    const response = await canvaApiService.disconnect();
+    if (!response.success) {
+      setError(response.error?.message || '연결 해제에 실패했습니다.');
+      return;
+    }
+
+    setConnection(response.data || null);
     setConnectionStatus('disconnected');
     onConnectionChange?.(false);
   };
@@ -65,21 +60,10 @@ export const CanvaConnectionStatus: React.FC<CanvaConnectionStatusProps> = ({
   useEffect(() => {
     checkConnection();
     
-    // Listen for storage changes to detect OAuth completion
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === 'canva_access_token') {
-        console.log('🔄 Token change detected, rechecking connection...');
-        setTimeout(checkConnection, 500); // Small delay to ensure token is fully set
-      }
-    };
-    
-    window.addEventListener('storage', handleStorageChange);
-    
-    // Also check periodically in case storage event doesn't fire
+    // 다른 탭에서 연결/해제했을 수도 있으므로 주기적으로 다시 확인
     const interval = setInterval(checkConnection, 30000); // Every 30 seconds
     
     return () => {
-      window.removeEventListener('storage', handleStorageChange);
       clearInterval(interval);
     };
   }, []);
@@ -189,7 +173,7 @@ export const CanvaConnectionStatus: React.FC<CanvaConnectionStatusProps> = ({
       </div>
 
       {/* Connection Details */}
-      {connectionStatus === 'connected' && userInfo && (
+      {connectionStatus === 'connected' && connection && (
         <div style={{
           marginTop: '8px',
           padding: '8px',
@@ -197,9 +181,11 @@ export const CanvaConnectionStatus: React.FC<CanvaConnectionStatusProps> = ({
           borderRadius: '4px',
           fontSize: '12px'
         }}>
-          <div><strong>사용자:</strong> {userInfo.display_name || userInfo.email || 'N/A'}</div>
-          {accessToken && (
-            <div><strong>토큰:</strong> {accessToken.substring(0, 20)}...</div>
+          {connection.connectedAt && (
+            <div><strong>연결:</strong> {new Date(connection.connectedAt).toLocaleString('ko-KR')}</div>
+          )}
+          {connection.scope && (
+            <div><strong>권한:</strong> {connection.scope}</div>
           )}
         </div>
       )}
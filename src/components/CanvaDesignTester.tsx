@@ -54,9 +54,10 @@ export const CanvaDesignTester: React.FC<CanvaDesignTesterProps> = ({
       
       // 2. 연결된 경우 실제 디자인 정보 가져오기
       let designInfo = null;
-      const hasToken = canvaApiService.getAccessToken();
+      const connection = await canvaApiService.getConnection();
+      const isConnected = !!connection.data?.connected;
       
-      if (hasToken) {
+      if (isConnected) {
         try {
           console.log('🔍 Attempting to get real design info for:', designId);
           const designResult = await canvaApiService.getDesign(designId);
@@ -70,14 +71,14 @@ export const CanvaDesignTester: React.FC<CanvaDesignTesterProps> = ({
           console.log('❌ Real design info failed:', error);
         }
       } else {
-        console.log('🔒 No access token, skipping real design fetch');
+        console.log('🔒 Canva not connected, skipping real design fetch');
       }
 
       setTestResult({
         designId,
         validation: validationResult,
         designInfo: designInfo,
-        isConnected: !!canvaApiService.getAccessToken(),
+        isConnected,
         url: testUrl.trim()
       });
 
@@ -0,0 +1,232 @@
+import React, { useRef, useState } from 'react';
+import { importJobApiService } from '../services/importJobApi';
+import { ImportJobState } from '../types/flipbook';
+
+interface FileUploadInputProps {
+  onUploadComplete?: (state: ImportJobState) => void;
+  onUploadError?: (error: string) => void;
+}
+
+type UploadStatus =
+  | { status: 'idle' }
+  | { status: 'processing'; progress: number; step: string }
+  | { status: 'success'; state: ImportJobState }
+  | { status: 'error'; message: string };
+
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.gif'];
+const ACCEPT = ['.pdf', '.zip', ...IMAGE_EXTENSIONS].join(',');
+
+const extensionOf = (file: File) => file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+
+// 백엔드와 같은 규칙: PDF는 1개만, ZIP과 이미지는 함께 올릴 수 있음
+const validateFiles = (files: File[]): string | null => {
+  const unsupported = files.find(file => ![...IMAGE_EXTENSIONS, '.pdf', '.zip'].includes(extensionOf(file)));
+  if (unsupported) {
+    return `${unsupported.name}: PDF, ZIP 또는 이미지(${IMAGE_EXTENSIONS.join(', ')}) 파일만 올릴 수 있습니다.`;
+  }
+  if (files.some(file => extensionOf(file) === '.pdf') && files.length > 1) {
+    return 'PDF는 한 번에 하나만 올릴 수 있습니다.';
+  }
+  return null;
+};
+
+// 파일 이름 순서대로 페이지가 만들어지도록 정렬 (page2 < page10)
+const sortByName = (files: File[]) =>
+  [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }));
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)}MB` : `${Math.max(1, Math.round(bytes / 1024))}KB`;
+
+// CanvaLinkInput과 나란히 쓰는 PDF/이미지 업로드 입력 (드래그 앤 드롭 또는 파일 선택)
+export const FileUploadInput: React.FC<FileUploadInputProps> = ({
+  onUploadComplete,
+  onUploadError
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [title, setTitle] = useState('');
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [upload, setUpload] = useState<UploadStatus>({ status: 'idle' });
+
+  const isBusy = upload.status === 'processing';
+
+  const fail = (message: string) => {
+    setUpload({ status: 'error', message });
+    onUploadError?.(message);
+  };
+
+  const addFiles = (added: File[]) => {
+    if (added.length === 0 || isBusy) return;
+
+    // PDF를 고르면 기존 목록을 대체하고, 이미지/ZIP은 목록에 추가
+    const next = added.some(file => extensionOf(file) === '.pdf') ? added : sortByName([...files, ...added]);
+    const error = validateFiles(next);
+    if (error) {
+      fail(error);
+      return;
+    }
+
+    setFiles(next);
+    setUpload({ status: 'idle' });
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (!isBusy) setIsDragOver(true);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files || []));
+    // 같은 파일을 다시 고를 수 있도록 초기화
+    e.target.value = '';
+  };
+
+  const removeFile = (index: number) => {
+    setFiles(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleUpload = async () => {
+    if (files.length === 0) return;
+
+    setUpload({ status: 'processing', progress: 0, step: '파일 업로드 중...' });
+    const jobResult = await importJobApiService.uploadImportJob({
+      files,
+      title: title.trim() || undefined
+    });
+
+    if (!jobResult.success || !jobResult.data) {
+      fail(jobResult.error?.message || '파일을 업로드하지 못했습니다.');
+      return;
+    }
+
+    const finalResult = await importJobApiService.waitForImportJob(jobResult.data.jobId, (state) => {
+      setUpload({ status: 'processing', progress: state.progress, step: state.currentStep || '처리 중...' });
+    });
+    const finalState = finalResult.data;
+
+    if (!finalResult.success || !finalState) {
+      fail(finalResult.error?.message || '가져오기 상태를 확인하지 못했습니다.');
+      return;
+    }
+    if (finalState.status === 'error') {
+      fail(finalState.error?.message || '플립북을 만들지 못했습니다.');
+      return;
+    }
+
+    setUpload({ status: 'success', state: finalState });
+    setFiles([]);
+    setTitle('');
+    onUploadComplete?.(finalState);
+  };
+
+  return (
+    <div className="file-upload-input">
+      <span className="input-label">PDF 또는 이미지 업로드</span>
+
+      <div
+        className={`drop-zone ${isDragOver ? 'drag-over' : ''} ${isBusy ? 'disabled' : ''}`}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={handleDrop}
+        onClick={() => !isBusy && fileInputRef.current?.click()}
+        onKeyDown={(e) => {
+          if ((e.key === 'Enter' || e.key === ' ') && !isBusy) {
+            e.preventDefault();
+            fileInputRef.current?.click();
+          }
+        }}
+        role="button"
+        tabIndex={0}
+        aria-disabled={isBusy}
+      >
+        <span className="drop-zone-icon">📄</span>
+        <p>파일을 여기로 끌어오거나 클릭해서 선택하세요</p>
+        <p className="drop-zone-hint">PDF 1개, 이미지 ZIP 또는 이미지 여러 장 (파일 이름 순서대로 페이지가 됩니다)</p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPT}
+          multiple
+          onChange={handleFileChange}
+          hidden
+        />
+      </div>
+
+      {files.length > 0 && (
+        <>
+          <ul className="file-list">
+            {files.map((file, index) => (
+              <li key={`${file.name}-${index}`}>
+                <span className="file-name">{file.name}</span>
+                <span className="file-size">{formatSize(file.size)}</span>
+                {!isBusy && (
+                  <button
+                    type="button"
+                    className="file-remove-button"
+                    onClick={() => removeFile(index)}
+                    aria-label={`${file.name} 제거`}
+                  >
+                    ✕
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div className="input-wrapper">
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="플립북 제목 (비워 두면 파일 이름 사용)"
+              className="input-field"
+              maxLength={200}
+              disabled={isBusy}
+            />
+            <button
+              type="button"
+              onClick={handleUpload}
+              disabled={isBusy}
+              className="validate-button"
+            >
+              {isBusy ? '처리 중...' : '플립북 만들기'}
+            </button>
+          </div>
+        </>
+      )}
+
+      {upload.status === 'processing' && (
+        <div className="upload-progress">
+          <div className="upload-progress-bar">
+            <div className="upload-progress-fill" style={{ width: `${upload.progress}%` }} />
+          </div>
+          <span>{upload.step}</span>
+        </div>
+      )}
+
+      {upload.status === 'success' && (
+        <div className="validation-result success">
+          <div className="success-message">
+            <span className="icon">✅</span>
+            <p>플립북을 만들었습니다! ({upload.state.totalPages}페이지)</p>
+          </div>
+        </div>
+      )}
+
+      {upload.status === 'error' && (
+        <div className="validation-result error">
+          <div className="error-message">
+            <span className="icon">❌</span>
+            <p>{upload.message}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
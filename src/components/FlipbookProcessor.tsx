@@ -3,13 +3,16 @@ import { useErrorHandler } from '../hooks/useErrorHandler';
 import { ErrorDisplay } from './ErrorDisplay';
 import { LoadingSpinner } from './LoadingSpinner';
 import FlipbookViewer from './FlipbookViewer';
+import { AnalyticsDashboard } from './AnalyticsDashboard';
+import { VersionHistory } from './VersionHistory';
 import { createAppError } from '../utils/errorMessages';
 import { ErrorCode } from '../types/error';
 import { canvaApiService } from '../services/canvaApi';
 import { CanvaConnectionStatus } from './CanvaConnectionStatus';
 import { CanvaDesignTester } from './CanvaDesignTester';
 import { flipbookApiService } from '../services/flipbookApi';
-import { FlipbookMetadata, PageMetadata } from '../types/flipbook';
+import { importJobApiService } from '../services/importJobApi';
+import { CreateFlipbookRequest, FlipbookMetadata, PageMetadata } from '../types/flipbook';
 import './ErrorDisplay.css';
 import './LoadingSpinner.css';
 
@@ -29,10 +32,13 @@ export const FlipbookProcessor: React.FC<FlipbookProcessorProps> = React.memo(({
   const [isCompleted, setIsCompleted] = React.useState(false);
   const [completedResult, setCompletedResult] = React.useState<any>(null);
   const [showViewer, setShowViewer] = React.useState(false);
+  const [showAnalytics, setShowAnalytics] = React.useState(false);
+  const [showVersions, setShowVersions] = React.useState(false);
   const [currentPage, setCurrentPage] = React.useState(0);
   const [processCache, setProcessCache] = React.useState<Map<string, any>>(new Map());
   const [isCanvaConnected, setIsCanvaConnected] = React.useState<boolean>(false);
   const [currentDesignId, setCurrentDesignId] = React.useState<string>(initialDesignId || '');
+  const [syncState, setSyncState] = React.useState<{ status: 'idle' | 'syncing' | 'done' | 'error'; message?: string }>({ status: 'idle' });
 
   // Mock 플립북 데이터를 실제 뷰어에서 사용할 수 있는 형태로 변환
   const createViewerFlipbook = (result: any): FlipbookMetadata => {
@@ -44,7 +50,17 @@ export const FlipbookProcessor: React.FC<FlipbookProcessorProps> = React.memo(({
     console.log('🔥 exportData:', exportData);
     console.log('🔥 flipbookData:', flipbookData);
     
-    let pages: PageMetadata[] = exportData?.pages?.map((page: any, index: number) => ({
+    // 백엔드에 저장된 페이지(pageIndex 순 정렬)가 있으면 우선 사용
+    const storedPages = flipbookData?.pages?.filter((page: any) => typeof page.pageIndex === 'number') || [];
+
+    let pages: PageMetadata[] = storedPages.length > 0
+      ? storedPages.map((page: any) => ({
+          ...page,
+          pageNumber: page.pageIndex + 1,
+          aspectRatio: page.originalWidth && page.originalHeight ? page.originalWidth / page.originalHeight : 1.0,
+          hasTransparency: page.hasTransparency ?? false,
+        }))
+      : exportData?.pages?.map((page: any, index: number) => ({
       id: page.id || `page_${index}`,
       pageNumber: index + 1,
       imageUrl: page.url,
@@ -78,7 +94,7 @@ export const FlipbookProcessor: React.FC<FlipbookProcessorProps> = React.memo(({
       title: flipbookData?.title || 'Mock 플립북',
       description: flipbookData?.description || 'Mock 데이터로 생성된 플립북',
       canvaDesignId: currentDesignId,
-      userId: flipbookData?.userId || 'demo-user',
+      userId: flipbookData?.userId,
       status: 'published' as any,
       visibility: 'private' as any,
       pageCount: pages.length,
@@ -125,6 +141,123 @@ export const FlipbookProcessor: React.FC<FlipbookProcessorProps> = React.memo(({
     }
   });
 
+  // 백엔드 가져오기 작업으로 처리하고 서버의 실제 진행 상황을 표시
+  const processWithImportJob = async () => {
+    setStatus('loading', { currentStep: '가져오기 작업 생성 중...', progress: 0 });
+    const jobResult = await importJobApiService.createImportJob({
+      designId: currentDesignId,
+    });
+
+    if (!jobResult.success || !jobResult.data) {
+      // 가져오기 작업 API가 배포되지 않은 경우(404, 서버 없음)만 기존 방식으로 대체
+      const code = jobResult.error?.code;
+      if (code === 'HTTP_404' || code === ErrorCode.NETWORK_ERROR) {
+        return null;
+      }
+      throw createAppError(
+        code || ErrorCode.UNKNOWN_ERROR,
+        jobResult.error?.message,
+        `Design ID: ${currentDesignId}`
+      );
+    }
+
+    const finalResult = await importJobApiService.waitForImportJob(jobResult.data.jobId, (state) => {
+      setStatus('loading', { currentStep: state.currentStep, progress: state.progress });
+    });
+    const finalState = finalResult.data;
+
+    if (!finalResult.success || !finalState) {
+      throw createAppError(
+        ErrorCode.NETWORK_ERROR,
+        finalResult.error?.message,
+        `Design ID: ${currentDesignId}`
+      );
+    }
+
+    if (finalState.status === 'error') {
+      throw createAppError(
+        finalState.error?.code || ErrorCode.UNKNOWN_ERROR,
+        finalState.error?.message,
+        `Design ID: ${currentDesignId}`
+      );
+    }
+
+    const flipbookResult = await flipbookApiService.getFlipbook(finalState.flipbookId!);
+
+    if (!flipbookResult.success || !flipbookResult.data) {
+      throw createAppError(
+        ErrorCode.SERVER_UNAVAILABLE,
+        flipbookResult.error?.message || '생성된 플립북을 불러오지 못했습니다.',
+        `Flipbook ID: ${finalState.flipbookId}`
+      );
+    }
+
+    return toProcessResult(flipbookResult.data);
+  };
+
+  // 백엔드에 저장된 플립북을 처리 결과 형태로 변환
+  const toProcessResult = (flipbook: FlipbookMetadata) => {
+    return {
+      designId: currentDesignId,
+      flipbook,
+      exportData: {
+        designId: currentDesignId,
+        format: 'PNG',
+        pages: (flipbook.pages || []).map(page => ({
+          id: page.metadata?.canvaPageId || page.id,
+          url: page.imageUrl,
+          width: page.originalWidth,
+          height: page.originalHeight,
+        })),
+        totalPages: flipbook.pageCount,
+        exportedAt: flipbook.updatedAt
+      },
+      validationData: null
+    };
+  };
+
+  // Canva에서 디자인을 수정한 뒤 바뀐 페이지만 다시 가져옴 (페이지 제목·전환 효과는 유지)
+  const handleSyncFromCanva = async () => {
+    const flipbookId = completedResult?.flipbook?.id;
+    if (!flipbookId) return;
+
+    setSyncState({ status: 'syncing', message: '동기화 작업 생성 중...' });
+    const jobResult = await flipbookApiService.syncFromCanva(flipbookId);
+
+    if (!jobResult.success || !jobResult.data) {
+      setSyncState({ status: 'error', message: jobResult.error?.message || '동기화를 시작하지 못했습니다.' });
+      return;
+    }
+
+    const finalResult = await importJobApiService.waitForImportJob(jobResult.data.jobId, (state) => {
+      setSyncState({ status: 'syncing', message: `${state.currentStep || '동기화 중...'} (${state.progress}%)` });
+    });
+    const finalState = finalResult.data;
+
+    if (!finalResult.success || !finalState || finalState.status === 'error') {
+      setSyncState({
+        status: 'error',
+        message: finalState?.error?.message || finalResult.error?.message || '동기화에 실패했습니다.',
+      });
+      return;
+    }
+
+    const flipbookResult = await flipbookApiService.getFlipbook(flipbookId);
+    if (flipbookResult.success && flipbookResult.data) {
+      const result = toProcessResult(flipbookResult.data);
+      setCompletedResult(result);
+      setProcessCache(prev => new Map(prev.set(currentDesignId, result)));
+    }
+
+    const summary = finalState.syncSummary;
+    setSyncState({
+      status: 'done',
+      message: summary
+        ? `동기화 완료: 추가 ${summary.added} · 변경 ${summary.updated} · 유지 ${summary.unchanged} · 삭제 ${summary.removed}`
+        : '동기화 완료',
+    });
+  };
+
   const processCanvaDesign = async () => {
     // Check cache first
     if (processCache.has(currentDesignId)) {
@@ -133,6 +266,15 @@ export const FlipbookProcessor: React.FC<FlipbookProcessorProps> = React.memo(({
     }
     
     console.log('🚀 Starting process with Canva connection status:', isCanvaConnected);
+
+    const importJobResult = await processWithImportJob();
+    if (importJobResult) {
+      setProcessCache(prev => new Map(prev.set(currentDesignId, importJobResult)));
+      return importJobResult;
+    }
+
+    // 가져오기 작업 API가 없는 환경(Netlify Mock 등)에서는 기존 방식으로 처리
+    console.log('🔥 Import job API unavailable - falling back to direct export');
     
     // Step 1: Validate Design
     setStatus('loading', { currentStep: 'Canva 디자인 검증 중...', progress: 10 });
@@ -140,7 +282,7 @@ export const FlipbookProcessor: React.FC<FlipbookProcessorProps> = React.memo(({
     
     if (!validationResult.success) {
       throw createAppError(
-        ErrorCode.CANVA_TIMEOUT,
+        validationResult.error?.code || ErrorCode.CANVA_TIMEOUT,
         validationResult.error?.message || 'Canva 디자인 검증에 실패했습니다.',
         `Design ID: ${currentDesignId}`
       );
@@ -154,7 +296,7 @@ export const FlipbookProcessor: React.FC<FlipbookProcessorProps> = React.memo(({
     
     if (!exportResult.success) {
       throw createAppError(
-        ErrorCode.CANVA_TIMEOUT,
+        exportResult.error?.code || ErrorCode.CANVA_TIMEOUT,
         exportResult.error?.message || 'Canva 이미지 내보내기에 실패했습니다.',
         `Design ID: ${currentDesignId}`
       );
@@ -198,11 +340,19 @@ export const FlipbookProcessor: React.FC<FlipbookProcessorProps> = React.memo(({
       currentStep: '플립북 데이터베이스에 저장 중...', 
       progress: 70 
     });
-    const flipbookData = {
+    const flipbookData: CreateFlipbookRequest = {
       title: validationResult.data?.designInfo?.title || `${isCanvaConnected ? 'Canva' : 'Mock'} Flipbook ${currentDesignId}`,
       description: `${isCanvaConnected ? 'Canva API' : 'Mock 데이터'}로 생성된 플립북 (${currentDesignId})`,
       canvaDesignId: currentDesignId,
-      userId: 'demo-user'
+      pages: actualExportData.pages.map((page: any, index: number) => ({
+        title: `페이지 ${index + 1}`,
+        pageNumber: index + 1,
+        imageUrl: page.url,
+        thumbnailUrl: page.thumbnail_url,
+        width: page.width,
+        height: page.height,
+        metadata: { canvaPageId: page.id }
+      }))
     };
 
     const flipbookResult = await flipbookApiService.createFlipbook(flipbookData);
@@ -286,6 +436,38 @@ export const FlipbookProcessor: React.FC<FlipbookProcessorProps> = React.memo(({
     }
   }, [isProcessing, isSuccess, isCompleted, processingStatus, hasError, processCache.size]);
 
+  // 분석 대시보드가 열려있는 경우
+  if (showAnalytics && completedResult?.flipbook?.id) {
+    return (
+      <div className="flipbook-viewer-container">
+        <AnalyticsDashboard
+          flipbookId={completedResult.flipbook.id}
+          title={completedResult.flipbook.title}
+          pageCount={completedResult.flipbook.pageCount}
+          onClose={() => setShowAnalytics(false)}
+        />
+      </div>
+    );
+  }
+
+  // 버전 기록이 열려있는 경우
+  if (showVersions && completedResult?.flipbook?.id) {
+    return (
+      <div className="flipbook-viewer-container">
+        <VersionHistory
+          flipbookId={completedResult.flipbook.id}
+          title={completedResult.flipbook.title}
+          onFlipbookChange={(flipbook) => {
+            const result = toProcessResult(flipbook);
+            setCompletedResult(result);
+            setProcessCache(prev => new Map(prev.set(currentDesignId, result)));
+          }}
+          onClose={() => setShowVersions(false)}
+        />
+      </div>
+    );
+  }
+
   // 플립북 뷰어가 열려있는 경우
   if (showViewer && completedResult) {
     const viewerFlipbook = createViewerFlipbook(completedResult);
@@ -365,6 +547,12 @@ export const FlipbookProcessor: React.FC<FlipbookProcessorProps> = React.memo(({
                 </ul>
               </div>
             )}
+            {completedResult?.flipbook?.sourceOutdated && syncState.status === 'idle' && (
+              <p className="sync-notice">Canva 디자인이 수정되었습니다. 동기화하면 바뀐 페이지만 다시 가져옵니다.</p>
+            )}
+            {syncState.message && (
+              <p className={`sync-notice ${syncState.status === 'error' ? 'sync-error' : ''}`}>{syncState.message}</p>
+            )}
             <div className="success-actions">
               <button 
                 className="view-flipbook-button"
@@ -377,11 +565,37 @@ export const FlipbookProcessor: React.FC<FlipbookProcessorProps> = React.memo(({
               >
                 📖 플립북 보기
               </button>
+              {completedResult?.flipbook?.id && (
+                <button
+                  className="view-flipbook-button"
+                  onClick={() => setShowAnalytics(true)}
+                >
+                  📊 분석 보기
+                </button>
+              )}
+              {completedResult?.flipbook?.id && (
+                <button
+                  className="view-flipbook-button"
+                  onClick={() => setShowVersions(true)}
+                >
+                  🕘 버전 기록
+                </button>
+              )}
+              {completedResult?.flipbook?.canvaDesignId && (
+                <button
+                  className="view-flipbook-button"
+                  onClick={handleSyncFromCanva}
+                  disabled={syncState.status === 'syncing'}
+                >
+                  🔄 Canva에서 동기화
+                </button>
+              )}
               <button 
                 className="new-flipbook-button"
                 onClick={() => {
                   setIsCompleted(false);
                   setCompletedResult(null);
+                  setSyncState({ status: 'idle' });
                   clearError();
                   setStatus('idle');
                 }}
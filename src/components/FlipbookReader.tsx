@@ -0,0 +1,191 @@
+import React from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import FlipbookViewer from './FlipbookViewer';
+import { LoadingSpinner } from './LoadingSpinner';
+import { flipbookApiService } from '../services/flipbookApi';
+import { parseShareLinkParams } from '../utils/embedGenerator';
+import { EmbedCommand, EmbedTheme } from '../utils/embedSdk';
+import { useEmbedBridge } from '../hooks/useEmbedBridge';
+import { FlipbookMetadata } from '../types/flipbook';
+import './FlipbookReader.css';
+
+type ReaderState =
+  | { status: 'loading' }
+  | { status: 'password'; invalid: boolean }
+  | { status: 'error'; message: string }
+  | { status: 'ready'; flipbook: FlipbookMetadata };
+
+const ERROR_MESSAGES: Record<string, string> = {
+  HTTP_404: '플립북을 찾을 수 없습니다.',
+  ACCESS_TOKEN_REQUIRED: '비공개 플립북입니다. 공유 링크로 접속해 주세요.',
+  SHARE_LINK_INVALID: '유효하지 않거나 취소된 공유 링크입니다.',
+  SHARE_LINK_EXPIRED: '만료된 공유 링크입니다.',
+  SHARE_LINK_VIEW_LIMIT: '공유 링크의 조회 가능 횟수를 모두 사용했습니다.',
+  ACCESS_TOKEN_EXPIRED: '접근 권한이 만료되었습니다. 공유 링크로 다시 접속해 주세요.'
+};
+
+const resolveTheme = (theme: EmbedTheme): 'light' | 'dark' => {
+  if (theme !== 'auto') return theme;
+  return window.matchMedia?.('(prefers-color-scheme: dark)').matches ? 'dark' : 'light';
+};
+
+// 공유 링크(/view/:slug)로 여는 앱 헤더 없는 전체 화면 리더
+export const FlipbookReader: React.FC = () => {
+  const { slug = '' } = useParams<{ slug: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+
+  const options = React.useMemo(() => parseShareLinkParams(searchParams), [searchParams]);
+  const shareToken = searchParams.get('share') || undefined;
+
+  const [state, setState] = React.useState<ReaderState>({ status: 'loading' });
+  const [currentPage, setCurrentPage] = React.useState(0);
+  const [password, setPassword] = React.useState('');
+  // 임베드 호스트의 play/pause, setTheme 명령으로 바뀌는 값
+  const [isPlaying, setIsPlaying] = React.useState(options.autoPlay);
+  const [themeOverride, setThemeOverride] = React.useState<EmbedTheme | null>(null);
+  // 이미 요청한 슬러그 (StrictMode 이중 실행과 정식 슬러그로의 주소 교체 시 중복 요청 방지)
+  const requestedSlugRef = React.useRef<string | null>(null);
+
+  const showFlipbook = React.useCallback((flipbook: FlipbookMetadata) => {
+    requestedSlugRef.current = flipbook.slug;
+    setState({ status: 'ready', flipbook });
+    setCurrentPage(Math.min(options.startPage, Math.max(0, flipbook.pageCount - 1)));
+    document.title = flipbook.title;
+
+    // 이전 슬러그로 들어온 경우 현재 슬러그로 주소 교체 (쿼리 파라미터 유지)
+    if (flipbook.slug && flipbook.slug !== slug) {
+      const search = searchParams.toString();
+      navigate(`/view/${encodeURIComponent(flipbook.slug)}${search ? `?${search}` : ''}`, { replace: true });
+    }
+  }, [options.startPage, slug, searchParams, navigate]);
+
+  const loadFlipbook = React.useCallback(async (sharePassword?: string) => {
+    setState({ status: 'loading' });
+
+    // 공유 링크 토큰이 있으면 먼저 접근 토큰을 발급받음 (비밀번호가 필요하면 입력 화면으로)
+    if (shareToken) {
+      const access = await flipbookApiService.requestAccessBySlug(slug, {
+        token: shareToken,
+        password: sharePassword,
+        action: 'view'
+      });
+
+      if (!access.success || !access.data) {
+        const code = access.error?.code || '';
+        if (code === 'PASSWORD_REQUIRED' || code === 'INVALID_PASSWORD') {
+          setState({ status: 'password', invalid: code === 'INVALID_PASSWORD' });
+        } else {
+          setState({ status: 'error', message: ERROR_MESSAGES[code] || access.error?.message || '플립북을 열 수 없습니다.' });
+        }
+        return;
+      }
+
+      flipbookApiService.setAccessToken(access.data.token);
+    }
+
+    const response = await flipbookApiService.getFlipbookBySlug(slug);
+    if (response.success && response.data) {
+      showFlipbook(response.data);
+    } else {
+      const code = response.error?.code || '';
+      setState({ status: 'error', message: ERROR_MESSAGES[code] || response.error?.message || '플립북을 열 수 없습니다.' });
+    }
+  }, [slug, shareToken, showFlipbook]);
+
+  React.useEffect(() => {
+    if (requestedSlugRef.current === slug) return;
+    requestedSlugRef.current = slug;
+    loadFlipbook();
+  }, [slug, loadFlipbook]);
+
+  const handlePasswordSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password) {
+      loadFlipbook(password);
+    }
+  };
+
+  const flipbook = state.status === 'ready' ? state.flipbook : null;
+
+  const handleEmbedCommand = React.useCallback((command: EmbedCommand) => {
+    if (!flipbook) return;
+    const lastPage = Math.max(0, flipbook.pageCount - 1);
+
+    switch (command.type) {
+      case 'goToPage':
+        if (Number.isInteger(command.page)) {
+          setCurrentPage(Math.min(Math.max(command.page, 0), lastPage));
+        }
+        break;
+      case 'next':
+        setCurrentPage(page => Math.min(page + 1, lastPage));
+        break;
+      case 'prev':
+        setCurrentPage(page => Math.max(page - 1, 0));
+        break;
+      case 'play':
+        setIsPlaying(true);
+        break;
+      case 'pause':
+        setIsPlaying(false);
+        break;
+      case 'setTheme':
+        if (['light', 'dark', 'auto'].includes(command.theme)) {
+          setThemeOverride(command.theme);
+        }
+        break;
+    }
+  }, [flipbook]);
+
+  useEmbedBridge({ flipbook, currentPage, onCommand: handleEmbedCommand });
+
+  const theme = resolveTheme(themeOverride || options.theme);
+
+  return (
+    <div className={`flipbook-reader reader-theme-${theme}`}>
+      {state.status === 'loading' && (
+        <div className="reader-message">
+          <LoadingSpinner status="loading" message="플립북을 불러오는 중..." />
+        </div>
+      )}
+
+      {state.status === 'password' && (
+        <form className="reader-password" onSubmit={handlePasswordSubmit}>
+          <h2>🔒 비밀번호가 필요합니다</h2>
+          <p>이 플립북은 비밀번호로 보호되어 있습니다.</p>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="비밀번호"
+            autoFocus
+          />
+          {state.invalid && <p className="reader-password-error">비밀번호가 올바르지 않습니다.</p>}
+          <button type="submit" disabled={!password}>열기</button>
+        </form>
+      )}
+
+      {state.status === 'error' && (
+        <div className="reader-message">
+          <p>{state.message}</p>
+        </div>
+      )}
+
+      {state.status === 'ready' && (
+        <FlipbookViewer
+          flipbook={state.flipbook}
+          currentPage={currentPage}
+          onPageChange={setCurrentPage}
+          autoPlay={isPlaying}
+          controls={options.includeControls}
+          showNavigation={options.includeControls && !options.hideNavigation}
+          showProgress={options.includeControls && !options.hideProgress}
+          theme={theme}
+        />
+      )}
+    </div>
+  );
+};
+
+export default FlipbookReader;
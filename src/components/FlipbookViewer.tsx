@@ -9,7 +9,11 @@ interface FlipbookViewerProps {
   currentPage: number;
   onPageChange: (page: number) => void;
   autoPlay?: boolean;
+  autoPlayInterval?: number; // ms
   controls?: boolean;
+  showNavigation?: boolean;
+  showProgress?: boolean;
+  theme?: 'light' | 'dark';
 }
 
 interface FlipbookPageProps {
@@ -192,7 +196,11 @@ const FlipbookViewer: React.FC<FlipbookViewerProps> = ({
   currentPage,
   onPageChange,
   autoPlay = false,
-  controls = true
+  autoPlayInterval = 5000,
+  controls = true,
+  showNavigation = true,
+  showProgress = true,
+  theme = 'light'
 }) => {
   const [isLoading, setIsLoading] = useState(true);
 
@@ -205,6 +213,21 @@ const FlipbookViewer: React.FC<FlipbookViewerProps> = ({
     return () => clearTimeout(timer);
   }, [flipbook.id]);
 
+  // 자동 넘김: 마지막 페이지에서 멈춤
+  useEffect(() => {
+    if (!autoPlay || isLoading || currentPage >= flipbook.pageCount - 1) return;
+
+    const timer = setTimeout(() => {
+      onPageChange(currentPage + 1);
+    }, autoPlayInterval);
+
+    return () => clearTimeout(timer);
+  }, [autoPlay, autoPlayInterval, isLoading, currentPage, flipbook.pageCount, onPageChange]);
+
+  const backgroundClass = theme === 'dark'
+    ? 'bg-gradient-to-b from-gray-800 to-gray-900'
+    : 'bg-gradient-to-b from-gray-100 to-gray-200';
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-full bg-gray-100">
@@ -217,7 +240,7 @@ const FlipbookViewer: React.FC<FlipbookViewerProps> = ({
   }
 
   return (
-    <div className="w-full h-full relative bg-gradient-to-b from-gray-100 to-gray-200">
+    <div className={`w-full h-full relative ${backgroundClass}`}>
       <Canvas
         shadows
         camera={{ position: [0, 0, 5], fov: 50 }}
@@ -260,34 +283,44 @@ const FlipbookViewer: React.FC<FlipbookViewerProps> = ({
       </Canvas>
 
       {/* 페이지 네비게이션 UI */}
-      <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-white/80 backdrop-blur-sm rounded-lg px-4 py-2 shadow-lg">
-        <div className="flex items-center space-x-4">
-          <button
-            onClick={() => onPageChange(Math.max(0, currentPage - 1))}
-            disabled={currentPage === 0}
-            className="p-2 rounded-full bg-blue-500 text-white disabled:bg-gray-300 hover:bg-blue-600 transition-colors"
-          >
-            ←
-          </button>
-          
-          <span className="text-sm font-medium text-gray-700">
-            {currentPage + 1} / {flipbook.pageCount}
-          </span>
-          
-          <button
-            onClick={() => onPageChange(Math.min(flipbook.pageCount - 1, currentPage + 1))}
-            disabled={currentPage === flipbook.pageCount - 1}
-            className="p-2 rounded-full bg-blue-500 text-white disabled:bg-gray-300 hover:bg-blue-600 transition-colors"
-          >
-            →
-          </button>
+      {(showNavigation || showProgress) && (
+        <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-white/80 backdrop-blur-sm rounded-lg px-4 py-2 shadow-lg">
+          <div className="flex items-center space-x-4">
+            {showNavigation && (
+              <button
+                onClick={() => onPageChange(Math.max(0, currentPage - 1))}
+                disabled={currentPage === 0}
+                className="p-2 rounded-full bg-blue-500 text-white disabled:bg-gray-300 hover:bg-blue-600 transition-colors"
+              >
+                ←
+              </button>
+            )}
+            
+            {showProgress && (
+              <span className="text-sm font-medium text-gray-700">
+                {currentPage + 1} / {flipbook.pageCount}
+              </span>
+            )}
+            
+            {showNavigation && (
+              <button
+                onClick={() => onPageChange(Math.min(flipbook.pageCount - 1, currentPage + 1))}
+                disabled={currentPage === flipbook.pageCount - 1}
+                className="p-2 rounded-full bg-blue-500 text-white disabled:bg-gray-300 hover:bg-blue-600 transition-colors"
+              >
+                →
+              </button>
+            )}
+          </div>
         </div>
-      </div>
+      )}
 
       {/* 클릭 가이드 */}
-      <div className="absolute top-4 right-4 bg-black/50 text-white text-xs px-3 py-2 rounded-lg">
-        좌측 클릭: 이전 페이지 | 우측 클릭: 다음 페이지
-      </div>
+      {showNavigation && (
+        <div className="absolute top-4 right-4 bg-black/50 text-white text-xs px-3 py-2 rounded-lg">
+          좌측 클릭: 이전 페이지 | 우측 클릭: 다음 페이지
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { authApiService } from '../services/authApi';
+import { AuthUser } from '../types/auth';
+import './LoginForm.css';
+
+interface LoginFormProps {
+  onAuthenticated?: (user: AuthUser) => void;
+}
+
+type Mode = 'login' | 'signup';
+
+const ERROR_MESSAGES: Record<string, string> = {
+  INVALID_CREDENTIALS: '이메일 또는 비밀번호가 올바르지 않습니다.',
+  EMAIL_TAKEN: '이미 가입된 이메일입니다. 로그인해 주세요.',
+  NETWORK_ERROR: '서버에 연결할 수 없습니다. 잠시 후 다시 시도해 주세요.'
+};
+
+// 플립북을 만들고 관리하려면 필요한 계정 로그인/가입 폼
+export const LoginForm: React.FC<LoginFormProps> = ({ onAuthenticated }) => {
+  const [mode, setMode] = useState<Mode>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    const result = mode === 'login'
+      ? await authApiService.login({ email, password })
+      : await authApiService.signUp({ email, password, name: name.trim() || undefined });
+
+    setIsSubmitting(false);
+    if (result.success && result.data) {
+      setPassword('');
+      onAuthenticated?.(result.data);
+    } else {
+      const code = result.error?.code || '';
+      setError(ERROR_MESSAGES[code] || result.error?.message || '요청을 처리하지 못했습니다.');
+    }
+  };
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setError(null);
+  };
+
+  return (
+    <form className="login-form" onSubmit={handleSubmit}>
+      <h3>{mode === 'login' ? '로그인' : '계정 만들기'}</h3>
+      <p>플립북을 만들고 관리하려면 로그인하세요</p>
+
+      {mode === 'signup' && (
+        <input
+          type="text"
+          placeholder="이름 (선택)"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={100}
+        />
+      )}
+      <input
+        type="email"
+        placeholder="이메일"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        autoComplete="email"
+        required
+      />
+      <input
+        type="password"
+        placeholder={mode === 'signup' ? '비밀번호 (8자 이상)' : '비밀번호'}
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        autoComplete={mode === 'signup' ? 'new-password' : 'current-password'}
+        minLength={mode === 'signup' ? 8 : undefined}
+        maxLength={128}
+        required
+      />
+
+      {error && <p className="login-form-error">{error}</p>}
+
+      <button type="submit" className="login-form-submit" disabled={isSubmitting}>
+        {isSubmitting ? '처리 중...' : mode === 'login' ? '로그인' : '가입하기'}
+      </button>
+
+      <div className="login-form-switch">
+        {mode === 'login' ? (
+          <>계정이 없으신가요? <button type="button" onClick={() => switchMode('signup')}>가입하기</button></>
+        ) : (
+          <>이미 계정이 있으신가요? <button type="button" onClick={() => switchMode('login')}>로그인</button></>
+        )}
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,250 @@
+import React from 'react';
+import FlipbookViewer from './FlipbookViewer';
+import FlipbookUI from './FlipbookUI';
+import {
+  FlipbookMetadata,
+  FlipbookStatus,
+  FlipbookVisibility,
+  OfflineManifest,
+  OfflineManifestPage,
+  PageMetadata,
+  PageOrientation,
+  PageTransitionType
+} from '../types/flipbook';
+import './FlipbookReader.css';
+import './OfflineReader.css';
+
+declare global {
+  interface Window {
+    FLIPBOOK_OFFLINE_MANIFEST?: OfflineManifest;
+    // pages/page-NNN.js가 페이지 번호(0부터)별 data URI를 등록하는 곳
+    FLIPBOOK_OFFLINE_PAGES?: Record<number, string>;
+  }
+}
+
+interface OfflineReaderProps {
+  manifest?: OfflineManifest;
+}
+
+type OfflineState =
+  | { status: 'loading'; progress: number }
+  | { status: 'error'; message: string }
+  | { status: 'ready'; flipbook: FlipbookMetadata };
+
+const AUTO_PLAY_INTERVAL = 5000;
+const PAGE_FLIP_SOUND = 'page-flip.mp3';
+
+// file://에서는 fetch/XHR이 막히므로 <script> 태그로 페이지 데이터를 불러옴
+const loadScript = (src: string) => new Promise<void>((resolve, reject) => {
+  const script = document.createElement('script');
+  script.src = src;
+  script.onload = () => resolve();
+  script.onerror = () => reject(new Error(`${src} 파일을 불러오지 못했습니다.`));
+  document.head.appendChild(script);
+});
+
+const toPageMetadata = (manifest: OfflineManifest, page: OfflineManifestPage, imageUrl: string): PageMetadata => {
+  const aspectRatio = page.width / page.height;
+
+  return {
+    id: `${manifest.flipbook.id}-${page.pageIndex}`,
+    flipbookId: manifest.flipbook.id,
+    pageIndex: page.pageIndex,
+    title: page.title,
+    imageUrl,
+    originalWidth: page.width,
+    originalHeight: page.height,
+    fileSize: 0,
+    mimeType: page.mimeType,
+    transitionType: page.transitionType,
+    transitionDuration: page.transitionDuration,
+    orientation: aspectRatio > 1 ? PageOrientation.LANDSCAPE : aspectRatio < 1 ? PageOrientation.PORTRAIT : PageOrientation.SQUARE,
+    backgroundColor: page.backgroundColor,
+    hasTransparency: page.hasTransparency,
+    isProcessed: true,
+    createdAt: manifest.exportedAt,
+    updatedAt: manifest.exportedAt,
+    aspectRatio,
+    isLandscape: aspectRatio > 1,
+    isPortrait: aspectRatio < 1,
+    displayAspectRatio: aspectRatio,
+    fileSizeInMB: 0,
+    hasCustomDimensions: false
+  };
+};
+
+const toFlipbookMetadata = (manifest: OfflineManifest, pages: PageMetadata[]): FlipbookMetadata => ({
+  id: manifest.flipbook.id,
+  title: manifest.flipbook.title,
+  description: manifest.flipbook.description,
+  status: FlipbookStatus.PUBLISHED,
+  visibility: FlipbookVisibility.PRIVATE,
+  pageCount: pages.length,
+  totalSize: 0,
+  viewCount: 0,
+  isFeatured: false,
+  settings: manifest.flipbook.settings,
+  createdAt: manifest.exportedAt,
+  updatedAt: manifest.exportedAt,
+  pages,
+  isPublished: true,
+  isExpired: false,
+  slug: manifest.flipbook.slug
+});
+
+// 오프라인 HTML 패키지(file://)에서 실행되는 리더 (manifest.js와 pages/*.js를 읽어 FlipbookViewer로 표시)
+export const OfflineReader: React.FC<OfflineReaderProps> = ({ manifest }) => {
+  const settings = manifest?.flipbook.settings || {};
+
+  const [state, setState] = React.useState<OfflineState>({ status: 'loading', progress: 0 });
+  const [currentPage, setCurrentPage] = React.useState(0);
+  const [isFullscreen, setIsFullscreen] = React.useState(false);
+  const [showSettings, setShowSettings] = React.useState(false);
+  const [autoPlay, setAutoPlay] = React.useState(!!settings.autoPlay);
+  const [soundEnabled, setSoundEnabled] = React.useState(settings.enableSound !== false);
+  // 하단 컨트롤에서 고른 전환 효과 (모든 페이지에 적용)
+  const [transition, setTransition] = React.useState<PageTransitionType | null>(null);
+
+  const flipSound = React.useMemo(() => {
+    const src = manifest?.sounds[PAGE_FLIP_SOUND];
+    return src ? new Audio(src) : null;
+  }, [manifest]);
+
+  React.useEffect(() => {
+    if (!manifest) {
+      setState({ status: 'error', message: 'manifest.js를 찾을 수 없습니다. 패키지의 압축을 모두 푼 뒤 index.html을 열어 주세요.' });
+      return;
+    }
+
+    let cancelled = false;
+    window.FLIPBOOK_OFFLINE_PAGES = window.FLIPBOOK_OFFLINE_PAGES || {};
+
+    const loadPages = async () => {
+      const pages: PageMetadata[] = [];
+      for (const page of manifest.pages) {
+        if (!window.FLIPBOOK_OFFLINE_PAGES[page.pageIndex]) {
+          await loadScript(page.script);
+        }
+        if (cancelled) return;
+
+        pages.push(toPageMetadata(manifest, page, window.FLIPBOOK_OFFLINE_PAGES[page.pageIndex]));
+        setState({ status: 'loading', progress: (pages.length / manifest.pages.length) * 100 });
+      }
+
+      document.title = manifest.flipbook.title;
+      setState({ status: 'ready', flipbook: toFlipbookMetadata(manifest, pages) });
+    };
+
+    loadPages().catch((error: Error) => {
+      if (!cancelled) {
+        setState({ status: 'error', message: error.message });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [manifest]);
+
+  React.useEffect(() => {
+    const handleFullscreenChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  const flipbook = React.useMemo(() => {
+    if (state.status !== 'ready' || !transition) {
+      return state.status === 'ready' ? state.flipbook : null;
+    }
+    return {
+      ...state.flipbook,
+      pages: state.flipbook.pages.map(page => ({ ...page, transitionType: transition }))
+    };
+  }, [state, transition]);
+
+  const handlePageChange = React.useCallback((page: number) => {
+    setCurrentPage(page);
+    if (soundEnabled && flipSound) {
+      flipSound.currentTime = 0;
+      // 사용자 상호작용 전에는 브라우저가 재생을 막을 수 있음
+      flipSound.play().catch(() => undefined);
+    }
+  }, [soundEnabled, flipSound]);
+
+  // 자동 넘김 중 loopPages 설정이면 마지막 페이지 다음에 처음으로 돌아감
+  React.useEffect(() => {
+    if (!flipbook || !autoPlay || !settings.loopPages || currentPage < flipbook.pageCount - 1) return;
+
+    const timer = setTimeout(() => handlePageChange(0), AUTO_PLAY_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [flipbook, autoPlay, settings.loopPages, currentPage, handlePageChange]);
+
+  const handleFullscreenToggle = React.useCallback(() => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => undefined);
+    } else {
+      document.documentElement.requestFullscreen?.().catch(() => undefined);
+    }
+  }, []);
+
+  const theme = settings.theme === 'dark' ? 'dark' : 'light';
+
+  return (
+    <div className={`flipbook-reader reader-theme-${theme}`}>
+      {state.status === 'error' && (
+        <div className="reader-message">
+          <p>{state.message}</p>
+        </div>
+      )}
+
+      {flipbook && (
+        <FlipbookViewer
+          flipbook={flipbook}
+          currentPage={currentPage}
+          onPageChange={handlePageChange}
+          autoPlay={autoPlay}
+          autoPlayInterval={AUTO_PLAY_INTERVAL}
+          controls={false}
+          showNavigation={false}
+          showProgress={false}
+          theme={theme}
+        />
+      )}
+
+      {state.status !== 'error' && settings.showNavigation !== false && (
+        <FlipbookUI
+          flipbook={flipbook || toFlipbookMetadata(manifest, [])}
+          currentPage={currentPage}
+          totalPages={manifest.pages.length}
+          isLoading={state.status === 'loading'}
+          loadingProgress={state.status === 'loading' ? state.progress : 100}
+          onPageChange={handlePageChange}
+          onTransitionChange={setTransition}
+          onSettingsOpen={() => setShowSettings(open => !open)}
+          onFullscreenToggle={handleFullscreenToggle}
+          // FlipbookUI에는 아직 확대 컨트롤이 없음
+          onZoomChange={() => undefined}
+          isFullscreen={isFullscreen}
+        />
+      )}
+
+      {showSettings && (
+        <div className="offline-settings" role="dialog" aria-label="보기 설정">
+          <label>
+            <input type="checkbox" checked={autoPlay} onChange={(e) => setAutoPlay(e.target.checked)} />
+            자동 넘김
+          </label>
+          {flipSound && (
+            <label>
+              <input type="checkbox" checked={soundEnabled} onChange={(e) => setSoundEnabled(e.target.checked)} />
+              페이지 넘김 소리
+            </label>
+          )}
+          <button type="button" onClick={() => setShowSettings(false)}>닫기</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OfflineReader;
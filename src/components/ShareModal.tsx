@@ -1,6 +1,7 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { FlipbookMetadata, FlipbookVisibility } from '../types/flipbook';
-import QRCode from 'qrcode';
+import { QRCodeOptions } from '../utils/embedGenerator';
+import { flipbookApiService } from '../services/flipbookApi';
 
 interface ShareModalProps {
   isOpen: boolean;
@@ -8,6 +9,7 @@ interface ShareModalProps {
   flipbook: FlipbookMetadata;
   onVisibilityChange: (visibility: FlipbookVisibility) => void;
   onViewCountUpdate?: (count: number) => void;
+  onOpenAnalytics?: () => void;
 }
 
 interface ShareOptions {
@@ -17,6 +19,12 @@ interface ShareOptions {
   theme: 'light' | 'dark' | 'auto';
 }
 
+type QRDesignOptions = Pick<QRCodeOptions, 'format' | 'darkColor' | 'lightColor' | 'logoUrl' | 'logoSize'>;
+
+// 미리보기는 작은 PNG, 다운로드는 인쇄용 크기로 요청
+const QR_PREVIEW_SIZE = 256;
+const QR_DOWNLOAD_SIZE = 1024;
+
 interface IFrameOptions {
   width: number;
   height: number;
@@ -30,7 +38,8 @@ const ShareModal: React.FC<ShareModalProps> = ({
   onClose,
   flipbook,
   onVisibilityChange,
-  onViewCountUpdate
+  onViewCountUpdate,
+  onOpenAnalytics
 }) => {
   const [activeTab, setActiveTab] = useState<'link' | 'embed' | 'qr' | 'settings'>('link');
   const [shareOptions, setShareOptions] = useState<ShareOptions>({
@@ -46,7 +55,21 @@ const ShareModal: React.FC<ShareModalProps> = ({
     border: false,
     allowFullscreen: true
   });
-  const [qrCodeDataUrl, setQrCodeDataUrl] = useState<string>('');
+  const [qrOptions, setQrOptions] = useState<QRDesignOptions>({
+    format: 'png',
+    darkColor: '#000000',
+    lightColor: '#ffffff',
+    logoUrl: '',
+    logoSize: 20
+  });
+  // 로고 주소는 입력을 마친 뒤에 적용 (입력 중 매번 서버에서 다시 받지 않도록)
+  const [logoUrlInput, setLogoUrlInput] = useState('');
+  const [qrPreviewUrl, setQrPreviewUrl] = useState<string>('');
+  const [qrError, setQrError] = useState<string | null>(null);
+  const [isDownloadingQr, setIsDownloadingQr] = useState(false);
+  const [isExporting, setIsExporting] = useState<'html' | 'pdf' | null>(null);
+  const [pdfTextLayer, setPdfTextLayer] = useState(true);
+  const [exportError, setExportError] = useState<string | null>(null);
   const [copied, setCopied] = useState<{ type: string; timestamp: number } | null>(null);
   const [showVisibilityWarning, setShowVisibilityWarning] = useState(false);
 
@@ -64,7 +87,7 @@ const ShareModal: React.FC<ShareModalProps> = ({
     if (shareOptions.theme !== 'auto') params.set('theme', shareOptions.theme);
     
     const queryString = params.toString();
-    shareUrlRef.current = `${baseUrl}/flipbook/${flipbook.slug}${queryString ? `?${queryString}` : ''}`;
+    shareUrlRef.current = `${baseUrl}/view/${encodeURIComponent(flipbook.slug)}${queryString ? `?${queryString}` : ''}`;
     
     return shareUrlRef.current;
   }, [flipbook.slug, shareOptions]);
@@ -94,24 +117,27 @@ const ShareModal: React.FC<ShareModalProps> = ({
     return embedCodeRef.current;
   }, [generateShareUrl, iframeOptions, flipbook.title]);
 
-  // QR 코드 생성
+  // QR 코드 미리보기 (서버 렌더링, 다운로드 형식과 무관하게 PNG)
+  const { darkColor, lightColor, logoUrl, logoSize } = qrOptions;
   const generateQRCode = useCallback(async () => {
-    try {
-      const url = generateShareUrl();
-      const qrCodeUrl = await QRCode.toDataURL(url, {
-        width: 256,
-        margin: 2,
-        color: {
-          dark: '#000000',
-          light: '#FFFFFF'
-        },
-        errorCorrectionLevel: 'M'
-      });
-      setQrCodeDataUrl(qrCodeUrl);
-    } catch (error) {
-      console.error('QR 코드 생성 실패:', error);
+    const response = await flipbookApiService.getQrCode(flipbook.id, {
+      darkColor,
+      lightColor,
+      logoUrl,
+      logoSize,
+      format: 'png',
+      size: QR_PREVIEW_SIZE,
+      url: generateShareUrl()
+    });
+
+    if (response.success && response.data) {
+      setQrPreviewUrl(URL.createObjectURL(response.data));
+      setQrError(null);
+    } else {
+      setQrPreviewUrl('');
+      setQrError(response.error?.message || 'QR 코드를 생성하지 못했습니다.');
     }
-  }, [generateShareUrl]);
+  }, [flipbook.id, darkColor, lightColor, logoUrl, logoSize, generateShareUrl]);
 
   // 클립보드 복사
   const copyToClipboard = useCallback(async (text: string, type: string) => {
@@ -138,15 +164,50 @@ const ShareModal: React.FC<ShareModalProps> = ({
     }
   }, []);
 
-  // QR 코드 다운로드
-  const downloadQRCode = useCallback(() => {
-    if (!qrCodeDataUrl) return;
-    
+  // QR 코드 다운로드 (선택한 형식, 인쇄용 크기)
+  const downloadQRCode = useCallback(async () => {
+    setIsDownloadingQr(true);
+    const response = await flipbookApiService.getQrCode(flipbook.id, {
+      ...qrOptions,
+      size: QR_DOWNLOAD_SIZE,
+      url: generateShareUrl()
+    });
+    setIsDownloadingQr(false);
+
+    if (!response.success || !response.data) {
+      setQrError(response.error?.message || 'QR 코드를 생성하지 못했습니다.');
+      return;
+    }
+
+    const url = URL.createObjectURL(response.data);
     const link = document.createElement('a');
-    link.download = `${flipbook.title}-qrcode.png`;
-    link.href = qrCodeDataUrl;
+    link.download = `${flipbook.title}-qrcode.${qrOptions.format}`;
+    link.href = url;
     link.click();
-  }, [qrCodeDataUrl, flipbook.title]);
+    URL.revokeObjectURL(url);
+  }, [flipbook.id, flipbook.title, qrOptions, generateShareUrl]);
+
+  // 내보내기 파일 다운로드 (오프라인 HTML 패키지: 키오스크/USB 배포용, PDF: 인쇄/보관용)
+  const downloadExport = useCallback(async (format: 'html' | 'pdf') => {
+    setIsExporting(format);
+    setExportError(null);
+    const response = format === 'pdf'
+      ? await flipbookApiService.exportPdf(flipbook.id, { textLayer: pdfTextLayer })
+      : await flipbookApiService.exportOfflineHtml(flipbook.id);
+    setIsExporting(null);
+
+    if (!response.success || !response.data) {
+      setExportError(response.error?.message || '내보내기 파일을 만들지 못했습니다.');
+      return;
+    }
+
+    const url = URL.createObjectURL(response.data);
+    const link = document.createElement('a');
+    link.download = format === 'pdf' ? `${flipbook.title}.pdf` : `${flipbook.title}-offline.zip`;
+    link.href = url;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [flipbook.id, flipbook.title, pdfTextLayer]);
 
   // 접근 권한 변경
   const handleVisibilityChange = useCallback((newVisibility: FlipbookVisibility) => {
@@ -168,18 +229,30 @@ const ShareModal: React.FC<ShareModalProps> = ({
     if (isOpen) {
       generateShareUrl();
       generateEmbedCode();
-      generateQRCode();
     }
-  }, [isOpen, generateShareUrl, generateEmbedCode, generateQRCode]);
+  }, [isOpen, generateShareUrl, generateEmbedCode]);
 
   // 옵션 변경 시 업데이트
   useEffect(() => {
     if (isOpen) {
       generateShareUrl();
       generateEmbedCode();
-      generateQRCode();
     }
-  }, [shareOptions, iframeOptions, isOpen, generateShareUrl, generateEmbedCode, generateQRCode]);
+  }, [shareOptions, iframeOptions, isOpen, generateShareUrl, generateEmbedCode]);
+
+  // QR 탭을 열었을 때와 옵션이 바뀔 때 미리보기 갱신 (색상 선택 중 연속 요청 방지)
+  useEffect(() => {
+    if (!isOpen || activeTab !== 'qr') return;
+    const timer = setTimeout(generateQRCode, 300);
+    return () => clearTimeout(timer);
+  }, [isOpen, activeTab, generateQRCode]);
+
+  // 이전 미리보기 이미지 해제
+  useEffect(() => {
+    return () => {
+      if (qrPreviewUrl) URL.revokeObjectURL(qrPreviewUrl);
+    };
+  }, [qrPreviewUrl]);
 
   if (!isOpen) return null;
 
@@ -339,26 +412,95 @@ const ShareModal: React.FC<ShareModalProps> = ({
 
           {/* QR코드 탭 */}
           {activeTab === 'qr' && (
-            <div className="space-y-4 text-center">
-              {qrCodeDataUrl && (
-                <div className="flex flex-col items-center">
+            <div className="space-y-4">
+              <div className="flex flex-col items-center">
+                {qrPreviewUrl ? (
                   <img 
-                    src={qrCodeDataUrl} 
+                    src={qrPreviewUrl} 
                     alt="QR Code" 
                     className="w-64 h-64 border border-gray-200 rounded-lg"
                   />
+                ) : (
+                  <div className="w-64 h-64 border border-dashed border-gray-300 rounded-lg" />
+                )}
+                {qrError ? (
+                  <p className="text-sm text-red-600 mt-2">{qrError}</p>
+                ) : (
                   <p className="text-sm text-gray-600 mt-2">
                     QR 코드를 스캔하여 플립북을 확인하세요
                   </p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">코드 색상</label>
+                  <input
+                    type="color"
+                    value={qrOptions.darkColor}
+                    onChange={(e) => setQrOptions(prev => ({ ...prev, darkColor: e.target.value }))}
+                    className="w-full h-10 border border-gray-300 rounded-lg"
+                  />
                 </div>
-              )}
-              
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">배경 색상</label>
+                  <input
+                    type="color"
+                    value={qrOptions.lightColor}
+                    onChange={(e) => setQrOptions(prev => ({ ...prev, lightColor: e.target.value }))}
+                    className="w-full h-10 border border-gray-300 rounded-lg"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  로고 이미지 URL (https)
+                </label>
+                <input
+                  type="url"
+                  value={logoUrlInput}
+                  onChange={(e) => setLogoUrlInput(e.target.value)}
+                  onBlur={() => setQrOptions(prev => ({ ...prev, logoUrl: logoUrlInput.trim() }))}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') setQrOptions(prev => ({ ...prev, logoUrl: logoUrlInput.trim() }));
+                  }}
+                  placeholder="https://example.com/logo.png"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+                {qrOptions.logoUrl && (
+                  <div className="mt-2">
+                    <label className="block text-sm text-gray-600 mb-1">
+                      로고 크기: {qrOptions.logoSize}%
+                    </label>
+                    <input
+                      type="range"
+                      min={5}
+                      max={30}
+                      value={qrOptions.logoSize}
+                      onChange={(e) => setQrOptions(prev => ({ ...prev, logoSize: parseInt(e.target.value, 10) }))}
+                      className="w-full"
+                    />
+                  </div>
+                )}
+              </div>
+
               <div className="flex space-x-2 justify-center">
+                <select
+                  value={qrOptions.format}
+                  onChange={(e) => setQrOptions(prev => ({ ...prev, format: e.target.value as QRCodeOptions['format'] }))}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="png">PNG</option>
+                  <option value="svg">SVG</option>
+                  <option value="pdf">PDF (인쇄용)</option>
+                </select>
                 <button
                   onClick={downloadQRCode}
-                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+                  disabled={isDownloadingQr || !!qrError}
+                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
                 >
-                  PNG 다운로드
+                  {isDownloadingQr ? '생성 중...' : `${qrOptions.format.toUpperCase()} 다운로드`}
                 </button>
                 <button
                   onClick={() => copyToClipboard(generateShareUrl(), 'qr')}
@@ -436,6 +578,53 @@ const ShareModal: React.FC<ShareModalProps> = ({
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg"
                 />
               </div>
+
+              {/* 내보내기 */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">내보내기</label>
+                <div className="space-y-2">
+                  <button
+                    onClick={() => downloadExport('html')}
+                    disabled={!!isExporting}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm disabled:opacity-50"
+                  >
+                    {isExporting === 'html' ? '패키지 만드는 중...' : '💾 오프라인 HTML 다운로드 (.zip)'}
+                  </button>
+                  <p className="text-xs text-gray-500">
+                    압축을 풀고 index.html을 열면 인터넷 연결 없이 볼 수 있습니다.
+                  </p>
+                  <button
+                    onClick={() => downloadExport('pdf')}
+                    disabled={!!isExporting}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm disabled:opacity-50"
+                  >
+                    {isExporting === 'pdf' ? 'PDF 만드는 중...' : '📄 PDF 다운로드'}
+                  </button>
+                  <label className="flex items-center justify-between">
+                    <span className="text-sm text-gray-700">PDF에 검색 가능한 텍스트 포함</span>
+                    <input
+                      type="checkbox"
+                      checked={pdfTextLayer}
+                      onChange={(e) => setPdfTextLayer(e.target.checked)}
+                      className="toggle"
+                    />
+                  </label>
+                </div>
+                {exportError && <p className="text-sm text-red-600 mt-1">{exportError}</p>}
+              </div>
+
+              {/* 분석 */}
+              {onOpenAnalytics && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">분석</label>
+                  <button
+                    onClick={onOpenAnalytics}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+                  >
+                    📊 분석 대시보드 열기
+                  </button>
+                </div>
+              )}
             </div>
           )}
         </div>
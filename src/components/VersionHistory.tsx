@@ -0,0 +1,290 @@
+import React from 'react';
+import { flipbookApiService } from '../services/flipbookApi';
+import {
+  FlipbookMetadata,
+  FlipbookVersionSummary,
+  FlipbookVersionDiff,
+  FlipbookVersionReason,
+  VersionFieldChange
+} from '../types/flipbook';
+import { LoadingSpinner } from './LoadingSpinner';
+import './VersionHistory.css';
+
+interface VersionHistoryProps {
+  flipbookId: string;
+  title?: string;
+  // 복원/게시 후 바뀐 플립북 (초안)
+  onFlipbookChange?: (flipbook: FlipbookMetadata) => void;
+  onClose?: () => void;
+}
+
+const REASON_LABELS: Record<FlipbookVersionReason, string> = {
+  create: '생성',
+  edit: '편집',
+  import: '가져오기',
+  sync: 'Canva 동기화',
+  publish: '게시',
+  restore: '복원'
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '없음';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const FieldChanges: React.FC<{ changes: VersionFieldChange[] }> = ({ changes }) => (
+  <ul className="version-field-changes">
+    {changes.map(change => (
+      <li key={change.field}>
+        <code>{change.field}</code>: {formatValue(change.from)} → {formatValue(change.to)}
+      </li>
+    ))}
+  </ul>
+);
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({
+  flipbookId,
+  title,
+  onFlipbookChange,
+  onClose
+}) => {
+  const [versions, setVersions] = React.useState<FlipbookVersionSummary[]>([]);
+  const [compare, setCompare] = React.useState<{ from: number; to: number } | null>(null);
+  const [diff, setDiff] = React.useState<FlipbookVersionDiff | null>(null);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [busyAction, setBusyAction] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const latest = versions[0];
+  const published = versions.find(version => version.isPublished);
+
+  const loadVersions = React.useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const response = await flipbookApiService.getVersions(flipbookId);
+    if (response.success && response.data) {
+      const loaded = response.data;
+      setVersions(loaded);
+      // 기본 비교: 게시한 버전(없으면 바로 앞 버전) → 최신 초안
+      if (loaded.length > 1) {
+        const base = loaded.find(version => version.isPublished && version !== loaded[0]) || loaded[1];
+        setCompare({ from: base.version, to: loaded[0].version });
+      } else {
+        setCompare(null);
+      }
+    } else {
+      setError(response.error?.message || '버전 기록을 불러오지 못했습니다.');
+    }
+    setIsLoading(false);
+  }, [flipbookId]);
+
+  React.useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  React.useEffect(() => {
+    if (!compare || compare.from === compare.to) {
+      setDiff(null);
+      return;
+    }
+
+    let cancelled = false;
+    flipbookApiService.diffVersions(flipbookId, compare.from, compare.to).then(response => {
+      if (cancelled) return;
+      if (response.success && response.data) {
+        setDiff(response.data);
+      } else {
+        setError(response.error?.message || '버전 비교에 실패했습니다.');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [flipbookId, compare]);
+
+  const runAction = async (
+    action: string,
+    request: () => ReturnType<typeof flipbookApiService.publishFlipbook>
+  ) => {
+    setBusyAction(action);
+    setError(null);
+
+    const response = await request();
+    if (response.success && response.data) {
+      onFlipbookChange?.(response.data);
+      await loadVersions();
+    } else {
+      setError(response.error?.message || '요청을 처리하지 못했습니다.');
+    }
+    setBusyAction(null);
+  };
+
+  const handleRestore = (version: number) => {
+    if (!window.confirm(`v${version}의 내용으로 초안을 되돌릴까요? 공개 리더에는 게시해야 반영됩니다.`)) return;
+    runAction(`restore-${version}`, () => flipbookApiService.restoreVersion(flipbookId, version));
+  };
+
+  const hasUnpublishedChanges = !!latest && !latest.isPublished;
+  const isDiffEmpty = diff
+    && diff.fields.length === 0
+    && Object.values(diff.pages).every(pages => pages.length === 0);
+
+  return (
+    <div className="version-history">
+      <div className="version-history-header">
+        <div>
+          <h3>🕘 버전 기록</h3>
+          {title && <p>{title}</p>}
+        </div>
+        <div className="version-history-controls">
+          {hasUnpublishedChanges && (
+            <button
+              className="version-publish-button"
+              onClick={() => runAction('publish', () => flipbookApiService.publishFlipbook(flipbookId))}
+              disabled={busyAction !== null}
+            >
+              🚀 변경 사항 게시
+            </button>
+          )}
+          {onClose && (
+            <button className="back-button" onClick={onClose}>
+              닫기
+            </button>
+          )}
+        </div>
+      </div>
+
+      {hasUnpublishedChanges && (
+        <p className="version-notice">
+          {published
+            ? `공개 리더는 v${published.version}을 보여주고 있습니다. 게시하면 v${latest.version}이 반영됩니다.`
+            : '아직 게시하지 않은 플립북입니다.'}
+        </p>
+      )}
+
+      {isLoading && versions.length === 0 && (
+        <LoadingSpinner status="loading" message="버전 기록을 불러오는 중..." />
+      )}
+
+      {error && (
+        <div className="version-error">
+          <p>{error}</p>
+          <button onClick={loadVersions}>다시 시도</button>
+        </div>
+      )}
+
+      {versions.length > 0 && (
+        <ul className="version-list">
+          {versions.map(version => (
+            <li key={version.version} className={version.isPublished ? 'published' : ''}>
+              <div className="version-info">
+                <strong>v{version.version}</strong>
+                <span className="version-reason">
+                  {REASON_LABELS[version.reason] || version.reason}
+                  {version.restoredFrom && ` (v${version.restoredFrom})`}
+                </span>
+                {version.isPublished && <span className="version-badge">게시됨</span>}
+                {version === latest && !version.isPublished && <span className="version-badge draft">초안</span>}
+              </div>
+              <div className="version-meta">
+                {version.pageCount}페이지 · {new Date(version.createdAt).toLocaleString('ko-KR')}
+              </div>
+              {version !== latest && (
+                <button
+                  className="version-restore-button"
+                  onClick={() => handleRestore(version.version)}
+                  disabled={busyAction !== null}
+                >
+                  복원
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {compare && (
+        <div className="version-diff">
+          <div className="version-diff-controls">
+            <h4>변경 내용</h4>
+            <select
+              value={compare.from}
+              onChange={(e) => setCompare({ ...compare, from: parseInt(e.target.value, 10) })}
+            >
+              {versions.map(version => (
+                <option key={version.version} value={version.version}>v{version.version}</option>
+              ))}
+            </select>
+            <span>→</span>
+            <select
+              value={compare.to}
+              onChange={(e) => setCompare({ ...compare, to: parseInt(e.target.value, 10) })}
+            >
+              {versions.map(version => (
+                <option key={version.version} value={version.version}>v{version.version}</option>
+              ))}
+            </select>
+          </div>
+
+          {isDiffEmpty && <p className="version-empty">바뀐 내용이 없습니다</p>}
+
+          {diff && !isDiffEmpty && (
+            <>
+              {diff.fields.length > 0 && (
+                <section>
+                  <h5>플립북 정보</h5>
+                  <FieldChanges changes={diff.fields} />
+                </section>
+              )}
+              {diff.pages.added.length > 0 && (
+                <section>
+                  <h5>추가된 페이지</h5>
+                  <ul>
+                    {diff.pages.added.map(page => (
+                      <li key={page.pageId}>{page.pageNumber}. {page.title}</li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+              {diff.pages.removed.length > 0 && (
+                <section>
+                  <h5>삭제된 페이지</h5>
+                  <ul>
+                    {diff.pages.removed.map(page => (
+                      <li key={page.pageId}>{page.pageNumber}. {page.title}</li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+              {diff.pages.reordered.length > 0 && (
+                <section>
+                  <h5>순서가 바뀐 페이지</h5>
+                  <ul>
+                    {diff.pages.reordered.map(page => (
+                      <li key={page.pageId}>{page.title}: {page.fromPageNumber} → {page.pageNumber}</li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+              {diff.pages.changed.length > 0 && (
+                <section>
+                  <h5>수정된 페이지</h5>
+                  <ul>
+                    {diff.pages.changed.map(page => (
+                      <li key={page.pageId}>
+                        {page.pageNumber}. {page.title}
+                        <FieldChanges changes={page.changes} />
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
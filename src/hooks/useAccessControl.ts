@@ -1,5 +1,6 @@
 import { useState, useCallback, useEffect } from 'react';
 import { FlipbookVisibility } from '../types/flipbook';
+import { flipbookApiService } from '../services/flipbookApi';
 
 export interface AccessToken {
   token: string;
@@ -18,6 +19,7 @@ export interface AccessValidationResult {
   hasAccess: boolean;
   reason?: 'unauthorized' | 'forbidden' | 'expired' | 'not_found';
   requiredAuth?: boolean;
+  requiresPassword?: boolean;
   ownerAccess?: boolean;
 }
 
@@ -32,6 +34,7 @@ interface UseAccessControlOptions {
   flipbookId: string;
   visibility: FlipbookVisibility;
   ownerId?: string;
+  shareToken?: string; // 공유 링크에 포함된 토큰
   enableOwnerBypass?: boolean;
   sessionStorageKey?: string;
   onAccessDenied?: (reason: string) => void;
@@ -42,6 +45,7 @@ export const useAccessControl = ({
   flipbookId,
   visibility,
   ownerId,
+  shareToken,
   enableOwnerBypass = true,
   sessionStorageKey = 'flipbook-session',
   onAccessDenied,
@@ -85,121 +89,74 @@ export const useAccessControl = ({
     }
   }, [sessionStorageKey]);
 
-  // 접근 권한 검증
+  // 접근 권한 검증 (공개 조회 외에는 백엔드가 공유 링크를 확인하고 접근 토큰을 발급)
   const validateAccess = useCallback(async (
-    action: AccessPermission['action'] = 'view'
+    action: AccessPermission['action'] = 'view',
+    password?: string
   ): Promise<AccessValidationResult> => {
     setIsValidating(true);
-    
+
+    const finish = (result: AccessValidationResult) => {
+      setLastValidation(result);
+      return result;
+    };
+
     try {
       // 1. 소유자 확인 (우선순위 최고)
       if (enableOwnerBypass && session.userId && session.userId === ownerId) {
-        const result: AccessValidationResult = {
-          hasAccess: true,
-          ownerAccess: true
-        };
-        setLastValidation(result);
-        return result;
+        return finish({ hasAccess: true, ownerAccess: true });
       }
 
-      // 2. 공개 상태 확인
-      if (visibility === FlipbookVisibility.PUBLIC) {
-        const result: AccessValidationResult = { hasAccess: true };
-        setLastValidation(result);
-        return result;
+      // 2. 공개 플립북은 누구나 조회 가능
+      if (visibility === FlipbookVisibility.PUBLIC && action === 'view') {
+        return finish({ hasAccess: true });
       }
 
-      // 3. 링크 공유 상태 확인 (인증 불필요)
-      if (visibility === FlipbookVisibility.UNLISTED) {
-        const result: AccessValidationResult = { hasAccess: true };
-        setLastValidation(result);
-        return result;
+      // 3. 이미 발급받은 접근 토큰이 유효하면 재사용
+      if (
+        accessToken &&
+        accessToken.flipbookId === flipbookId &&
+        accessToken.expiresAt > Date.now() &&
+        accessToken.permissions.some(p => p.action === action && p.granted)
+      ) {
+        return finish({ hasAccess: true });
       }
 
-      // 4. 비공개 상태 - 인증 필요
-      if (visibility === FlipbookVisibility.PRIVATE) {
-        if (!session.isAuthenticated) {
-          const result: AccessValidationResult = {
-            hasAccess: false,
-            reason: 'unauthorized',
-            requiredAuth: true
-          };
-          setLastValidation(result);
-          onAuthRequired?.();
-          return result;
-        }
-
-        // 서버 API 호출로 권한 확인
-        const response = await fetch(`/api/flipbooks/${flipbookId}/access`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${session.sessionToken}`
-          },
-          body: JSON.stringify({
-            action,
-            userId: session.userId
-          })
-        });
+      // 4. 링크 공유/비공개 - 공유 링크 토큰 필요
+      if (!shareToken) {
+        onAuthRequired?.();
+        return finish({ hasAccess: false, reason: 'unauthorized', requiredAuth: true });
+      }
 
-        if (response.status === 401) {
-          const result: AccessValidationResult = {
-            hasAccess: false,
-            reason: 'unauthorized',
-            requiredAuth: true
-          };
-          setLastValidation(result);
-          onAuthRequired?.();
-          return result;
-        }
+      const response = await flipbookApiService.requestAccess(flipbookId, {
+        token: shareToken,
+        password,
+        action
+      });
 
-        if (response.status === 403) {
-          const result: AccessValidationResult = {
-            hasAccess: false,
-            reason: 'forbidden'
-          };
-          setLastValidation(result);
-          onAccessDenied?.('이 플립북에 접근할 권한이 없습니다.');
-          return result;
-        }
+      if (response.success && response.data) {
+        setAccessToken(response.data);
+        flipbookApiService.setAccessToken(response.data.token);
+        return finish({ hasAccess: true });
+      }
 
-        if (response.status === 404) {
-          const result: AccessValidationResult = {
-            hasAccess: false,
-            reason: 'not_found'
-          };
-          setLastValidation(result);
+      switch (response.error?.code) {
+        case 'PASSWORD_REQUIRED':
+        case 'INVALID_PASSWORD':
+          return finish({ hasAccess: false, reason: 'unauthorized', requiresPassword: true });
+        case 'SHARE_LINK_EXPIRED':
+        case 'SHARE_LINK_VIEW_LIMIT':
+          onAccessDenied?.('만료된 공유 링크입니다.');
+          return finish({ hasAccess: false, reason: 'expired' });
+        case 'HTTP_404':
           onAccessDenied?.('플립북을 찾을 수 없습니다.');
-          return result;
-        }
-
-        if (response.ok) {
-          const accessData = await response.json();
-          setAccessToken(accessData.token);
-          
-          const result: AccessValidationResult = { hasAccess: true };
-          setLastValidation(result);
-          return result;
-        }
+          return finish({ hasAccess: false, reason: 'not_found' });
+        case 'NETWORK_ERROR':
+          return finish({ hasAccess: false, reason: 'unauthorized' });
+        default:
+          onAccessDenied?.('이 플립북에 접근할 권한이 없습니다.');
+          return finish({ hasAccess: false, reason: 'forbidden' });
       }
-
-      // 기본적으로 접근 거부
-      const result: AccessValidationResult = {
-        hasAccess: false,
-        reason: 'forbidden'
-      };
-      setLastValidation(result);
-      onAccessDenied?.('접근 권한이 없습니다.');
-      return result;
-
-    } catch (error) {
-      console.error('접근 권한 검증 실패:', error);
-      const result: AccessValidationResult = {
-        hasAccess: false,
-        reason: 'unauthorized'
-      };
-      setLastValidation(result);
-      return result;
     } finally {
       setIsValidating(false);
     }
@@ -208,6 +165,8 @@ export const useAccessControl = ({
     visibility, 
     flipbookId, 
     ownerId, 
+    shareToken,
+    accessToken,
     enableOwnerBypass,
     onAccessDenied,
     onAuthRequired
@@ -266,6 +225,7 @@ export const useAccessControl = ({
     localStorage.removeItem(sessionStorageKey);
     setSession({ isAuthenticated: false });
     setAccessToken(null);
+    flipbookApiService.setAccessToken(undefined);
   }, [session.sessionToken, sessionStorageKey]);
 
   // 특정 액션 권한 확인
@@ -275,15 +235,15 @@ export const useAccessControl = ({
       return true;
     }
 
-    // 액세스 토큰이 있는 경우 권한 확인
-    if (accessToken) {
-      const permission = accessToken.permissions.find(p => p.action === action);
-      return permission?.granted || false;
+    // 공개 플립북은 읽기 권한만
+    if (visibility === FlipbookVisibility.PUBLIC && action === 'view') {
+      return true;
     }
 
-    // 공개/링크 공유인 경우 읽기 권한만
-    if (visibility !== FlipbookVisibility.PRIVATE && action === 'view') {
-      return true;
+    // 백엔드가 발급한 접근 토큰의 권한 확인 (만료 시 무효)
+    if (accessToken && accessToken.expiresAt > Date.now()) {
+      const permission = accessToken.permissions.find(p => p.action === action);
+      return permission?.granted || false;
     }
 
     return false;
@@ -1,5 +1,6 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { useResponsiveLayout } from './useResponsiveLayout';
+import { getQualityRenditionUrl, ImageRenditionUsage } from '../utils/imageRendition';
 
 export interface DeviceCapabilities {
   memory: number; // GB
@@ -460,6 +461,8 @@ export const useAdaptiveQuality = ({
       width: Math.min(originalWidth, settings.maxImageWidth),
       height: Math.min(originalHeight, settings.maxImageHeight)
     }),
+    getImageUrl: (src: string, usage?: ImageRenditionUsage) =>
+      getQualityRenditionUrl(src, settings, usage),
     
     // 디버깅
     debug: {
@@ -0,0 +1,106 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { FlipbookMetadata } from '../types/flipbook';
+import {
+  EmbedCommand,
+  EmbedEvent,
+  createEmbedMessage,
+  isEmbedMessage
+} from '../utils/embedSdk';
+
+interface UseEmbedBridgeOptions {
+  flipbook: FlipbookMetadata | null;
+  currentPage: number;
+  onCommand: (command: EmbedCommand) => void;
+}
+
+const isEmbedded = (): boolean => {
+  try {
+    return window.parent !== window;
+  } catch {
+    return true;
+  }
+};
+
+// 첫 페이지 비율로 현재 너비에 맞는 높이 계산
+const getPreferredHeight = (flipbook: FlipbookMetadata, width: number): number => {
+  const page = flipbook.pages?.[0];
+  const aspectRatio = page?.aspectRatio
+    || (page?.originalWidth && page?.originalHeight ? page.originalWidth / page.originalHeight : 0)
+    || 4 / 3;
+
+  return Math.round(width / aspectRatio);
+};
+
+/**
+ * iframe으로 임베드된 리더와 호스트 페이지 사이의 postMessage 브리지 (embedSdk 프로토콜)
+ * 임베드되지 않은 경우 아무 동작도 하지 않음
+ */
+export const useEmbedBridge = ({ flipbook, currentPage, onCommand }: UseEmbedBridgeOptions) => {
+  const embedded = useRef(isEmbedded()).current;
+  const onCommandRef = useRef(onCommand);
+  const completedRef = useRef(false);
+
+  onCommandRef.current = onCommand;
+
+  // 이벤트에는 페이지 정보만 담기므로 호스트 origin을 제한하지 않음
+  const postEvent = useCallback((event: EmbedEvent) => {
+    if (!embedded) return;
+    window.parent.postMessage(createEmbedMessage(event), '*');
+  }, [embedded]);
+
+  // 호스트 명령 수신
+  useEffect(() => {
+    if (!embedded) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent || !isEmbedMessage(event.data)) return;
+      onCommandRef.current(event.data.payload as EmbedCommand);
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [embedded]);
+
+  // 플립북 로드 완료
+  useEffect(() => {
+    if (!flipbook) return;
+
+    completedRef.current = false;
+    postEvent({
+      type: 'ready',
+      slug: flipbook.slug,
+      title: flipbook.title,
+      pageCount: flipbook.pageCount,
+      currentPage
+    });
+    // ready는 플립북이 바뀔 때만 보냄 (currentPage는 의존성에서 제외)
+  }, [flipbook?.id, postEvent]);
+
+  // 페이지 변경 / 마지막 페이지 도달
+  useEffect(() => {
+    if (!flipbook) return;
+
+    postEvent({ type: 'pagechange', page: currentPage, pageCount: flipbook.pageCount });
+
+    if (currentPage === flipbook.pageCount - 1 && !completedRef.current) {
+      completedRef.current = true;
+      postEvent({ type: 'complete', pageCount: flipbook.pageCount });
+    }
+  }, [flipbook, currentPage, postEvent]);
+
+  // 크기 변경
+  useEffect(() => {
+    if (!embedded || !flipbook) return;
+
+    const handleResize = () => {
+      const width = window.innerWidth;
+      postEvent({ type: 'resize', width, height: getPreferredHeight(flipbook, width) });
+    };
+
+    handleResize();
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, [embedded, flipbook, postEvent]);
+
+  return { isEmbedded: embedded };
+};
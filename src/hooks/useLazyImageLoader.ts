@@ -1,4 +1,6 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
+import type { QualitySettings } from './useAdaptiveQuality';
+import { getQualityRenditionUrl } from '../utils/imageRendition';
 
 export interface ImageLoadState {
   url: string;
@@ -16,6 +18,7 @@ export interface LazyLoadOptions {
   placeholderQuality: number; // 플레이스홀더 이미지 품질 (0-1)
   enableProgressTracking: boolean; // 로딩 진행률 추적 여부
   enablePlaceholder: boolean; // 저품질 플레이스홀더 사용 여부
+  qualitySettings?: QualitySettings; // 지정 시 서버에서 품질에 맞는 렌디션을 받아옴
   onLoadStart?: (url: string) => void;
   onLoadComplete?: (url: string) => void;
   onLoadError?: (url: string, error: Error) => void;
@@ -122,11 +125,16 @@ export const useLazyImageLoader = (options: Partial<LazyLoadOptions> = {}) => {
     opts.onLoadStart?.(url);
 
     try {
+      // 상태는 원본 URL 기준으로 관리하고 실제 요청은 품질 설정에 맞는 렌디션으로
+      const requestUrl = opts.qualitySettings
+        ? getQualityRenditionUrl(url, opts.qualitySettings)
+        : url;
+
       // 플레이스홀더 생성 (비동기)
-      const placeholderPromise = generatePlaceholder(url);
+      const placeholderPromise = generatePlaceholder(requestUrl);
 
       // 실제 이미지 로딩
-      const response = await fetch(url, { 
+      const response = await fetch(requestUrl, { 
         signal: abortController.signal,
         cache: 'default'
       });
@@ -1,9 +1,11 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import * as THREE from 'three';
+import type { QualitySettings } from './useAdaptiveQuality';
+import { getQualityRenditionUrl } from '../utils/imageRendition';
 
 interface TextureInfo {
   texture: THREE.Texture;
-  url: string;
+  url: string; // 실제로 요청한 렌디션 URL
   loadTime: number;
   size: number;
   isLoaded: boolean;
@@ -13,6 +15,7 @@ interface UseTextureManagerOptions {
   maxCacheSize?: number; // MB 단위
   preloadCount?: number; // 현재 페이지 기준 앞뒤로 미리 로드할 페이지 수
   compressionLevel?: number; // 0-1, 텍스처 압축 레벨
+  qualitySettings?: QualitySettings; // 지정 시 서버에서 품질에 맞는 렌디션을 받아옴
   onTextureLoad?: (url: string) => void;
   onTextureError?: (url: string, error: Error) => void;
   onCacheUpdate?: (cacheSize: number, cacheCount: number) => void;
@@ -22,6 +25,7 @@ export const useTextureManager = ({
   maxCacheSize = 100, // 100MB 기본 제한
   preloadCount = 2,
   compressionLevel = 0.8,
+  qualitySettings,
   onTextureLoad,
   onTextureError,
   onCacheUpdate
@@ -67,11 +71,18 @@ export const useTextureManager = ({
     onCacheUpdate?.(currentCacheSize.current, cache.size);
   }, [maxCacheSize, onCacheUpdate]);
 
+  // 캐시 키는 원본 URL, 실제 요청은 현재 품질 설정에 맞는 렌디션 URL
+  const resolveTextureUrl = useCallback((url: string): string => {
+    return qualitySettings ? getQualityRenditionUrl(url, qualitySettings, 'texture') : url;
+  }, [qualitySettings]);
+
   // 텍스처 로딩
   const loadTexture = useCallback(async (url: string): Promise<THREE.Texture | null> => {
-    // 이미 캐시된 경우
+    const requestUrl = resolveTextureUrl(url);
+
+    // 이미 캐시된 경우 (품질 설정이 바뀌어 다른 렌디션이 필요하면 다시 로드)
     const cached = textureCache.current.get(url);
-    if (cached) {
+    if (cached && cached.url === requestUrl) {
       cached.loadTime = Date.now(); // LRU 업데이트
       return cached.texture;
     }
@@ -87,7 +98,7 @@ export const useTextureManager = ({
     try {
       const texture = await new Promise<THREE.Texture>((resolve, reject) => {
         loader.current.load(
-          url,
+          requestUrl,
           resolve,
           undefined,
           reject
@@ -101,8 +112,8 @@ export const useTextureManager = ({
       texture.wrapT = THREE.ClampToEdgeWrapping;
       texture.generateMipmaps = false;
 
-      // 압축 설정 (WebGL 2.0 지원시)
-      if (compressionLevel < 1) {
+      // 압축 설정 (WebGL 2.0 지원시) - 서버 렌디션을 받은 경우 이미 축소되어 있으므로 생략
+      if (compressionLevel < 1 && requestUrl === url) {
         const canvas = document.createElement('canvas');
         const ctx = canvas.getContext('2d');
         
@@ -123,13 +134,17 @@ export const useTextureManager = ({
       const size = calculateTextureSize(texture);
       const textureInfo: TextureInfo = {
         texture,
-        url,
+        url: requestUrl,
         loadTime: Date.now(),
         size,
         isLoaded: true
       };
 
-      // 캐시에 추가
+      // 캐시에 추가 (이전 품질의 텍스처는 해제)
+      if (cached) {
+        cached.texture.dispose();
+        currentCacheSize.current -= cached.size;
+      }
       textureCache.current.set(url, textureInfo);
       currentCacheSize.current += size;
       
@@ -152,7 +167,7 @@ export const useTextureManager = ({
         return newSet;
       });
     }
-  }, [calculateTextureSize, cleanupCache, compressionLevel, onTextureLoad, onTextureError]);
+  }, [calculateTextureSize, cleanupCache, compressionLevel, resolveTextureUrl, onTextureLoad, onTextureError]);
 
   // 페이지별 텍스처 미리 로딩
   const preloadTextures = useCallback(async (urls: string[], currentIndex: number) => {
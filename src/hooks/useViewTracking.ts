@@ -1,4 +1,6 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
+import { API_BASE_URL } from '../services/flipbookApi';
+import { authApiService } from '../services/authApi';
 
 export interface ViewSession {
   sessionId: string;
@@ -51,6 +53,8 @@ interface UseViewTrackingOptions {
   flipbookId: string;
   totalPages: number;
   userId?: string;
+  // 공유 링크로 연 비공개 플립북의 접근 토큰 (sendBeacon은 헤더를 보낼 수 없어 쿼리로 전달)
+  accessToken?: string;
   trackAnonymous?: boolean;
   batchSize?: number; // 배치로 전송할 이벤트 수
   flushInterval?: number; // 자동 전송 간격 (ms)
@@ -64,6 +68,7 @@ export const useViewTracking = ({
   flipbookId,
   totalPages,
   userId,
+  accessToken,
   trackAnonymous = true,
   batchSize = 10,
   flushInterval = 30000,
@@ -118,8 +123,9 @@ export const useViewTracking = ({
   const queueEvent = useCallback((event: any) => {
     eventQueueRef.current.push({
       ...event,
-      timestamp: Date.now(),
-      sessionId: currentSession?.sessionId
+      timestamp: event.timestamp ?? Date.now(),
+      // session_start는 세션 상태가 반영되기 전에 큐에 들어가므로 이벤트의 sessionId를 우선 사용
+      sessionId: event.sessionId ?? currentSession?.sessionId
     });
 
     // 배치 크기 도달 시 즉시 전송
@@ -128,24 +134,41 @@ export const useViewTracking = ({
     }
   }, [currentSession?.sessionId, batchSize]);
 
-  // 이벤트 전송
-  const flushEvents = useCallback(async () => {
+  // 이벤트 전송 (useBeacon: 페이지 종료 중에도 전송되도록 navigator.sendBeacon 사용)
+  const flushEvents = useCallback(async (useBeacon: boolean = false) => {
     if (eventQueueRef.current.length === 0) return;
 
     const events = [...eventQueueRef.current];
     eventQueueRef.current = [];
 
+    // 로그인 사용자는 서버가 세션 쿠키로 확인하므로 본문에 userId를 싣지 않음
+    const payload = JSON.stringify({
+      flipbookId,
+      events,
+      timestamp: Date.now()
+    });
+    const eventsUrl = `${API_BASE_URL}/analytics/events${
+      accessToken ? `?access_token=${encodeURIComponent(accessToken)}` : ''
+    }`;
+
+    // text/plain 본문은 CORS preflight 없이 전송됨 (서버에서 JSON으로 파싱)
+    if (useBeacon && typeof navigator.sendBeacon === 'function') {
+      const queued = navigator.sendBeacon(
+        eventsUrl,
+        new Blob([payload], { type: 'text/plain' })
+      );
+      if (queued) return;
+    }
+
     try {
-      const response = await fetch('/api/analytics/events', {
+      const response = await fetch(eventsUrl, {
         method: 'POST',
+        credentials: 'include',
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({
-          flipbookId,
-          events,
-          timestamp: Date.now()
-        })
+        body: payload,
+        keepalive: useBeacon
       });
 
       if (!response.ok) {
@@ -158,7 +181,7 @@ export const useViewTracking = ({
       // 실패한 이벤트를 다시 큐에 추가
       eventQueueRef.current.unshift(...events);
     }
-  }, [flipbookId]);
+  }, [flipbookId, accessToken]);
 
   // 조회 세션 시작
   const startViewSession = useCallback(async () => {
@@ -189,7 +212,7 @@ export const useViewTracking = ({
 
     // 서버에 조회수 증가 요청
     try {
-      await fetch(`/api/flipbooks/${flipbookId}/view`, {
+      await fetch(`${API_BASE_URL}/flipbooks/${flipbookId}/view`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -237,8 +260,8 @@ export const useViewTracking = ({
       completionRate: currentSession.pageViews.length / totalPages
     });
 
-    // 즉시 전송
-    flushEvents();
+    // 즉시 전송 (브라우저 종료 중일 수 있으므로 beacon 사용)
+    flushEvents(true);
   }, [currentSession, currentPageView, totalPages, onViewEnd, queueEvent, flushEvents]);
 
   // 페이지 뷰 시작
@@ -352,7 +375,8 @@ export const useViewTracking = ({
   // 분석 데이터 로드
   const loadAnalytics = useCallback(async (): Promise<ViewAnalytics | null> => {
     try {
-      const response = await fetch(`/api/flipbooks/${flipbookId}/analytics`);
+      // 통계는 소유자만 볼 수 있으므로 세션 쿠키를 실어 요청
+      const response = await authApiService.authorizedFetch(`${API_BASE_URL}/flipbooks/${flipbookId}/analytics`);
       if (response.ok) {
         const data = await response.json();
         setAnalytics(data);
@@ -393,7 +417,7 @@ export const useViewTracking = ({
   // 주기적 이벤트 전송
   useEffect(() => {
     if (flushInterval > 0) {
-      flushTimeoutRef.current = setInterval(flushEvents, flushInterval);
+      flushTimeoutRef.current = setInterval(() => flushEvents(), flushInterval);
       return () => {
         if (flushTimeoutRef.current) {
           clearInterval(flushTimeoutRef.current);
@@ -0,0 +1,11 @@
+import React from 'react'
+import ReactDOM from 'react-dom/client'
+import OfflineReader from './components/OfflineReader'
+import './index.css'
+
+// 오프라인 HTML 패키지 진입점 (vite.offline.config.ts로 빌드, manifest.js가 먼저 로드됨)
+ReactDOM.createRoot(document.getElementById('root')!).render(
+  <React.StrictMode>
+    <OfflineReader manifest={window.FLIPBOOK_OFFLINE_MANIFEST} />
+  </React.StrictMode>
+)
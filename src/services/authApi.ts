@@ -0,0 +1,165 @@
+import { AuthSession, AuthUser, LoginRequest, SignUpRequest } from '../types/auth';
+import { API_BASE_URL, ApiResponse, toApiResponse } from './flipbookApi';
+
+// 만료 직전의 액세스 토큰은 요청 전에 미리 갱신
+const REFRESH_MARGIN = 30 * 1000;
+// 리프레시 쿠키로 갱신해 볼 401 응답 코드
+const SESSION_EXPIRED_CODES = ['AUTH_TOKEN_EXPIRED', 'AUTH_REQUIRED'];
+
+type AuthListener = (user: AuthUser | null) => void;
+
+// 토큰은 서버가 httpOnly 쿠키로 관리하고, 브라우저에는 로그인한 사용자 정보만 메모리에 둠
+class AuthApiService {
+  private user: AuthUser | null = null;
+  // 액세스 토큰 만료 시각 (ms, 알 수 없으면 0)
+  private expiresAt = 0;
+  private restoring: Promise<AuthUser | null> | null = null;
+  private refreshing: Promise<boolean> | null = null;
+  private listeners = new Set<AuthListener>();
+
+  get currentUser(): AuthUser | null {
+    return this.user;
+  }
+
+  // 로그인/로그아웃될 때마다 호출 (해제 함수를 반환)
+  subscribe(listener: AuthListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // 페이지를 새로 열면 세션 쿠키로 로그인 상태를 복원
+  restore(): Promise<AuthUser | null> {
+    if (!this.restoring) {
+      this.restoring = this.authorizedFetch(`${API_BASE_URL}/auth/me`)
+        .then(response => toApiResponse<AuthUser>(response))
+        .then(result => {
+          this.setUser(result.success && result.data ? result.data : null);
+          return this.user;
+        })
+        .catch(() => this.user)
+        .finally(() => {
+          this.restoring = null;
+        });
+    }
+    return this.restoring;
+  }
+
+  async signUp(request: SignUpRequest): Promise<ApiResponse<AuthUser>> {
+    return this.startSession('/auth/signup', request);
+  }
+
+  async login(request: LoginRequest): Promise<ApiResponse<AuthUser>> {
+    return this.startSession('/auth/login', request);
+  }
+
+  async logout(): Promise<void> {
+    this.setUser(null);
+
+    await fetch(`${API_BASE_URL}/auth/logout`, {
+      method: 'POST',
+      credentials: 'include',
+    }).catch(() => undefined);
+  }
+
+  // 세션 쿠키를 실어 요청하고, 액세스 토큰이 만료되었으면 한 번 갱신한 뒤 다시 요청
+  // (액세스 토큰 쿠키는 토큰과 함께 만료되므로 AUTH_REQUIRED도 리프레시 쿠키가 남아 있으면 갱신해 봄)
+  async authorizedFetch(url: string, init: RequestInit = {}): Promise<Response> {
+    if (this.user && this.expiresAt && this.expiresAt - REFRESH_MARGIN <= Date.now()) {
+      await this.refresh();
+    }
+
+    const request: RequestInit = { ...init, credentials: 'include' };
+    const response = await fetch(url, request);
+    if (response.status !== 401) {
+      return response;
+    }
+
+    const body = await response.clone().json().catch(() => undefined);
+    if (!SESSION_EXPIRED_CODES.includes(body?.code) || !(await this.refresh())) {
+      return response;
+    }
+
+    return fetch(url, request);
+  }
+
+  private async startSession(endpoint: string, request: SignUpRequest | LoginRequest): Promise<ApiResponse<AuthUser>> {
+    try {
+      const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      const result = await toApiResponse<AuthSession>(response);
+
+      if (!result.success || !result.data) {
+        return { success: false, error: result.error };
+      }
+
+      this.setSession(result.data);
+      return { success: true, data: result.data.user };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: error instanceof Error ? error.message : 'Network error',
+          code: 'NETWORK_ERROR',
+        },
+      };
+    }
+  }
+
+  // 동시에 여러 요청이 만료를 만나도 갱신은 한 번만 (리프레시 토큰은 한 번만 쓸 수 있음)
+  private refresh(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = this.refreshSession().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async refreshSession(): Promise<boolean> {
+    try {
+      const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const result = await toApiResponse<AuthSession>(response);
+
+      if (result.success && result.data) {
+        this.setSession(result.data);
+        return true;
+      }
+
+      // 리프레시 토큰이 만료/폐기되었으면 다시 로그인해야 함
+      if (response.status === 401) {
+        this.setUser(null);
+      }
+      return false;
+    } catch {
+      return false;
+    }
+  }
+
+  private setSession(session: AuthSession) {
+    this.expiresAt = session.expiresAt;
+    this.setUser(session.user);
+  }
+
+  private setUser(user: AuthUser | null) {
+    const userChanged = this.user?.id !== user?.id;
+    this.user = user;
+    if (!user) {
+      this.expiresAt = 0;
+    }
+
+    if (userChanged) {
+      this.listeners.forEach(listener => listener(this.currentUser));
+    }
+  }
+}
+
+export const authApiService = new AuthApiService();
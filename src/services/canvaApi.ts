@@ -1,3 +1,5 @@
+import { authApiService } from './authApi';
+
 // Production에서는 같은 도메인을 사용하므로 빈 문자열 사용 (상대 경로)
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || (import.meta.env.PROD ? '' : 'http://localhost:3002');
 
@@ -29,25 +31,15 @@ class ApiCache {
 
 const apiCache = new ApiCache();
 
-// Canva API Configuration
-const CANVA_CLIENT_ID = import.meta.env.VITE_CANVA_CLIENT_ID || 'OC-AZgwBpp_n5_R';
-const CANVA_API_BASE_URL = import.meta.env.VITE_CANVA_API_BASE_URL || 'https://api.canva.com/rest/v1';
-const CANVA_AUTH_URL = import.meta.env.VITE_CANVA_AUTH_URL || 'https://www.canva.com/api/oauth/authorize';
-
-// Debug log environment variables
-console.log('🔧 Canva API Config:', {
-  CLIENT_ID: CANVA_CLIENT_ID ? `${CANVA_CLIENT_ID.substring(0, 5)}...` : 'NOT_SET',
-  API_BASE_URL: CANVA_API_BASE_URL,
-  AUTH_URL: CANVA_AUTH_URL,
-  env_available: Object.keys(import.meta.env).filter(k => k.includes('CANVA'))
-});
-
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
   error?: {
     message: string;
+    // Canva API 오류는 ErrorCode 값 (CANVA_RATE_LIMITED, CANVA_TIMEOUT, CANVA_INVALID_TOKEN 등)
     code: string;
+    // CANVA_RATE_LIMITED일 때 다시 시도할 수 있을 때까지 남은 시간 (초)
+    retryAfter?: number;
   };
 }
 
@@ -63,6 +55,16 @@ export interface DesignValidationResult {
   };
 }
 
+// GET /api/canva/connection (토큰은 서버에만 보관하고 브라우저에는 연결 상태만 알려줌)
+export interface CanvaConnection {
+  // 서버에 Canva API 자격 증명이 설정되어 있는지 (아니면 Mock 데이터 사용)
+  configured: boolean;
+  connected: boolean;
+  expiresAt?: string;
+  scope?: string;
+  connectedAt?: string;
+}
+
 export interface ExportResult {
   designId: string;
   format: string;
@@ -78,114 +80,47 @@ export interface ExportResult {
 }
 
 class CanvaApiService {
-  private accessToken: string | null = null;
-
-  // OAuth 인증 URL 생성
-  async generateAuthUrl(state?: string): Promise<string> {
-    if (!CANVA_CLIENT_ID) {
-      throw new Error('Canva Client ID가 설정되지 않았습니다.');
-    }
-
-    const codeVerifier = this.generateCodeVerifier();
-    const codeChallenge = await this.generateCodeChallenge(codeVerifier);
-    
-    // PKCE verifier를 저장 (실제로는 secure storage 사용 필요)
-    sessionStorage.setItem('canva_code_verifier', codeVerifier);
-
-    const params = new URLSearchParams({
-      client_id: CANVA_CLIENT_ID,
-      response_type: 'code',
-      scope: 'design:read design:meta:read asset:read',
-      code_challenge: codeChallenge,
-      code_challenge_method: 'S256',
-      redirect_uri: import.meta.env.VITE_CANVA_REDIRECT_URI || window.location.origin + '/auth/callback',
-      ...(state && { state })
-    });
-
-    return `${CANVA_AUTH_URL}?${params.toString()}`;
-  }
+  // 마지막으로 확인한 연결 상태
+  private connected = false;
 
-  // PKCE Code Verifier 생성
-  private generateCodeVerifier(): string {
-    const array = new Uint8Array(32);
-    crypto.getRandomValues(array);
-    return btoa(String.fromCharCode.apply(null, Array.from(array)))
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
-      .replace(/=/g, '');
+  get isConnected(): boolean {
+    return this.connected;
   }
 
-  // PKCE Code Challenge 생성
-  private async generateCodeChallenge(verifier: string): Promise<string> {
-    const encoder = new TextEncoder();
-    const data = encoder.encode(verifier);
-    const hash = await crypto.subtle.digest('SHA-256', data);
-    return btoa(String.fromCharCode.apply(null, Array.from(new Uint8Array(hash))))
-      .replace(/\+/g, '-')
-      .replace(/\//g, '_')
-      .replace(/=/g, '');
-  }
-
-  // 실제 Canva API 호출
-  private async makeCanvaRequest<T>(
-    endpoint: string,
-    options: RequestInit = {}
-  ): Promise<ApiResponse<T>> {
-    if (!this.accessToken) {
-      return {
-        success: false,
-        error: {
-          message: 'Canva 인증이 필요합니다.',
-          code: 'AUTH_REQUIRED',
-        },
-      };
-    }
-
-    try {
-      const response = await fetch(`${CANVA_API_BASE_URL}${endpoint}`, {
-        headers: {
-          'Authorization': `Bearer ${this.accessToken}`,
-          'Content-Type': 'application/json',
-          ...options.headers,
-        },
-        ...options,
-      });
-
-      if (!response.ok) {
-        throw new Error(`Canva API Error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      return {
-        success: true,
-        data
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: {
-          message: error instanceof Error ? error.message : 'Canva API error',
-          code: 'CANVA_API_ERROR',
-        },
-      };
+  // OAuth 인증 URL 생성 (state와 PKCE code_verifier는 서버가 만들어 보관하고 콜백에서 확인)
+  async generateAuthUrl(): Promise<string> {
+    const result = await this.getAuthUrl();
+    if (!result.success || !result.data) {
+      throw new Error(result.error?.message || 'Canva 인증 URL을 만들지 못했습니다.');
     }
+    return result.data.authUrl;
   }
 
-  // Fallback to our backend API (현재 Mock)
+  // 백엔드 API 호출 - Canva 토큰은 백엔드가 로그인한 사용자 계정에서 꺼내 쓰고 필요하면 갱신함
   private async makeRequest<T>(
     endpoint: string, 
     options: RequestInit = {}
   ): Promise<ApiResponse<T>> {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/canva${endpoint}`, {
+      const response = await authApiService.authorizedFetch(`${API_BASE_URL}/api/canva${endpoint}`, {
+        ...options,
         headers: {
           'Content-Type': 'application/json',
           ...options.headers,
         },
-        ...options,
       });
 
       const data = await response.json();
+      // 전역 가드 오류(401 등)는 { success } 형태가 아니므로 맞춰서 돌려줌
+      if (!response.ok && data?.success === undefined) {
+        return {
+          success: false,
+          error: {
+            message: data?.message || `HTTP ${response.status}`,
+            code: data?.code || `HTTP_${response.status}`,
+          },
+        };
+      }
       return data;
     } catch (error) {
       return {
@@ -198,102 +133,27 @@ class CanvaApiService {
     }
   }
 
-  // Access Token 설정
-  setAccessToken(token: string) {
-    this.accessToken = token;
-    if (token) {
-      localStorage.setItem('canva_access_token', token);
-      console.log('🔐 Canva access token saved to localStorage');
-    } else {
-      localStorage.removeItem('canva_access_token');
-      console.log('🗑️ Canva access token removed from localStorage');
-    }
-  }
-
-  // Token management
-  getAccessToken(): string | null {
-    return this.accessToken;
-  }
-
-  clearTokens(): void {
-    this.accessToken = null;
-    this.refreshToken = null;
-    localStorage.removeItem('canva_access_token');
-    localStorage.removeItem('canva_refresh_token');
+  // 로그인한 사용자의 Canva 연결 상태
+  async getConnection(): Promise<ApiResponse<CanvaConnection>> {
+    const result = await this.makeRequest<CanvaConnection>('/connection');
+    this.updateConnection(result);
+    return result;
   }
 
-  // 사용자 정보 가져오기
-  async getCurrentUser(): Promise<ApiResponse<any>> {
-    if (!this.accessToken) {
-      return {
-        success: false,
-        error: {
-          message: 'No access token available',
-          code: 'NO_TOKEN'
-        }
-      };
-    }
-    
-    return this.makeCanvaRequest('/users/me');
+  // Canva 연결 해제 (서버가 Canva 쪽 토큰도 폐기)
+  async disconnect(): Promise<ApiResponse<CanvaConnection>> {
+    const result = await this.makeRequest<CanvaConnection>('/connection', { method: 'DELETE' });
+    this.updateConnection(result);
+    apiCache.clear();
+    return result;
   }
 
-  // 실제 Canva 디자인 가져오기
+  // Canva 디자인 정보 가져오기
   async getDesign(designId: string): Promise<ApiResponse<any>> {
-    if (this.accessToken) {
-      return this.makeCanvaRequest(`/designs/${designId}`);
-    } else {
-      // Fallback to Mock API
-      return this.makeRequest('/validate-design', {
-        method: 'POST',
-        body: JSON.stringify({ designId }),
-      });
-    }
-  }
-
-  // 실제 Canva 디자인 내보내기
-  async createExportJob(
-    designId: string, 
-    format: 'PNG' | 'JPG' | 'PDF' = 'PNG',
-    pages?: number[]
-  ): Promise<ApiResponse<any>> {
-    if (this.accessToken) {
-      return this.makeCanvaRequest('/exports', {
-        method: 'POST',
-        body: JSON.stringify({
-          design_id: designId,
-          format: {
-            type: format.toLowerCase()
-          },
-          ...(pages && { pages })
-        }),
-      });
-    } else {
-      // Fallback to Mock API
-      return this.makeRequest('/export-design', {
-        method: 'POST',
-        body: JSON.stringify({ designId, format }),
-      });
-    }
-  }
-
-  // Export Job 상태 확인
-  async getExportJob(exportId: string): Promise<ApiResponse<any>> {
-    if (this.accessToken) {
-      return this.makeCanvaRequest(`/exports/${exportId}`);
-    } else {
-      // Mock에서는 즉시 완료된 것으로 처리 - CORS 이슈 없는 이미지 사용
-      return {
-        success: true,
-        data: {
-          status: 'success',
-          urls: [
-            { url: 'https://placehold.co/800x1200/667eea/ffffff/png?text=Page+1' },
-            { url: 'https://placehold.co/800x1200/764ba2/ffffff/png?text=Page+2' },
-            { url: 'https://placehold.co/800x1200/a8e6cf/ffffff/png?text=Page+3' },
-          ]
-        }
-      };
-    }
+    return this.makeRequest('/design-info', {
+      method: 'POST',
+      body: JSON.stringify({ designId }),
+    });
   }
 
   async validateDesign(
@@ -307,23 +167,25 @@ class CanvaApiService {
       return cached;
     }
     
-    // 실제 API 사용 시 getDesign 호출
-    const designResult = await this.getDesign(designId);
-    
-    if (designResult.success) {
-      return {
-        success: true,
-        data: {
-          isValid: true,
-          designId,
-          designInfo: designResult.data
-        }
-      };
-    } else {
-      const result = designResult as ApiResponse<DesignValidationResult>;
-      apiCache.set(cacheKey, result);
-      return result;
+    const result = await this.makeRequest<{ isValid: boolean; designInfo?: DesignValidationResult['designInfo'] }>('/validate-design', {
+      method: 'POST',
+      body: JSON.stringify({ designId }),
+    });
+
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
     }
+
+    const validation: ApiResponse<DesignValidationResult> = {
+      success: true,
+      data: {
+        isValid: result.data.isValid,
+        designId,
+        designInfo: result.data.designInfo
+      }
+    };
+    apiCache.set(cacheKey, validation);
+    return validation;
   }
 
   async exportDesign(
@@ -331,33 +193,6 @@ class CanvaApiService {
     format: 'PNG' | 'JPG' | 'PDF' = 'PNG',
     userId?: string
   ): Promise<ApiResponse<ExportResult>> {
-    // 실제 API 사용 시 export job 생성 후 완료 대기
-    const exportJobResult = await this.createExportJob(designId, format);
-    
-    if (exportJobResult.success && this.accessToken) {
-      // Export job 완료 대기 (실제로는 polling 필요)
-      const jobResult = await this.getExportJob(exportJobResult.data.id);
-      
-      if (jobResult.success && jobResult.data.status === 'success') {
-        return {
-          success: true,
-          data: {
-            designId,
-            format,
-            pages: jobResult.data.urls.map((url: any, index: number) => ({
-              id: `${designId}_page_${index + 1}`,
-              url: url.url,
-              width: 800,
-              height: 1200,
-            })),
-            totalPages: jobResult.data.urls.length,
-            exportedAt: new Date().toISOString()
-          }
-        };
-      }
-    }
-    
-    // Fallback to Mock API
     const exportCacheKey = `export_${designId}_${format}_${userId || 'anonymous'}`;
     const cachedExport = apiCache.get(exportCacheKey);
     if (cachedExport) {
@@ -367,7 +202,7 @@ class CanvaApiService {
     
     const result = await this.makeRequest<ExportResult>('/export-design', {
       method: 'POST',
-      body: JSON.stringify({ designId, format, userId }),
+      body: JSON.stringify({ designId, format }),
     });
     
     if (result.success) {
@@ -377,46 +212,29 @@ class CanvaApiService {
     return result;
   }
 
-  async getDesignInfo(
-    designId: string, 
-    userId?: string
-  ): Promise<ApiResponse<any>> {
-    const query = userId ? `?userId=${userId}` : '';
-    return this.makeRequest<any>(`/design/${designId}${query}`);
-  }
-
-  async getAuthUrl(state?: string): Promise<ApiResponse<{ authUrl: string; message: string }>> {
-    const query = state ? `?state=${state}` : '';
-    return this.makeRequest<{ authUrl: string; message: string }>(`/auth/url${query}`);
+  async getAuthUrl(): Promise<ApiResponse<{ authUrl: string; state: string; expiresAt: number; message: string }>> {
+    return this.makeRequest<{ authUrl: string; state: string; expiresAt: number; message: string }>('/auth/url');
   }
 
+  // 인증 코드를 서버에 넘겨 토큰으로 교환 (토큰은 서버가 사용자 계정에 암호화해서 저장)
   async handleAuthCallback(
     code: string, 
-    state?: string
-  ): Promise<ApiResponse<{ message: string; expiresAt: string; scope: string }>> {
-    return this.makeRequest<{ message: string; expiresAt: string; scope: string }>('/auth/callback', {
+    state: string
+  ): Promise<ApiResponse<CanvaConnection>> {
+    const result = await this.makeRequest<CanvaConnection>('/auth/callback', {
       method: 'POST',
       body: JSON.stringify({ code, state }),
     });
+    this.updateConnection(result);
+    apiCache.clear();
+    return result;
   }
 
-  async revokeAuth(userId?: string): Promise<ApiResponse<{ message: string }>> {
-    return this.makeRequest<{ message: string }>('/auth/revoke', {
-      method: 'POST',
-      body: JSON.stringify({ userId }),
-    });
+  private updateConnection(result: ApiResponse<CanvaConnection>) {
+    if (result.success && result.data) {
+      this.connected = result.data.connected;
+    }
   }
 }
 
 export const canvaApiService = new CanvaApiService();
-
-// Initialize token from localStorage on startup
-if (typeof window !== 'undefined') {
-  const savedToken = localStorage.getItem('canva_access_token');
-  const savedRefreshToken = localStorage.getItem('canva_refresh_token');
-  
-  if (savedToken && savedRefreshToken) {
-    canvaApiService['accessToken'] = savedToken;
-    canvaApiService['refreshToken'] = savedRefreshToken;
-  }
-}
\ No newline at end of file
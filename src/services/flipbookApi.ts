@@ -4,11 +4,29 @@ import {
   CreateFlipbookRequest, 
   UpdateFlipbookRequest,
   FlipbookQuery,
-  FlipbookStatus 
+  FlipbookStatus,
+  PageMetadata,
+  CreatePageRequest,
+  UpdatePageRequest,
+  PageReorderRequest,
+  PageBatchUpdateRequest,
+  FlipbookAnalytics,
+  AnalyticsQuery,
+  ShareLink,
+  CreateShareLinkRequest,
+  RequestAccessRequest,
+  ImportJobState,
+  CanvaSyncStatus,
+  FlipbookVersion,
+  FlipbookVersionSummary,
+  FlipbookVersionDiff
 } from '../types/flipbook';
+import type { AccessToken } from '../hooks/useAccessControl';
+import type { QRCodeOptions } from '../utils/embedGenerator';
+import { authApiService } from './authApi';
 
 // Production에서는 같은 도메인을 사용하므로 빈 문자열 사용 (상대 경로)
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || (import.meta.env.PROD ? '' : 'http://localhost:3002');
+export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || (import.meta.env.PROD ? '' : 'http://localhost:3002');
 
 export interface ApiResponse<T> {
   success: boolean;
@@ -20,22 +38,80 @@ export interface ApiResponse<T> {
   };
 }
 
+// NestJS 백엔드는 엔티티를 그대로 반환하므로 { success, data } 형태로 맞춰줌
+export async function toApiResponse<T>(response: Response): Promise<ApiResponse<T>> {
+  const text = await response.text();
+  const body = text ? JSON.parse(text) : undefined;
+
+  if (body && typeof body === 'object' && 'success' in body) {
+    return body;
+  }
+
+  if (!response.ok) {
+    return {
+      success: false,
+      error: {
+        message: Array.isArray(body?.message) ? body.message.join(', ') : body?.message || response.statusText,
+        code: body?.code || `HTTP_${response.status}`,
+      },
+    };
+  }
+
+  return { success: true, data: body };
+}
+
+// 로그인한 사용자의 액세스 토큰은 authApiService가 Authorization 헤더로 붙임
 class FlipbookApiService {
+  private accessToken?: string;
+
+  // 공유 링크로 발급받은 접근 토큰
+  setAccessToken(token?: string) {
+    this.accessToken = token;
+  }
+
+  // 파일 응답(QR 코드, 내보내기)은 JSON이 아니므로 Blob으로 받음
+  private async requestBlob(endpoint: string): Promise<ApiResponse<Blob>> {
+    try {
+      const response = await authApiService.authorizedFetch(`${API_BASE_URL}/flipbooks${endpoint}`, {
+        headers: this.authHeaders(),
+      });
+
+      if (!response.ok) {
+        return toApiResponse<Blob>(response);
+      }
+      return { success: true, data: await response.blob() };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: error instanceof Error ? error.message : 'Network error',
+          code: 'NETWORK_ERROR',
+        },
+      };
+    }
+  }
+
+  private authHeaders(): Record<string, string> {
+    return {
+      ...(this.accessToken && { 'X-Access-Token': this.accessToken }),
+    };
+  }
+
   private async makeRequest<T>(
     endpoint: string, 
     options: RequestInit = {}
   ): Promise<ApiResponse<T>> {
     try {
-      const response = await fetch(`${API_BASE_URL}/flipbooks${endpoint}`, {
+      const response = await authApiService.authorizedFetch(`${API_BASE_URL}/flipbooks${endpoint}`, {
+        ...options,
         headers: {
           'Content-Type': 'application/json',
+          ...this.authHeaders(),
           ...options.headers,
         },
-        ...options,
       });
 
-      const data = await response.json();
-      return data;
+      return await toApiResponse<T>(response);
     } catch (error) {
       return {
         success: false,
@@ -81,6 +157,11 @@ class FlipbookApiService {
     return this.makeRequest<FlipbookMetadata>(`/${id}${params}`);
   }
 
+  // 이전 슬러그로 요청해도 응답의 slug는 현재 슬러그
+  async getFlipbookBySlug(slug: string): Promise<ApiResponse<FlipbookMetadata>> {
+    return this.makeRequest<FlipbookMetadata>(`/slug/${encodeURIComponent(slug)}`);
+  }
+
   async getFlipbookByCanvaId(
     canvaDesignId: string
   ): Promise<ApiResponse<FlipbookMetadata | null>> {
@@ -92,7 +173,7 @@ class FlipbookApiService {
     updateData: UpdateFlipbookRequest
   ): Promise<ApiResponse<FlipbookMetadata>> {
     return this.makeRequest<FlipbookMetadata>(`/${id}`, {
-      method: 'PUT',
+      method: 'PATCH',
       body: JSON.stringify(updateData),
     });
   }
@@ -102,36 +183,208 @@ class FlipbookApiService {
     status: FlipbookStatus
   ): Promise<ApiResponse<FlipbookMetadata>> {
     return this.makeRequest<FlipbookMetadata>(`/${id}/status`, {
-      method: 'PUT',
+      method: 'PATCH',
       body: JSON.stringify({ status }),
     });
   }
 
+  // 초안을 공개 리더에 반영 (이미 게시한 플립북은 변경 사항만 다시 게시)
+  async publishFlipbook(id: string): Promise<ApiResponse<FlipbookMetadata>> {
+    return this.makeRequest<FlipbookMetadata>(`/${id}/publish`, {
+      method: 'POST',
+    });
+  }
+
   async incrementViewCount(id: string): Promise<ApiResponse<void>> {
     return this.makeRequest<void>(`/${id}/view`, {
       method: 'POST',
     });
   }
 
+  async getAnalytics(
+    id: string,
+    query: AnalyticsQuery = {}
+  ): Promise<ApiResponse<FlipbookAnalytics>> {
+    const params = new URLSearchParams();
+    if (query.from) params.set('from', query.from);
+    if (query.to) params.set('to', query.to);
+    const queryString = params.toString();
+
+    return this.makeRequest<FlipbookAnalytics>(`/${id}/analytics${queryString ? `?${queryString}` : ''}`);
+  }
+
+  // 서버에서 렌더링한 QR 코드 파일 (url: 공유 옵션이 붙은 리더 주소, 생략 시 기본 /view/:slug)
+  async getQrCode(
+    id: string,
+    options: Partial<QRCodeOptions> & { url?: string } = {}
+  ): Promise<ApiResponse<Blob>> {
+    const params = new URLSearchParams();
+    Object.entries(options).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        params.set(key, String(value));
+      }
+    });
+
+    return this.requestBlob(`/${id}/qr?${params.toString()}`);
+  }
+
+  // 오프라인 HTML 패키지 (zip, file://로 실행)
+  async exportOfflineHtml(id: string): Promise<ApiResponse<Blob>> {
+    return this.requestBlob(`/${id}/export/html.zip`);
+  }
+
+  // 인쇄/보관용 PDF (textLayer: 페이지 텍스트를 검색 가능한 숨은 텍스트로 포함)
+  async exportPdf(id: string, options: { textLayer?: boolean } = {}): Promise<ApiResponse<Blob>> {
+    return this.requestBlob(`/${id}/export/pdf${options.textLayer ? '?textLayer=true' : ''}`);
+  }
+
+  // Canva 디자인을 다시 내보내 바뀐 페이지만 반영 (진행 상황은 importJobApiService로 확인, Canva 토큰은 서버가 계정에서 꺼내 씀)
+  async syncFromCanva(id: string): Promise<ApiResponse<ImportJobState>> {
+    return this.makeRequest<ImportJobState>(`/${id}/sync`, {
+      method: 'POST',
+    });
+  }
+
+  // 마지막 내보내기 이후 Canva 디자인이 수정되었는지 확인
+  async checkCanvaUpdate(id: string): Promise<ApiResponse<CanvaSyncStatus>> {
+    return this.makeRequest<CanvaSyncStatus>(`/${id}/sync/check`, {
+      method: 'POST',
+    });
+  }
+
+  // Version history
+  async getVersions(id: string): Promise<ApiResponse<FlipbookVersionSummary[]>> {
+    return this.makeRequest<FlipbookVersionSummary[]>(`/${id}/versions`);
+  }
+
+  async getVersion(id: string, version: number): Promise<ApiResponse<FlipbookVersion>> {
+    return this.makeRequest<FlipbookVersion>(`/${id}/versions/${version}`);
+  }
+
+  async diffVersions(id: string, from: number, to: number): Promise<ApiResponse<FlipbookVersionDiff>> {
+    return this.makeRequest<FlipbookVersionDiff>(`/${id}/versions/diff?from=${from}&to=${to}`);
+  }
+
+  // 버전을 초안으로 되돌림 (공개 리더에는 publishFlipbook 후 반영)
+  async restoreVersion(id: string, version: number): Promise<ApiResponse<FlipbookMetadata>> {
+    return this.makeRequest<FlipbookMetadata>(`/${id}/versions/${version}/restore`, {
+      method: 'POST',
+    });
+  }
+
   async deleteFlipbook(id: string): Promise<ApiResponse<void>> {
     return this.makeRequest<void>(`/${id}`, {
       method: 'DELETE',
     });
   }
 
+  // Page management
+  async getPages(flipbookId: string): Promise<ApiResponse<PageMetadata[]>> {
+    return this.makeRequest<PageMetadata[]>(`/${flipbookId}/pages`);
+  }
+
+  async addPage(
+    flipbookId: string,
+    pageData: CreatePageRequest
+  ): Promise<ApiResponse<PageMetadata>> {
+    return this.makeRequest<PageMetadata>(`/${flipbookId}/pages`, {
+      method: 'POST',
+      body: JSON.stringify(pageData),
+    });
+  }
+
+  async updatePage(
+    flipbookId: string,
+    pageId: string,
+    updateData: UpdatePageRequest
+  ): Promise<ApiResponse<PageMetadata>> {
+    return this.makeRequest<PageMetadata>(`/${flipbookId}/pages/${pageId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updateData),
+    });
+  }
+
+  async deletePage(flipbookId: string, pageId: string): Promise<ApiResponse<void>> {
+    return this.makeRequest<void>(`/${flipbookId}/pages/${pageId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async reorderPages(
+    flipbookId: string,
+    reorderData: PageReorderRequest
+  ): Promise<ApiResponse<PageMetadata[]>> {
+    return this.makeRequest<PageMetadata[]>(`/${flipbookId}/pages/reorder`, {
+      method: 'PUT',
+      body: JSON.stringify(reorderData),
+    });
+  }
+
+  async batchUpdatePages(
+    flipbookId: string,
+    batchData: PageBatchUpdateRequest
+  ): Promise<ApiResponse<PageMetadata[]>> {
+    return this.makeRequest<PageMetadata[]>(`/${flipbookId}/pages/batch`, {
+      method: 'PATCH',
+      body: JSON.stringify(batchData),
+    });
+  }
+
+  // Share links
+  async createShareLink(
+    flipbookId: string,
+    linkData: CreateShareLinkRequest
+  ): Promise<ApiResponse<ShareLink>> {
+    return this.makeRequest<ShareLink>(`/${flipbookId}/share-links`, {
+      method: 'POST',
+      body: JSON.stringify(linkData),
+    });
+  }
+
+  async getShareLinks(flipbookId: string): Promise<ApiResponse<ShareLink[]>> {
+    return this.makeRequest<ShareLink[]>(`/${flipbookId}/share-links`);
+  }
+
+  async revokeShareLink(flipbookId: string, linkId: string): Promise<ApiResponse<void>> {
+    return this.makeRequest<void>(`/${flipbookId}/share-links/${linkId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async requestAccess(
+    flipbookId: string,
+    accessData: RequestAccessRequest
+  ): Promise<ApiResponse<AccessToken>> {
+    return this.makeRequest<AccessToken>(`/${flipbookId}/access`, {
+      method: 'POST',
+      body: JSON.stringify(accessData),
+    });
+  }
+
+  async requestAccessBySlug(
+    slug: string,
+    accessData: RequestAccessRequest
+  ): Promise<ApiResponse<AccessToken>> {
+    return this.makeRequest<AccessToken>(`/slug/${encodeURIComponent(slug)}/access`, {
+      method: 'POST',
+      body: JSON.stringify(accessData),
+    });
+  }
+
   // Helper methods for common queries
+  // 로그인한 사용자의 플립북 (GET /flipbooks는 공개 플립북만 반환)
   async getMyFlipbooks(
-    userId: string, 
     page = 1, 
     limit = 20
   ): Promise<ApiResponse<FlipbookListResponse>> {
-    return this.getFlipbooks({
-      userId,
-      page,
-      limit,
+    const params = new URLSearchParams({
+      page: String(page),
+      limit: String(limit),
       sortBy: 'updatedAt',
       sortOrder: 'DESC',
     });
+
+    return this.makeRequest<FlipbookListResponse>(`/mine?${params.toString()}`);
   }
 
   async getPublishedFlipbooks(
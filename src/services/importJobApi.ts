@@ -0,0 +1,108 @@
+import { CreateImportJobRequest, ImportJobState, UploadImportJobRequest } from '../types/flipbook';
+import { API_BASE_URL, ApiResponse, toApiResponse } from './flipbookApi';
+import { authApiService } from './authApi';
+
+const POLL_INTERVAL = 1000;
+
+class ImportJobApiService {
+  private async makeRequest<T>(
+    endpoint: string,
+    options: RequestInit = {}
+  ): Promise<ApiResponse<T>> {
+    try {
+      // FormData는 브라우저가 boundary를 포함한 Content-Type을 직접 설정
+      const response = await authApiService.authorizedFetch(`${API_BASE_URL}/import-jobs${endpoint}`, {
+        headers: options.body instanceof FormData ? options.headers : {
+          'Content-Type': 'application/json',
+          ...options.headers,
+        },
+        ...options,
+      });
+
+      return await toApiResponse<T>(response);
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: error instanceof Error ? error.message : 'Network error',
+          code: 'NETWORK_ERROR',
+        },
+      };
+    }
+  }
+
+  async createImportJob(
+    jobData: CreateImportJobRequest
+  ): Promise<ApiResponse<ImportJobState>> {
+    return this.makeRequest<ImportJobState>('', {
+      method: 'POST',
+      body: JSON.stringify(jobData),
+    });
+  }
+
+  // PDF, 이미지 ZIP 또는 이미지 파일들을 올려 가져오기 작업 시작
+  async uploadImportJob(
+    request: UploadImportJobRequest
+  ): Promise<ApiResponse<ImportJobState>> {
+    const formData = new FormData();
+    request.files.forEach(file => formData.append('files', file));
+    if (request.title) formData.append('title', request.title);
+    if (request.description) formData.append('description', request.description);
+
+    return this.makeRequest<ImportJobState>('/upload', {
+      method: 'POST',
+      body: formData,
+    });
+  }
+
+  async getImportJob(jobId: string): Promise<ApiResponse<ImportJobState>> {
+    return this.makeRequest<ImportJobState>(`/${jobId}`);
+  }
+
+  // 작업이 끝날 때까지 폴링하며 진행 상황을 전달
+  async waitForImportJob(
+    jobId: string,
+    onProgress?: (state: ImportJobState) => void
+  ): Promise<ApiResponse<ImportJobState>> {
+    while (true) {
+      const result = await this.getImportJob(jobId);
+
+      if (!result.success || !result.data) {
+        return result;
+      }
+
+      onProgress?.(result.data);
+
+      if (result.data.status !== 'loading') {
+        return result;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+    }
+  }
+
+  // Server-Sent Events 구독 (반환된 함수로 구독 해제)
+  subscribeToImportJob(
+    jobId: string,
+    onUpdate: (state: ImportJobState) => void
+  ): () => void {
+    const source = new EventSource(`${API_BASE_URL}/import-jobs/${jobId}/events`);
+
+    source.onmessage = (event) => {
+      const state: ImportJobState = JSON.parse(event.data);
+      onUpdate(state);
+
+      if (state.status !== 'loading') {
+        source.close();
+      }
+    };
+
+    source.onerror = () => {
+      source.close();
+    };
+
+    return () => source.close();
+  }
+}
+
+export const importJobApiService = new ImportJobApiService();
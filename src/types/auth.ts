@@ -0,0 +1,24 @@
+export interface AuthUser {
+  id: string;
+  email: string;
+  name?: string;
+  createdAt: string;
+}
+
+// POST /auth/signup, /auth/login, /auth/refresh 응답 (토큰은 httpOnly 쿠키로만 전달됨)
+export interface AuthSession {
+  // 액세스 토큰 만료 시각 (ms)
+  expiresAt: number;
+  user: AuthUser;
+}
+
+export interface SignUpRequest {
+  email: string;
+  password: string;
+  name?: string;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
@@ -1,10 +1,19 @@
+import type { ViewAnalytics } from '../hooks/useViewTracking';
+import type { AccessPermission } from '../hooks/useAccessControl';
+
 export interface FlipbookMetadata {
   id: string;
   title: string;
   description?: string;
   userId?: string;
-  canvaDesignId: string;
+  sourceType?: FlipbookSourceType;
+  canvaDesignId?: string;
   canvaDesignUrl?: string;
+  // Canva 동기화 상태 (sourceOutdated: 마지막 내보내기 이후 디자인이 수정됨)
+  sourceUpdatedAt?: string;
+  lastSyncedAt?: string;
+  sourceOutdated?: boolean;
+  sourceCheckedAt?: string;
   status: FlipbookStatus;
   visibility: FlipbookVisibility;
   coverImageUrl?: string;
@@ -16,6 +25,9 @@ export interface FlipbookMetadata {
   settings?: FlipbookSettings;
   metadata?: FlipbookExtraMetadata;
   publishedAt?: string;
+  // 편집 중인 초안 버전과 공개 리더가 보여주는 버전 (다르면 게시하지 않은 변경 사항이 있음)
+  currentVersion?: number;
+  publishedVersion?: number;
   expiresAt?: string;
   createdAt: string;
   updatedAt: string;
@@ -47,6 +59,7 @@ export interface PageMetadata {
   processingTime?: number;
   storageKey?: string;
   cdnUrl?: string;
+  variants?: PageImageVariant[];
   isProcessed: boolean;
   errorMessage?: string;
   metadata?: PageExtraMetadata;
@@ -61,6 +74,22 @@ export interface PageMetadata {
   hasCustomDimensions: boolean;
 }
 
+export interface PageImageVariant {
+  width: number;
+  height: number;
+  format: 'webp' | 'jpeg';
+  key: string;
+  url: string;
+  size: number;
+}
+
+// 플립북을 만든 원본 (Canva 디자인 또는 업로드한 PDF/이미지)
+export enum FlipbookSourceType {
+  CANVA = 'canva',
+  PDF = 'pdf',
+  IMAGES = 'images',
+}
+
 export enum FlipbookStatus {
   DRAFT = 'draft',
   PROCESSING = 'processing',
@@ -135,8 +164,8 @@ export interface AnimationConfig {
 export interface CreateFlipbookRequest {
   title: string;
   description?: string;
-  userId?: string;
-  canvaDesignId: string;
+  sourceType?: FlipbookSourceType;
+  canvaDesignId?: string;
   canvaDesignUrl?: string;
   visibility?: FlipbookVisibility;
   coverImageUrl?: string;
@@ -147,26 +176,43 @@ export interface CreateFlipbookRequest {
 }
 
 export interface CreatePageRequest {
-  pageIndex: number;
-  title?: string;
+  title: string;
+  description?: string;
+  pageNumber: number;
   imageUrl: string;
   thumbnailUrl?: string;
-  originalWidth: number;
-  originalHeight: number;
-  displayWidth?: number;
-  displayHeight?: number;
-  fileSize: number;
-  mimeType: string;
-  transitionType?: PageTransitionType;
-  transitionDuration?: number;
+  width: number;
+  height: number;
+  fileSize?: number;
   orientation?: PageOrientation;
   backgroundColor?: string;
-  hasTransparency?: boolean;
-  qualityScore?: number;
+  transitionType?: PageTransitionType;
+  transitionDuration?: number;
   storageKey?: string;
   cdnUrl?: string;
   metadata?: PageExtraMetadata;
-  animations?: PageAnimations;
+}
+
+// storageKey, cdnUrl은 서버의 가져오기 파이프라인만 설정함
+export type UpdatePageRequest = Partial<Omit<CreatePageRequest, 'storageKey' | 'cdnUrl'>>;
+
+export interface PageReorderRequest {
+  pageIds: string[];
+}
+
+export interface PageBatchUpdateRequest {
+  pages: Array<{
+    id: string;
+    transitionType?: PageTransitionType;
+    transitionDuration?: number;
+    backgroundColor?: string;
+    animations?: {
+      inTransition?: PageTransitionType;
+      outTransition?: PageTransitionType;
+      duration?: number;
+      easing?: string;
+    };
+  }>;
 }
 
 export interface UpdateFlipbookRequest {
@@ -199,8 +245,206 @@ export interface FlipbookQuery {
   search?: string;
   status?: FlipbookStatus;
   visibility?: FlipbookVisibility;
-  userId?: string;
   isFeatured?: boolean;
   sortBy?: 'createdAt' | 'updatedAt' | 'viewCount' | 'title';
   sortOrder?: 'ASC' | 'DESC';
-}
\ No newline at end of file
+}
+export interface CreateImportJobRequest {
+  designId: string;
+  title?: string;
+  description?: string;
+  format?: 'PNG' | 'JPG';
+}
+
+// POST /import-jobs/upload (multipart) 요청 필드, files는 PDF 1개, 이미지 ZIP 또는 이미지 파일들
+export interface UploadImportJobRequest {
+  files: File[];
+  title?: string;
+  description?: string;
+}
+
+export type ImportJobType = 'import' | 'sync';
+
+// Canva 동기화 결과 페이지 수
+export interface CanvaSyncSummary {
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+}
+
+// POST /flipbooks/:id/sync/check 응답
+export interface CanvaSyncStatus {
+  flipbookId: string;
+  canvaDesignId: string;
+  designUpdatedAt?: string;
+  sourceUpdatedAt?: string;
+  lastSyncedAt?: string;
+  sourceCheckedAt?: string;
+  updateAvailable: boolean;
+}
+
+export interface ImportJobState {
+  jobId: string;
+  type: ImportJobType;
+  sourceType: FlipbookSourceType;
+  designId?: string;
+  flipbookId?: string;
+  status: 'loading' | 'success' | 'error';
+  progress: number;
+  currentStep?: string;
+  totalPages: number;
+  processedPages: number;
+  retryCount: number;
+  syncSummary?: CanvaSyncSummary;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+export type FlipbookVersionReason = 'create' | 'edit' | 'import' | 'sync' | 'publish' | 'restore';
+
+export interface FlipbookVersionSummary {
+  version: number;
+  reason: FlipbookVersionReason;
+  restoredFrom?: number;
+  pageCount: number;
+  isPublished: boolean;
+  publishedAt?: string;
+  createdAt: string;
+}
+
+export interface FlipbookVersion extends FlipbookVersionSummary {
+  snapshot: {
+    title: string;
+    description?: string;
+    settings?: FlipbookSettings;
+    metadata?: FlipbookExtraMetadata;
+    pages: Omit<PageMetadata, 'flipbookId' | 'pageIndex' | 'createdAt' | 'updatedAt'>[];
+  };
+}
+
+export interface VersionFieldChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface VersionPageRef {
+  pageId: string;
+  title: string;
+  pageNumber: number;
+}
+
+// GET /flipbooks/:id/versions/diff?from=&to= 응답
+export interface FlipbookVersionDiff {
+  from: number;
+  to: number;
+  fields: VersionFieldChange[];
+  pages: {
+    added: VersionPageRef[];
+    removed: VersionPageRef[];
+    reordered: (VersionPageRef & { fromPageNumber: number })[];
+    changed: (VersionPageRef & { changes: VersionFieldChange[] })[];
+  };
+}
+
+export interface AnalyticsQuery {
+  from?: string; // ISO 날짜
+  to?: string;
+}
+
+// GET /flipbooks/:id/analytics 응답 (ViewAnalytics + 대시보드용 항목, 시간 단위는 ms)
+// 추적 ID 또는 임베드 도메인별 임베드 통계
+export interface EmbedStats {
+  key: string;
+  views: number;
+  uniqueViews: number;
+  interactions: number;
+}
+
+export interface EmbedAnalytics {
+  views: number;
+  uniqueViews: number;
+  interactions: number;
+  byTrackingId: EmbedStats[];
+  byDomain: EmbedStats[];
+}
+
+export interface FlipbookAnalytics extends ViewAnalytics {
+  flipbookId: string;
+  from: string;
+  to: string;
+  conversionRate: number;
+  languageBreakdown: Record<string, number>;
+  viewsOverTime: { date: string; views: number; uniqueViews: number; embedViews: number }[];
+  pageAttention: { pageIndex: number; views: number; averageTime: number }[];
+  dropOff: { pageIndex: number; readers: number }[];
+  // 외부 사이트 임베드 조회 (totalViews와 별도 집계)
+  embeds: EmbedAnalytics;
+}
+
+export type AccessAction = AccessPermission['action'];
+
+export interface CreateShareLinkRequest {
+  label?: string;
+  password?: string;
+  expiresAt?: string; // ISO 날짜
+  maxViews?: number;
+  permissions?: AccessAction[];
+}
+
+// 공유 링크 (token 원문은 생성 응답에만 포함)
+export interface ShareLink {
+  id: string;
+  flipbookId: string;
+  label?: string;
+  tokenPrefix: string;
+  token?: string;
+  hasPassword: boolean;
+  permissions: AccessAction[];
+  expiresAt?: string;
+  maxViews?: number;
+  viewCount: number;
+  lastUsedAt?: string;
+  revokedAt?: string;
+  createdAt: string;
+}
+
+export interface RequestAccessRequest {
+  token: string;
+  password?: string;
+  action?: AccessAction;
+}
+
+// 오프라인 HTML 패키지(GET /flipbooks/:id/export/html.zip)의 manifest.json / manifest.js
+export interface OfflineManifestPage {
+  pageIndex: number;
+  title?: string;
+  // 페이지 이미지를 data URI로 등록하는 스크립트 (file://에서는 WebGL 텍스처로 이미지 파일을 읽을 수 없음)
+  script: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  transitionType: PageTransitionType;
+  transitionDuration: number;
+  backgroundColor?: string;
+  hasTransparency: boolean;
+}
+
+export interface OfflineManifest {
+  version: 1;
+  exportedAt: string;
+  flipbook: {
+    id: string;
+    title: string;
+    description?: string;
+    slug: string;
+    pageCount: number;
+    settings: FlipbookSettings;
+  };
+  pages: OfflineManifestPage[];
+  // 패키지에 포함된 사운드 파일 (파일명 → 상대 경로)
+  sounds: Record<string, string>;
+}
@@ -0,0 +1,62 @@
+/**
+ * 플립북 분석 데이터 CSV 내보내기 유틸리티
+ */
+
+import { FlipbookAnalytics } from '../types/flipbook';
+
+const escapeCsv = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toRows = (header: string[], rows: (string | number)[][]): string[] =>
+  [header, ...rows].map(row => row.map(escapeCsv).join(','));
+
+const breakdownRows = (breakdown: Record<string, number>): (string | number)[][] =>
+  Object.entries(breakdown).sort(([, a], [, b]) => b - a);
+
+// 섹션별 표를 빈 줄로 구분해 하나의 CSV로 만듦 (스프레드시트에서 바로 열 수 있도록)
+export function buildAnalyticsCsv(analytics: FlipbookAnalytics): string {
+  const sections: string[][] = [
+    toRows(['metric', 'value'], [
+      ['from', analytics.from],
+      ['to', analytics.to],
+      ['totalViews', analytics.totalViews],
+      ['uniqueViews', analytics.uniqueViews],
+      ['averageSessionTimeMs', analytics.averageSessionTime],
+      ['averagePageTimeMs', analytics.averagePageTime],
+      ['completionRate', analytics.conversionRate.toFixed(4)],
+      ['embedViews', analytics.embeds.views],
+      ['uniqueEmbedViews', analytics.embeds.uniqueViews],
+      ['embedInteractions', analytics.embeds.interactions]
+    ]),
+    toRows(['date', 'views', 'uniqueViews', 'embedViews'],
+      analytics.viewsOverTime.map(day => [day.date, day.views, day.uniqueViews, day.embedViews])),
+    toRows(['pageNumber', 'views', 'averageTimeMs'],
+      analytics.pageAttention.map(page => [page.pageIndex + 1, page.views, page.averageTime])),
+    toRows(['pageNumber', 'readers'],
+      analytics.dropOff.map(step => [step.pageIndex + 1, step.readers])),
+    toRows(['device', 'sessions'], breakdownRows(analytics.deviceBreakdown)),
+    toRows(['referrer', 'sessions'], breakdownRows(analytics.referrerBreakdown)),
+    toRows(['language', 'sessions'], breakdownRows(analytics.languageBreakdown)),
+    toRows(['trackingId', 'embedViews', 'uniqueEmbedViews', 'interactions'],
+      analytics.embeds.byTrackingId.map(row => [row.key, row.views, row.uniqueViews, row.interactions])),
+    toRows(['embedDomain', 'embedViews', 'uniqueEmbedViews', 'interactions'],
+      analytics.embeds.byDomain.map(row => [row.key, row.views, row.uniqueViews, row.interactions]))
+  ];
+
+  return sections.map(section => section.join('\n')).join('\n\n');
+}
+
+export function downloadAnalyticsCsv(analytics: FlipbookAnalytics, filename: string): void {
+  // Excel에서 한글이 깨지지 않도록 BOM 추가
+  const blob = new Blob(['\uFEFF', buildAnalyticsCsv(analytics)], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
@@ -17,8 +17,8 @@ export interface EmbedOptions {
 
 export interface QRCodeOptions {
   size: number; // 픽셀 크기
-  format: 'png' | 'jpg' | 'svg';
-  errorCorrectionLevel: 'L' | 'M' | 'Q' | 'H';
+  format: 'png' | 'svg' | 'pdf';
+  errorCorrectionLevel: 'L' | 'M' | 'Q' | 'H'; // 로고가 있으면 서버에서 H로 고정
   margin: number;
   darkColor: string;
   lightColor: string;
@@ -90,7 +90,7 @@ class EmbedGenerator {
     const queryString = params.toString();
     const baseUrl = opts.customDomain || this.baseUrl;
     
-    return `${baseUrl}/flipbook/${flipbookSlug}${queryString ? `?${queryString}` : ''}`;
+    return `${baseUrl}/view/${encodeURIComponent(flipbookSlug)}${queryString ? `?${queryString}` : ''}`;
   }
 
   // iFrame 임베드 코드 생성
@@ -142,7 +142,13 @@ class EmbedGenerator {
     return `<iframe ${attributes.join(' ')}></iframe>`;
   }
 
+  // 빌드 시 함께 배포되는 임베드 SDK (embedSdk.ts) 주소
+  getSdkUrl(): string {
+    return `${this.baseUrl}/embed-sdk.js`;
+  }
+
   // JavaScript 임베드 코드 생성 (고급 옵션)
+  // 생성된 SDK 클라이언트는 container.flipbook으로 접근 (next(), goToPage(), on('pagechange', ...) 등)
   generateJavaScriptEmbed(
     flipbookSlug: string,
     containerId: string,
@@ -153,40 +159,30 @@ class EmbedGenerator {
 
     return `
 <div id="${containerId}"></div>
-<script>
-(function() {
-  var container = document.getElementById('${containerId}');
-  if (!container) {
-    console.error('Container element not found: ${containerId}');
-    return;
-  }
-  
+<script type="module">
+import { FlipbookEmbedClient } from '${this.getSdkUrl()}';
+
+var container = document.getElementById('${containerId}');
+if (!container) {
+  console.error('Container element not found: ${containerId}');
+} else {
   var iframe = document.createElement('iframe');
   iframe.src = '${shareUrl}';
   iframe.width = '${opts.responsive ? '100%' : opts.width}';
   iframe.height = '${opts.responsive ? '100%' : opts.height}';
   iframe.style.border = '${opts.border ? '1px solid #ddd' : 'none'}';
   iframe.style.maxWidth = '${opts.width}px';
-  iframe.style.maxHeight = '${opts.height}px';
+  ${opts.responsive ? '' : `iframe.style.maxHeight = '${opts.height}px';`}
   iframe.title = 'Flipbook - ${flipbookSlug}';
   iframe.loading = 'lazy';
   iframe.scrolling = 'no';
   ${opts.allowFullscreen ? 'iframe.allowFullscreen = true;' : ''}
-  
+
   container.appendChild(iframe);
-  
-  // 반응형 리사이즈 (옵션)
-  ${opts.responsive ? `
-  function resizeIframe() {
-    var containerWidth = container.offsetWidth;
-    var aspectRatio = ${opts.height} / ${opts.width};
-    iframe.style.height = (containerWidth * aspectRatio) + 'px';
-  }
-  
-  window.addEventListener('resize', resizeIframe);
-  resizeIframe();
-  ` : ''}
-})();
+
+  // 반응형인 경우 리더가 보내는 resize 이벤트로 페이지 비율에 맞게 높이 조절
+  container.flipbook = new FlipbookEmbedClient(iframe, { autoResize: ${opts.responsive} });
+}
 </script>`;
   }
 
@@ -215,6 +211,7 @@ class EmbedGenerator {
   }
 
   // React/Vue 컴포넌트 코드 생성
+  // ref로 SDK 클라이언트 명령(next, prev, goToPage, play, pause, setTheme)을 호출하고 이벤트는 props로 받음
   generateReactComponent(
     flipbookSlug: string,
     options: Partial<EmbedOptions & ShareLinkOptions> = {}
@@ -223,18 +220,55 @@ class EmbedGenerator {
     const opts = { ...DEFAULT_EMBED_OPTIONS, ...options };
 
     return `
-import React from 'react';
+import React, { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+
+const SDK_URL = '${this.getSdkUrl()}';
+
+const FlipbookEmbed = forwardRef(({ onReady, onPageChange, onComplete }, ref) => {
+  const iframeRef = useRef(null);
+  const clientRef = useRef(null);
+  const handlersRef = useRef({ onReady, onPageChange, onComplete });
+  handlersRef.current = { onReady, onPageChange, onComplete };
+
+  useEffect(() => {
+    let client;
+    let cancelled = false;
+
+    import(/* webpackIgnore: true */ /* @vite-ignore */ SDK_URL).then(({ FlipbookEmbedClient }) => {
+      if (cancelled || !iframeRef.current) return;
+      client = new FlipbookEmbedClient(iframeRef.current, { autoResize: ${opts.responsive} });
+      client.on('ready', (info) => handlersRef.current.onReady?.(info));
+      client.on('pagechange', (event) => handlersRef.current.onPageChange?.(event.page, event));
+      client.on('complete', (event) => handlersRef.current.onComplete?.(event));
+      clientRef.current = client;
+    });
+
+    return () => {
+      cancelled = true;
+      client?.destroy();
+      clientRef.current = null;
+    };
+  }, []);
+
+  useImperativeHandle(ref, () => ({
+    goToPage: (page) => clientRef.current?.goToPage(page),
+    next: () => clientRef.current?.next(),
+    prev: () => clientRef.current?.prev(),
+    play: () => clientRef.current?.play(),
+    pause: () => clientRef.current?.pause(),
+    setTheme: (theme) => clientRef.current?.setTheme(theme)
+  }), []);
 
-const FlipbookEmbed = () => {
   return (
     <iframe
+      ref={iframeRef}
       src="${shareUrl}"
       width="${opts.responsive ? '100%' : opts.width}"
       height="${opts.responsive ? '100%' : opts.height}"
       style={{
         border: '${opts.border ? '1px solid #ddd' : 'none'}',
-        maxWidth: '${opts.width}px',
-        maxHeight: '${opts.height}px'
+        maxWidth: '${opts.width}px'${opts.responsive ? '' : `,
+        maxHeight: '${opts.height}px'`}
       }}
       title="Flipbook - ${flipbookSlug}"
       loading="lazy"
@@ -242,7 +276,7 @@ const FlipbookEmbed = () => {
       ${opts.allowFullscreen ? 'allowFullScreen' : ''}
     />
   );
-};
+});
 
 export default FlipbookEmbed;`;
   }
@@ -341,11 +375,13 @@ export default FlipbookEmbed;`;
   generateTrackingCode(flipbookSlug: string, trackingId?: string): string {
     if (!trackingId) return '';
 
+    const trackingUrl = `${this.baseUrl}/api/flipbooks/${encodeURIComponent(flipbookSlug)}`;
+
     return `
 <script>
 (function() {
   // 임베드 조회 추적
-  fetch('${this.baseUrl}/api/flipbooks/${flipbookSlug}/embed-view', {
+  fetch('${trackingUrl}/embed-view', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({
@@ -357,8 +393,8 @@ export default FlipbookEmbed;`;
   
   // 사용자 상호작용 추적
   document.addEventListener('click', function(e) {
-    if (e.target.tagName === 'IFRAME' && e.target.src.includes('${flipbookSlug}')) {
-      fetch('${this.baseUrl}/api/flipbooks/${flipbookSlug}/embed-interaction', {
+    if (e.target.tagName === 'IFRAME' && e.target.src.includes('${encodeURIComponent(flipbookSlug)}')) {
+      fetch('${trackingUrl}/embed-interaction', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -374,6 +410,23 @@ export default FlipbookEmbed;`;
   }
 }
 
+// generateShareLink가 만든 쿼리 파라미터를 다시 옵션으로 해석 (/view/:slug 리더에서 사용)
+export const parseShareLinkParams = (
+  params: URLSearchParams
+): Omit<ShareLinkOptions, 'customDomain'> => {
+  const startPage = parseInt(params.get('start') || '', 10);
+  const theme = params.get('theme');
+
+  return {
+    includeControls: params.get('controls') !== 'false',
+    autoPlay: params.get('autoplay') === 'true',
+    startPage: Number.isFinite(startPage) && startPage > 0 ? startPage : 0,
+    theme: theme === 'light' || theme === 'dark' ? theme : 'auto',
+    hideNavigation: params.get('nav') === 'false',
+    hideProgress: params.get('progress') === 'false'
+  };
+};
+
 // 싱글톤 인스턴스 생성
 let embedGeneratorInstance: EmbedGenerator | null = null;
 
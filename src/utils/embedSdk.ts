@@ -0,0 +1,188 @@
+/**
+ * 플립북 임베드 SDK
+ * 호스트 페이지에서 /view/:slug iframe을 postMessage로 제어하고 이벤트를 구독
+ *
+ * 빌드 시 /embed-sdk.js로도 배포되므로 다른 모듈을 import하지 않음
+ */
+
+export const EMBED_PROTOCOL = 'flipcanva:embed';
+// 호환되지 않는 메시지 형식 변경 시 올림 (버전이 다른 메시지는 무시)
+export const EMBED_PROTOCOL_VERSION = 1;
+
+export type EmbedTheme = 'light' | 'dark' | 'auto';
+
+// 호스트 → 리더 명령 (page는 0부터 시작하는 페이지 인덱스)
+export type EmbedCommand =
+  | { type: 'goToPage'; page: number }
+  | { type: 'next' }
+  | { type: 'prev' }
+  | { type: 'play' }
+  | { type: 'pause' }
+  | { type: 'setTheme'; theme: EmbedTheme };
+
+// 리더 → 호스트 이벤트
+export interface EmbedEventMap {
+  ready: { slug: string; title: string; pageCount: number; currentPage: number };
+  pagechange: { page: number; pageCount: number };
+  complete: { pageCount: number };
+  // 현재 너비에서 페이지 비율을 유지하는 데 필요한 높이 (px)
+  resize: { width: number; height: number };
+}
+
+export type EmbedEventType = keyof EmbedEventMap;
+
+export type EmbedEvent = {
+  [K in EmbedEventType]: { type: K } & EmbedEventMap[K];
+}[EmbedEventType];
+
+export interface EmbedMessage<T> {
+  protocol: typeof EMBED_PROTOCOL;
+  version: number;
+  payload: T;
+}
+
+export function createEmbedMessage<T extends EmbedCommand | EmbedEvent>(payload: T): EmbedMessage<T> {
+  return { protocol: EMBED_PROTOCOL, version: EMBED_PROTOCOL_VERSION, payload };
+}
+
+export function isEmbedMessage(data: unknown): data is EmbedMessage<{ type: string }> {
+  if (!data || typeof data !== 'object') return false;
+
+  const message = data as Partial<EmbedMessage<{ type?: unknown }>>;
+  return (
+    message.protocol === EMBED_PROTOCOL &&
+    message.version === EMBED_PROTOCOL_VERSION &&
+    typeof message.payload?.type === 'string'
+  );
+}
+
+export interface FlipbookEmbedClientOptions {
+  // 리더 origin (기본값: iframe src의 origin)
+  targetOrigin?: string;
+  // resize 이벤트에 맞춰 iframe 높이 자동 조절
+  autoResize?: boolean;
+}
+
+type EmbedEventHandler<K extends EmbedEventType> = (data: EmbedEventMap[K]) => void;
+
+export class FlipbookEmbedClient {
+  private readonly iframe: HTMLIFrameElement;
+  private readonly targetOrigin: string;
+  private readonly handlers = new Map<EmbedEventType, Set<EmbedEventHandler<any>>>();
+  // ready 이전에 보낸 명령은 리더가 메시지를 받을 수 있을 때까지 보관
+  private pendingCommands: EmbedCommand[] = [];
+  private readyInfo: EmbedEventMap['ready'] | null = null;
+  private page = 0;
+
+  constructor(iframe: HTMLIFrameElement, options: FlipbookEmbedClientOptions = {}) {
+    this.iframe = iframe;
+    this.targetOrigin = options.targetOrigin || new URL(iframe.src, window.location.href).origin;
+
+    window.addEventListener('message', this.handleMessage);
+
+    if (options.autoResize) {
+      this.on('resize', ({ height }) => {
+        this.iframe.style.height = `${height}px`;
+      });
+    }
+  }
+
+  get isReady(): boolean {
+    return this.readyInfo !== null;
+  }
+
+  get currentPage(): number {
+    return this.page;
+  }
+
+  get pageCount(): number {
+    return this.readyInfo?.pageCount ?? 0;
+  }
+
+  on<K extends EmbedEventType>(type: K, handler: EmbedEventHandler<K>): () => void {
+    if (!this.handlers.has(type)) {
+      this.handlers.set(type, new Set());
+    }
+    this.handlers.get(type)!.add(handler);
+
+    // 이미 준비된 뒤에 ready를 구독하면 바로 호출
+    if (type === 'ready' && this.readyInfo) {
+      (handler as EmbedEventHandler<'ready'>)(this.readyInfo);
+    }
+
+    return () => this.off(type, handler);
+  }
+
+  off<K extends EmbedEventType>(type: K, handler: EmbedEventHandler<K>): void {
+    this.handlers.get(type)?.delete(handler);
+  }
+
+  ready(): Promise<EmbedEventMap['ready']> {
+    return new Promise((resolve) => {
+      const unsubscribe = this.on('ready', (info) => {
+        queueMicrotask(() => unsubscribe());
+        resolve(info);
+      });
+    });
+  }
+
+  goToPage(page: number): void {
+    this.send({ type: 'goToPage', page });
+  }
+
+  next(): void {
+    this.send({ type: 'next' });
+  }
+
+  prev(): void {
+    this.send({ type: 'prev' });
+  }
+
+  play(): void {
+    this.send({ type: 'play' });
+  }
+
+  pause(): void {
+    this.send({ type: 'pause' });
+  }
+
+  setTheme(theme: EmbedTheme): void {
+    this.send({ type: 'setTheme', theme });
+  }
+
+  destroy(): void {
+    window.removeEventListener('message', this.handleMessage);
+    this.handlers.clear();
+    this.pendingCommands = [];
+  }
+
+  private send(command: EmbedCommand): void {
+    if (!this.readyInfo) {
+      this.pendingCommands.push(command);
+      return;
+    }
+    this.iframe.contentWindow?.postMessage(createEmbedMessage(command), this.targetOrigin);
+  }
+
+  private handleMessage = (event: MessageEvent): void => {
+    if (event.source !== this.iframe.contentWindow || event.origin !== this.targetOrigin) return;
+    if (!isEmbedMessage(event.data)) return;
+
+    const { type, ...data } = event.data.payload as EmbedEvent;
+
+    if (type === 'ready') {
+      this.readyInfo = data as EmbedEventMap['ready'];
+      this.page = this.readyInfo.currentPage;
+    } else if (type === 'pagechange') {
+      this.page = (data as EmbedEventMap['pagechange']).page;
+    }
+
+    this.handlers.get(type)?.forEach((handler) => handler(data));
+
+    if (type === 'ready' && this.pendingCommands.length > 0) {
+      const commands = this.pendingCommands;
+      this.pendingCommands = [];
+      commands.forEach((command) => this.send(command));
+    }
+  };
+}
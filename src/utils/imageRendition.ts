@@ -0,0 +1,78 @@
+/**
+ * 백엔드 /assets 렌디션 URL 생성 유틸리티
+ * 기기 품질 설정(QualitySettings)에 맞는 크기/품질/포맷의 이미지를 서버에서 받아옴
+ */
+
+import type { QualitySettings } from '../hooks/useAdaptiveQuality';
+
+export type ImageRenditionFormat = 'webp' | 'avif' | 'jpg' | 'png';
+
+export interface ImageRenditionOptions {
+  width?: number;
+  height?: number;
+  quality?: number; // 0-1
+  format?: ImageRenditionFormat;
+}
+
+// 렌디션 용도: 일반 이미지(<img>) 또는 WebGL 텍스처
+export type ImageRenditionUsage = 'image' | 'texture';
+
+// 백엔드 렌디션 파라미터 상한 (ImageRenditionQueryDto와 동일)
+const MAX_RENDITION_DIMENSION = 4096;
+
+const clampDimension = (size: number) =>
+  Math.max(1, Math.min(Math.round(size), MAX_RENDITION_DIMENSION));
+
+// 백엔드 저장소에서 제공하는 이미지만 렌디션 파라미터를 이해함 (외부 서명 URL 등은 그대로 사용)
+export function isRenditionSource(src: string): boolean {
+  if (!src || src.startsWith('data:') || src.startsWith('blob:')) {
+    return false;
+  }
+
+  try {
+    return new URL(src, window.location.origin).pathname.includes('/assets/');
+  } catch {
+    return false;
+  }
+}
+
+export function getImageRenditionUrl(src: string, options: ImageRenditionOptions): string {
+  if (!isRenditionSource(src)) {
+    return src;
+  }
+
+  const url = new URL(src, window.location.origin);
+  const { width, height, quality, format } = options;
+
+  if (width) url.searchParams.set('w', clampDimension(width).toString());
+  if (height) url.searchParams.set('h', clampDimension(height).toString());
+  if (quality !== undefined) {
+    url.searchParams.set('q', Math.max(1, Math.min(Math.round(quality * 100), 100)).toString());
+  }
+  if (format) url.searchParams.set('f', format);
+
+  return url.toString();
+}
+
+// 텍스처는 textureQuality만큼 더 줄여서 요청 (GPU 메모리 절약), 이미지는 최대 크기까지 허용
+export function getQualityRenditionOptions(
+  settings: Pick<QualitySettings, 'textureQuality' | 'imageCompression' | 'maxImageWidth' | 'maxImageHeight'>,
+  usage: ImageRenditionUsage = 'image'
+): ImageRenditionOptions {
+  const scale = usage === 'texture' ? settings.textureQuality : 1;
+
+  return {
+    width: settings.maxImageWidth * scale,
+    height: settings.maxImageHeight * scale,
+    quality: settings.imageCompression,
+    format: 'webp'
+  };
+}
+
+export function getQualityRenditionUrl(
+  src: string,
+  settings: Pick<QualitySettings, 'textureQuality' | 'imageCompression' | 'maxImageWidth' | 'maxImageHeight'>,
+  usage: ImageRenditionUsage = 'image'
+): string {
+  return getImageRenditionUrl(src, getQualityRenditionOptions(settings, usage));
+}
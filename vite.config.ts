@@ -11,6 +11,17 @@ export default defineConfig({
   },
   build: {
     outDir: 'dist',
-    assetsDir: 'assets'
+    assetsDir: 'assets',
+    rollupOptions: {
+      // 임베드 SDK는 호스트 페이지가 import할 수 있도록 고정된 이름(/embed-sdk.js)으로 함께 배포
+      input: {
+        main: 'index.html',
+        'embed-sdk': 'src/utils/embedSdk.ts'
+      },
+      preserveEntrySignatures: 'exports-only',
+      output: {
+        entryFileNames: (chunk) => chunk.name === 'embed-sdk' ? 'embed-sdk.js' : 'assets/[name]-[hash].js'
+      }
+    }
   }
-})
\ No newline at end of file
+})
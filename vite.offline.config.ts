@@ -0,0 +1,23 @@
+import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+
+// 오프라인 HTML 패키지용 리더 빌드
+// file://에서는 ES 모듈 스크립트가 로드되지 않으므로 단일 IIFE 스크립트와 CSS로 번들링
+export default defineConfig({
+  plugins: [react()],
+  define: {
+    'process.env.NODE_ENV': JSON.stringify('production')
+  },
+  build: {
+    outDir: 'dist-offline',
+    emptyOutDir: true,
+    copyPublicDir: false,
+    lib: {
+      entry: 'src/offline.tsx',
+      name: 'FlipCanvaOfflineReader',
+      formats: ['iife'],
+      fileName: () => 'offline-reader.js',
+      cssFileName: 'offline-reader'
+    }
+  }
+})